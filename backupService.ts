@@ -17,12 +17,34 @@ export const performFullBackup = async () => {
             ...doc.data()
         }));
 
+        // Rows live in each day's accounting_rows subcollection
+        const rowSnapshot = await db.collectionGroup('accounting_rows').get();
+        const accountingRows = rowSnapshot.docs.map(doc => ({
+            id: doc.id,
+            ...doc.data()
+        }));
+
+        const planSnapshot = await db.collection('treatment_plans').get();
+        const treatmentPlans = planSnapshot.docs.map(doc => ({
+            id: doc.id,
+            ...doc.data()
+        }));
+
+        const receiptSnapshot = await db.collection('receipts').get();
+        const receipts = receiptSnapshot.docs.map(doc => ({
+            id: doc.id,
+            ...doc.data()
+        }));
+
         // 3. Bundle Data
         const backupBundle = {
             timestamp: new Date().toISOString(),
-            version: '1.0',
+            version: '1.3',
             appData,
-            dailyAccounting: accountingRecords
+            dailyAccounting: accountingRecords,
+            accountingRows,
+            treatmentPlans,
+            receipts
         };
 
         // 4. Trigger Download
@@ -1,16 +1,21 @@
 
 import React, { useEffect, useState, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Clinic, Doctor, DailySchedule, Consultant, StaffScheduleConfig, Laboratory } from '../types';
-import { listEvents, initGoogleClient, authorizeCalendar, getConnectedCalendarEmail } from '../services/googleCalendar';
+import { Clinic, Doctor, DailySchedule, Consultant, StaffScheduleConfig, Laboratory, OperatoryAssignment, WaitlistEntry } from '../types';
+import { getCalendarProvider, moveAppointment } from '../services/calendarProvider';
 import { parseCalendarEvent } from '../utils/eventParser';
-import { Patient, db } from '../services/firebase';
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, RefreshCw, Building2, Filter, Briefcase, Check, LayoutGrid, Columns, Search, PlugZap } from 'lucide-react';
+import { checkAppointmentSlot, snapToSlot, formatTimeRange, getOpenWindows, buildChairDayStats, findDoctorGaps, matchWaitlist, ScheduleGap } from '../utils/appointments';
+import { Patient, db, subscribeOperatoryAssignments, setOperatoryAssignment, subscribeWaitlist, updateWaitlistStatus } from '../services/firebase';
+import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, RefreshCw, Building2, Filter, Briefcase, Check, LayoutGrid, Columns, Search, PlugZap, CalendarPlus, Pencil, Armchair, AlertTriangle, BellRing, ListPlus, Hourglass } from 'lucide-react';
 import { StaffScheduleModal } from './StaffScheduleModal';
 import { PatientHistoryModal } from './PatientHistoryModal';
 import { PatientSearch } from './PatientSearch';
+import { AppointmentEditorModal, EditableAppointment } from './AppointmentEditorModal';
+import { ReminderModal } from './ReminderModal';
+import { WaitlistModal } from './WaitlistModal';
 import { ClinicSelector } from './ClinicSelector';
 import { useClinic } from '../contexts/ClinicContext';
+import { useAuth } from '../contexts/AuthContext';
 
 interface Props {
   clinics: Clinic[];
@@ -30,6 +35,7 @@ interface AppEvent {
   color: string;
   allDay: boolean;
   calendarId?: string; 
+  description?: string;
 }
 
 interface VisualEvent extends AppEvent {
@@ -62,6 +68,7 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
   const navigate = useNavigate();
   // Global Clinic State
   const { selectedClinicId, selectedClinic } = useClinic();
+  const { currentUser } = useAuth();
   
   // Initialize to strictly midnight local time of today
   const [currentDate, setCurrentDate] = useState(() => {
@@ -80,7 +87,7 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
   const [realtimeSchedules, setRealtimeSchedules] = useState<DailySchedule[]>([]);
 
   // --- View & Filter State ---
-  const [viewMode, setViewMode] = useState<'day' | 'week' | 'search'>('day');
+  const [viewMode, setViewMode] = useState<'day' | 'week' | 'chair' | 'search'>('day');
   const [showPublicEvents, setShowPublicEvents] = useState(true);
 
   // New Filter Logic: Exclusive Selection
@@ -94,6 +101,18 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
+  // Appointment Editor State (new booking when `appointment` is empty)
+  const [editor, setEditor] = useState<{ appointment?: EditableAppointment; slot?: NonNullable<React.ComponentProps<typeof AppointmentEditorModal>['initialSlot']>; waitlistEntryId?: string } | null>(null);
+  const [isReminderOpen, setIsReminderOpen] = useState(false);
+  // Waitlist of the clinic and the gap suggestions drawn from it
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [isWaitlistOpen, setIsWaitlistOpen] = useState(false);
+  const [showGaps, setShowGaps] = useState(false);
+  // Chair each appointment on screen is in, keyed by event id
+  const [assignments, setAssignments] = useState<Record<string, OperatoryAssignment>>({});
+  // Event being dragged and where in it the pointer grabbed it
+  const dragRef = useRef<{ event: AppEvent; grabOffsetY: number } | null>(null);
+
   // Time Line State
   const [now, setNow] = useState(new Date());
   
@@ -134,9 +153,15 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
     return () => unsubscribe();
   }, [selectedClinicId]);
 
-  // 1. Init Google Client
+  // 1. Init the clinic's calendar provider
+  const calendarProvider = useMemo(
+    () => getCalendarProvider(selectedClinic?.calendarProvider),
+    [selectedClinic?.calendarProvider?.type, selectedClinic?.calendarProvider?.serverUrl]
+  );
+
   useEffect(() => {
-    initGoogleClient(
+    setIsGapiReady(false);
+    calendarProvider.connect(
       () => setIsGapiReady(true),
       (status) => {
         setIsLoggedIn(status);
@@ -145,11 +170,11 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
            setConnectedEmail(null);
         } else {
            setErrorMsg(null);
-           getConnectedCalendarEmail().then(email => setConnectedEmail(email));
+           calendarProvider.getAccountLabel().then(email => setConnectedEmail(email));
         }
       }
     );
-  }, []);
+  }, [calendarProvider]);
 
   // 2. Timer for "Current Time" line
   useEffect(() => {
@@ -173,6 +198,24 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
 
   const weekDays = useMemo(() => getWeekDays(currentDate), [currentDate]);
 
+  // Chair assignments of the days on screen
+  useEffect(() => {
+    if (!selectedClinicId || viewMode === 'search') {
+        setAssignments({});
+        return;
+    }
+    const days = viewMode === 'week' ? weekDays : [currentDate];
+    return subscribeOperatoryAssignments(selectedClinicId, toLocalISODate(days[0]), toLocalISODate(days[days.length - 1]), setAssignments);
+  }, [selectedClinicId, currentDate, viewMode]);
+
+  useEffect(() => {
+    if (!selectedClinicId) {
+        setWaitlist([]);
+        return;
+    }
+    return subscribeWaitlist(selectedClinicId, setWaitlist);
+  }, [selectedClinicId]);
+
   // 3. Auto-Scroll to Now logic
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -234,7 +277,7 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
 
         const promises = linkedDocs.map(async (doc) => {
             const calendarId = mapping[doc.id];
-            const googleEvents = await listEvents(calendarId, start, end);
+            const googleEvents = await calendarProvider.listEvents(calendarId, start, end);
             return googleEvents.map(ev => ({
                 id: ev.id,
                 title: ev.summary,
@@ -243,14 +286,15 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                 doctorId: doc.id,
                 color: doc.avatarBgColor || doc.color || '#3b82f6',
                 allDay: ev.allDay ?? !ev.start.dateTime,
-                calendarId: calendarId
+                calendarId: calendarId,
+                description: ev.description
             }));
         });
 
         const clinicCalId = mapping[CLINIC_SHARED_ID];
         if (clinicCalId) {
              promises.push((async () => {
-                 const googleEvents = await listEvents(clinicCalId, start, end);
+                 const googleEvents = await calendarProvider.listEvents(clinicCalId, start, end);
                  return googleEvents.map(ev => ({
                     id: ev.id,
                     title: ev.summary,
@@ -259,7 +303,8 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                     doctorId: CLINIC_SHARED_ID,
                     color: '#64748b', 
                     allDay: ev.allDay ?? !ev.start.dateTime,
-                    calendarId: clinicCalId
+                    calendarId: clinicCalId,
+                    description: ev.description
                  }));
              })());
         }
@@ -269,7 +314,7 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
     } catch (e: any) {
         console.error(e);
         if (e.result?.error?.code === 401 || e.status === 401) {
-            setErrorMsg("Google 授權已過期，請重新登入");
+            setErrorMsg(`${calendarProvider.label} 授權已過期，請重新登入`);
             setIsLoggedIn(false);
         } else {
             setErrorMsg("無法讀取日曆資料");
@@ -281,7 +326,7 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
 
   useEffect(() => {
     fetchEvents();
-  }, [selectedClinicId, currentDate, isGapiReady, isLoggedIn, viewMode]);
+  }, [selectedClinicId, currentDate, isGapiReady, isLoggedIn, viewMode, calendarProvider]);
 
   const handleDateChange = (offset: number) => {
     const newDate = new Date(currentDate);
@@ -296,13 +341,13 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
     setCurrentDate(new Date(now.getFullYear(), now.getMonth(), now.getDate()));
   };
 
-  const handleSetViewMode = (mode: 'day' | 'week' | 'search') => {
+  const handleSetViewMode = (mode: 'day' | 'week' | 'chair' | 'search') => {
       setViewMode(mode);
   };
 
   // --- CRM INTEGRATION: OPEN HISTORY ---
   const handleSelectEvent = (event: AppEvent) => {
-      const parsed = parseCalendarEvent(event.title);
+      const parsed = parseCalendarEvent(event.title, selectedClinic?.titleGrammar);
       // Construct a temporary patient object for history lookup
       // If parsing fails, we use the raw title as name (better than nothing)
       const name = parsed ? parsed.name : event.title;
@@ -319,6 +364,98 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
       setIsHistoryOpen(true);
   };
 
+  // --- BOOKING: CREATE / RESCHEDULE / CANCEL ---
+  const calendarMapping = selectedClinic?.googleCalendarMapping || {};
+  const bookableDoctors = activeClinicDocs.filter(d => !!calendarMapping[d.id]);
+  const canBook = isLoggedIn && !!selectedClinic && bookableDoctors.length > 0;
+
+  // Time under the pointer inside a time-grid column, snapped to the booking slot
+  const getPointerTime = (e: React.MouseEvent | React.DragEvent, day: Date, grabOffsetY: number = 0) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const hours = START_HOUR + Math.max(0, e.clientY - rect.top - grabOffsetY) / HOUR_HEIGHT;
+      const time = new Date(day);
+      time.setHours(0, Math.round(hours * 60), 0, 0);
+      return snapToSlot(time);
+  };
+
+  const handleOpenNewBooking = (doctorId?: string, start?: Date, operatoryId?: string) => {
+      if (!canBook) return;
+      const preferred = [doctorId, exclusiveDoctorId].find(id => id && calendarMapping[id]);
+      // Without a clicked slot, start from the current time on the day being viewed
+      const clock = new Date();
+      const slotStart = start || snapToSlot(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate(), clock.getHours(), clock.getMinutes()));
+      setEditor({ slot: { doctorId: preferred || bookableDoctors[0].id, start: slotStart, operatoryId } });
+  };
+
+  const handleEditEvent = (event: AppEvent) => {
+      if (!canBook || !event.calendarId || event.doctorId === CLINIC_SHARED_ID) return;
+      setEditor({ appointment: { id: event.id, title: event.title, description: event.description, start: event.start, end: event.end, doctorId: event.doctorId, calendarId: event.calendarId } });
+  };
+
+  const handleEventDragStart = (e: React.DragEvent, event: AppEvent) => {
+      dragRef.current = { event, grabOffsetY: e.clientY - e.currentTarget.getBoundingClientRect().top };
+      e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // `targetOperatoryId` is the chair column it was dropped on ('' = unassigned); omitted keeps the chair
+  const handleEventDrop = async (e: React.DragEvent, day: Date, targetDoctorId?: string, targetOperatoryId?: string) => {
+      e.preventDefault();
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (!drag || !selectedClinic || !drag.event.calendarId) return;
+
+      const event = drag.event;
+      const fromCalendarId = drag.event.calendarId;
+      const doctorId = targetDoctorId || event.doctorId;
+      const calendarId = calendarMapping[doctorId];
+      if (!calendarId) return;
+      const start = getPointerTime(e, day, drag.grabOffsetY);
+      const end = new Date(start.getTime() + (event.end.getTime() - event.start.getTime()));
+      const fromChair = assignments[event.id]?.operatoryId || '';
+      const chairId = targetOperatoryId ?? fromChair;
+      const timeChanged = start.getTime() !== event.start.getTime() || doctorId !== event.doctorId;
+      if (!timeChanged && chairId === fromChair) return;
+
+      const chair = operatories.find(o => o.id === chairId);
+      const issues = checkAppointmentSlot({
+          clinic: selectedClinic,
+          schedules: realtimeSchedules,
+          doctorId,
+          start,
+          end,
+          events: events.filter(ev => ev.doctorId === doctorId && !ev.allDay),
+          ignoreEventId: event.id,
+          chair: chair && { name: chair.name, events: chairBookings.filter(b => b.operatoryId === chair.id).map(b => b.event) }
+      });
+      const doctorName = doctors.find(d => d.id === doctorId)?.name || '';
+      const place = targetOperatoryId !== undefined ? `・${chair ? chair.name : '未分配診間'}` : '';
+      const warning = issues.length > 0 ? `\n\n${issues.map(i => `• ${i.message}`).join('\n')}` : '';
+      if (!confirm(`將「${event.title}」改約至 ${toLocalISODate(start)} ${formatTimeRange(start, end)} (${doctorName}${place})？${warning}`)) return;
+
+      try {
+          let movedId = event.id;
+          if (!timeChanged) {
+              // Only the chair changes
+          } else if (calendarId === fromCalendarId) {
+              const ok = await calendarProvider.patchEvent(calendarId, event.id, { start, end });
+              if (!ok) throw new Error('日曆拒絕了這次變更');
+          } else {
+              // Another doctor means another calendar
+              movedId = await moveAppointment(calendarProvider, selectedClinic.id, { id: event.id, calendarId: fromCalendarId, date: toLocalISODate(event.start) }, calendarId, { summary: event.title, description: event.description, start, end });
+          }
+
+          // The chair follows the appointment to its new event id and date
+          if (movedId !== event.id || chairId !== fromChair || toLocalISODate(start) !== toLocalISODate(event.start)) {
+              if (fromChair && movedId !== event.id) await setOperatoryAssignment(selectedClinic.id, event.id, toLocalISODate(event.start), null);
+              if (chairId || fromChair) await setOperatoryAssignment(selectedClinic.id, movedId, toLocalISODate(start), chairId || null, currentUser?.email || undefined);
+          }
+      } catch (err) {
+          console.error(err);
+          alert("改約失敗: " + (err as Error).message);
+      }
+      await fetchEvents();
+  };
+
   // --- Filtering Logic ---
   const activeDocIdsInView = useMemo(() => {
     const todayStr = toLocalISODate(currentDate);
@@ -352,6 +489,71 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
     }
   };
 
+  // --- Chair (Operatory) View ---
+  const operatories = selectedClinic?.operatories || [];
+
+  // Timed appointments on screen that sit in a chair, for the chair overlap check
+  const chairBookings = useMemo(() => events
+      .filter(e => !e.allDay && e.doctorId !== CLINIC_SHARED_ID && assignments[e.id])
+      .map(e => ({ operatoryId: assignments[e.id].operatoryId, event: e })),
+    [events, assignments]);
+
+  const chairDay = useMemo(() => {
+      const dateStr = toLocalISODate(currentDate);
+      const dayBookings = chairBookings.filter(b => toLocalISODate(b.event.start) === dateStr);
+      // A chair switched off still gets its column while appointments sit in it
+      const columns = operatories.filter(o => !o.disabled || dayBookings.some(b => b.operatoryId === o.id));
+      const stats = selectedClinic
+          ? buildChairDayStats(columns, dayBookings, getOpenWindows(selectedClinic, currentDate, realtimeSchedules))
+          : [];
+      const unassigned = events.filter(e =>
+          !e.allDay && e.doctorId !== CLINIC_SHARED_ID && toLocalISODate(e.start) === dateStr &&
+          !columns.some(o => o.id === assignments[e.id]?.operatoryId)
+      );
+      const overlapCount = stats.reduce((sum, st) => sum + st.overlappingIds.size, 0);
+      return { dayBookings, stats, unassigned, overlapCount };
+  }, [chairBookings, events, assignments, operatories, selectedClinic, currentDate, realtimeSchedules]);
+
+  // --- Waitlist Suggestions ---
+  // Free time in the rostered shifts of the day on screen, each with the waiting patients who fit it
+  const gapSuggestions = useMemo(() => {
+      if (!selectedClinic || !isLoggedIn || viewMode === 'week' || viewMode === 'search') return [];
+      const doctorsToCheck = bookableDoctors.filter(d => !exclusiveDoctorId || d.id === exclusiveDoctorId);
+      return doctorsToCheck.flatMap(doc => findDoctorGaps({
+          clinic: selectedClinic,
+          schedules: realtimeSchedules,
+          date: currentDate,
+          doctorId: doc.id,
+          events: events.filter(e => e.doctorId === doc.id && !e.allDay),
+          now
+      }).map(gap => ({ gap, doctor: doc, matches: matchWaitlist(waitlist, gap) })));
+  }, [selectedClinic, isLoggedIn, viewMode, bookableDoctors, exclusiveDoctorId, realtimeSchedules, currentDate, events, now, waitlist]);
+
+  const matchedGapCount = gapSuggestions.filter(s => s.matches.length > 0).length;
+
+  const handleBookFromWaitlist = (gap: ScheduleGap, entry: WaitlistEntry) => {
+      setEditor({
+          slot: {
+              doctorId: gap.doctorId,
+              start: gap.start,
+              durationMinutes: entry.durationMinutes,
+              patient: { chartId: entry.chartId || '', name: entry.patientName, treatment: entry.treatment }
+          },
+          waitlistEntryId: entry.id
+      });
+  };
+
+  const handleEditorSaved = async (eventId: string | null) => {
+      if (eventId && editor?.waitlistEntryId) {
+          try {
+              await updateWaitlistStatus(editor.waitlistEntryId, 'booked', eventId);
+          } catch (e) {
+              console.error("Failed to update waitlist entry", e);
+          }
+      }
+      await fetchEvents();
+  };
+
   // --- Visual Calculations ---
   const getVisualEvents = (dayEvents: AppEvent[], isAllDayRow: boolean = false): VisualEvent[] => {
       const relevantEvents = isAllDayRow 
@@ -483,6 +685,68 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
   
   const shouldShowPublicColumn = showPublicEvents || activeClinicStaff.length > 0;
 
+  // One chair's time column; `operatoryId` '' is the column of appointments not in a chair yet
+  const renderChairColumn = (operatoryId: string, chairEvents: AppEvent[], overlappingIds: Set<string>) => {
+      const visualEvents = getVisualEvents(chairEvents.filter(ev => visibleDoctors.some(d => d.id === ev.doctorId)));
+
+      return (
+          <div
+              key={operatoryId || 'unassigned'}
+              className={`relative border-r border-slate-200 shrink-0 hover:bg-slate-50/50 transition-colors ${operatoryId ? 'bg-white' : 'bg-slate-50/30'} ${canBook ? 'cursor-copy' : ''}`}
+              style={COLUMN_WIDTH_STYLE}
+              onClick={e => handleOpenNewBooking(undefined, getPointerTime(e, currentDate), operatoryId || undefined)}
+              onDragOver={e => { if (dragRef.current) e.preventDefault(); }}
+              onDrop={e => handleEventDrop(e, currentDate, undefined, operatoryId)}
+          >
+              {/* Grid Lines */}
+              {HOURS.map(h => (
+                  <div key={h} className="border-b border-slate-100" style={{ height: HOUR_HEIGHT }}></div>
+              ))}
+
+              {/* Events */}
+              {visualEvents.map(ev => {
+                  const doc = doctors.find(d => d.id === ev.doctorId);
+                  const color = doc?.avatarBgColor || doc?.color || '#3b82f6';
+                  const isOverlapping = overlappingIds.has(ev.id);
+
+                  return (
+                      <div
+                          key={ev.id}
+                          onClick={e => { e.stopPropagation(); handleSelectEvent(ev); }}
+                          draggable={canBook}
+                          onDragStart={e => handleEventDragStart(e, ev)}
+                          style={{...ev.style, backgroundColor: `${color}20`, borderLeft: `3px solid ${color}` }}
+                          className={`absolute p-1 rounded-r shadow-sm overflow-hidden hover:z-20 text-xs border group cursor-pointer hover:shadow-md transition-shadow ${isOverlapping ? 'border-rose-400 ring-1 ring-rose-400' : 'border-slate-100'}`}
+                          title={`${ev.title}\n${doc?.name || ''}\n${ev.start.toLocaleTimeString()} - ${ev.end.toLocaleTimeString()}${isOverlapping ? '\n⚠ 與同診間其他預約時間重疊' : ''}`}
+                      >
+                          {canBook && (
+                              <button onClick={e => { e.stopPropagation(); handleEditEvent(ev); }} className="absolute top-0.5 right-0.5 p-0.5 rounded bg-white/80 text-slate-500 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity" title="編輯 / 改約 / 取消">
+                                  <Pencil size={12} />
+                              </button>
+                          )}
+                          <div className="font-bold text-slate-700 truncate flex items-center gap-1">
+                              {isOverlapping && <AlertTriangle size={11} className="text-rose-500 shrink-0" />}
+                              {ev.title}
+                          </div>
+                          <div className="text-[9px] font-bold text-slate-500 truncate">{doc?.name}</div>
+                          <div className="text-[10px] text-slate-400 leading-tight">
+                              {ev.start.getHours()}:{String(ev.start.getMinutes()).padStart(2,'0')} - {ev.end.getHours()}:{String(ev.end.getMinutes()).padStart(2,'0')}
+                          </div>
+                      </div>
+                  );
+              })}
+
+              {/* Current Time Line */}
+              {toLocalISODate(now) === toLocalISODate(currentDate) && (
+                  <div 
+                      className="absolute w-full border-t-2 border-red-500 z-10 pointer-events-none"
+                      style={{ top: `${((now.getHours() - START_HOUR) + now.getMinutes() / 60) * HOUR_HEIGHT}px` }}
+                  ></div>
+              )}
+          </div>
+      );
+  };
+
   return (
     <div className="flex flex-col h-full space-y-4">
         {/* TOP BAR */}
@@ -518,6 +782,12 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                     >
                         <LayoutGrid size={16} /> 週檢視
                     </button>
+                    <button 
+                        onClick={() => handleSetViewMode('chair')}
+                        className={`flex-1 md:flex-none px-4 py-1.5 text-sm font-bold rounded-md flex items-center justify-center gap-2 transition-all ${viewMode === 'chair' ? 'bg-white shadow text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                        <Armchair size={16} /> 診間
+                    </button>
                     <button 
                         onClick={() => handleSetViewMode('search')}
                         className={`flex-1 md:flex-none px-4 py-1.5 text-sm font-bold rounded-md flex items-center justify-center gap-2 transition-all ${viewMode === 'search' ? 'bg-white shadow text-teal-600' : 'text-slate-400 hover:text-slate-600'}`}
@@ -551,7 +821,7 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                     }}
                                 />
                                 <span className="font-mono font-bold text-slate-700 text-base text-center w-full">
-                                    {viewMode === 'day' ? todayStr : `${toLocalISODate(weekDays[0])} - ${toLocalISODate(weekDays[6]).slice(5)}`}
+                                    {viewMode !== 'week' ? todayStr : `${toLocalISODate(weekDays[0])} - ${toLocalISODate(weekDays[6]).slice(5)}`}
                                 </span>
                             </div>
                             <button onClick={() => handleDateChange(1)} className="p-1.5 hover:bg-white rounded-md shadow-sm text-slate-500 transition-all"><ChevronRight size={20}/></button>
@@ -566,6 +836,25 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                 </span>
                             )}
 
+                            {canBook && (
+                                <button
+                                    onClick={() => setIsReminderOpen(true)}
+                                    className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                                    title="約診提醒"
+                                >
+                                    <BellRing size={18} />
+                                </button>
+                            )}
+
+                            {canBook && (
+                                <button
+                                    onClick={() => handleOpenNewBooking()}
+                                    className="px-3 py-2 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors whitespace-nowrap flex items-center gap-1 shadow-sm"
+                                >
+                                    <CalendarPlus size={16} /> 新增預約
+                                </button>
+                            )}
+
                             <button 
                                 onClick={handleJumpToToday}
                                 className="px-4 py-2 text-sm font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors whitespace-nowrap"
@@ -598,8 +887,11 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
         {/* CONTAINER FOR FILTER + GRID + OVERLAY */}
         {viewMode === 'search' ? (
             <PatientSearch 
+                clinicId={selectedClinicId}
+                titleGrammar={selectedClinic?.titleGrammar}
                 doctors={activeClinicDocs} 
                 mapping={selectedClinic?.googleCalendarMapping || {}}
+                provider={calendarProvider}
                 onEventClick={(ev) => handleSelectEvent(ev)}
             />
         ) : (
@@ -610,16 +902,20 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                         <div className="w-24 h-24 bg-slate-50 rounded-full flex items-center justify-center mb-6 shadow-inner ring-4 ring-white">
                             <PlugZap size={48} className="text-slate-300" />
                         </div>
-                        <h3 className="text-2xl font-bold text-slate-800 mb-3">尚未連結 Google 日曆</h3>
+                        <h3 className="text-2xl font-bold text-slate-800 mb-3">尚未連結 {calendarProvider.label}</h3>
                         <p className="text-slate-500 max-w-md mb-8 leading-relaxed">
-                            請先完成帳號連動，系統才能讀取並顯示醫師的約診資訊。
+                            {calendarProvider.authorize
+                                ? '請先完成帳號連動，系統才能讀取並顯示醫師的約診資訊。'
+                                : '請先到「系統整合」頁面輸入此裝置的日曆帳號，系統才能讀取並顯示醫師的約診資訊。'}
                         </p>
-                        <button 
-                            onClick={authorizeCalendar}
-                            className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-xl font-bold text-lg shadow-lg shadow-indigo-200 hover:shadow-indigo-300 transition-all flex items-center gap-2 active:scale-95"
-                        >
-                            連結 Google Calendar
-                        </button>
+                        {calendarProvider.authorize && (
+                            <button 
+                                onClick={calendarProvider.authorize}
+                                className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-xl font-bold text-lg shadow-lg shadow-indigo-200 hover:shadow-indigo-300 transition-all flex items-center gap-2 active:scale-95"
+                            >
+                                連結 {calendarProvider.label}
+                            </button>
+                        )}
                     </div>
                 )}
 
@@ -684,8 +980,56 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                 <span className="text-xs text-slate-400 italic px-2">本區間無醫師有診</span>
                             )}
                     </div>
+
+                    {selectedClinic && (
+                        <div className="flex items-center gap-2 border-l border-slate-200 pl-3">
+                            {viewMode !== 'week' && isLoggedIn && (
+                                <button
+                                    onClick={() => setShowGaps(!showGaps)}
+                                    className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-bold border transition-all ${showGaps ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                                >
+                                    <Hourglass size={12} /> 空檔 ({gapSuggestions.length})
+                                    {matchedGapCount > 0 && <span className="bg-amber-500 text-white rounded-full px-1.5 text-[10px]">{matchedGapCount}</span>}
+                                </button>
+                            )}
+                            <button
+                                onClick={() => setIsWaitlistOpen(true)}
+                                className="flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-bold border bg-white border-slate-200 text-slate-500 hover:bg-slate-50 transition-all"
+                            >
+                                <ListPlus size={12} /> 候補名單 ({waitlist.filter(w => w.status === 'waiting').length})
+                            </button>
+                        </div>
+                    )}
                 </div>
 
+                {/* WAITLIST SUGGESTIONS */}
+                {showGaps && viewMode !== 'week' && isLoggedIn && (
+                    <div className="bg-white rounded-xl shadow-sm border border-amber-200 p-3 shrink-0 max-h-48 overflow-y-auto space-y-2">
+                        {gapSuggestions.length === 0 ? (
+                            <div className="text-xs text-slate-400 text-center py-2">當日排班時段內沒有可安排的空檔</div>
+                        ) : gapSuggestions.map(({ gap, doctor, matches }) => (
+                            <div key={`${gap.doctorId}_${gap.start.getTime()}`} className="flex flex-wrap items-center gap-2 text-xs">
+                                <span className="font-bold text-slate-700 w-20 truncate">{doctor.name}</span>
+                                <span className="font-mono bg-amber-50 text-amber-700 px-2 py-0.5 rounded">{formatTimeRange(gap.start, gap.end)}</span>
+                                {matches.length === 0 ? (
+                                    <span className="text-slate-400">無符合的候補病患</span>
+                                ) : matches.slice(0, 4).map(entry => (
+                                    <button
+                                        key={entry.id}
+                                        onClick={() => handleBookFromWaitlist(gap, entry)}
+                                        disabled={!canBook}
+                                        className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-indigo-200 bg-indigo-50 text-indigo-700 font-medium hover:bg-indigo-100 transition-colors disabled:opacity-50"
+                                        title={[entry.phone, entry.note].filter(Boolean).join(' · ')}
+                                    >
+                                        <CalendarPlus size={12} /> {entry.patientName}{entry.treatment ? ` · ${entry.treatment}` : ''} ({entry.durationMinutes} 分)
+                                    </button>
+                                ))}
+                                {matches.length > 4 && <span className="text-slate-400">+{matches.length - 4}</span>}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* MAIN CALENDAR CONTAINER (Shared Scroll) */}
                 <div 
                     className="flex-1 bg-white rounded-xl shadow-sm border border-slate-200 overflow-auto relative custom-scrollbar flex flex-col"
@@ -725,6 +1069,33 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                         </div>
                                     ))}
                                 </>
+                            ) : viewMode === 'chair' ? (
+                                /* CHAIR VIEW HEADERS */
+                                <>
+                                    {chairDay.stats.map(stat => (
+                                        <div 
+                                            key={stat.operatory.id} 
+                                            className="p-2 text-center border-r border-slate-200 bg-white shrink-0 flex flex-col items-center justify-center"
+                                            style={COLUMN_WIDTH_STYLE}
+                                        >
+                                            <span className="text-sm font-bold text-slate-700 flex items-center gap-1.5 truncate max-w-[180px]">
+                                                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: stat.operatory.color || '#0d9488' }}></span>
+                                                {stat.operatory.name}{stat.operatory.disabled && <span className="text-[10px] text-slate-400">(停用)</span>}
+                                            </span>
+                                            <span className={`text-[11px] font-bold flex items-center gap-1 ${stat.utilisation >= 0.85 ? 'text-rose-600' : stat.utilisation >= 0.5 ? 'text-amber-600' : 'text-emerald-600'}`} title={`已預約 ${stat.bookedMinutes} / 開診 ${stat.openMinutes} 分鐘`}>
+                                                使用率 {Math.round(stat.utilisation * 100)}%
+                                                {stat.overlappingIds.size > 0 && <span className="text-rose-600 flex items-center gap-0.5"><AlertTriangle size={11} />{stat.overlappingIds.size} 重疊</span>}
+                                            </span>
+                                        </div>
+                                    ))}
+                                    <div 
+                                        className="p-2 text-center border-r border-slate-200 bg-slate-50 shrink-0 flex flex-col items-center justify-center"
+                                        style={COLUMN_WIDTH_STYLE}
+                                    >
+                                        <span className="text-sm font-bold text-slate-500">未分配</span>
+                                        <span className="text-[11px] text-slate-400">{chairDay.unassigned.length} 筆</span>
+                                    </div>
+                                </>
                             ) : (
                                 /* WEEK VIEW HEADERS */
                                 weekDays.map(date => {
@@ -759,7 +1130,7 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                             </div>
 
                             {/* DAY VIEW ASSISTANT ROW (Full Width Span) */}
-                            {viewMode === 'day' ? (
+                            {viewMode !== 'week' ? (
                                 <div className="flex-1 flex items-center px-4 bg-white/50">
                                     {activeClinicStaff.length > 0 ? (
                                         <div className="flex items-center gap-3 w-full">
@@ -857,6 +1228,22 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                         );
                                     })}
                                 </>
+                            ) : viewMode === 'chair' ? (
+                                /* CHAIR VIEW SUMMARY */
+                                <div className="flex-1 flex items-center gap-4 px-4 text-xs">
+                                    {operatories.length === 0 ? (
+                                        <span className="text-slate-400 italic">尚未設定診間，請至「診所設定」新增診間 / 治療椅</span>
+                                    ) : (
+                                        <>
+                                            <span className="text-slate-500">已分配 <b className="text-slate-700">{chairDay.dayBookings.length}</b> 筆</span>
+                                            <span className="text-slate-500">未分配 <b className="text-slate-700">{chairDay.unassigned.length}</b> 筆</span>
+                                            {chairDay.overlapCount > 0 && (
+                                                <span className="text-rose-600 font-bold flex items-center gap-1"><AlertTriangle size={12} /> {chairDay.overlapCount} 筆預約同時佔用同一診間</span>
+                                            )}
+                                            <span className="text-slate-400">拖曳預約到其他診間即可換診間</span>
+                                        </>
+                                    )}
+                                </div>
                             ) : (
                                 /* WEEK VIEW ALL-DAY CELLS */
                                 weekDays.map(date => {
@@ -942,7 +1329,14 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                         const visualEvents = getVisualEvents(docEvents);
 
                                         return (
-                                            <div key={doc.id} className="relative border-r border-slate-200 shrink-0 bg-white hover:bg-slate-50/50 transition-colors" style={COLUMN_WIDTH_STYLE}>
+                                            <div
+                                                key={doc.id}
+                                                className={`relative border-r border-slate-200 shrink-0 bg-white hover:bg-slate-50/50 transition-colors ${canBook && calendarMapping[doc.id] ? 'cursor-copy' : ''}`}
+                                                style={COLUMN_WIDTH_STYLE}
+                                                onClick={e => handleOpenNewBooking(doc.id, getPointerTime(e, currentDate))}
+                                                onDragOver={e => { if (dragRef.current && calendarMapping[doc.id]) e.preventDefault(); }}
+                                                onDrop={e => handleEventDrop(e, currentDate, doc.id)}
+                                            >
                                                 {/* Grid Lines */}
                                                 {HOURS.map(h => (
                                                     <div key={h} className="border-b border-slate-100" style={{ height: HOUR_HEIGHT }}></div>
@@ -952,11 +1346,18 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                                 {visualEvents.map(ev => (
                                                     <div
                                                         key={ev.id}
-                                                        onClick={() => handleSelectEvent(ev)}
+                                                        onClick={e => { e.stopPropagation(); handleSelectEvent(ev); }}
+                                                        draggable={canBook}
+                                                        onDragStart={e => handleEventDragStart(e, ev)}
                                                         style={{...ev.style, backgroundColor: `${doc.avatarBgColor}20`, borderLeft: `3px solid ${doc.avatarBgColor}` }}
                                                         className="absolute p-1 rounded-r shadow-sm overflow-hidden hover:z-20 text-xs border border-slate-100 group cursor-pointer hover:shadow-md transition-shadow"
                                                         title={`${ev.title}\n${ev.start.toLocaleTimeString()} - ${ev.end.toLocaleTimeString()}`}
                                                     >
+                                                        {canBook && (
+                                                            <button onClick={e => { e.stopPropagation(); handleEditEvent(ev); }} className="absolute top-0.5 right-0.5 p-0.5 rounded bg-white/80 text-slate-500 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity" title="編輯 / 改約 / 取消">
+                                                                <Pencil size={12} />
+                                                            </button>
+                                                        )}
                                                         <div className="font-bold text-slate-700 truncate">{ev.title}</div>
                                                         <div className="text-[10px] text-slate-500">
                                                             {ev.start.getHours()}:{String(ev.start.getMinutes()).padStart(2,'0')} - {ev.end.getHours()}:{String(ev.end.getMinutes()).padStart(2,'0')}
@@ -977,6 +1378,16 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                         );
                                     })}
                                 </>
+                            ) : viewMode === 'chair' ? (
+                                /* CHAIR VIEW COLUMNS */
+                                <>
+                                    {chairDay.stats.map(stat => renderChairColumn(
+                                        stat.operatory.id,
+                                        chairDay.dayBookings.filter(b => b.operatoryId === stat.operatory.id).map(b => b.event),
+                                        stat.overlappingIds
+                                    ))}
+                                    {renderChairColumn('', chairDay.unassigned, new Set())}
+                                </>
                             ) : (
                                 /* WEEK VIEW COLUMNS */
                                 weekDays.map(date => {
@@ -998,8 +1409,11 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                     return (
                                         <div 
                                             key={date.toISOString()}
-                                            className={`relative border-r border-slate-200 shrink-0 ${isToday ? 'bg-blue-50/10' : 'bg-white'}`}
+                                            className={`relative border-r border-slate-200 shrink-0 ${isToday ? 'bg-blue-50/10' : 'bg-white'} ${canBook ? 'cursor-copy' : ''}`}
                                             style={{ flex: 1, minWidth: '120px' }}
+                                            onClick={e => handleOpenNewBooking(undefined, getPointerTime(e, date))}
+                                            onDragOver={e => { if (dragRef.current) e.preventDefault(); }}
+                                            onDrop={e => handleEventDrop(e, date)}
                                         >
                                             {/* Grid Lines */}
                                             {HOURS.map(h => (
@@ -1015,11 +1429,18 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
                                                 return (
                                                     <div
                                                         key={ev.id}
-                                                        onClick={() => handleSelectEvent(ev)}
+                                                        onClick={e => { e.stopPropagation(); handleSelectEvent(ev); }}
+                                                        draggable={canBook && !isShared}
+                                                        onDragStart={e => handleEventDragStart(e, ev)}
                                                         style={{...ev.style, backgroundColor: isShared ? '#f1f5f9' : `${color}20`, borderLeft: `3px solid ${color}` }}
                                                         className="absolute p-1 rounded-r shadow-sm overflow-hidden hover:z-20 text-xs border border-slate-100 group cursor-pointer hover:shadow-md transition-shadow"
                                                         title={`${ev.title}\n${isShared ? '公用' : doc?.name}\n${ev.start.toLocaleTimeString()} - ${ev.end.toLocaleTimeString()}`}
                                                     >
+                                                        {canBook && !isShared && (
+                                                            <button onClick={e => { e.stopPropagation(); handleEditEvent(ev); }} className="absolute top-0.5 right-0.5 p-0.5 rounded bg-white/80 text-slate-500 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity" title="編輯 / 改約 / 取消">
+                                                                <Pencil size={12} />
+                                                            </button>
+                                                        )}
                                                         <div className="font-bold text-slate-700 truncate">{ev.title}</div>
                                                         {!isShared && visibleDoctors.length > 1 && (
                                                             <div className="text-[9px] font-bold text-slate-500 truncate mb-0.5">{doc?.name}</div>
@@ -1061,11 +1482,51 @@ export const AppointmentCalendar: React.FC<Props> = ({ clinics, doctors, consult
             onSave={onSave || (async () => {})}
         />
 
+        {/* APPOINTMENT EDITOR MODAL */}
+        {selectedClinic && (
+            <AppointmentEditorModal
+                isOpen={!!editor}
+                onClose={() => setEditor(null)}
+                clinic={selectedClinic}
+                doctors={bookableDoctors}
+                schedules={realtimeSchedules}
+                provider={calendarProvider}
+                appointment={editor?.appointment}
+                initialSlot={editor?.slot}
+                operatoryId={editor?.appointment && assignments[editor.appointment.id]?.operatoryId}
+                chairBookings={chairBookings}
+                onSaved={handleEditorSaved}
+            />
+        )}
+
+        {/* APPOINTMENT REMINDERS */}
+        {selectedClinic && (
+            <ReminderModal
+                isOpen={isReminderOpen}
+                onClose={() => setIsReminderOpen(false)}
+                clinic={selectedClinic}
+                doctors={bookableDoctors}
+                provider={calendarProvider}
+            />
+        )}
+
+        {/* WAITLIST */}
+        {selectedClinic && (
+            <WaitlistModal
+                isOpen={isWaitlistOpen}
+                onClose={() => setIsWaitlistOpen(false)}
+                clinic={selectedClinic}
+                doctors={activeClinicDocs}
+                entries={waitlist}
+            />
+        )}
+
         {/* PATIENT HISTORY MODAL (Replaces AppointmentDetailModal) */}
         <PatientHistoryModal 
             isOpen={isHistoryOpen}
             onClose={() => setIsHistoryOpen(false)}
             patient={selectedPatient}
+            calendar={isLoggedIn && selectedClinic ? { clinic: selectedClinic, doctors: bookableDoctors, provider: calendarProvider } : undefined}
         />
     </div>
   );
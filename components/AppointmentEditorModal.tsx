@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Clinic, Doctor, DailySchedule, CalendarProvider } from '../types';
+import { formatCalendarTitle, parseCalendarEvent } from '../utils/eventParser';
+import { setOperatoryAssignment } from '../services/firebase';
+import { moveAppointment } from '../services/calendarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { checkAppointmentSlot, BookedEvent, DEFAULT_APPOINTMENT_MINUTES, SLOT_MINUTES } from '../utils/appointments';
+import { X, Save, Loader2, CalendarPlus, CalendarClock, Trash2, AlertTriangle } from 'lucide-react';
+
+// The appointment being edited, as the calendar view holds it
+export interface EditableAppointment {
+    id: string;
+    title: string;
+    description?: string;
+    start: Date;
+    end: Date;
+    doctorId: string;
+    calendarId: string;
+}
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinic: Clinic;
+    doctors: Doctor[]; // Doctors of the clinic that have a calendar mapped
+    schedules: DailySchedule[];
+    provider: CalendarProvider;
+    appointment?: EditableAppointment | null; // Omitted when booking a new appointment
+    initialSlot?: { doctorId: string; start: Date; operatoryId?: string; durationMinutes?: number; patient?: { chartId: string; name: string; treatment: string } } | null;
+    operatoryId?: string; // Chair the appointment is in now
+    chairBookings?: { operatoryId: string; event: BookedEvent }[]; // Chair use of the days on screen
+    onSaved: (eventId: string | null) => void; // null when the appointment was cancelled
+}
+
+const DURATIONS = [15, 30, 45, 60, 90, 120, 180];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const toTimeInput = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+export const AppointmentEditorModal: React.FC<Props> = ({ isOpen, onClose, clinic, doctors, schedules, provider, appointment, initialSlot, operatoryId: currentOperatoryId, chairBookings = [], onSaved }) => {
+    const { currentUser } = useAuth();
+    const isNew = !appointment;
+    const mapping = clinic.googleCalendarMapping || {};
+
+    const [doctorId, setDoctorId] = useState('');
+    const [date, setDate] = useState('');
+    const [time, setTime] = useState('');
+    const [duration, setDuration] = useState(DEFAULT_APPOINTMENT_MINUTES);
+    const [patient, setPatient] = useState({ chartId: '', name: '', treatment: '' });
+    const [title, setTitle] = useState('');
+    const [description, setDescription] = useState('');
+    const [operatoryId, setOperatoryId] = useState('');
+    const [dayEvents, setDayEvents] = useState<BookedEvent[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        if (appointment) {
+            setDoctorId(appointment.doctorId);
+            setDate(toDateInput(appointment.start));
+            setTime(toTimeInput(appointment.start));
+            setDuration(Math.max(SLOT_MINUTES, Math.round((appointment.end.getTime() - appointment.start.getTime()) / 60000)));
+            setTitle(appointment.title);
+            setDescription(appointment.description || '');
+            setOperatoryId(currentOperatoryId || '');
+        } else {
+            const start = initialSlot?.start || new Date();
+            setDoctorId(initialSlot?.doctorId || doctors[0]?.id || '');
+            setDate(toDateInput(start));
+            setTime(toTimeInput(start));
+            setDuration(initialSlot?.durationMinutes || DEFAULT_APPOINTMENT_MINUTES);
+            setPatient(initialSlot?.patient || { chartId: '', name: '', treatment: '' });
+            setTitle('');
+            setDescription('');
+            setOperatoryId(initialSlot?.operatoryId || '');
+        }
+    }, [isOpen, appointment, initialSlot]);
+
+    const start = useMemo(() => date && time ? new Date(`${date}T${time}:00`) : null, [date, time]);
+    const end = useMemo(() => start ? new Date(start.getTime() + duration * 60000) : null, [start, duration]);
+    const calendarId = mapping[doctorId];
+
+    // The doctor's whole day straight from the calendar, so a booking on a day not on screen is checked too
+    useEffect(() => {
+        if (!isOpen || !calendarId || !date) { setDayEvents([]); return; }
+        const dayStart = new Date(`${date}T00:00:00`);
+        const dayEnd = new Date(`${date}T23:59:59`);
+        let cancelled = false;
+        provider.listEvents(calendarId, dayStart, dayEnd).then(list => {
+            if (cancelled) return;
+            setDayEvents(list.filter(ev => !ev.allDay && ev.start.dateTime && ev.end.dateTime).map(ev => ({
+                id: ev.id,
+                title: ev.summary,
+                start: new Date(ev.start.dateTime!),
+                end: new Date(ev.end.dateTime!)
+            })));
+        });
+        return () => { cancelled = true; };
+    }, [isOpen, calendarId, date, provider]);
+
+    const summary = isNew
+        ? (patient.name.trim() ? formatCalendarTitle({ chartId: patient.chartId.trim() || null, name: patient.name.trim(), treatment: patient.treatment.trim(), status: '' }) : '')
+        : title.trim();
+
+    const operatories = (clinic.operatories || []).filter(o => !o.disabled || o.id === operatoryId);
+    const chair = operatories.find(o => o.id === operatoryId);
+
+    const issues = useMemo(() => start && end && doctorId
+        ? checkAppointmentSlot({
+            clinic, schedules, doctorId, start, end, events: dayEvents, ignoreEventId: appointment?.id,
+            chair: chair && { name: chair.name, events: chairBookings.filter(b => b.operatoryId === chair.id).map(b => b.event) }
+        })
+        : [], [clinic, schedules, doctorId, start, end, dayEvents, appointment, chair, chairBookings]);
+
+    const isUnparsable = !!summary && !parseCalendarEvent(summary, clinic.titleGrammar);
+
+    if (!isOpen) return null;
+
+    const handleSave = async () => {
+        if (!start || !end || !calendarId) { alert("請選擇醫師、日期與時間"); return; }
+        if (!summary) { alert(isNew ? "請輸入病患姓名" : "請輸入預約標題"); return; }
+        if (issues.length > 0 && !confirm(`${issues.map(i => `• ${i.message}`).join('\n')}\n\n仍要儲存此預約嗎？`)) return;
+
+        setIsSaving(true);
+        try {
+            const fields = { summary, description: description.trim() || undefined, start, end };
+            let eventId: string;
+            if (isNew) {
+                eventId = (await provider.createEvent(calendarId, fields)).id;
+            } else if (calendarId === appointment!.calendarId) {
+                const ok = await provider.patchEvent(calendarId, appointment!.id, { ...fields, description: description.trim() });
+                if (!ok) throw new Error('日曆拒絕了這次變更');
+                eventId = appointment!.id;
+            } else {
+                // Another doctor means another calendar
+                eventId = await moveAppointment(provider, clinic.id, { id: appointment!.id, calendarId: appointment!.calendarId, date: toDateInput(appointment!.start) }, calendarId, fields);
+            }
+
+            if (appointment && eventId !== appointment.id && currentOperatoryId) {
+                await setOperatoryAssignment(clinic.id, appointment.id, date, null);
+            }
+            if (operatoryId || (appointment && eventId === appointment.id && currentOperatoryId)) {
+                await setOperatoryAssignment(clinic.id, eventId, date, operatoryId || null, currentUser?.email || undefined);
+            }
+            onSaved(eventId);
+            onClose();
+        } catch (e) {
+            console.error(e);
+            alert("儲存預約失敗: " + (e as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCancelAppointment = async () => {
+        if (!appointment) return;
+        if (!confirm(`確定要取消「${appointment.title}」的預約嗎？\n預約會從日曆刪除，日報表同步時會標示為「日曆已取消」。`)) return;
+        setIsSaving(true);
+        try {
+            await provider.deleteEvent(appointment.calendarId, appointment.id);
+            if (currentOperatoryId) await setOperatoryAssignment(clinic.id, appointment.id, toDateInput(appointment.start), null);
+            onSaved(null);
+            onClose();
+        } catch (e) {
+            console.error(e);
+            alert("取消預約失敗: " + (e as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-indigo-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2">
+                        {isNew ? <CalendarPlus size={20} /> : <CalendarClock size={20} />}
+                        {isNew ? '新增預約' : '編輯預約'}
+                    </h3>
+                    <button onClick={onClose} disabled={isSaving} className="p-1 rounded-full hover:bg-indigo-700 transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-5 space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="col-span-2">
+                            <label className="block text-xs font-bold text-slate-500 mb-1">醫師</label>
+                            <select className="w-full border rounded-lg px-3 py-2 text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500" value={doctorId} onChange={e => setDoctorId(e.target.value)}>
+                                {doctors.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 mb-1">日期</label>
+                            <input type="date" className="w-full border rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={date} onChange={e => setDate(e.target.value)} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1">時間</label>
+                                <input type="time" step={SLOT_MINUTES * 60} className="w-full border rounded-lg px-2 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={time} onChange={e => setTime(e.target.value)} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1">時長</label>
+                                <select className="w-full border rounded-lg px-2 py-2 text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500" value={duration} onChange={e => setDuration(Number(e.target.value))}>
+                                    {Array.from(new Set([...DURATIONS, duration])).sort((a, b) => a - b).map(m => <option key={m} value={m}>{m} 分</option>)}
+                                </select>
+                            </div>
+                        </div>
+                    </div>
+
+                    {operatories.length > 0 && (
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 mb-1">診間</label>
+                            <select className="w-full border rounded-lg px-3 py-2 text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500" value={operatoryId} onChange={e => setOperatoryId(e.target.value)}>
+                                <option value="">未分配</option>
+                                {operatories.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+
+                    {isNew ? (
+                        <div className="grid grid-cols-3 gap-3">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1">病歷號</label>
+                                <input className="w-full border rounded-lg px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500" placeholder="新患留空" value={patient.chartId} onChange={e => setPatient({ ...patient, chartId: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1">姓名</label>
+                                <input className="w-full border rounded-lg px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500" value={patient.name} onChange={e => setPatient({ ...patient, name: e.target.value })} autoFocus />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1">預約內容</label>
+                                <input className="w-full border rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" placeholder="洗牙、補牙..." value={patient.treatment} onChange={e => setPatient({ ...patient, treatment: e.target.value })} />
+                            </div>
+                        </div>
+                    ) : (
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 mb-1">預約標題</label>
+                            <input className="w-full border rounded-lg px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500" value={title} onChange={e => setTitle(e.target.value)} />
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 mb-1">備註 (來源等)</label>
+                        <textarea className="w-full border rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500 resize-none" rows={2} value={description} onChange={e => setDescription(e.target.value)} />
+                    </div>
+
+                    {isNew && summary && (
+                        <div className="text-xs text-slate-500">日曆標題：<span className="font-mono font-bold text-slate-700">{summary}</span>{!patient.chartId.trim() && <span className="ml-2 text-indigo-600 font-bold">(NP)</span>}</div>
+                    )}
+                    {isUnparsable && (
+                        <div className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">此標題無法被診所的標題解析規則讀取，日報表同步時不會匯入。</div>
+                    )}
+
+                    {issues.length > 0 && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+                            {issues.map((issue, i) => (
+                                <div key={i} className="text-sm text-amber-800 flex items-start gap-2">
+                                    <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {issue.message}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-between gap-3 bg-slate-50 shrink-0">
+                    {!isNew ? (
+                        <button onClick={handleCancelAppointment} disabled={isSaving} className="px-4 py-2 text-rose-600 hover:bg-rose-50 rounded-lg font-bold flex items-center gap-2 transition-colors">
+                            <Trash2 size={16} /> 取消預約
+                        </button>
+                    ) : <div />}
+                    <div className="flex gap-3">
+                        <button onClick={onClose} disabled={isSaving} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">關閉</button>
+                        <button onClick={handleSave} disabled={isSaving} className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md disabled:opacity-50 transition-transform active:scale-95">
+                            {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />} 儲存
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Clinic, Consultant, AccountingRow, DailyAccountingRecord } from '../types';
-import { hydrateRow, db, saveBonusSettings, getBonusSettings, CLINIC_ORDER } from '../services/firebase';
+import { Clinic, Consultant, AccountingRow } from '../types';
+import { queryAccountingRows, isRefundRow, saveBonusSettings, getBonusSettings, CLINIC_ORDER } from '../services/firebase';
 import { 
   Calculator, Loader2, DollarSign, Save, Users, 
   PieChart, Wallet, ChevronRight, Gift, Percent, Globe
@@ -126,28 +126,12 @@ export const AssistantBonus: React.FC<Props> = ({ clinics, consultants }) => {
 
             console.log(`[AssistantBonus] Fetching range: ${startStr} to ${endStr} for Clinic: ${selectedClinicId}`);
 
-            const snapshot = await db.collection('daily_accounting')
-                .where('clinicId', '==', selectedClinicId)
-                .where('date', '>=', startStr)
-                .where('date', '<=', endStr)
-                .get();
+            const allRows = await queryAccountingRows({ clinicId: selectedClinicId, startDate: startStr, endDate: endStr });
 
-            if (snapshot.empty) {
+            if (allRows.length === 0) {
                 console.warn("[AssistantBonus] No accounting records found for this period.");
             }
             
-            // Flatten Rows
-            const allRows: AccountingRow[] = [];
-            snapshot.forEach(doc => {
-                const rec = doc.data() as DailyAccountingRecord;
-                if (rec && rec.rows) {
-                    rec.rows.forEach(r => {
-                        const hydrated = hydrateRow(r);
-                        hydrated.originalDate = rec.date;
-                        allRows.push(hydrated);
-                    });
-                }
-            });
             setRawRows(allRows);
 
             // Filter Staff
@@ -178,7 +162,8 @@ export const AssistantBonus: React.FC<Props> = ({ clinics, consultants }) => {
                                (t.sov || 0) + (t.perio || 0) + (t.whitening || 0) + 
                                (t.inv || 0) + (t.otherSelfPay || 0);
                     
-                    if (sp > 0 && isTreatmentMatch) {
+                    // Refund rows claw back the bonus earned on the original sale
+                    if ((sp > 0 || isRefundRow(row)) && isTreatmentMatch) {
                         selfPayTotal += sp;
                     }
 
@@ -190,7 +175,7 @@ export const AssistantBonus: React.FC<Props> = ({ clinics, consultants }) => {
 
                     const ret = (r.products || 0) + (r.diyWhitening || 0);
                     
-                    if (ret > 0 && isRetailMatch) {
+                    if ((ret > 0 || isRefundRow(row)) && isRetailMatch) {
                         retailTotal += ret;
                     }
                 });
@@ -1,41 +1,183 @@
 
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { AuditLogEntry } from '../types';
-import { X, History, Lock, Unlock, Edit2 } from 'lucide-react';
+import { getAuditEntries, revertAuditEntry, isAuditEntryRevertible } from '../services/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { X, History, Lock, Unlock, Edit2, Plus, Trash2, RotateCcw, Loader2, Filter, Printer } from 'lucide-react';
 
 interface Props {
     isOpen: boolean;
     onClose: () => void;
-    logs: AuditLogEntry[];
+    clinicId: string;
+    date: string;
+    isLocked?: boolean;
 }
 
-export const AuditLogModal: React.FC<Props> = ({ isOpen, onClose, logs }) => {
+const FIELD_LABELS: Record<string, string> = {
+    chartId: '病歷號', patientName: '姓名', doctorName: '醫師', doctorId: '醫師代碼',
+    'treatments.regFee': '掛號', 'treatments.copayment': '部分', 'treatments.prostho': '假牙', 'treatments.implant': '植牙',
+    'treatments.ortho': '矯正', 'treatments.sov': 'SOV', 'treatments.inv': 'INV', 'treatments.whitening': '美白',
+    'treatments.perio': '牙周', 'treatments.otherSelfPay': '其他', 'treatments.consultant': '諮詢師',
+    'retail.diyWhitening': '小金庫', 'retail.products': '物販', 'retail.productNote': '物販備註', 'retail.staff': '經手人',
+    treatmentContent: '內容', calendarTreatment: '預約內容', labName: '技工所', labFee: '技工費',
+    paymentMethod: '付款方式', attendance: '到診', npStatus: 'NP狀態', isNP: 'NP', note: '備註', startTime: '時間',
+    expenditures: '支出', mealExpenses: '伙食費', mealFund: '伙食基金', initialCash: '零用金', reportImageUrl: '日報表圖片'
+};
+
+const ACTION_LABELS: Record<string, string> = {
+    LOCK: '結帳鎖定', UNLOCK: '解鎖', UPDATE: '修改內容', CREATE: '新增', DELETE: '刪除', REVERT: '還原', PRINT: '列印收據'
+};
+
+const fieldLabel = (path?: string) => (path ? FIELD_LABELS[path] || path : '整列');
+
+const formatScalar = (v: any) => {
+    if (v === null || v === undefined || v === '') return '(空白)';
+    if (typeof v === 'boolean') return v ? '是' : '否';
+    if (typeof v === 'number') return v.toLocaleString();
+    return String(v);
+};
+
+// Values are scalars, lists (expenditures, meals) or whole row snapshots (create / delete)
+const renderValue = (v: any) => {
+    if (Array.isArray(v)) {
+        if (v.length === 0) return <span className="italic">(無)</span>;
+        return (
+            <div className="space-y-0.5">
+                {v.map((item, i) => (
+                    <div key={i}>{item && typeof item === 'object'
+                        ? `${item.item || item.personName || item.type || ''} ${formatScalar(item.amount)}`
+                        : formatScalar(item)}</div>
+                ))}
+            </div>
+        );
+    }
+    if (v && typeof v === 'object') {
+        const lines: [string, any][] = [];
+        Object.entries(v).forEach(([key, value]) => {
+            if (value && typeof value === 'object' && !Array.isArray(value)) {
+                Object.entries(value).forEach(([sub, subValue]) => lines.push([`${key}.${sub}`, subValue]));
+            } else {
+                lines.push([key, value]);
+            }
+        });
+        const shown = lines.filter(([key, value]) => FIELD_LABELS[key] && value !== null && value !== '' && value !== 0 && value !== undefined);
+        return (
+            <div className="space-y-0.5">
+                {shown.map(([key, value]) => (
+                    <div key={key} className="flex justify-between gap-2"><span>{FIELD_LABELS[key]}</span><span className="font-mono">{formatScalar(value)}</span></div>
+                ))}
+            </div>
+        );
+    }
+    return <span className="font-mono">{formatScalar(v)}</span>;
+};
+
+export const AuditLogModal: React.FC<Props> = ({ isOpen, onClose, clinicId, date, isLocked }) => {
+    const { currentUser, userRole } = useAuth();
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [revertingId, setRevertingId] = useState<string | null>(null);
+
+    const [filterRow, setFilterRow] = useState('');
+    const [filterUser, setFilterUser] = useState('');
+    const [filterField, setFilterField] = useState('');
+
+    const canRevert = ['admin', 'manager'].includes(userRole) && !isLocked;
+
+    const fetchEntries = async () => {
+        setIsLoading(true);
+        try {
+            setEntries(await getAuditEntries(clinicId, date));
+        } catch (e) {
+            console.error(e);
+            setEntries([]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen && clinicId && date) {
+            setFilterRow('');
+            setFilterUser('');
+            setFilterField('');
+            fetchEntries();
+        }
+    }, [isOpen, clinicId, date]);
+
+    const rowOptions = useMemo(() => {
+        const map = new Map<string, string>();
+        entries.forEach(e => { if (e.rowId && !map.has(e.rowId)) map.set(e.rowId, e.rowLabel || '未命名'); });
+        return Array.from(map.entries());
+    }, [entries]);
+    const userOptions = useMemo(() => Array.from(new Set(entries.map(e => e.userName).filter(Boolean))), [entries]);
+    const fieldOptions = useMemo(() => Array.from(new Set(entries.map(e => e.fieldPath).filter(Boolean) as string[])), [entries]);
+
+    const revertedIds = useMemo(() => new Set(entries.map(e => e.revertOf).filter(Boolean)), [entries]);
+
+    const filtered = useMemo(() => entries.filter(e =>
+        (!filterRow || e.rowId === filterRow) &&
+        (!filterUser || e.userName === filterUser) &&
+        (!filterField || e.fieldPath === filterField)
+    ), [entries, filterRow, filterUser, filterField]);
+
+    const handleRevert = async (entry: AuditLogEntry) => {
+        if (!currentUser) return;
+        const target = `${entry.rowLabel ? `[${entry.rowLabel}] ` : ''}${fieldLabel(entry.fieldPath)}`;
+        if (!confirm(`確定要還原此筆異動？\n${target}`)) return;
+
+        setRevertingId(entry.id || null);
+        try {
+            await revertAuditEntry(clinicId, date, entry, { uid: currentUser.uid, name: currentUser.email || 'User' });
+            await fetchEntries();
+        } catch (e: any) {
+            alert("還原失敗: " + e.message);
+        } finally {
+            setRevertingId(null);
+        }
+    };
+
     if (!isOpen) return null;
 
-    // --- CRITICAL FIX: Safe array handling ---
-    const safeLogs = Array.isArray(logs) ? logs : [];
-    
-    // Sort by timestamp (Newest First)
-    const sortedLogs = [...safeLogs].sort((a, b) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
+    const hasDiff = (log: AuditLogEntry) => log.oldValue !== undefined || log.newValue !== undefined;
 
     return (
         <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
-            <div className="bg-white rounded-xl shadow-lg w-full max-w-md animate-fade-in flex flex-col max-h-[80vh] overflow-hidden">
+            <div className="bg-white rounded-xl shadow-lg w-full max-w-3xl animate-fade-in flex flex-col max-h-[85vh] overflow-hidden">
                 {/* Header */}
                 <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
                     <h3 className="font-bold text-slate-800 flex items-center gap-2">
                         <History size={18} className="text-slate-500" /> 異動紀錄 (Audit Log)
+                        <span className="text-xs font-normal text-slate-400 font-mono">{date}</span>
                     </h3>
                     <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 transition-colors">
                         <X className="text-slate-400 hover:text-slate-600" />
                     </button>
                 </div>
-                
+
+                {/* Filters */}
+                <div className="px-4 py-2 border-b border-slate-100 flex flex-wrap items-center gap-2 text-xs">
+                    <Filter size={14} className="text-slate-400" />
+                    <select value={filterRow} onChange={e => setFilterRow(e.target.value)} className="border border-slate-200 rounded px-2 py-1 bg-white">
+                        <option value="">全部病患</option>
+                        {rowOptions.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                    </select>
+                    <select value={filterUser} onChange={e => setFilterUser(e.target.value)} className="border border-slate-200 rounded px-2 py-1 bg-white">
+                        <option value="">全部使用者</option>
+                        {userOptions.map(u => <option key={u} value={u}>{u}</option>)}
+                    </select>
+                    <select value={filterField} onChange={e => setFilterField(e.target.value)} className="border border-slate-200 rounded px-2 py-1 bg-white">
+                        <option value="">全部欄位</option>
+                        {fieldOptions.map(f => <option key={f} value={f}>{fieldLabel(f)}</option>)}
+                    </select>
+                    <span className="ml-auto text-slate-400">{filtered.length} 筆</span>
+                </div>
+
                 {/* Content */}
                 <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
-                    {sortedLogs.length === 0 ? (
+                    {isLoading ? (
+                        <div className="flex justify-center py-12 text-slate-400"><Loader2 className="animate-spin" /></div>
+                    ) : filtered.length === 0 ? (
                         <div className="flex flex-col items-center justify-center py-12 text-slate-400 text-center">
                             <History size={48} className="mb-3 opacity-20" />
                             <p className="font-medium">尚無異動紀錄</p>
@@ -43,35 +185,66 @@ export const AuditLogModal: React.FC<Props> = ({ isOpen, onClose, logs }) => {
                         </div>
                     ) : (
                         <div className="space-y-3">
-                            {sortedLogs.map((log, idx) => (
-                                <div key={idx} className="flex gap-3 text-sm p-3 hover:bg-slate-50 rounded-lg transition-colors border border-slate-100 shadow-sm bg-white">
+                            {filtered.map((log, idx) => (
+                                <div key={log.id || idx} className="flex gap-3 text-sm p-3 hover:bg-slate-50 rounded-lg transition-colors border border-slate-100 shadow-sm bg-white">
                                     <div className="mt-1 shrink-0">
                                         {log.action === 'LOCK' && <Lock size={16} className="text-emerald-500" />}
                                         {log.action === 'UNLOCK' && <Unlock size={16} className="text-rose-500" />}
                                         {log.action === 'UPDATE' && <Edit2 size={16} className="text-blue-500" />}
+                                        {log.action === 'CREATE' && <Plus size={16} className="text-emerald-500" />}
+                                        {log.action === 'DELETE' && <Trash2 size={16} className="text-rose-500" />}
+                                        {log.action === 'REVERT' && <RotateCcw size={16} className="text-amber-500" />}
+                                        {log.action === 'PRINT' && <Printer size={16} className="text-teal-500" />}
                                     </div>
                                     <div className="flex-1 min-w-0">
                                         <div className="flex justify-between items-start mb-1 gap-2">
                                             <span className={`font-bold ${log.action === 'LOCK' ? 'text-emerald-700' : log.action === 'UNLOCK' ? 'text-rose-700' : 'text-slate-700'}`}>
-                                                {log.action === 'LOCK' ? '結帳鎖定' : log.action === 'UNLOCK' ? '解鎖' : '修改內容'}
+                                                {ACTION_LABELS[log.action] || log.action}
+                                                {log.rowLabel !== undefined && <span className="ml-2 text-indigo-700">{log.rowLabel || '未命名'}</span>}
+                                                {hasDiff(log) && <span className="ml-2 text-xs font-medium text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">{fieldLabel(log.fieldPath)}</span>}
+                                                {log.id && revertedIds.has(log.id) && <span className="ml-2 text-[10px] font-medium text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded">已還原</span>}
                                             </span>
                                             <span className="text-[10px] text-slate-400 font-mono bg-slate-100 px-1.5 py-0.5 rounded whitespace-nowrap">
-                                                {new Date(log.timestamp).toLocaleString([], { 
-                                                    month: 'numeric', 
-                                                    day: 'numeric', 
-                                                    hour: '2-digit', 
-                                                    minute: '2-digit' 
+                                                {new Date(log.timestamp).toLocaleString([], {
+                                                    month: 'numeric',
+                                                    day: 'numeric',
+                                                    hour: '2-digit',
+                                                    minute: '2-digit'
                                                 })}
                                             </span>
                                         </div>
                                         <div className="text-xs text-slate-500 mb-1 flex items-center gap-1">
-                                            由 <span className="font-medium text-slate-900 bg-slate-100 px-1 rounded truncate max-w-[120px]">{log.userName}</span> 操作
+                                            由 <span className="font-medium text-slate-900 bg-slate-100 px-1 rounded truncate max-w-[160px]">{log.userName}</span> 操作
                                         </div>
-                                        {log.details && (
+                                        {hasDiff(log) && (
+                                            <div className="grid grid-cols-2 gap-2 mt-2 text-xs">
+                                                <div className="bg-rose-50 border border-rose-100 rounded p-2 text-rose-800 break-words">
+                                                    <div className="text-[10px] font-bold text-rose-400 mb-1">修改前</div>
+                                                    {renderValue(log.oldValue)}
+                                                </div>
+                                                <div className="bg-emerald-50 border border-emerald-100 rounded p-2 text-emerald-800 break-words">
+                                                    <div className="text-[10px] font-bold text-emerald-500 mb-1">修改後</div>
+                                                    {renderValue(log.newValue)}
+                                                </div>
+                                            </div>
+                                        )}
+                                        {log.details && !hasDiff(log) && (
                                             <div className="text-xs text-slate-500 mt-1.5 pl-2 border-l-2 border-slate-200 italic break-words leading-relaxed">
                                                 {log.details}
                                             </div>
                                         )}
+                                        {canRevert && isAuditEntryRevertible(log) && (
+                                            <div className="flex justify-end mt-2">
+                                                <button
+                                                    onClick={() => handleRevert(log)}
+                                                    disabled={revertingId !== null}
+                                                    className="text-xs font-bold text-amber-700 hover:bg-amber-50 border border-amber-200 px-2 py-1 rounded flex items-center gap-1 disabled:opacity-50"
+                                                >
+                                                    {revertingId === log.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                                                    還原此異動
+                                                </button>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             ))}
@@ -81,7 +254,7 @@ export const AuditLogModal: React.FC<Props> = ({ isOpen, onClose, logs }) => {
 
                 {/* Footer */}
                 <div className="p-3 bg-slate-50 border-t border-slate-100 flex justify-end">
-                    <button 
+                    <button
                         onClick={onClose}
                         className="px-4 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors shadow-sm"
                     >
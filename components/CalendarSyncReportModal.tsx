@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { AccountingRow, CalendarSyncReport } from '../types';
+import { X, RefreshCw, Loader2, Plus, Pencil, CalendarX, ArrowRight, Check, AlertTriangle } from 'lucide-react';
+
+interface Props {
+    report: CalendarSyncReport | null;
+    onClose: () => void;
+    onApply: (report: CalendarSyncReport) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    patientName: '姓名',
+    doctorId: '醫師',
+    calendarTreatment: '預約內容',
+    startTime: '時間',
+    chartId: '病歷號',
+    npStatus: 'NP',
+    isPublicCalendar: '公用日曆',
+    calendarCancelled: '日曆狀態'
+};
+
+const formatTime = (iso?: string) => iso ? new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false }) : '-';
+
+const formatField = (row: AccountingRow, field: string): string => {
+    if (field === 'startTime') return formatTime(row.startTime);
+    if (field === 'doctorId') return row.doctorName || '-';
+    if (field === 'isPublicCalendar') return row.isPublicCalendar ? '是' : '否';
+    if (field === 'calendarCancelled') return row.calendarCancelled ? '已取消' : '正常';
+    const value = (row as any)[field];
+    return value === undefined || value === null || value === '' ? '-' : String(value);
+};
+
+export const CalendarSyncReportModal: React.FC<Props> = ({ report, onClose, onApply }) => {
+    const [isApplying, setIsApplying] = useState(false);
+
+    if (!report) return null;
+
+    const total = report.added.length + report.updated.length + report.removed.length;
+
+    const handleApply = async () => {
+        setIsApplying(true);
+        try {
+            await onApply(report);
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slide-down flex flex-col max-h-[85vh]">
+                <div className="bg-blue-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="text-lg font-bold flex items-center gap-2">
+                            <RefreshCw size={20} />
+                            同步預約 (變更報告)
+                        </h3>
+                        <div className="text-sm text-blue-100 mt-1">
+                            {report.isFull ? '已比對當日完整日曆' : '僅比對上次同步後的日曆變更'} · 確認後才會寫入日報表
+                        </div>
+                    </div>
+                    <button onClick={onClose} disabled={isApplying} className="p-1 rounded-full hover:bg-blue-700 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {report.added.length > 0 && (
+                        <section>
+                            <h4 className="text-sm font-bold text-emerald-700 flex items-center gap-1 mb-2"><Plus size={16} /> 新增 ({report.added.length})</h4>
+                            <div className="space-y-1">
+                                {report.added.map(row => (
+                                    <div key={row.id} className="flex items-center gap-3 text-sm bg-emerald-50/60 border border-emerald-100 rounded-lg px-3 py-2">
+                                        <span className="font-mono text-xs text-slate-500">{formatTime(row.startTime)}</span>
+                                        <span className="font-bold text-slate-700">{row.patientName}</span>
+                                        <span className="text-xs text-slate-500">{row.doctorName}</span>
+                                        <span className="text-xs text-slate-400 truncate">{row.calendarTreatment}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+
+                    {report.updated.length > 0 && (
+                        <section>
+                            <h4 className="text-sm font-bold text-blue-700 flex items-center gap-1 mb-2"><Pencil size={16} /> 更新 ({report.updated.length})</h4>
+                            <div className="space-y-1">
+                                {report.updated.map(({ before, after, fields }) => (
+                                    <div key={after.id} className="text-sm bg-blue-50/60 border border-blue-100 rounded-lg px-3 py-2">
+                                        <div className="font-bold text-slate-700">{after.patientName}</div>
+                                        {fields.map(field => (
+                                            <div key={field} className="flex items-center gap-2 text-xs mt-1 flex-wrap">
+                                                <span className="text-slate-500 w-16 shrink-0">{FIELD_LABELS[field] || field}</span>
+                                                <span className="font-mono bg-rose-50 text-rose-700 px-1.5 py-0.5 rounded line-through decoration-rose-300">{formatField(before, field)}</span>
+                                                <ArrowRight size={12} className="text-slate-400" />
+                                                <span className="font-mono bg-emerald-50 text-emerald-700 px-1.5 py-0.5 rounded">{formatField(after, field)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+
+                    {report.removed.length > 0 && (
+                        <section>
+                            <h4 className="text-sm font-bold text-rose-700 flex items-center gap-1 mb-2"><CalendarX size={16} /> 日曆已取消 ({report.removed.length})</h4>
+                            <div className="text-xs text-slate-500 mb-2">這些列會保留在日報表並標示為「日曆已取消」，確認未到診後可手動刪除。</div>
+                            <div className="space-y-1">
+                                {report.removed.map(({ before, after }) => (
+                                    <div key={after.id} className="flex items-center gap-3 text-sm bg-rose-50/60 border border-rose-100 rounded-lg px-3 py-2">
+                                        <span className="font-mono text-xs text-slate-500">{formatTime(before.startTime)}</span>
+                                        <span className="font-bold text-slate-700">{before.patientName}</span>
+                                        <span className="text-xs text-slate-500">{before.doctorName}</span>
+                                        <span className="ml-auto text-xs font-bold text-rose-600">
+                                            {after.calendarCancelled?.reason === 'moved' ? `改約至 ${after.calendarCancelled.movedTo}` : '預約已刪除'}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+
+                    {report.unparsed.length > 0 && (
+                        <section>
+                            <h4 className="text-sm font-bold text-amber-700 flex items-center gap-1 mb-2"><AlertTriangle size={16} /> 無法解析的標題 ({report.unparsed.length})</h4>
+                            <div className="text-xs text-slate-500 mb-2">這些預約不會匯入日報表。請修正日曆標題，或請管理員在「系統整合」調整標題解析規則。</div>
+                            <div className="space-y-1">
+                                {report.unparsed.map(u => (
+                                    <div key={u.eventId} className="flex items-center gap-3 text-sm bg-amber-50/60 border border-amber-100 rounded-lg px-3 py-2">
+                                        <span className="font-mono text-xs text-slate-500">{formatTime(u.startTime)}</span>
+                                        <span className="font-mono text-slate-700 truncate">{u.title || '(無標題)'}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50 shrink-0">
+                    <button onClick={onClose} disabled={isApplying} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">取消</button>
+                    <button onClick={handleApply} disabled={isApplying || total === 0} className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md disabled:opacity-50 transition-transform active:scale-95">
+                        {isApplying ? <Loader2 size={18} className="animate-spin" /> : <Check size={18} />} 套用 {total} 項變更
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
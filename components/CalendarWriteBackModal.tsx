@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarWriteBackChange } from '../types';
+import { ATTENDANCE_MARKS } from '../utils/eventParser';
+import { X, CalendarCheck, Loader2, ArrowRight, Send } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    changes: CalendarWriteBackChange[];
+    isLoading: boolean;
+    onConfirm: (changes: CalendarWriteBackChange[]) => Promise<void>;
+}
+
+export const CalendarWriteBackModal: React.FC<Props> = ({ isOpen, onClose, changes, isLoading, onConfirm }) => {
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isSending, setIsSending] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) setSelected(new Set(changes.map(c => c.rowId)));
+    }, [isOpen, changes]);
+
+    if (!isOpen) return null;
+
+    const toggle = (rowId: string) => {
+        const next = new Set(selected);
+        if (next.has(rowId)) next.delete(rowId); else next.add(rowId);
+        setSelected(next);
+    };
+
+    const handleConfirm = async () => {
+        setIsSending(true);
+        try {
+            await onConfirm(changes.filter(c => selected.has(c.rowId)));
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slide-down flex flex-col max-h-[85vh]">
+                <div className="bg-blue-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="text-lg font-bold flex items-center gap-2">
+                            <CalendarCheck size={20} />
+                            回寫預約日曆 (預覽)
+                        </h3>
+                        <div className="text-sm text-blue-100 mt-1">到診 ({ATTENDANCE_MARKS.arrived}) / 未到 ({ATTENDANCE_MARKS.noShow})、病歷號、姓名與治療內容將更新到預約標題</div>
+                    </div>
+                    <button onClick={onClose} disabled={isSending} className="p-1 rounded-full hover:bg-blue-700 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-12 text-slate-400 gap-2"><Loader2 className="animate-spin" /> 比對日曆中...</div>
+                    ) : changes.length === 0 ? (
+                        <div className="text-center py-12 text-slate-400 text-sm">日曆標題皆已與帳務一致，無需回寫</div>
+                    ) : (
+                        changes.map(c => (
+                            <label key={c.rowId} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${selected.has(c.rowId) ? 'border-blue-300 bg-blue-50/50' : 'border-slate-200'}`}>
+                                <input type="checkbox" className="mt-1" checked={selected.has(c.rowId)} onChange={() => toggle(c.rowId)} disabled={isSending} />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-bold text-slate-700">{c.patientName || '未命名'}</div>
+                                    <div className="flex items-center gap-2 text-xs mt-1 flex-wrap">
+                                        <span className="font-mono bg-rose-50 text-rose-700 px-1.5 py-0.5 rounded line-through decoration-rose-300">{c.fromTitle}</span>
+                                        <ArrowRight size={12} className="text-slate-400" />
+                                        <span className="font-mono bg-emerald-50 text-emerald-700 px-1.5 py-0.5 rounded">{c.toTitle}</span>
+                                    </div>
+                                </div>
+                            </label>
+                        ))
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50 shrink-0">
+                    <button onClick={onClose} disabled={isSending} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">取消</button>
+                    <button onClick={handleConfirm} disabled={isSending || isLoading || selected.size === 0} className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md disabled:opacity-50 transition-transform active:scale-95">
+                        {isSending ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />} 寫入 {selected.size} 筆
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,10 +1,15 @@
 
 import React, { useState } from 'react';
-import { Clinic, DailyHours, ClinicStyleConfig } from '../types';
+import { Clinic, DailyHours, ClinicStyleConfig, RuleSeverity, Operatory, ReminderChannel, RecallRule } from '../types';
 import { DEFAULT_STYLE_CONFIG } from '../services/storageService';
 import { uploadImage, saveClinic } from '../services/firebase';
 import { VisualConfigForm } from './VisualConfigForm';
-import { MapPin, Phone, Plus, Check, X, Link as LinkIcon, Image as ImageIcon, Edit2, Palette, Code, Upload, Loader2, Users, Clock } from 'lucide-react';
+import { DEFAULT_OVER_SHORT_THRESHOLD } from './ClosingSummaryModal';
+import { VALIDATION_RULES, getRuleSeverity } from '../utils/validationRules';
+import { DEFAULT_REMINDER_TEMPLATE, REMINDER_PLACEHOLDERS } from '../utils/reminders';
+import { REMINDER_CHANNEL_OPTIONS } from '../services/reminderDelivery';
+import { getRecallRules, RECALL_CATEGORY_LABELS } from '../utils/recalls';
+import { MapPin, Phone, Plus, Check, X, Link as LinkIcon, Image as ImageIcon, Edit2, Palette, Code, Upload, Loader2, Users, Clock, ShieldCheck, Armchair, Trash2, BellRing, CalendarClock, Banknote } from 'lucide-react';
 import { useClinic } from '../contexts/ClinicContext';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -73,7 +78,9 @@ export const ClinicManager: React.FC<Props> = ({ onSave }) => {
         },
         styleConfig: DEFAULT_STYLE_CONFIG,
         googleCalendarMapping: {},
-        allowedUsers: []
+        allowedUsers: [],
+        validationRules: {},
+        operatories: []
     });
     setStyleJson(JSON.stringify(DEFAULT_STYLE_CONFIG, null, 2));
     setEmailInput('');
@@ -84,6 +91,10 @@ export const ClinicManager: React.FC<Props> = ({ onSave }) => {
     setIsAdding(true); 
   };
 
+  const setRecallRule = (rule: RecallRule) => {
+    setNewClinic(prev => ({ ...prev, recallRules: getRecallRules(prev).map(r => r.category === rule.category ? rule : r) }));
+  };
+
   const closeForm = () => {
     setIsAdding(false);
     setEditingId(null);
@@ -116,7 +127,16 @@ export const ClinicManager: React.FC<Props> = ({ onSave }) => {
         },
         styleConfig: config,
         googleCalendarMapping: clinic.googleCalendarMapping || {},
-        allowedUsers: clinic.allowedUsers || []
+        calendarWriteBack: !!clinic.calendarWriteBack,
+        calendarProvider: clinic.calendarProvider || { type: 'google' },
+        ...(clinic.titleGrammar ? { titleGrammar: clinic.titleGrammar } : {}),
+        reminderTemplate: clinic.reminderTemplate || '',
+        reminderChannel: clinic.reminderChannel || 'manual',
+        recallRules: getRecallRules(clinic),
+        ...(clinic.overShortThreshold !== undefined ? { overShortThreshold: clinic.overShortThreshold } : {}),
+        allowedUsers: clinic.allowedUsers || [],
+        validationRules: clinic.validationRules || {},
+        operatories: (clinic.operatories || []).map(o => ({ ...o }))
     });
     setStyleJson(JSON.stringify(config, null, 2));
     setEmailInput('');
@@ -266,7 +286,16 @@ export const ClinicManager: React.FC<Props> = ({ onSave }) => {
             shiftLabels: safeShiftLabels,
             styleConfig: safeStyleConfig,
             googleCalendarMapping: newClinic.googleCalendarMapping || {},
-            allowedUsers: safeAllowedUsers
+            calendarWriteBack: !!newClinic.calendarWriteBack,
+            calendarProvider: newClinic.calendarProvider || { type: 'google' },
+            ...(newClinic.titleGrammar ? { titleGrammar: newClinic.titleGrammar } : {}),
+            allowedUsers: safeAllowedUsers,
+            validationRules: newClinic.validationRules || {},
+            operatories: (newClinic.operatories || []).filter(o => o.name.trim()),
+            reminderTemplate: newClinic.reminderTemplate?.trim() || '',
+            reminderChannel: newClinic.reminderChannel || 'manual',
+            recallRules: getRecallRules(newClinic),
+            ...(newClinic.overShortThreshold !== undefined ? { overShortThreshold: newClinic.overShortThreshold } : {})
         };
 
         // 2. Save to Firestore (Single Document Mode)
@@ -293,6 +322,21 @@ export const ClinicManager: React.FC<Props> = ({ onSave }) => {
     }
   };
 
+  const updateOperatory = (id: string, changes: Partial<Operatory>) => {
+    setNewClinic({ ...newClinic, operatories: (newClinic.operatories || []).map(o => o.id === id ? { ...o, ...changes } : o) });
+  };
+
+  const handleAddOperatory = () => {
+    const list = newClinic.operatories || [];
+    setNewClinic({ ...newClinic, operatories: [...list, { id: generateId(), name: `${list.length + 1} 診`, color: '#0d9488' }] });
+  };
+
+  const handleRemoveOperatory = (id: string) => {
+    // Appointments left in a removed chair show as unassigned; unticking 使用中 keeps their history instead
+    if (!confirm("確定移除此診間？已排入此診間的預約會顯示為未分配。")) return;
+    setNewClinic({ ...newClinic, operatories: (newClinic.operatories || []).filter(o => o.id !== id) });
+  };
+
   const toggleShift = (dayIdx: number, shift: keyof DailyHours) => {
     if (!newClinic.weeklyHours) return;
     const updatedHours = [...newClinic.weeklyHours];
@@ -418,6 +462,84 @@ export const ClinicManager: React.FC<Props> = ({ onSave }) => {
                    />
               </div>
 
+              {/* Appointment Reminder Template */}
+              <div className="border-t border-slate-100 pt-4 mt-4">
+                  <h4 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+                      <BellRing size={16} /> 約診提醒訊息 (Reminders)
+                  </h4>
+                  <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-3">
+                      <div>
+                          <label className="block text-xs font-bold text-slate-500 mb-1">傳送方式</label>
+                          <select
+                              className="w-full border rounded px-2 py-1 text-sm bg-white outline-none focus:ring-1 focus:ring-teal-500"
+                              value={newClinic.reminderChannel || 'manual'}
+                              onChange={e => setNewClinic({ ...newClinic, reminderChannel: e.target.value as ReminderChannel })}
+                          >
+                              {REMINDER_CHANNEL_OPTIONS.map(o => <option key={o.channel} value={o.channel}>{o.label} - {o.description}</option>)}
+                          </select>
+                      </div>
+                      <div>
+                          <label className="block text-xs font-bold text-slate-500 mb-1">訊息範本 (留空使用預設範本)</label>
+                          <textarea
+                              rows={4}
+                              className="w-full border rounded px-2 py-1 text-sm outline-none focus:ring-1 focus:ring-teal-500"
+                              value={newClinic.reminderTemplate || ''}
+                              onChange={e => setNewClinic({ ...newClinic, reminderTemplate: e.target.value })}
+                              placeholder={DEFAULT_REMINDER_TEMPLATE}
+                          />
+                          <div className="flex flex-wrap gap-1 mt-1">
+                              {REMINDER_PLACEHOLDERS.map(p => (
+                                  <button
+                                      key={p.key}
+                                      type="button"
+                                      onClick={() => setNewClinic({ ...newClinic, reminderTemplate: `${newClinic.reminderTemplate || ''}{${p.key}}` })}
+                                      className="text-[10px] px-1.5 py-0.5 rounded bg-white border border-slate-200 text-slate-500 hover:text-teal-600 hover:border-teal-300"
+                                      title={p.label}
+                                  >
+                                      {`{${p.key}}`} {p.label}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                  </div>
+              </div>
+
+              {/* Recall Rules */}
+              <div className="border-t border-slate-100 pt-4 mt-4">
+                  <h4 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+                      <CalendarClock size={16} /> 回診提醒規則 (Recall)
+                  </h4>
+                  <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 grid grid-cols-2 gap-2">
+                      {getRecallRules(newClinic).map(rule => (
+                          <div key={rule.category} className="flex items-center justify-between gap-2 bg-white px-3 py-2 rounded border border-slate-200">
+                              <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                                  <input
+                                      type="checkbox"
+                                      checked={rule.enabled}
+                                      onChange={e => setRecallRule({ ...rule, enabled: e.target.checked })}
+                                      className="rounded text-teal-600"
+                                  />
+                                  {RECALL_CATEGORY_LABELS[rule.category]}
+                              </label>
+                              <div className="flex items-center gap-1 text-xs text-slate-500">
+                                  每
+                                  <input
+                                      type="number"
+                                      min={1}
+                                      max={60}
+                                      disabled={!rule.enabled}
+                                      className="w-14 border rounded px-2 py-1 text-sm text-right outline-none focus:ring-1 focus:ring-teal-500 disabled:bg-slate-100"
+                                      value={rule.intervalMonths}
+                                      onChange={e => setRecallRule({ ...rule, intervalMonths: Math.max(1, Number(e.target.value) || 1) })}
+                                  />
+                                  個月
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+                  <p className="text-[10px] text-slate-400 mt-1">從該類療程最後一次看診起算；未同意行銷的病患不會列入回診名單。</p>
+              </div>
+
               {/* Shift Labels Configuration */}
               <div className="border-t border-slate-100 pt-4 mt-4">
                   <h4 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
@@ -466,6 +588,41 @@ export const ClinicManager: React.FC<Props> = ({ onSave }) => {
                   </p>
               </div>
 
+              {/* Operatories (Chairs) */}
+              <div className="border-t border-slate-100 pt-4 mt-4">
+                  <h4 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+                      <Armchair size={16} /> 診間 / 治療椅 (Operatories)
+                  </h4>
+                  <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2">
+                      {(newClinic.operatories || []).map(op => (
+                          <div key={op.id} className="flex items-center gap-2">
+                              <input
+                                  type="color"
+                                  className="w-8 h-8 rounded cursor-pointer border-0 p-0 shrink-0"
+                                  value={op.color || '#0d9488'}
+                                  onChange={e => updateOperatory(op.id, { color: e.target.value })}
+                              />
+                              <input
+                                  className="flex-1 border rounded px-2 py-1 text-sm outline-none focus:ring-1 focus:ring-teal-500"
+                                  value={op.name}
+                                  onChange={e => updateOperatory(op.id, { name: e.target.value })}
+                                  placeholder="例如: 1 診、矯正椅"
+                              />
+                              <label className="flex items-center gap-1 text-xs font-bold text-slate-500 whitespace-nowrap">
+                                  <input type="checkbox" checked={!op.disabled} onChange={e => updateOperatory(op.id, { disabled: !e.target.checked })} /> 使用中
+                              </label>
+                              <button onClick={() => handleRemoveOperatory(op.id)} type="button" className="p-1 text-slate-400 hover:text-rose-500"><Trash2 size={14} /></button>
+                          </div>
+                      ))}
+                      {(newClinic.operatories || []).length === 0 && (
+                          <p className="text-xs text-slate-400 italic">尚未設定診間。設定後可在約診日曆將預約排入診間並檢視使用率。</p>
+                      )}
+                      <button onClick={handleAddOperatory} type="button" className="text-sm font-bold text-teal-600 hover:text-teal-800 flex items-center gap-1">
+                          <Plus size={14} /> 新增診間
+                      </button>
+                  </div>
+              </div>
+
               {/* Authorized Staff Section */}
               <div className="border-t border-slate-100 pt-4 mt-4">
                   <h4 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
@@ -508,6 +665,58 @@ export const ClinicManager: React.FC<Props> = ({ onSave }) => {
                   </div>
               </div>
 
+              {/* Cash Drawer */}
+              <div className="border-t border-slate-100 pt-4 mt-4">
+                  <h4 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+                      <Banknote size={16} /> 結帳點鈔 (Cash Drawer)
+                  </h4>
+                  <div className="bg-slate-50 p-3 rounded-lg border border-slate-200">
+                      <label className="block text-xs font-bold text-slate-500 mb-1">現金差額容許上限 (超過需填寫說明)</label>
+                      <input
+                          type="number"
+                          min={0}
+                          className="w-40 border rounded px-2 py-1 text-sm outline-none focus:ring-1 focus:ring-teal-500"
+                          value={newClinic.overShortThreshold ?? ''}
+                          placeholder={String(DEFAULT_OVER_SHORT_THRESHOLD)}
+                          onChange={e => setNewClinic({ ...newClinic, overShortThreshold: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value) || 0) })}
+                      />
+                  </div>
+              </div>
+
+              {/* Daily Closing Validation Rules (Admin only) */}
+              {userRole === 'admin' && (
+                  <div className="border-t border-slate-100 pt-4 mt-4">
+                      <h4 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
+                          <ShieldCheck size={16} /> 日報表檢核規則 (Validation Rules)
+                      </h4>
+                      <div className="bg-slate-50 rounded-lg border border-slate-200 divide-y divide-slate-200">
+                          {VALIDATION_RULES.map(rule => {
+                              const severity = getRuleSeverity(rule, newClinic.validationRules);
+                              return (
+                                  <div key={rule.id} className="flex items-center justify-between gap-4 p-3">
+                                      <div>
+                                          <div className="text-sm font-medium text-slate-700">{rule.label}</div>
+                                          <div className="text-xs text-slate-400">{rule.description}</div>
+                                      </div>
+                                      <select
+                                          value={severity}
+                                          onChange={e => setNewClinic({
+                                              ...newClinic,
+                                              validationRules: { ...(newClinic.validationRules || {}), [rule.id]: e.target.value as RuleSeverity }
+                                          })}
+                                          className={`border rounded-md px-2 py-1 text-xs font-bold outline-none ${severity === 'block' ? 'text-rose-600 border-rose-200' : severity === 'warn' ? 'text-amber-600 border-amber-200' : 'text-slate-400 border-slate-200'}`}
+                                      >
+                                          <option value="block">禁止結帳</option>
+                                          <option value="warn">僅提醒</option>
+                                          <option value="off">停用</option>
+                                      </select>
+                                  </div>
+                              );
+                          })}
+                      </div>
+                  </div>
+              )}
+
               <div className="border-t border-slate-100 pt-4 mt-4">
                   <h4 className="text-sm font-semibold text-slate-800 mb-3 flex items-center gap-2">
                       <Palette size={16} /> 視覺與樣式設定
@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ClosingBacklogDay, RuleSeverity } from '../types';
+import { getClosingBacklog, lockDaysInBulk } from '../services/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { X, ListChecks, Loader2, Lock, AlertTriangle, XCircle, CheckCircle, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinicId: string;
+    startDate: string; // Inclusive range of days to review
+    endDate: string;
+    ruleConfig?: Record<string, RuleSeverity>;
+    onOpenDay?: (date: string) => void;
+    onLocked?: (dates: string[]) => void;
+}
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+export const ClosingBacklogModal: React.FC<Props> = ({ isOpen, onClose, clinicId, startDate, endDate, ruleConfig, onOpenDay, onLocked }) => {
+    const { currentUser, userRole } = useAuth();
+    const [days, setDays] = useState<ClosingBacklogDay[]>([]);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+    const [failures, setFailures] = useState<{ date: string, error: string }[]>([]);
+
+    const canLock = ['admin', 'manager', 'team_leader'].includes(userRole || '');
+
+    const loadBacklog = async () => {
+        setIsLoading(true);
+        try {
+            const data = await getClosingBacklog(clinicId, startDate, endDate, ruleConfig);
+            setDays(data);
+            setSelected(new Set());
+        } catch (e) {
+            console.error(e);
+            alert("讀取結帳待辦失敗");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen && clinicId) {
+            setFailures([]);
+            setExpanded(null);
+            loadBacklog();
+        }
+    }, [isOpen, clinicId, startDate, endDate]);
+
+    const lockable = useMemo(() => days.filter(d => d.errors.length === 0), [days]);
+    const grandTotal = useMemo(() => days.reduce((sum, d) => sum + d.totals.total, 0), [days]);
+
+    if (!isOpen) return null;
+
+    const toggle = (date: string) => {
+        const next = new Set(selected);
+        if (next.has(date)) next.delete(date); else next.add(date);
+        setSelected(next);
+    };
+
+    const toggleAll = () => {
+        setSelected(selected.size === lockable.length ? new Set() : new Set(lockable.map(d => d.date)));
+    };
+
+    const handleBulkLock = async () => {
+        if (!currentUser || selected.size === 0) return;
+        const withWarnings = days.filter(d => selected.has(d.date) && d.warnings.length > 0).length;
+        const msg = `確定要鎖定選取的 ${selected.size} 天嗎？` +
+            (withWarnings > 0 ? `\n其中 ${withWarnings} 天仍有警告項目。` : '') +
+            `\n批次結帳不含點鈔紀錄 (次日備用金沿用最近一次點鈔)，鎖定後需由主管解鎖才能修改。`;
+        if (!confirm(msg)) return;
+
+        setProgress({ done: 0, total: selected.size });
+        try {
+            const { locked, failed } = await lockDaysInBulk(
+                clinicId,
+                Array.from(selected),
+                { uid: currentUser.uid, name: currentUser.email || 'User' },
+                ruleConfig,
+                (done, total) => setProgress({ done, total })
+            );
+            setFailures(failed);
+            if (locked.length > 0) onLocked?.(locked);
+            await loadBacklog();
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-slate-800 text-white p-4 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="text-lg font-bold flex items-center gap-2">
+                            <ListChecks size={20} />
+                            結帳待辦 (Closing Backlog)
+                        </h3>
+                        <div className="text-sm text-slate-300 mt-1">{startDate} ~ {endDate} 尚未結帳的日期</div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={loadBacklog} disabled={isLoading || !!progress} className="p-1 rounded-full hover:bg-slate-700 transition-colors disabled:opacity-50" title="重新整理">
+                            <RefreshCw size={18} />
+                        </button>
+                        <button onClick={onClose} disabled={!!progress} className="p-1 rounded-full hover:bg-slate-700 transition-colors">
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                {failures.length > 0 && (
+                    <div className="mx-4 mt-4 bg-rose-50 border border-rose-200 rounded-lg p-3 text-sm text-rose-700">
+                        <div className="font-bold flex items-center gap-2 mb-1"><XCircle size={16} /> 以下日期鎖定失敗</div>
+                        {failures.map(f => <div key={f.date} className="text-xs"><span className="font-mono">{f.date}</span>: {f.error}</div>)}
+                    </div>
+                )}
+
+                <div className="flex-1 overflow-y-auto p-4">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-12 text-slate-400 gap-2"><Loader2 className="animate-spin" /> 讀取中...</div>
+                    ) : days.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-12 text-emerald-600 gap-2">
+                            <CheckCircle size={32} />
+                            <span className="font-bold">此期間的日報表皆已結帳</span>
+                        </div>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs text-slate-500 border-b border-slate-200">
+                                    <th className="py-2 w-8">
+                                        {canLock && <input type="checkbox" checked={lockable.length > 0 && selected.size === lockable.length} onChange={toggleAll} disabled={lockable.length === 0} />}
+                                    </th>
+                                    <th className="py-2 text-left">日期</th>
+                                    <th className="py-2 text-right">筆數</th>
+                                    <th className="py-2 text-right">現金</th>
+                                    <th className="py-2 text-right">刷卡</th>
+                                    <th className="py-2 text-right">匯款</th>
+                                    <th className="py-2 text-right">總計</th>
+                                    <th className="py-2 text-center">檢查</th>
+                                    <th className="py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {days.map(d => {
+                                    const isBlocked = d.errors.length > 0;
+                                    const isExpanded = expanded === d.date;
+                                    const hasIssues = d.errors.length + d.warnings.length > 0;
+                                    return (
+                                        <React.Fragment key={d.date}>
+                                            <tr className={`border-b border-slate-100 ${isBlocked ? 'bg-rose-50/40' : ''}`}>
+                                                <td className="py-2 text-center">
+                                                    {canLock && <input type="checkbox" checked={selected.has(d.date)} onChange={() => toggle(d.date)} disabled={isBlocked || !!progress} />}
+                                                </td>
+                                                <td className="py-2 font-mono font-bold text-slate-700">
+                                                    {d.date} <span className="text-xs text-slate-400 font-sans">({WEEKDAYS[new Date(d.date).getDay()]})</span>
+                                                </td>
+                                                <td className="py-2 text-right tabular-nums text-slate-500">{d.rowCount}</td>
+                                                <td className="py-2 text-right tabular-nums">{d.totals.cash.toLocaleString()}</td>
+                                                <td className="py-2 text-right tabular-nums">{d.totals.card.toLocaleString()}</td>
+                                                <td className="py-2 text-right tabular-nums">{d.totals.transfer.toLocaleString()}</td>
+                                                <td className="py-2 text-right tabular-nums font-bold text-slate-800">{d.totals.total.toLocaleString()}</td>
+                                                <td className="py-2 text-center">
+                                                    <button
+                                                        onClick={() => hasIssues && setExpanded(isExpanded ? null : d.date)}
+                                                        className={`inline-flex items-center gap-1 text-xs font-bold px-2 py-0.5 rounded ${isBlocked ? 'bg-rose-100 text-rose-700' : d.warnings.length > 0 ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'}`}
+                                                    >
+                                                        {isBlocked ? <><XCircle size={12} /> {d.errors.length} 錯誤</> : d.warnings.length > 0 ? <><AlertTriangle size={12} /> {d.warnings.length} 警告</> : <><CheckCircle size={12} /> 通過</>}
+                                                        {hasIssues && (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+                                                    </button>
+                                                </td>
+                                                <td className="py-2 text-right">
+                                                    {onOpenDay && (
+                                                        <button onClick={() => { onOpenDay(d.date); onClose(); }} disabled={!!progress} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 disabled:opacity-50">開啟</button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                            {isExpanded && (
+                                                <tr className="border-b border-slate-100 bg-slate-50">
+                                                    <td></td>
+                                                    <td colSpan={8} className="py-2 text-xs space-y-0.5">
+                                                        {d.errors.map((e, i) => <div key={`e${i}`} className="text-rose-600">• {e}</div>)}
+                                                        {d.warnings.map((w, i) => <div key={`w${i}`} className="text-amber-700">• {w}</div>)}
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </React.Fragment>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-between items-center gap-3 bg-slate-50 shrink-0">
+                    <div className="text-xs text-slate-500">
+                        共 {days.length} 天未結帳 · 合計 ${grandTotal.toLocaleString()}
+                        {days.length > lockable.length && <span className="text-rose-600 font-bold"> · {days.length - lockable.length} 天有錯誤需先修正</span>}
+                    </div>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} disabled={!!progress} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">關閉</button>
+                        {canLock && (
+                            <button onClick={handleBulkLock} disabled={selected.size === 0 || !!progress} className="bg-slate-800 hover:bg-slate-900 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md disabled:opacity-50 transition-transform active:scale-95">
+                                {progress ? <><Loader2 size={18} className="animate-spin" /> 鎖定中 {progress.done}/{progress.total}</> : <><Lock size={18} /> 鎖定選取 ({selected.size})</>}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,30 +1,81 @@
-import React, { useState } from 'react';
-import { Loader2, Lock, AlertTriangle, CheckCircle, Info, XCircle } from 'lucide-react';
-import { AccountingRow } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Loader2, Lock, AlertTriangle, CheckCircle, Info, XCircle, Banknote } from 'lucide-react';
+import { AccountingRow, CashCount } from '../types';
+import { useAuth } from '../contexts/AuthContext';
 
 interface Props {
     isOpen: boolean;
     onClose: () => void;
-    onConfirm: () => Promise<void>;
+    onConfirm: (cashCount: CashCount) => Promise<void>;
     date: string;
     clinicId: string;
+    overShortThreshold?: number; // The clinic's setting (ClinicManager)
     rows: AccountingRow[];
     totals: { cash: number; card: number; transfer: number; total: number; };
-    validationErrors?: string[];
+    // Inputs for the expected drawer amount
+    cashFlow: { initialCash: number; cashCollected: number; cashExpenditure: number; mealSpending: number; };
+    validationErrors?: string[];   // Blocking rule violations
+    validationWarnings?: string[]; // Non-blocking rule violations
     unlockedDates?: string[]; // New prop
+    onOpenBacklog?: () => void;
 }
 
+export const DEFAULT_OVER_SHORT_THRESHOLD = 100;
+
+// NT$ bills and coins, largest first
+const DENOMINATIONS = [2000, 1000, 500, 200, 100, 50, 10, 5, 1];
+
 export const ClosingSummaryModal: React.FC<Props> = ({ 
-    isOpen, onClose, onConfirm, date, clinicId, rows, totals, validationErrors = [], unlockedDates = []
+    isOpen, onClose, onConfirm, date, clinicId, overShortThreshold, rows, totals, cashFlow, validationErrors = [], validationWarnings = [], unlockedDates = [], onOpenBacklog
 }) => {
+    const { currentUser } = useAuth();
     const [isProcessing, setIsProcessing] = useState(false);
+    const [counts, setCounts] = useState<Record<string, string>>({});
+    const [explanation, setExplanation] = useState('');
+    const [closingFloat, setClosingFloat] = useState<string>('');
+    const threshold = overShortThreshold ?? DEFAULT_OVER_SHORT_THRESHOLD;
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setCounts({});
+        setExplanation('');
+        setClosingFloat(String(cashFlow.initialCash || 0));
+    }, [isOpen, clinicId]);
+
+    const countedTotal = useMemo(() =>
+        DENOMINATIONS.reduce((sum, d) => sum + d * (Number(counts[d]) || 0), 0), [counts]);
+
+    const expectedCash = cashFlow.initialCash + cashFlow.cashCollected - cashFlow.cashExpenditure - cashFlow.mealSpending;
+    const overShort = countedTotal - expectedCash;
+    const needsExplanation = Math.abs(overShort) > threshold;
+    const floatValue = Number(closingFloat) || 0;
+
+    const cashError =
+        needsExplanation && !explanation.trim() ? `差額超過 $${threshold.toLocaleString()}，請填寫說明` :
+        floatValue < 0 || floatValue > countedTotal ? '留存零用金不可大於實點現金' : null;
 
     const handleConfirm = async () => {
-        if (validationErrors.length > 0) return;
+        if (validationErrors.length > 0 || cashError) return;
+
+        const denominations: Record<string, number> = {};
+        DENOMINATIONS.forEach(d => {
+            const n = Number(counts[d]) || 0;
+            if (n > 0) denominations[d] = n;
+        });
         
         setIsProcessing(true);
         try {
-            await onConfirm();
+            await onConfirm({
+                denominations,
+                countedTotal,
+                ...cashFlow,
+                expectedCash,
+                overShort,
+                explanation: explanation.trim() || undefined,
+                closingFloat: floatValue,
+                countedBy: currentUser?.email || 'User',
+                countedAt: new Date().toISOString()
+            });
             // Parent handles close
         } catch (e) {
             console.error("Lock Day Error:", e);
@@ -39,7 +90,7 @@ export const ClosingSummaryModal: React.FC<Props> = ({
 
     return (
         <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
-            <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
                 <div className="bg-slate-900 text-white p-4 flex justify-between items-center shrink-0">
                     <h3 className="text-lg font-bold flex items-center gap-2">
                         <Lock size={20} className="text-emerald-400" />
@@ -68,6 +119,23 @@ export const ClosingSummaryModal: React.FC<Props> = ({
                         </div>
                     )}
 
+                    {/* 1b. Rule Warnings (do not block) */}
+                    {!hasErrors && validationWarnings.length > 0 && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                            <div className="font-bold text-amber-700 flex items-center gap-2 mb-2">
+                                <AlertTriangle size={18} /> 提醒事項 ({validationWarnings.length})
+                            </div>
+                            <div className="space-y-1.5 max-h-32 overflow-y-auto">
+                                {validationWarnings.map((w, i) => (
+                                    <p key={i} className="text-xs text-amber-700 font-medium pl-6 relative">
+                                        <span className="absolute left-0">•</span>
+                                        {w}
+                                    </p>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* 2. Date Check (Using Props) */}
                     {!hasErrors && (
                         unlockedDates.length > 0 ? (
@@ -82,6 +150,9 @@ export const ClosingSummaryModal: React.FC<Props> = ({
                                     ))}
                                     {unlockedDates.length > 5 && <span>...等 {unlockedDates.length} 天</span>}
                                 </div>
+                                {onOpenBacklog && (
+                                    <button onClick={onOpenBacklog} className="mt-2 text-xs font-bold text-rose-700 underline hover:text-rose-900">開啟結帳待辦，批次檢查與鎖定</button>
+                                )}
                             </div>
                         ) : (
                             <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-sm text-emerald-700 flex items-center gap-2">
@@ -113,11 +184,82 @@ export const ClosingSummaryModal: React.FC<Props> = ({
                         </div>
                     </div>
 
+                    {/* 4. Cash Drawer Count */}
+                    {!hasErrors && (
+                        <div className="space-y-3">
+                            <div className="flex justify-between items-center">
+                                <h4 className="text-sm font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1">
+                                    <Banknote size={16} /> 點鈔 (Cash Count)
+                                </h4>
+                                <span className="text-[10px] text-slate-400" title="於診所設定中調整">
+                                    容許差額 ${threshold.toLocaleString()}
+                                </span>
+                            </div>
+                            <div className="grid grid-cols-3 gap-2">
+                                {DENOMINATIONS.map(d => (
+                                    <label key={d} className="flex items-center gap-1 bg-slate-50 border border-slate-100 rounded px-2 py-1">
+                                        <span className="text-xs font-bold text-slate-500 w-10 text-right">${d}</span>
+                                        <span className="text-xs text-slate-300">×</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={counts[d] || ''}
+                                            onChange={e => setCounts(prev => ({ ...prev, [d]: e.target.value }))}
+                                            className="w-full bg-white border border-slate-200 rounded px-1 py-0.5 text-sm text-right tabular-nums outline-none focus:ring-1 focus:ring-indigo-400"
+                                            placeholder="0"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+
+                            <div className="bg-slate-50 rounded-lg border border-slate-100 p-3 text-sm space-y-1 tabular-nums">
+                                <div className="flex justify-between text-slate-500"><span>期初零用金</span><span>${cashFlow.initialCash.toLocaleString()}</span></div>
+                                <div className="flex justify-between text-slate-500"><span>+ 現金收入</span><span>${cashFlow.cashCollected.toLocaleString()}</span></div>
+                                <div className="flex justify-between text-slate-500"><span>− 支出</span><span>${cashFlow.cashExpenditure.toLocaleString()}</span></div>
+                                <div className="flex justify-between text-slate-500"><span>− 伙食費</span><span>${cashFlow.mealSpending.toLocaleString()}</span></div>
+                                <div className="flex justify-between font-bold text-slate-700 border-t border-slate-200 pt-1"><span>應有現金 (Expected)</span><span>${expectedCash.toLocaleString()}</span></div>
+                                <div className="flex justify-between font-bold text-slate-700"><span>實點現金 (Counted)</span><span>${countedTotal.toLocaleString()}</span></div>
+                                <div className={`flex justify-between font-black ${overShort === 0 ? 'text-emerald-600' : needsExplanation ? 'text-rose-600' : 'text-amber-600'}`}>
+                                    <span>{overShort > 0 ? '溢收 (Over)' : overShort < 0 ? '短少 (Short)' : '帳實相符'}</span>
+                                    <span>{overShort > 0 ? '+' : ''}{overShort.toLocaleString()}</span>
+                                </div>
+                            </div>
+
+                            {needsExplanation && (
+                                <textarea
+                                    value={explanation}
+                                    onChange={e => setExplanation(e.target.value)}
+                                    placeholder="請說明差額原因 (必填)"
+                                    rows={2}
+                                    className="w-full border border-rose-300 rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-rose-200"
+                                />
+                            )}
+
+                            <div className="flex items-center justify-between gap-3 text-sm">
+                                <label className="font-bold text-slate-600 flex items-center gap-2">
+                                    留存零用金 (Float)
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={closingFloat}
+                                        onChange={e => setClosingFloat(e.target.value)}
+                                        className="w-28 border border-slate-200 rounded px-2 py-1 text-right tabular-nums outline-none focus:ring-1 focus:ring-indigo-400"
+                                    />
+                                </label>
+                                <span className="text-slate-500">存入 ${Math.max(countedTotal - floatValue, 0).toLocaleString()}</span>
+                            </div>
+
+                            {cashError && (
+                                <p className="text-xs text-rose-600 font-bold flex items-center gap-1"><AlertTriangle size={14} /> {cashError}</p>
+                            )}
+                        </div>
+                    )}
+
                     {!hasErrors && (
                         <div className="text-[11px] text-slate-400 bg-slate-50 p-3 rounded flex items-start gap-2">
                             <Info size={14} className="mt-0.5 shrink-0" />
                             <span>
-                                <strong>鎖定後：</strong> 財務金額與病患資料將無法修改。資料將同步至 CRM 病歷系統並紀錄於異動日誌。
+                                <strong>鎖定後：</strong> 財務金額與病患資料將無法修改。資料將同步至 CRM 病歷系統並紀錄於異動日誌。留存零用金將自動帶入下一營業日的期初零用金。
                             </span>
                         </div>
                     )}
@@ -134,7 +276,7 @@ export const ClosingSummaryModal: React.FC<Props> = ({
                     {!hasErrors && (
                         <button 
                             onClick={handleConfirm}
-                            disabled={isProcessing}
+                            disabled={isProcessing || !!cashError}
                             className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md transition-transform active:scale-95 disabled:opacity-50 disabled:grayscale"
                         >
                             {isProcessing ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />}
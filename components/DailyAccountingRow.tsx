@@ -1,6 +1,7 @@
-import React, { useState, useEffect, memo } from 'react';
-import { AccountingRow, Doctor, Consultant, Laboratory, NPRecord } from '../types';
-import { Tag, CheckCircle, Circle, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useMemo, memo } from 'react';
+import { AccountingRow, Doctor, Consultant, Laboratory, NPRecord, RuleSeverity } from '../types';
+import { Tag, CheckCircle, Circle, Trash2, AlertTriangle, XCircle, AlertCircle, ClipboardList, RotateCcw, Printer } from 'lucide-react';
+import { evaluateRow } from '../utils/validationRules';
 
 const PUBLIC_DOCTOR = {
   id: 'clinic_public',
@@ -71,13 +72,19 @@ interface RowProps {
     consultantOptions: Consultant[];
     staffOptions: Consultant[];
     npRec: NPRecord | undefined;
+    hasRemoteChange?: boolean; // Another user saved this row while we were editing it
+    onOpenConflict?: (rowId: string) => void;
+    ruleConfig?: Record<string, RuleSeverity>; // Clinic validation rule overrides
     onUpdate: (id: string, updates: Partial<AccountingRow> | any) => void;
     onDelete: (id: string) => void;
     onOpenNPModal: (row: AccountingRow) => void;
+    onOpenPlanModal?: (row: AccountingRow) => void;
+    onRefund?: (row: AccountingRow) => void;
+    onPrintReceipt?: (row: AccountingRow) => void;
 }
 
 const DailyAccountingRow: React.FC<RowProps> = ({
-    row, index, isLocked, clinicDocs, clinicLabs, consultantOptions, staffOptions, npRec, onUpdate, onDelete, onOpenNPModal
+    row, index, isLocked, clinicDocs, clinicLabs, consultantOptions, staffOptions, npRec, hasRemoteChange, onOpenConflict, ruleConfig, onUpdate, onDelete, onOpenNPModal, onOpenPlanModal, onRefund, onPrintReceipt
 }) => {
     // Add local state for sortOrder to allow typing
     const [localSortOrder, setLocalSortOrder] = useState(row.sortOrder || 0);
@@ -86,12 +93,24 @@ const DailyAccountingRow: React.FC<RowProps> = ({
         setLocalSortOrder(row.sortOrder || 0);
     }, [row.sortOrder]);
 
+    const isRefund = row.rowType === 'refund';
+    // Refund rows only ever hold negative amounts, whatever sign is typed
+    const toAmount = (v: any) => (isRefund ? -Math.abs(safeNum(v)) : safeNum(v));
+
     const totalAmount = (row.treatments.regFee||0) + (row.treatments.copayment||0) + 
                     (row.treatments.prostho||0) + (row.treatments.implant||0) + (row.treatments.ortho||0) + 
                     (row.treatments.sov||0) + (row.treatments.inv||0) + (row.treatments.perio||0) + 
                     (row.treatments.whitening||0) + (row.treatments.otherSelfPay||0) + 
                     (row.retail.products||0) + (row.retail.diyWhitening||0);
     
+    const selfPayAmount = (row.treatments.prostho||0) + (row.treatments.implant||0) + (row.treatments.ortho||0) +
+                    (row.treatments.sov||0) + (row.treatments.inv||0) + (row.treatments.perio||0) +
+                    (row.treatments.whitening||0) + (row.treatments.otherSelfPay||0);
+
+    const issues = useMemo(() => evaluateRow(row, { npRecord: npRec }, ruleConfig), [row, npRec, ruleConfig]);
+    const blockIssues = issues.filter(i => i.severity === 'block');
+    const warnIssues = issues.filter(i => i.severity === 'warn');
+
     const isChartIdLocked = isLocked || (!row.isManual && !!row.chartId && row.chartId !== 'NP');
     const isNP = (row as any).isNP === true || (row.npStatus && typeof row.npStatus === 'string' && row.npStatus.toUpperCase().includes('NP')) || ((row as any).note && typeof (row as any).note === 'string' && (row as any).note.toUpperCase().includes('NP'));
     
@@ -104,6 +123,7 @@ const DailyAccountingRow: React.FC<RowProps> = ({
 
     const getPatientNameClass = (row: AccountingRow) => {
         const base = "text-lg font-bold";
+        if (row.rowType === 'refund') return `${base} text-rose-600`;
         if (row.isManual) return `${base} text-blue-600`;
         if (!row.attendance) return `${base} text-gray-100 font-medium`; 
         const t = row.treatments;
@@ -127,12 +147,30 @@ const DailyAccountingRow: React.FC<RowProps> = ({
     };
 
     return (
-        <tr className="hover:bg-blue-50/30 group">
+        <tr className={`hover:bg-blue-50/30 group ${hasRemoteChange ? 'bg-amber-50' : blockIssues.length > 0 ? 'bg-rose-50/60' : isRefund ? 'bg-rose-50/30' : ''}`}>
             <td className="px-1 py-1 border-r border-gray-200 text-center sticky left-0 bg-white group-hover:bg-blue-50/30 z-30 w-8 min-w-[32px]">
                 <div className="flex flex-col items-center gap-1">
-                    <button onClick={() => onUpdate(row.id, { attendance: !row.attendance })} className="transition-colors" disabled={isLocked}>
-                        {row.attendance ? <CheckCircle size={14} className="text-emerald-500" /> : <Circle size={14} className="text-slate-300" />}
-                    </button>
+                    {hasRemoteChange && (
+                        <button onClick={() => onOpenConflict?.(row.id)} className="text-amber-500 hover:text-amber-600" title="其他人已修改此列，點擊處理">
+                            <AlertTriangle size={14} />
+                        </button>
+                    )}
+                    {blockIssues.length > 0 ? (
+                        <span className="text-rose-500 cursor-help" title={issues.map(i => i.message).join('\n')}>
+                            <XCircle size={14} />
+                        </span>
+                    ) : warnIssues.length > 0 && (
+                        <span className="text-amber-500 cursor-help" title={warnIssues.map(i => i.message).join('\n')}>
+                            <AlertCircle size={14} />
+                        </span>
+                    )}
+                    {isRefund ? (
+                        <span className="text-rose-500" title="退款列"><RotateCcw size={14} /></span>
+                    ) : (
+                        <button onClick={() => onUpdate(row.id, { attendance: !row.attendance })} className="transition-colors" disabled={isLocked}>
+                            {row.attendance ? <CheckCircle size={14} className="text-emerald-500" /> : <Circle size={14} className="text-slate-300" />}
+                        </button>
+                    )}
                     <div className="mt-1 flex justify-center">
                         {row.isManual ? (
                             <input
@@ -157,6 +195,16 @@ const DailyAccountingRow: React.FC<RowProps> = ({
             </td>
             <td className="px-1 py-1 border-r border-gray-200 sticky left-[114px] bg-white group-hover:bg-blue-50/30 z-30 align-middle min-w-[112px]">
                 <InputCell initialValue={row.patientName} onCommit={(v) => onUpdate(row.id, { patientName: v })} className={getPatientNameClass(row)} disabled={isLocked} />
+                {isRefund && (
+                    <div className="text-[10px] font-bold text-rose-500 px-1 whitespace-nowrap">
+                        退款{row.refundOf?.date ? ` ← ${row.refundOf.date}` : ' (調整)'}
+                    </div>
+                )}
+                {row.calendarCancelled && (
+                    <div className="text-[10px] font-bold text-rose-500 px-1 whitespace-nowrap" title="此預約已在 Google 日曆上取消，確認未到診後可刪除此列">
+                        {row.calendarCancelled.reason === 'moved' ? `改約至 ${row.calendarCancelled.movedTo}` : '日曆已刪除'}
+                    </div>
+                )}
             </td>
             <td className="px-1 py-1 border-r-2 border-gray-300 sticky left-[226px] bg-white group-hover:bg-blue-50/30 z-30 text-center align-middle min-w-[112px]">
                 {row.isManual || (row as any).isPublicCalendar ? (
@@ -170,27 +218,40 @@ const DailyAccountingRow: React.FC<RowProps> = ({
                     </div>
                 )}
             </td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-blue-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-blue-600 font-mono text-[14px]" initialValue={row.treatments.regFee} onCommit={(v) => onUpdate(row.id, { treatments: { regFee: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-blue-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-blue-600 font-mono text-[14px]" initialValue={row.treatments.copayment} onCommit={(v) => onUpdate(row.id, { treatments: { copayment: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.prostho} onCommit={(v) => onUpdate(row.id, { treatments: { prostho: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.implant} onCommit={(v) => onUpdate(row.id, { treatments: { implant: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.ortho} onCommit={(v) => onUpdate(row.id, { treatments: { ortho: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.sov} onCommit={(v) => onUpdate(row.id, { treatments: { sov: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.inv} onCommit={(v) => onUpdate(row.id, { treatments: { inv: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.perio} onCommit={(v) => onUpdate(row.id, { treatments: { perio: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.whitening} onCommit={(v) => onUpdate(row.id, { treatments: { whitening: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.otherSelfPay} onCommit={(v) => onUpdate(row.id, { treatments: { otherSelfPay: safeNum(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-blue-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-blue-600 font-mono text-[14px]" initialValue={row.treatments.regFee} onCommit={(v) => onUpdate(row.id, { treatments: { regFee: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-blue-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-blue-600 font-mono text-[14px]" initialValue={row.treatments.copayment} onCommit={(v) => onUpdate(row.id, { treatments: { copayment: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.prostho} onCommit={(v) => onUpdate(row.id, { treatments: { prostho: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.implant} onCommit={(v) => onUpdate(row.id, { treatments: { implant: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.ortho} onCommit={(v) => onUpdate(row.id, { treatments: { ortho: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.sov} onCommit={(v) => onUpdate(row.id, { treatments: { sov: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.inv} onCommit={(v) => onUpdate(row.id, { treatments: { inv: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.perio} onCommit={(v) => onUpdate(row.id, { treatments: { perio: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.whitening} onCommit={(v) => onUpdate(row.id, { treatments: { whitening: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-purple-600 font-mono text-[14px]" initialValue={row.treatments.otherSelfPay} onCommit={(v) => onUpdate(row.id, { treatments: { otherSelfPay: toAmount(v) } })} /></td>
             <td className="px-1 py-1 border-r border-gray-200 bg-purple-50/10"><select className="w-full bg-transparent text-xs text-slate-600 outline-none" value={row.treatments.consultant || ''} onChange={(e) => onUpdate(row.id, { treatments: { consultant: e.target.value } })} disabled={isLocked}><option value=""></option>{consultantOptions.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}</select></td>
-            <td className="px-1 py-1 border-r border-gray-200 text-center align-middle">{isNP ? (<button onClick={() => onOpenNPModal(row)} className={`w-full ${btnClass} border px-1 py-1 rounded text-xs font-bold flex items-center justify-center gap-1 transition-colors`}>{btnIcon} NP</button>) : (<InputCell initialValue={row.npStatus || (row as any).note || ""} onCommit={(v) => onUpdate(row.id, { npStatus: v })} />)}</td>
+            <td className="px-1 py-1 border-r border-gray-200 text-center align-middle">{isRefund ? (<InputCell initialValue={row.refundReason || ""} onCommit={(v) => onUpdate(row.id, { refundReason: v })} className="text-rose-600" placeholder="退款原因" disabled={isLocked} />) : isNP ? (<button onClick={() => onOpenNPModal(row)} className={`w-full ${btnClass} border px-1 py-1 rounded text-xs font-bold flex items-center justify-center gap-1 transition-colors`}>{btnIcon} NP</button>) : (<InputCell initialValue={row.npStatus || (row as any).note || ""} onCommit={(v) => onUpdate(row.id, { npStatus: v })} />)}</td>
             <td className="px-1 py-1 border-r border-gray-200 "><InputCell initialValue={row.treatmentContent} onCommit={(v) => onUpdate(row.id, { treatmentContent: v })} placeholder={row.calendarTreatment} /></td>
             <td className="px-1 py-1 border-r border-gray-200"><select className="w-full bg-transparent text-xs outline-none text-slate-600" value={row.labName || ''} onChange={(e) => onUpdate(row.id, { labName: e.target.value })}><option value=""></option>{clinicLabs.map(l => <option key={l.id} value={l.name}>{l.name}</option>)}</select></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-orange-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-orange-600 font-mono text-[14px]" initialValue={row.retail.diyWhitening} onCommit={(v) => onUpdate(row.id, { retail: { diyWhitening: safeNum(v) } })} /></td>
-            <td className="px-1 py-1 border-r border-gray-200 bg-orange-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-orange-600 font-mono text-[14px]" initialValue={row.retail.products} onCommit={(v) => onUpdate(row.id, { retail: { products: safeNum(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-orange-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-orange-600 font-mono text-[14px]" initialValue={row.retail.diyWhitening} onCommit={(v) => onUpdate(row.id, { retail: { diyWhitening: toAmount(v) } })} /></td>
+            <td className="px-1 py-1 border-r border-gray-200 bg-orange-50/10"><InputCell disabled={isLocked} type="number" align="right" className="text-orange-600 font-mono text-[14px]" initialValue={row.retail.products} onCommit={(v) => onUpdate(row.id, { retail: { products: toAmount(v) } })} /></td>
             <td className="px-1 py-1 border-r border-gray-200 bg-orange-50/10"><InputCell disabled={isLocked} initialValue={row.retailItem} onCommit={(v) => onUpdate(row.id, { retailItem: v })} placeholder="品項" /></td>
             <td className="px-1 py-1 border-r border-gray-200 bg-orange-50/10"><select className="w-full bg-transparent text-xs text-slate-600 outline-none" value={row.retail.staff || ''} onChange={(e) => onUpdate(row.id, { retail: { staff: e.target.value } })} disabled={isLocked}><option value=""></option>{staffOptions.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}</select></td>
-            <td className="px-2 py-1 border-r border-gray-200 bg-emerald-50/10 text-right font-black text-emerald-600 text-lg font-bold">{totalAmount > 0 ? totalAmount.toLocaleString() : '-'}</td>
+            <td className={`px-2 py-1 border-r border-gray-200 bg-emerald-50/10 text-right font-black text-lg font-bold ${totalAmount < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                {totalAmount !== 0 ? totalAmount.toLocaleString() : '-'}
+                {onOpenPlanModal && (row.planId || selfPayAmount > 0) && (
+                    <button onClick={() => onOpenPlanModal(row)} className={`flex items-center gap-0.5 ml-auto mt-0.5 px-1 rounded text-[10px] font-bold border transition-colors ${row.planId ? 'bg-purple-100 border-purple-200 text-purple-700 hover:bg-purple-200' : 'bg-white border-slate-200 text-slate-400 hover:text-purple-600'}`} title="療程合約 / 分期付款">
+                        <ClipboardList size={10} /> {row.planId ? '分期' : '合約'}
+                    </button>
+                )}
+            </td>
             <td className="px-1 py-1 border-r border-gray-200 bg-emerald-50/10"><select className={`w-full bg-transparent text-[10px] font-bold outline-none uppercase text-center ${row.paymentMethod === 'card' ? 'text-pink-600' : row.paymentMethod === 'transfer' ? 'text-amber-600' : 'text-emerald-600'} ${isLocked ? 'opacity-50' : ''}`} value={row.paymentMethod} onChange={(e) => onUpdate(row.id, { paymentMethod: e.target.value })} disabled={isLocked}><option value="cash">CASH</option><option value="card">CARD</option><option value="transfer">TRANS</option></select></td>
-            <td className="px-1 py-1 text-center">{row.isManual && !isLocked && (<button onClick={() => onDelete(row.id)} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 size={14} /></button>)}</td>
+            <td className="px-1 py-1 text-center">
+                <div className="flex flex-col items-center gap-1">
+                    {onPrintReceipt && !isRefund && totalAmount > 0 && (<button onClick={() => onPrintReceipt(row)} className="text-slate-300 hover:text-teal-600 transition-colors" title="列印收據"><Printer size={14} /></button>)}
+                    {onRefund && !isRefund && !isLocked && totalAmount > 0 && (<button onClick={() => onRefund(row)} className="text-slate-300 hover:text-rose-500 transition-colors" title="退款"><RotateCcw size={14} /></button>)}
+                    {(row.isManual || row.calendarCancelled) && !isLocked && (<button onClick={() => onDelete(row.id)} className="text-slate-300 hover:text-rose-500 transition-colors"><Trash2 size={14} /></button>)}
+                </div>
+            </td>
         </tr>
     );
 };
@@ -201,6 +262,9 @@ export default memo(DailyAccountingRow, (prev, next) => {
         prev.isLocked === next.isLocked &&
         prev.index === next.index &&
         prev.npRec === next.npRec &&
+        prev.hasRemoteChange === next.hasRemoteChange &&
+        prev.onOpenConflict === next.onOpenConflict &&
+        prev.ruleConfig === next.ruleConfig &&
         prev.clinicDocs === next.clinicDocs &&
         prev.clinicLabs === next.clinicLabs &&
         prev.consultantOptions === next.consultantOptions &&
@@ -1,12 +1,15 @@
 
-import React, { useEffect, useState } from 'react';
-import { Clinic, Doctor } from '../types';
-import { initGoogleClient, handleAuthClick, handleSignOutClick, listCalendars, GoogleCalendar, getCalendarProfile } from '../services/googleCalendar';
-import { updateClinicCalendarMapping } from '../services/firebase'; // Direct update
+import React, { useEffect, useMemo, useState } from 'react';
+import { Clinic, Doctor, TitleGrammar, CalendarInfo, CalendarProviderConfig, CalendarProviderType } from '../types';
+import { getCalendarProvider, CALENDAR_PROVIDER_OPTIONS } from '../services/calendarProvider';
+import { saveCalDavCredentials, importIcsCalendar, removeIcsCalendar, getIcsCalendarText } from '../services/icsCalendar';
+import { updateClinicCalendarMapping, updateClinicCalendarWriteBack, updateClinicCalendarProvider, migrateAllDailyAccounting, migratePatientContacts } from '../services/firebase'; // Direct update
 import { performFullBackup } from '../services/backupService';
-import { Link, Save, LogOut, Check, Loader2, AlertCircle, Building2, Download, ShieldCheck, RefreshCw, Wand2 } from 'lucide-react';
+import { Link, Save, LogOut, Check, Loader2, AlertCircle, Building2, Download, ShieldCheck, RefreshCw, Wand2, Database, Upload, Trash2, CalendarDays } from 'lucide-react';
 import { useClinic } from '../contexts/ClinicContext';
+import { useAuth } from '../contexts/AuthContext';
 import { ClinicSelector } from './ClinicSelector';
+import { TitleGrammarEditor } from './TitleGrammarEditor';
 
 interface Props {
   clinics: Clinic[];
@@ -16,57 +19,120 @@ interface Props {
 
 export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
   const { selectedClinic } = useClinic();
+  const { userRole } = useAuth();
   const [isGapiReady, setIsGapiReady] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [userCalendars, setUserCalendars] = useState<GoogleCalendar[]>([]);
+  const [userCalendars, setUserCalendars] = useState<CalendarInfo[]>([]);
   const [connectedEmail, setConnectedEmail] = useState<string | null>(null);
   
   // Local state for the mapping being edited. 
   // Syncs with selectedClinic whenever it changes.
   const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [writeBack, setWriteBack] = useState(false);
+  const [providerConfig, setProviderConfig] = useState<CalendarProviderConfig>({ type: 'google' });
+  const [davLogin, setDavLogin] = useState({ username: '', password: '' });
   
   const [isSaving, setIsSaving] = useState(false);
   const [isBackingUp, setIsBackingUp] = useState(false);
+  const [migrationProgress, setMigrationProgress] = useState<string | null>(null);
+  const [contactMigrationProgress, setContactMigrationProgress] = useState<string | null>(null);
 
-  useEffect(() => {
-    // Initialize Google API on mount
-    initGoogleClient(
+  // Provider being edited; it only becomes the clinic's provider when the settings are saved
+  const provider = useMemo(() => getCalendarProvider(providerConfig), [providerConfig.type, providerConfig.serverUrl]);
+
+  const connectProvider = () => {
+    setIsGapiReady(false);
+    setUserCalendars([]);
+    setConnectedEmail(null);
+    provider.connect(
       () => setIsGapiReady(true),
       (status) => {
         setIsLoggedIn(status);
         if (status) {
             fetchCalendars();
-            getCalendarProfile().then(setConnectedEmail);
+            provider.getAccountLabel().then(setConnectedEmail);
         }
       }
     );
-  }, []);
+  };
+
+  useEffect(() => {
+    connectProvider();
+  }, [provider]);
 
   // Sync local mapping state with global selected clinic
   useEffect(() => {
     if (selectedClinic) {
       setMapping(selectedClinic.googleCalendarMapping || {});
+      setWriteBack(!!selectedClinic.calendarWriteBack);
+      setProviderConfig(selectedClinic.calendarProvider || { type: 'google' });
     } else {
       setMapping({});
+      setWriteBack(false);
+      setProviderConfig({ type: 'google' });
     }
   }, [selectedClinic]);
 
   const fetchCalendars = async () => {
-    const cals = await listCalendars();
+    const cals = await provider.listCalendars();
     setUserCalendars(cals);
   };
 
   const handleLogin = () => {
-    handleAuthClick();
+    provider.authorize?.();
   };
 
   const handleLogout = () => {
-    handleSignOutClick();
+    provider.disconnect();
     setIsLoggedIn(false);
     setUserCalendars([]);
     setConnectedEmail(null);
   };
 
+  const handleProviderTypeChange = (type: CalendarProviderType) => {
+    if (type !== providerConfig.type && Object.values(mapping).some(Boolean) && !confirm("切換日曆來源後，原本的醫師日曆對應將無法使用，需要重新設定。確定嗎？")) return;
+    if (type !== (selectedClinic?.calendarProvider?.type || 'google')) setMapping({});
+    else setMapping(selectedClinic?.googleCalendarMapping || {});
+    setProviderConfig(type === 'caldav' ? { type, serverUrl: selectedClinic?.calendarProvider?.serverUrl || '' } : { type });
+  };
+
+  const handleCalDavConnect = () => {
+    const serverUrl = (providerConfig.serverUrl || '').trim();
+    if (!/^https?:\/\//.test(serverUrl)) { alert("請輸入完整的 CalDAV 網址 (https://...)"); return; }
+    if (!davLogin.username || !davLogin.password) { alert("請輸入帳號與密碼"); return; }
+    saveCalDavCredentials(serverUrl, davLogin);
+    setDavLogin({ username: '', password: '' });
+    connectProvider();
+  };
+
+  const handleIcsImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    try {
+      for (const file of files) importIcsCalendar(file.name, await file.text());
+      await fetchCalendars();
+    } catch (err) {
+      alert("匯入失敗: " + (err as Error).message);
+    }
+  };
+
+  const handleIcsRemove = async (calendarId: string) => {
+    if (!confirm("確定從此裝置移除這個日曆檔？")) return;
+    removeIcsCalendar(calendarId);
+    await fetchCalendars();
+  };
+
+  const handleIcsExport = (cal: CalendarInfo) => {
+    const text = getIcsCalendarText(cal.id);
+    if (!text) return;
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/calendar' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = cal.id.replace(/^ics:/, '');
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleMapChange = (key: string, calendarId: string) => {
     setMapping(prev => ({
       ...prev,
@@ -116,13 +182,15 @@ export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
     try {
       // Use the direct update function to persist mapping
       await updateClinicCalendarMapping(selectedClinic.id, mapping);
+      await updateClinicCalendarWriteBack(selectedClinic.id, writeBack);
+      await updateClinicCalendarProvider(selectedClinic.id, providerConfig);
       
       // Optionally notify parent if needed for local state update, 
       // though typically a context refresh or reload handles this.
       // We still call onSave to ensure local 'clinics' state in App.tsx is refreshed if it relies on that.
       const updatedClinics = clinics.map(c => 
         c.id === selectedClinic.id 
-          ? { ...c, googleCalendarMapping: mapping } 
+          ? { ...c, googleCalendarMapping: mapping, calendarWriteBack: writeBack, calendarProvider: providerConfig } 
           : c
       );
       await onSave(updatedClinics);
@@ -136,6 +204,16 @@ export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
     }
   };
   
+  // The editor persists the grammar itself; this only refreshes the clinics list held by App.tsx
+  const saveTitleGrammar = async (grammar: TitleGrammar | null) => {
+    if (!selectedClinic) return;
+    await onSave(clinics.map(c => {
+      if (c.id !== selectedClinic.id) return c;
+      const { titleGrammar, ...rest } = c;
+      return grammar ? { ...rest, titleGrammar: grammar } : rest;
+    }));
+  };
+  
   const handleBackup = async () => {
       if(!confirm("即將匯出系統內所有資料 (診所、人員、每日帳務)。\n這可能需要幾秒鐘時間。確定嗎？")) return;
       
@@ -150,6 +228,36 @@ export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
       }
   };
 
+  // One-off: move legacy per-day `rows` arrays into the accounting_rows subcollection
+  const handleMigrateRows = async () => {
+      if(!confirm("即將把所有舊版日報表明細轉換為新的資料結構。\n建議先執行完整備份。確定嗎？")) return;
+
+      setMigrationProgress('0 / ?');
+      try {
+          const result = await migrateAllDailyAccounting((done, total) => setMigrationProgress(`${done} / ${total}`));
+          alert(`轉換完成：共 ${result.days} 天、${result.rows} 筆明細。`);
+      } catch(e) {
+          alert("轉換失敗: " + (e as Error).message);
+      } finally {
+          setMigrationProgress(null);
+      }
+  };
+
+  // One-off: move phone / LINE ID off patient profiles into patient_contacts
+  const handleMigrateContacts = async () => {
+      if(!confirm("即將把病患電話與 LINE ID 移至獨立的聯絡資料文件，病患資料只保留遮罩。\n建議先執行完整備份。確定嗎？")) return;
+
+      setContactMigrationProgress('0 / ?');
+      try {
+          const moved = await migratePatientContacts((done, total) => setContactMigrationProgress(`${done} / ${total}`));
+          alert(`轉換完成：共 ${moved} 位病患。`);
+      } catch(e) {
+          alert("轉換失敗: " + (e as Error).message);
+      } finally {
+          setContactMigrationProgress(null);
+      }
+  };
+
   const filteredDoctors = doctors.filter(d => selectedClinic && d.clinicId === selectedClinic.id);
 
   return (
@@ -159,7 +267,7 @@ export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
           <h2 className="text-3xl font-bold text-slate-800 flex items-center gap-2">
             <Link size={28} className="text-blue-500" /> 系統整合與備份
           </h2>
-          <p className="text-slate-500">管理外部連結 (Google Calendar) 與資料安全設定。</p>
+          <p className="text-slate-500">管理外部連結 (預約日曆) 與資料安全設定。</p>
         </div>
       </div>
 
@@ -184,61 +292,146 @@ export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
                   匯出完整備份
               </button>
           </div>
+          {userRole === 'admin' && (
+              <div className="mt-4 pt-4 border-t border-slate-600 flex flex-col md:flex-row justify-between items-center gap-4">
+                  <p className="text-slate-300 text-sm">
+                      帳務明細資料結構升級 (Accounting Rows Migration)：將舊版日報表明細拆分為獨立文件，僅需執行一次。
+                  </p>
+                  <button
+                      onClick={handleMigrateRows}
+                      disabled={migrationProgress !== null}
+                      className="bg-slate-600 hover:bg-slate-500 text-white px-4 py-2 rounded-lg font-bold text-sm flex items-center gap-2 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                  >
+                      {migrationProgress !== null ? <Loader2 size={16} className="animate-spin" /> : <Database size={16} />}
+                      {migrationProgress !== null ? `轉換中 ${migrationProgress}` : '執行資料轉換'}
+                  </button>
+              </div>
+          )}
+          {userRole === 'admin' && (
+              <div className="mt-4 pt-4 border-t border-slate-600 flex flex-col md:flex-row justify-between items-center gap-4">
+                  <p className="text-slate-300 text-sm">
+                      病患聯絡資料分離 (Patient Contacts Migration)：將電話與 LINE ID 移至僅櫃台人員可讀取的文件，僅需執行一次。
+                  </p>
+                  <button
+                      onClick={handleMigrateContacts}
+                      disabled={contactMigrationProgress !== null}
+                      className="bg-slate-600 hover:bg-slate-500 text-white px-4 py-2 rounded-lg font-bold text-sm flex items-center gap-2 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                  >
+                      {contactMigrationProgress !== null ? <Loader2 size={16} className="animate-spin" /> : <Database size={16} />}
+                      {contactMigrationProgress !== null ? `轉換中 ${contactMigrationProgress}` : '執行資料轉換'}
+                  </button>
+              </div>
+          )}
       </div>
 
-      {/* SECTION 2: GOOGLE CALENDAR */}
+      {/* SECTION 2: APPOINTMENT CALENDAR */}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
         <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4 border-b border-slate-100 pb-6 mb-6">
           <div>
             <h3 className="text-lg font-bold text-slate-700 flex items-center gap-2">
-              <img src="https://www.google.com/favicon.ico" alt="Google" className="w-5 h-5" />
-              Google Calendar 帳號連結
+              <CalendarDays size={20} className="text-blue-500" />
+              預約日曆連結
             </h3>
-            <p className="text-sm text-slate-500 mt-1">請登入包含診所醫師日曆的 Google 帳號。</p>
+            <p className="text-sm text-slate-500 mt-1">每間診所可選擇日曆來源 (Google Calendar、CalDAV 或 ICS 檔案)，再將醫師對應到日曆。</p>
           </div>
-
-          {!isGapiReady ? (
-            <div className="flex items-center gap-2 text-slate-400 bg-slate-50 px-4 py-2 rounded-lg">
-              <Loader2 className="animate-spin" size={16} /> API 初始化中...
-            </div>
-          ) : isLoggedIn ? (
-            <div className="flex items-center gap-3">
-              <span className="text-green-600 font-medium flex items-center gap-1 text-sm bg-green-50 px-3 py-1.5 rounded-full border border-green-100">
-                <Check size={14} /> 已連結: {connectedEmail || 'Account'}
-              </span>
-              <button 
-                onClick={handleLogout}
-                className="text-slate-500 hover:text-rose-500 text-sm font-medium flex items-center gap-1 px-3 py-1.5 hover:bg-rose-50 rounded-lg transition-colors"
-              >
-                <LogOut size={14} /> 登出
-              </button>
-            </div>
-          ) : (
-            <button
-              onClick={handleLogin}
-              className="bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 font-medium px-4 py-2 rounded-lg flex items-center gap-2 transition-colors shadow-sm"
-            >
-              <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg" alt="" className="w-5 h-5"/>
-              登入 Google 帳號
-            </button>
-          )}
+          <ClinicSelector className="border p-2 rounded-lg font-medium text-slate-700 bg-white w-full sm:w-auto min-w-[200px]" />
         </div>
 
-        {isLoggedIn && (
+        {selectedClinic ? (
           <div className="space-y-6 animate-fade-in">
-             <div className="flex items-center gap-4 bg-blue-50 p-4 rounded-lg border border-blue-100 text-blue-800 text-sm">
-                 <AlertCircle size={20} className="shrink-0" />
-                 <div>
-                     <strong>如何設定？</strong> 請先在 Google 日曆中為每位醫師建立獨立的日曆 (或確認現有日曆)，然後在下方將系統醫師對應到正確的 Google 日曆。
-                 </div>
+             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                 {CALENDAR_PROVIDER_OPTIONS.map(option => (
+                     <button
+                        key={option.type}
+                        onClick={() => handleProviderTypeChange(option.type)}
+                        className={`text-left p-3 rounded-lg border transition-colors ${providerConfig.type === option.type ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500' : 'border-slate-200 hover:bg-slate-50'}`}
+                     >
+                         <div className="font-bold text-sm text-slate-700 flex items-center gap-2">
+                             {providerConfig.type === option.type && <Check size={14} className="text-blue-600" />}
+                             {option.label}
+                         </div>
+                         <div className="text-xs text-slate-500 mt-1">{option.description}</div>
+                     </button>
+                 ))}
              </div>
 
-             <div className="flex items-end justify-between gap-4">
-                 <div>
-                    <label className="block text-sm font-medium text-slate-700 mb-2">選擇要設定的診所</label>
-                    <ClinicSelector className="border p-2 rounded-lg font-medium text-slate-700 bg-white w-full sm:w-auto min-w-[200px]" />
+             {providerConfig.type === 'caldav' && (
+                 <div className="space-y-3 p-4 rounded-lg border border-slate-200 bg-slate-50/50">
+                     <div>
+                         <label className="block text-xs font-bold text-slate-500 mb-1">CalDAV 網址 (日曆主目錄)</label>
+                         <input
+                            className="w-full border rounded px-2 py-1.5 text-sm font-mono outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="https://dav.example.com/calendars/clinic/"
+                            value={providerConfig.serverUrl || ''}
+                            onChange={e => setProviderConfig({ type: 'caldav', serverUrl: e.target.value.trim() })}
+                         />
+                         <p className="text-[10px] text-slate-400 mt-1">伺服器需允許此網站的跨來源 (CORS) 存取。網址會隨診所設定儲存；帳號密碼不會存檔，只在此分頁登入期間有效，重新整理或登出後需再次輸入。建議使用 App 專用密碼。</p>
+                     </div>
+                     {!isLoggedIn && (
+                         <div className="flex flex-col md:flex-row gap-2">
+                             <input className="flex-1 border rounded px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-blue-500" placeholder="帳號" value={davLogin.username} onChange={e => setDavLogin({ ...davLogin, username: e.target.value })} />
+                             <input type="password" className="flex-1 border rounded px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-blue-500" placeholder="密碼 / App 專用密碼" value={davLogin.password} onChange={e => setDavLogin({ ...davLogin, password: e.target.value })} />
+                             <button onClick={handleCalDavConnect} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1.5 rounded-lg text-sm font-bold flex items-center gap-2">
+                                 <Link size={14} /> 連線
+                             </button>
+                         </div>
+                     )}
+                 </div>
+             )}
+
+             {providerConfig.type === 'ics' && (
+                 <div className="space-y-2 p-4 rounded-lg border border-slate-200 bg-slate-50/50">
+                     <div className="flex items-center justify-between gap-4">
+                         <p className="text-xs text-slate-500">每個 .ics 檔案視為一個日曆，重新匯入同名檔案會取代舊內容。回寫日曆只會修改此裝置上的副本，可再匯出使用。</p>
+                         <label className="bg-white border border-slate-300 text-slate-600 px-3 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-50 cursor-pointer whitespace-nowrap">
+                             <Upload size={16} /> 匯入 .ics
+                             <input type="file" accept=".ics,text/calendar" multiple className="hidden" onChange={handleIcsImport} />
+                         </label>
+                     </div>
+                     {userCalendars.map(cal => (
+                         <div key={cal.id} className="flex items-center justify-between bg-white border border-slate-200 rounded px-3 py-1.5 text-sm">
+                             <span className="font-medium text-slate-700">{cal.summary} <span className="text-xs text-slate-400 font-mono">{cal.id.replace(/^ics:/, '')}</span></span>
+                             <div className="flex gap-1">
+                                 <button onClick={() => handleIcsExport(cal)} className="p-1 text-slate-400 hover:text-blue-600" title="匯出"><Download size={14} /></button>
+                                 <button onClick={() => handleIcsRemove(cal.id)} className="p-1 text-slate-400 hover:text-rose-500" title="移除"><Trash2 size={14} /></button>
+                             </div>
+                         </div>
+                     ))}
                  </div>
-                 {selectedClinic && (
+             )}
+
+             <div className="flex items-center justify-between gap-4">
+                 {!isGapiReady ? (
+                    <div className="flex items-center gap-2 text-slate-400 bg-slate-50 px-4 py-2 rounded-lg text-sm">
+                      <Loader2 className="animate-spin" size={16} /> API 初始化中...
+                    </div>
+                 ) : isLoggedIn ? (
+                    <div className="flex items-center gap-3">
+                      <span className="text-green-600 font-medium flex items-center gap-1 text-sm bg-green-50 px-3 py-1.5 rounded-full border border-green-100">
+                        <Check size={14} /> 已連結: {connectedEmail || 'Account'}
+                      </span>
+                      {providerConfig.type !== 'ics' && (
+                          <button 
+                            onClick={handleLogout}
+                            className="text-slate-500 hover:text-rose-500 text-sm font-medium flex items-center gap-1 px-3 py-1.5 hover:bg-rose-50 rounded-lg transition-colors"
+                          >
+                            <LogOut size={14} /> 登出
+                          </button>
+                      )}
+                    </div>
+                 ) : provider.authorize ? (
+                    <button
+                      onClick={handleLogin}
+                      className="bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 font-medium px-4 py-2 rounded-lg flex items-center gap-2 transition-colors shadow-sm"
+                    >
+                      <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg" alt="" className="w-5 h-5"/>
+                      登入 Google 帳號
+                    </button>
+                 ) : (
+                    <span className="text-sm text-slate-400">尚未連線</span>
+                 )}
+
+                 {isLoggedIn && (
                      <div className="flex gap-2">
                          <button 
                             onClick={fetchCalendars}
@@ -256,12 +449,21 @@ export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
                  )}
              </div>
 
-             {selectedClinic ? (
+             {isLoggedIn && (
+                 <div className="flex items-center gap-4 bg-blue-50 p-4 rounded-lg border border-blue-100 text-blue-800 text-sm">
+                     <AlertCircle size={20} className="shrink-0" />
+                     <div>
+                         <strong>如何設定？</strong> 請先為每位醫師建立獨立的日曆 (或確認現有日曆)，然後在下方將系統醫師對應到正確的日曆。
+                     </div>
+                 </div>
+             )}
+
+             {isLoggedIn && (
                  <>
                     <div className="border rounded-lg overflow-hidden">
                         <div className="grid grid-cols-2 bg-slate-50 border-b border-slate-200 p-3 font-medium text-slate-500 text-sm">
                             <div>資源 / 醫師 (系統)</div>
-                            <div>對應 Google 日曆</div>
+                            <div>對應日曆</div>
                         </div>
 
                         {/* Clinic Shared Calendar Section */}
@@ -328,6 +530,14 @@ export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
                         )}
                     </div>
 
+                    <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 bg-slate-50/50 cursor-pointer">
+                        <input type="checkbox" className="mt-1" checked={writeBack} onChange={e => setWriteBack(e.target.checked)} />
+                        <div>
+                            <span className="font-bold text-slate-700 text-sm">允許從日報表回寫日曆</span>
+                            <p className="text-xs text-slate-500 mt-0.5">開啟後，日報表會出現「回寫日曆」按鈕，可將到診/未到、病歷號修正與治療內容寫回預約標題 (寫入前會先預覽)。</p>
+                        </div>
+                    </label>
+
                     <div className="flex justify-end pt-4">
                         <button
                             onClick={saveMapping}
@@ -339,14 +549,25 @@ export const Integrations: React.FC<Props> = ({ clinics, doctors, onSave }) => {
                         </button>
                     </div>
                  </>
-             ) : (
-                 <div className="p-12 text-center text-slate-400 bg-slate-50 rounded-xl border border-dashed border-slate-300">
-                     請先選擇上方診所
-                 </div>
              )}
           </div>
+        ) : (
+          <div className="p-12 text-center text-slate-400 bg-slate-50 rounded-xl border border-dashed border-slate-300">
+              請先選擇上方診所
+          </div>
         )}
       </div>
+
+      {/* SECTION 3: EVENT TITLE GRAMMAR */}
+      {selectedClinic && (
+        <TitleGrammarEditor
+          clinic={selectedClinic}
+          provider={provider}
+          mapping={mapping}
+          isConnected={isLoggedIn}
+          onSaved={saveTitleGrammar}
+        />
+      )}
     </div>
   );
 };
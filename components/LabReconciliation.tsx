@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Clinic, Laboratory, AccountingRow, TechnicianRecord, Doctor, LabOrderDetail } from '../types';
-import { getMonthlyAccounting, getTechnicianRecords, saveTechnicianRecord, deleteTechnicianRecord, loadAppData } from '../services/firebase';
+import { getMonthlyAccounting, isRefundRow, getTechnicianRecords, saveTechnicianRecord, deleteTechnicianRecord, loadAppData } from '../services/firebase';
 import { useClinic } from '../contexts/ClinicContext';
 import { ClinicSelector } from './ClinicSelector';
 import { 
@@ -186,6 +186,7 @@ export const LabReconciliation: React.FC<Props> = ({ laboratories }) => {
             // 5. Filter Daily Rows
             const merged: LinkedRow[] = dailyData
                 .filter(row => {
+                    if (isRefundRow(row)) return false; // Lab costs are settled with the lab, not reversed by a patient refund
                     if (labNameFilter) {
                         return row.labName && row.labName.trim() === labNameFilter.trim();
                     }
@@ -1,16 +1,18 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Clinic, Doctor, AccountingRow, NHIRecord, MonthlyClosing } from '../types';
-import { getMonthlyAccounting, getNHIRecords, getMonthlyClosingStatus, lockMonthlyReport, unlockMonthlyReport, updateDailyRowField } from '../services/firebase';
+import { Clinic, Doctor, AccountingRow, NHIRecord, MonthlyClosing, PlanBalance } from '../types';
+import { getMonthlyAccounting, getNHIRecords, getMonthlyClosingStatus, lockMonthlyReport, unlockMonthlyReport, updateDailyRowField, getClinicPlanBalances } from '../services/firebase';
+import { summarizeReceivables } from '../utils/receivables';
 import { useClinic } from '../contexts/ClinicContext';
 import { useAuth } from '../contexts/AuthContext';
 import { ClinicSelector } from './ClinicSelector';
 import { NHIClaimsModal } from './NHIClaimsModal';
+import { ClosingBacklogModal } from './ClosingBacklogModal';
 import { 
   TrendingUp, Banknote, CreditCard, Landmark, 
   Search, Loader2, FileSpreadsheet, Filter, ChevronDown, PlusCircle,
-  Stethoscope, Activity, Ticket, Wallet, Star, Lock, Unlock, CheckCircle
+  Stethoscope, Activity, Ticket, Wallet, Star, Lock, Unlock, CheckCircle, ClipboardList, ListChecks
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
 
@@ -73,8 +75,10 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [rows, setRows] = useState<AccountingRow[]>([]);
   const [nhiRecords, setNhiRecords] = useState<NHIRecord[]>([]);
+  const [planBalances, setPlanBalances] = useState<PlanBalance[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isNHIModalOpen, setIsNHIModalOpen] = useState(false);
+  const [isBacklogOpen, setIsBacklogOpen] = useState(false);
 
   const [monthlyStatus, setMonthlyStatus] = useState<MonthlyClosing | null>(null);
   const [isClosingActionLoading, setIsClosingActionLoading] = useState(false);
@@ -94,6 +98,14 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
   const currentClinic = useMemo(() => clinics.find(c => c.id === selectedClinicId), [clinics, selectedClinicId]);
   const activeLabs = useMemo(() => currentClinic?.laboratories || [], [currentClinic]);
 
+  // Receivables are valued at month end, or today while the month is still running
+  const receivablesAsOf = useMemo(() => {
+      const [y, m] = currentMonth.split('-').map(Number);
+      const monthEnd = `${currentMonth}-${String(new Date(y, m, 0).getDate()).padStart(2, '0')}`;
+      const today = new Date().toISOString().split('T')[0];
+      return monthEnd < today ? monthEnd : today;
+  }, [currentMonth]);
+
   useEffect(() => {
       if (selectedClinicId && currentMonth) fetchData();
   }, [selectedClinicId, currentMonth]);
@@ -102,13 +114,15 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
       if (!selectedClinicId) return;
       setIsLoading(true);
       try {
-          const [dailyData, nhiData, status] = await Promise.all([
+          const [dailyData, nhiData, status, plans] = await Promise.all([
               getMonthlyAccounting(selectedClinicId, currentMonth),
               getNHIRecords(selectedClinicId, currentMonth),
-              getMonthlyClosingStatus(selectedClinicId, currentMonth)
+              getMonthlyClosingStatus(selectedClinicId, currentMonth),
+              getClinicPlanBalances(selectedClinicId, receivablesAsOf)
           ]);
           setRows(dailyData);
           setNhiRecords(nhiData);
+          setPlanBalances(plans);
           setMonthlyStatus(status);
           setFilterDate(''); 
           setFilterDoctor(''); 
@@ -128,9 +142,10 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
   const handleQuickLabUpdate = async (rowId: string, date: string, newLabName: string) => {
     if (!date) return;
     setSavingRowId(rowId);
+    const expectedVersion = rows.find(r => r.id === rowId)?.version || 0;
     
     // Optimistic Update
-    setRows(prev => prev.map(r => r.id === rowId ? { ...r, labName: newLabName } : r));
+    setRows(prev => prev.map(r => r.id === rowId ? { ...r, labName: newLabName, version: expectedVersion + 1 } : r));
 
     try {
         await updateDailyRowField(
@@ -139,11 +154,12 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
             rowId,
             'labName',
             newLabName,
-            currentUser ? { uid: currentUser.uid, name: currentUser.email || 'User' } : undefined
+            currentUser ? { uid: currentUser.uid, name: currentUser.email || 'User' } : undefined,
+            expectedVersion
         );
         setTimeout(() => setSavingRowId(null), 500); 
-    } catch(e) {
-        alert("更新失敗");
+    } catch(e: any) {
+        alert("更新失敗: " + e.message);
         setSavingRowId(null);
         fetchData(); // Revert
     }
@@ -159,7 +175,7 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
           alert("✅ 本月已成功結帳鎖定！");
           fetchData();
       } catch (e: any) {
-          alert(e.message);
+          if (confirm(`${e.message}\n\n是否開啟結帳待辦，批次檢查並鎖定這些日期？`)) setIsBacklogOpen(true);
       } finally {
           setIsClosingActionLoading(false);
       }
@@ -283,6 +299,11 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
   const heroTotalRevenue = revenueSources.registration + revenueSources.selfPay + totalNHI;
   const clinicTotalRevenue = revenueSources.registration + revenueSources.selfPay;
 
+  const receivables = useMemo(() => summarizeReceivables(planBalances, receivablesAsOf), [planBalances, receivablesAsOf]);
+  const planCollectedThisMonth = useMemo(() => planBalances.reduce((sum, b) =>
+      sum + b.payments.filter(p => p.date.startsWith(currentMonth)).reduce((s, p) => s + p.amount, 0), 0
+  ), [planBalances, currentMonth]);
+
   const isMonthLocked = monthlyStatus?.isLocked || false;
   const canManageClosing = ['admin', 'manager', 'team_leader'].includes(userRole || '');
 
@@ -292,7 +313,7 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
           日期: r.originalDate || (r.startTime ? r.startTime.split('T')[0] : '-'), 
           病患: r.patientName, 
           醫師: r.doctorName, 
-          NP備註: r.npStatus, 
+          NP備註: r.rowType === 'refund' ? `退款: ${r.refundReason || ''}` : r.npStatus, 
           掛號費: r.treatments.regFee || 0, 
           部分負擔: r.treatments.copayment || 0, 
           假牙: r.treatments.prostho || 0, 
@@ -338,9 +359,14 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
                             {isClosingActionLoading ? <Loader2 size={18} className="animate-spin" /> : <Unlock size={18} />} 🔓 重啟月結
                         </button>
                     ) : (
-                        <button onClick={handleLockMonth} disabled={isClosingActionLoading} className="flex items-center gap-2 bg-indigo-50 text-indigo-700 border border-indigo-200 hover:bg-indigo-100 px-4 py-2 rounded-lg transition-colors text-sm font-bold shadow-sm">
-                            {isClosingActionLoading ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} 🔒 月結鎖定
-                        </button>
+                        <>
+                            <button onClick={() => setIsBacklogOpen(true)} className="flex items-center gap-2 bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 px-4 py-2 rounded-lg transition-colors text-sm font-bold shadow-sm">
+                                <ListChecks size={18} /> 結帳待辦
+                            </button>
+                            <button onClick={handleLockMonth} disabled={isClosingActionLoading} className="flex items-center gap-2 bg-indigo-50 text-indigo-700 border border-indigo-200 hover:bg-indigo-100 px-4 py-2 rounded-lg transition-colors text-sm font-bold shadow-sm">
+                                {isClosingActionLoading ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} 🔒 月結鎖定
+                            </button>
+                        </>
                     )
                 )}
                 <button onClick={handleExport} className="flex items-center gap-2 bg-emerald-50 text-emerald-600 hover:bg-emerald-100 border border-emerald-200 px-4 py-2 rounded-lg transition-colors text-sm font-bold"><FileSpreadsheet size={18} /> 匯出 Excel</button>
@@ -387,6 +413,27 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
               </div>
           </div>
       </div>
+      {planBalances.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 border-l-4 border-l-rose-500 p-6 mb-8">
+              <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2"><ClipboardList className="text-rose-500" /> 療程合約應收 (Receivables)</h3>
+              <p className="text-xs text-slate-400 mb-6">截至 {receivablesAsOf}，依最後一次付款日 (未付款則依合約起始日) 計算帳齡</p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                  <div className="bg-rose-50 rounded-xl p-4 border border-rose-100"><div className="text-xs font-bold text-rose-600 uppercase mb-1">應收帳款 (A/R)</div><div className="text-2xl font-black text-rose-700 tabular-nums">${receivables.receivable.toLocaleString()}</div></div>
+                  <div className="bg-indigo-50 rounded-xl p-4 border border-indigo-100"><div className="text-xs font-bold text-indigo-600 uppercase mb-1">預收款 (Deferred)</div><div className="text-2xl font-black text-indigo-700 tabular-nums">${receivables.deferredRevenue.toLocaleString()}</div><div className="text-[10px] text-indigo-400 mt-1">進行中療程已收金額</div></div>
+                  <div className="bg-slate-50 rounded-xl p-4 border border-slate-100"><div className="text-xs font-bold text-slate-500 uppercase mb-1">本月分期收款</div><div className="text-2xl font-black text-slate-700 tabular-nums">${planCollectedThisMonth.toLocaleString()}</div></div>
+              </div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase mb-3">帳齡分析 (Aging)</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {receivables.aging.map((bucket, idx) => (
+                      <div key={bucket.label} className={`p-3 rounded-lg border bg-white shadow-sm ${idx >= 2 && bucket.amount > 0 ? 'border-rose-200' : 'border-slate-100'}`}>
+                          <div className="text-xs font-bold text-slate-500">{bucket.label}</div>
+                          <div className={`text-lg font-bold tabular-nums ${idx >= 2 && bucket.amount > 0 ? 'text-rose-600' : 'text-slate-700'}`}>${bucket.amount.toLocaleString()}</div>
+                          <div className="text-[10px] text-slate-400">{bucket.count} 件</div>
+                      </div>
+                  ))}
+              </div>
+          </div>
+      )}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col min-h-[500px]">
           <div className="flex-1 overflow-x-auto custom-scrollbar">
               {isLoading ? (<div className="flex items-center justify-center h-64 text-slate-400 gap-2"><Loader2 className="animate-spin" /> 讀取中...</div>) : (
@@ -422,7 +469,7 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
                               <td className="px-4 py-3 text-lg font-mono text-blue-600 font-bold border-r border-slate-50 cursor-pointer hover:underline whitespace-nowrap" onClick={() => navigate(`/accounting?date=${row.originalDate || (row.startTime ? row.startTime.split('T')[0] : '')}`)}>
                                   {(row.originalDate || (row.startTime ? row.startTime.split('T')[0] : '')).slice(5)}
                               </td>
-                              <td className="px-4 py-3 text-sm border-r border-slate-50 whitespace-nowrap">{row.patientName}</td>
+                              <td className="px-4 py-3 text-sm border-r border-slate-50 whitespace-nowrap">{row.patientName}{row.rowType === 'refund' && <span className="ml-1 text-[10px] font-bold px-1 py-0.5 rounded bg-rose-50 text-rose-600 border border-rose-100" title={row.refundReason}>退款{row.refundOf?.date ? ` ${row.refundOf.date}` : ''}</span>}</td>
                               <td className="px-2 py-3 border-r border-slate-50 text-center text-sm font-medium">{row.doctorName}</td>
                               <td className="px-4 py-3 text-right text-sm font-mono text-slate-600 border-r border-slate-50 whitespace-nowrap">{row.treatments.regFee + row.treatments.copayment}</td>
                               <td className="px-4 py-3 text-right border-r border-slate-50 align-top text-sm">${((row.treatments as any).prostho || 0) + ((row.treatments as any).implant || 0) + ((row.treatments as any).ortho || 0) + ((row.treatments as any).sov || 0) + ((row.treatments as any).inv || 0) + ((row.treatments as any).whitening || 0) + ((row.treatments as any).perio || 0) + ((row.treatments as any).otherSelfPay || 0)}</td>
@@ -467,6 +514,15 @@ export const MonthlyReport: React.FC<Props> = ({ doctors }) => {
           </div>
       </div>
       <NHIClaimsModal isOpen={isNHIModalOpen} onClose={() => setIsNHIModalOpen(false)} clinicId={selectedClinicId} month={currentMonth} doctors={doctors.filter(d => d.clinicId === selectedClinicId)} onSave={refreshNHIData} />
+      <ClosingBacklogModal
+          isOpen={isBacklogOpen}
+          onClose={() => setIsBacklogOpen(false)}
+          clinicId={selectedClinicId}
+          startDate={`${currentMonth}-01`}
+          endDate={`${currentMonth}-31`}
+          ruleConfig={clinics.find(c => c.id === selectedClinicId)?.validationRules}
+          onOpenDay={(date) => navigate(`/accounting?date=${date}`)}
+      />
     </div>
   );
 };
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Clinic, NPSourceRule } from '../types';
+import { getNPSourceRules, saveNPSourceRules, getNPRecordsForSourceReview, applyNPSourceChanges } from '../services/firebase';
+import { DEFAULT_NP_SOURCE_RULES, NP_SOURCES, buildSourceReclassification, SourceReclassification } from '../utils/eventParser';
+import { X, Save, Loader2, Plus, Trash2, RotateCcw, Search, Check, ArrowRight, AlertTriangle, ListFilter } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinics: Clinic[];
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const getRegexError = (rule: NPSourceRule): string | null => {
+    if (!rule.isRegex || !rule.pattern) return null;
+    try {
+        new RegExp(rule.pattern, 'i');
+        return null;
+    } catch (e) {
+        return '正規表示式有誤';
+    }
+};
+
+export const NPSourceRulesModal: React.FC<Props> = ({ isOpen, onClose, clinics }) => {
+    const [rules, setRules] = useState<NPSourceRule[]>([]);
+    const [savedRules, setSavedRules] = useState<NPSourceRule[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const [range, setRange] = useState({ start: '', end: '' });
+    const [preview, setPreview] = useState<SourceReclassification | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setIsLoading(true);
+        setPreview(null);
+        getNPSourceRules()
+            .then(loaded => { setRules(loaded); setSavedRules(loaded); })
+            .catch(e => { console.error(e); alert("讀取來源規則失敗"); })
+            .finally(() => setIsLoading(false));
+    }, [isOpen]);
+
+    const clinicNames = useMemo(() => Object.fromEntries(clinics.map(c => [c.id, c.name])), [clinics]);
+    const sourceOptions = useMemo(() => Array.from(new Set([...NP_SOURCES, ...rules.map(r => r.source).filter(Boolean)])), [rules]);
+    const isDirty = JSON.stringify(rules) !== JSON.stringify(savedRules);
+
+    if (!isOpen) return null;
+
+    const updateRule = (id: string, changes: Partial<NPSourceRule>) => {
+        setRules(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+        setPreview(null);
+    };
+
+    const addRule = (pattern = '', clinicId = '') => {
+        const priority = rules.reduce((max, r) => Math.max(max, r.priority), 0) + 10;
+        setRules(prev => [...prev, { id: generateId(), pattern, source: NP_SOURCES[0], priority, clinicId }]);
+        setPreview(null);
+    };
+
+    const persistRules = async () => {
+        if (rules.some(r => !r.pattern.trim() || !r.source.trim())) { alert("每條規則都需要關鍵字與來源"); return false; }
+        if (rules.some(r => getRegexError(r))) { alert("請先修正有錯誤的正規表示式"); return false; }
+        const sorted = [...rules].sort((a, b) => a.priority - b.priority);
+        await saveNPSourceRules(sorted);
+        setRules(sorted);
+        setSavedRules(sorted);
+        return true;
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            if (await persistRules()) alert('來源規則已儲存！');
+        } catch (e) {
+            console.error(e);
+            alert("儲存失敗");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handlePreview = async () => {
+        if (range.start && range.end && range.start > range.end) { alert("起始日期不可晚於結束日期"); return; }
+        setIsPreviewing(true);
+        try {
+            const allowedIds = new Set(clinics.map(c => c.id));
+            const records = await getNPRecordsForSourceReview(range.start || undefined, range.end || undefined);
+            setPreview(buildSourceReclassification(records.filter(r => allowedIds.has(r.clinicId)), rules));
+        } catch (e) {
+            console.error(e);
+            alert("讀取 NP 紀錄失敗");
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!preview || preview.changes.length === 0) return;
+        if (!confirm(`確定要更新 ${preview.changes.length} 筆 NP 紀錄的來源嗎？${isDirty ? '\n目前的規則也會一併儲存。' : ''}`)) return;
+        setIsApplying(true);
+        try {
+            // Records should always be explainable by the saved rules
+            if (isDirty && !(await persistRules())) return;
+            await applyNPSourceChanges(preview.changes.map(c => ({ id: c.id, source: c.to })));
+            alert(`已更新 ${preview.changes.length} 筆紀錄。`);
+            setPreview(null);
+        } catch (e) {
+            console.error(e);
+            alert("重新分類失敗");
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-indigo-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="text-lg font-bold flex items-center gap-2"><ListFilter size={20} /> NP 來源規則</h3>
+                        <div className="text-sm text-indigo-100 mt-1">依優先順序比對預約備註，第一條符合的規則決定來源；都不符合則歸類為「其他」</div>
+                    </div>
+                    <button onClick={onClose} disabled={isSaving || isApplying} className="p-1 rounded-full hover:bg-indigo-700 transition-colors"><X size={20} /></button>
+                </div>
+
+                {isLoading ? (
+                    <div className="p-12 flex justify-center"><Loader2 className="animate-spin text-indigo-500" size={32} /></div>
+                ) : (
+                    <div className="flex-1 overflow-y-auto p-4 space-y-6">
+                        <section>
+                            <div className="grid grid-cols-[4rem_1fr_4rem_8rem_8rem_3rem_2rem] gap-2 px-2 pb-1 text-[11px] font-bold text-slate-400">
+                                <div>優先</div><div>關鍵字</div><div className="text-center">正規式</div><div>來源</div><div>適用診所</div><div className="text-center">啟用</div><div />
+                            </div>
+                            <div className="space-y-1">
+                                {rules.map(rule => {
+                                    const error = getRegexError(rule);
+                                    return (
+                                        <div key={rule.id} className={`grid grid-cols-[4rem_1fr_4rem_8rem_8rem_3rem_2rem] gap-2 items-center px-2 py-1 rounded-lg border ${rule.disabled ? 'opacity-50 border-slate-100' : error ? 'border-rose-200 bg-rose-50/40' : 'border-slate-100'}`}>
+                                            <input type="number" className="border rounded px-2 py-1 text-sm w-full" value={rule.priority} onChange={e => updateRule(rule.id, { priority: Number(e.target.value) || 0 })} />
+                                            <div>
+                                                <input className={`border rounded px-2 py-1 text-sm w-full ${rule.isRegex ? 'font-mono' : ''}`} value={rule.pattern} onChange={e => updateRule(rule.id, { pattern: e.target.value })} />
+                                                {error && <div className="text-[11px] text-rose-600">{error}</div>}
+                                            </div>
+                                            <div className="text-center"><input type="checkbox" checked={!!rule.isRegex} onChange={e => updateRule(rule.id, { isRegex: e.target.checked })} /></div>
+                                            <input list="np-source-options" className="border rounded px-2 py-1 text-sm w-full font-bold" value={rule.source} onChange={e => updateRule(rule.id, { source: e.target.value })} />
+                                            <select className="border rounded px-2 py-1 text-sm w-full bg-white" value={rule.clinicId || ''} onChange={e => updateRule(rule.id, { clinicId: e.target.value })}>
+                                                <option value="">全部診所</option>
+                                                {clinics.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                            </select>
+                                            <div className="text-center"><input type="checkbox" checked={!rule.disabled} onChange={e => updateRule(rule.id, { disabled: !e.target.checked })} /></div>
+                                            <button onClick={() => { setRules(rules.filter(r => r.id !== rule.id)); setPreview(null); }} className="text-slate-400 hover:text-rose-500"><Trash2 size={14} /></button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            <datalist id="np-source-options">
+                                {sourceOptions.map(s => <option key={s} value={s} />)}
+                            </datalist>
+                            <div className="flex justify-between items-center mt-3">
+                                <div className="flex gap-4">
+                                    <button onClick={() => addRule()} className="text-sm font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"><Plus size={14} /> 新增規則</button>
+                                    <button onClick={() => { if (confirm("確定要還原為預設規則嗎？")) { setRules(DEFAULT_NP_SOURCE_RULES); setPreview(null); } }} className="text-sm font-bold text-slate-500 hover:text-slate-700 flex items-center gap-1"><RotateCcw size={14} /> 還原預設</button>
+                                </div>
+                                <button onClick={handleSave} disabled={isSaving || !isDirty} className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 shadow-sm disabled:opacity-50">
+                                    {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />} 儲存規則
+                                </button>
+                            </div>
+                        </section>
+
+                        <section className="border-t border-slate-100 pt-4 space-y-3">
+                            <h4 className="font-bold text-slate-700">重新分類歷史 NP 紀錄</h4>
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                                <input type="date" className="border rounded px-2 py-1" value={range.start} onChange={e => { setRange({ ...range, start: e.target.value }); setPreview(null); }} />
+                                <span className="text-slate-400">至</span>
+                                <input type="date" className="border rounded px-2 py-1" value={range.end} onChange={e => { setRange({ ...range, end: e.target.value }); setPreview(null); }} />
+                                <span className="text-xs text-slate-400">(留白代表全部歷史)</span>
+                                <button onClick={handlePreview} disabled={isPreviewing} className="ml-auto bg-white border border-indigo-200 text-indigo-700 px-3 py-1.5 rounded-lg font-bold flex items-center gap-1 hover:bg-indigo-50 disabled:opacity-50">
+                                    {isPreviewing ? <Loader2 size={14} className="animate-spin" /> : <Search size={14} />} 預覽變更
+                                </button>
+                            </div>
+
+                            {preview && (
+                                <div className="space-y-4">
+                                    <div className="text-sm text-slate-600">
+                                        將更新 <strong className="text-indigo-700">{preview.changes.length}</strong> 筆來源
+                                        {preview.skippedManual > 0 && <span className="text-slate-400">，另有 {preview.skippedManual} 筆為手動指定的來源，不會變更</span>}
+                                    </div>
+                                    {preview.changes.length > 0 && (
+                                        <div className="max-h-56 overflow-y-auto border rounded-lg divide-y divide-slate-100">
+                                            {preview.changes.map(c => (
+                                                <div key={c.id} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                                                    <span className="font-mono text-slate-400 w-20 shrink-0">{c.date}</span>
+                                                    <span className="text-slate-500 w-16 shrink-0 truncate">{clinicNames[c.clinicId] || c.clinicId}</span>
+                                                    <span className="font-bold text-slate-700 w-20 shrink-0 truncate">{c.patientName}</span>
+                                                    <span className="text-slate-400 flex-1 truncate" title={c.note}>{c.note}</span>
+                                                    <span className="bg-rose-50 text-rose-700 px-1.5 py-0.5 rounded line-through decoration-rose-300">{c.from || '未分類'}</span>
+                                                    <ArrowRight size={12} className="text-slate-400" />
+                                                    <span className="bg-emerald-50 text-emerald-700 px-1.5 py-0.5 rounded font-bold">{c.to}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    {preview.unmatched.length > 0 && (
+                                        <div>
+                                            <h5 className="text-sm font-bold text-amber-700 flex items-center gap-1 mb-1"><AlertTriangle size={14} /> 沒有規則符合的備註 ({preview.unmatched.length})</h5>
+                                            <div className="text-xs text-slate-500 mb-2">這些紀錄會歸類為「其他」。點「建立規則」可從備註新增一條規則，再把關鍵字修剪成共通的字詞。</div>
+                                            <div className="max-h-56 overflow-y-auto border border-amber-100 rounded-lg divide-y divide-amber-50">
+                                                {preview.unmatched.map(u => (
+                                                    <div key={u.note} className="flex items-center gap-3 px-3 py-1.5 text-xs bg-amber-50/40">
+                                                        <span className="font-bold text-amber-700 w-10 shrink-0 text-right">{u.count}×</span>
+                                                        <span className="text-slate-700 flex-1 truncate" title={u.note}>{u.note}</span>
+                                                        <span className="text-slate-400 shrink-0">{u.clinicIds.map(id => clinicNames[id] || id).join('、')}</span>
+                                                        <button onClick={() => addRule(u.note.slice(0, 20), u.clinicIds.length === 1 ? u.clinicIds[0] : '')} className="text-indigo-600 hover:text-indigo-800 font-bold shrink-0 flex items-center gap-0.5"><Plus size={12} /> 建立規則</button>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </section>
+                    </div>
+                )}
+
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50 shrink-0">
+                    <button onClick={onClose} disabled={isSaving || isApplying} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">關閉</button>
+                    <button onClick={handleApply} disabled={isApplying || !preview || preview.changes.length === 0} className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md disabled:opacity-50 transition-transform active:scale-95">
+                        {isApplying ? <Loader2 size={18} className="animate-spin" /> : <Check size={18} />} 套用 {preview?.changes.length || 0} 筆重新分類
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
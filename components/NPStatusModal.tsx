@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { AccountingRow, NPRecord } from '../types';
 import { getStaffList, saveNPRecord, getNPRecord, getMarketingTags, saveMarketingTags, db, deleteNPRecord } from '../services/firebase';
+import { NP_SOURCES } from '../utils/eventParser';
 import { X, Save, Loader2, Tag, MessageCircle, User, DollarSign, Settings, Plus, Trash2, CheckSquare, FileText, AlertCircle, Clock, Info as InfoIcon, XCircle } from 'lucide-react';
 
 interface Props {
@@ -18,8 +19,6 @@ interface Props {
     row?: any; 
 }
 
-const SOURCES = ['FB', 'Line', '電話', '小幫手', '介紹', '過路客', '官網', 'SOV轉介', '其他'];
-
 export const NPStatusModal: React.FC<Props> = ({ isOpen, onClose, recordId, patientName, calendarTreatment, actualTreatment, clinicId, date, onRevokeNP, onUpdate, row }) => {
     const [formData, setFormData] = useState<Partial<NPRecord>>({
         source: 'Line',
@@ -133,6 +132,7 @@ export const NPStatusModal: React.FC<Props> = ({ isOpen, onClose, recordId, pati
                 treatment: formData.treatment || '', // Actual Treatment
                 marketingTag: formData.marketingTag || '矯正諮詢',
                 source: formData.source || '其他',
+                sourceManual: !!formData.sourceManual,
                 isVisited,
                 isClosed,
                 dealAmount,
@@ -310,8 +310,8 @@ export const NPStatusModal: React.FC<Props> = ({ isOpen, onClose, recordId, pati
                                     </div>
                                     <div>
                                         <label className="block text-xs font-bold text-slate-500 mb-1 flex items-center gap-1"><MessageCircle size={12}/> 來源管道 (Source)</label>
-                                        <select className="w-full border rounded px-3 py-2 bg-white text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium" value={formData.source} onChange={e => setFormData({...formData, source: e.target.value})}>
-                                            {SOURCES.map(s => <option key={s} value={s}>{s}</option>)}
+                                        <select className="w-full border rounded px-3 py-2 bg-white text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium" value={formData.source} onChange={e => setFormData({...formData, source: e.target.value, sourceManual: true})}>
+                                            {NP_SOURCES.map(s => <option key={s} value={s}>{s}</option>)}
                                         </select>
                                     </div>
                                 </div>
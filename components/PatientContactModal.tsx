@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { Patient, updatePatientContact } from '../services/firebase';
+import { PatientContact, PatientGender } from '../types';
+import { validatePatientContact, formatPhone, GENDER_LABELS, ContactFieldError } from '../utils/patients';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Save, Loader2, Contact } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    patient: Patient | null;
+    onSaved: () => void;
+}
+
+export const PatientContactModal: React.FC<Props> = ({ isOpen, onClose, patient, onSaved }) => {
+    const { currentUser } = useAuth();
+    const [form, setForm] = useState<PatientContact>({});
+    const [errors, setErrors] = useState<ContactFieldError>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen || !patient) return;
+        setForm({
+            phone: patient.phone ? formatPhone(patient.phone) : '',
+            birthday: patient.birthday || '',
+            gender: patient.gender,
+            lineId: patient.lineId || '',
+            marketingConsent: !!patient.marketingConsent
+        });
+        setErrors({});
+    }, [isOpen, patient]);
+
+    if (!isOpen || !patient) return null;
+
+    const handleSave = async () => {
+        const found = validatePatientContact(form);
+        setErrors(found);
+        if (Object.keys(found).length > 0) return;
+
+        setIsSaving(true);
+        try {
+            await updatePatientContact(patient.docId, form, { uid: currentUser?.uid || 'unknown', name: currentUser?.email || 'User' });
+            onSaved();
+            onClose();
+        } catch (e) {
+            console.error(e);
+            alert("儲存失敗: " + (e as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass = (field: keyof PatientContact) =>
+        `w-full border rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500 ${errors[field] ? 'border-rose-300 bg-rose-50' : ''}`;
+    const fieldError = (field: keyof PatientContact) =>
+        errors[field] && <p className="text-xs text-rose-600 mt-1">{errors[field]}</p>;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-indigo-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2">
+                        <Contact size={20} /> 聯絡資料 - {patient.name}
+                        {patient.chartId && <span className="font-mono text-sm bg-indigo-700 px-2 py-0.5 rounded">{patient.chartId}</span>}
+                    </h3>
+                    <button onClick={onClose} disabled={isSaving} className="p-1 rounded-full hover:bg-indigo-700 transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-5 space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 mb-1">電話</label>
+                            <input className={inputClass('phone')} placeholder="0912-345-678" value={form.phone || ''} onChange={e => setForm({ ...form, phone: e.target.value })} />
+                            {fieldError('phone')}
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 mb-1">LINE ID</label>
+                            <input className={inputClass('lineId')} value={form.lineId || ''} onChange={e => setForm({ ...form, lineId: e.target.value })} />
+                            {fieldError('lineId')}
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 mb-1">生日</label>
+                            <input type="date" className={inputClass('birthday')} value={form.birthday || ''} onChange={e => setForm({ ...form, birthday: e.target.value })} />
+                            {fieldError('birthday')}
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 mb-1">性別</label>
+                            <select className={`${inputClass('gender')} bg-white`} value={form.gender || ''} onChange={e => setForm({ ...form, gender: (e.target.value || undefined) as PatientGender | undefined })}>
+                                <option value="">未填</option>
+                                {(Object.keys(GENDER_LABELS) as PatientGender[]).map(g => <option key={g} value={g}>{GENDER_LABELS[g]}</option>)}
+                            </select>
+                            {fieldError('gender')}
+                        </div>
+                    </div>
+
+                    <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 bg-slate-50 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={!!form.marketingConsent}
+                            onChange={e => setForm({ ...form, marketingConsent: e.target.checked })}
+                            className="w-4 h-4 mt-0.5 rounded text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <div>
+                            <div className="text-sm font-bold text-slate-700">同意接收行銷訊息</div>
+                            <div className="text-xs text-slate-500">未勾選的病患不會出現在任何行銷名單或匯出檔中。</div>
+                            {patient.consentUpdatedAt && (
+                                <div className="text-[10px] text-slate-400 mt-1">上次變更：{new Date(patient.consentUpdatedAt).toLocaleString()}{patient.consentUpdatedBy ? ` · ${patient.consentUpdatedBy}` : ''}</div>
+                            )}
+                        </div>
+                    </label>
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50 shrink-0">
+                    <button onClick={onClose} disabled={isSaving} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">取消</button>
+                    <button onClick={handleSave} disabled={isSaving} className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md disabled:opacity-50 transition-transform active:scale-95">
+                        {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />} 儲存
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
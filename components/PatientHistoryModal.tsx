@@ -1,21 +1,70 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Patient } from '../services/firebase';
-import { getPatientHistory } from '../services/firebase';
-import { X, Calendar, Stethoscope, Loader2, DollarSign, User } from 'lucide-react';
+import { getPatientTimeline, getPatientPlanBalances, findPatientProfile, getPatientReminderLogs, withPatientContacts } from '../services/firebase';
+import { PlanBalance, PatientAttendanceEvent, ReminderLogEntry, PatientTimelineEntry, TimelineCategory, Clinic, Doctor, CalendarProvider } from '../types';
+import { PLAN_CATEGORY_LABELS, PLAN_STATUS_LABELS } from '../utils/receivables';
+import { summarizeAttendance, formatRate, ATTENDANCE_OUTCOME_LABELS } from '../utils/attendance';
+import { TIMELINE_CATEGORY_LABELS, appointmentTimelineEntry, sortTimeline } from '../utils/timeline';
+import { parseCalendarEvent } from '../utils/eventParser';
+import { viewPatientContact, ageOn, GENDER_LABELS } from '../utils/patients';
+import { getCalendarProvider } from '../services/calendarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { useClinic } from '../contexts/ClinicContext';
+import { X, Calendar, Stethoscope, Loader2, DollarSign, User, ClipboardList, UserX, BellRing, Phone, MessageCircle } from 'lucide-react';
 
 interface Props {
     isOpen: boolean;
     onClose: () => void;
     patient: Patient | null;
+    // Calendar to list the patient's appointments from; defaults to the patient's clinic and its provider
+    calendar?: PatientCalendarSource;
 }
 
-export const PatientHistoryModal: React.FC<Props> = ({ isOpen, onClose, patient }) => {
-    const [history, setHistory] = useState<any[]>([]);
+type PatientCalendarSource = { clinic: Clinic; doctors: Doctor[]; provider: CalendarProvider };
+
+const CATEGORY_STYLES: Record<TimelineCategory, string> = {
+    visit: 'bg-teal-50 text-teal-700 border-teal-100',
+    np: 'bg-amber-50 text-amber-700 border-amber-100',
+    lab: 'bg-slate-100 text-slate-600 border-slate-200',
+    sov: 'bg-pink-50 text-pink-700 border-pink-100',
+    appointment: 'bg-indigo-50 text-indigo-700 border-indigo-100'
+};
+
+// Human readable accounting columns (simplified)
+const ITEM_LABELS: Record<string, string> = {
+    regFee: '掛號', copayment: '部分', prostho: '假牙', 
+    implant: '植牙', ortho: '矯正', sov: 'SOV', inv: '隱適美',
+    perio: '牙周', whitening: '美白', otherSelfPay: '其他',
+};
+
+const toDateKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const PatientHistoryModal: React.FC<Props> = ({ isOpen, onClose, patient, calendar }) => {
+    const { userRole } = useAuth();
+    const { clinics } = useClinic();
+    const patientClinic = clinics.find(c => c.id === patient?.clinicId);
+    // A provider that is not signed in fails the search, which only leaves the appointments out
+    const calendarSource = useMemo((): PatientCalendarSource | undefined => {
+        if (calendar) return calendar;
+        if (!patientClinic || Object.keys(patientClinic.googleCalendarMapping || {}).length === 0) return undefined;
+        return { clinic: patientClinic, doctors: patientClinic.doctors || [], provider: getCalendarProvider(patientClinic.calendarProvider) };
+    }, [calendar, patientClinic]);
+    const [profile, setProfile] = useState<Patient | null>(null);
+    const [timeline, setTimeline] = useState<PatientTimelineEntry[]>([]);
+    const [appointments, setAppointments] = useState<PatientTimelineEntry[]>([]);
+    const [isLoadingAppointments, setIsLoadingAppointments] = useState(false);
+    const [categoryFilter, setCategoryFilter] = useState<TimelineCategory | 'all'>('all');
+    const [doctorFilter, setDoctorFilter] = useState('');
+    const [plans, setPlans] = useState<PlanBalance[]>([]);
+    const [attendance, setAttendance] = useState<PatientAttendanceEvent[]>([]);
+    const [reminders, setReminders] = useState<ReminderLogEntry[]>([]);
     const [isLoading, setIsLoading] = useState(false);
 
     useEffect(() => {
         if (isOpen && patient) {
+            setCategoryFilter('all');
+            setDoctorFilter('');
             loadHistory();
         }
     }, [isOpen, patient]);
@@ -24,8 +73,23 @@ export const PatientHistoryModal: React.FC<Props> = ({ isOpen, onClose, patient
         if (!patient) return;
         setIsLoading(true);
         try {
-            const data = await getPatientHistory(patient.clinicId, patient.name, patient.chartId);
-            setHistory(data);
+            // Calendar lookups pass a stand-in patient, so the stored profile is fetched for its attendance log
+            // and contact details
+            setAppointments([]);
+            const [data, planData, profile, reminderLogs] = await Promise.all([
+                getPatientTimeline(patient.clinicId, patient.name, patient.chartId),
+                getPatientPlanBalances(patient.clinicId, patient.name, patient.chartId),
+                patient.attendanceLog
+                    ? Promise.resolve(patient)
+                    : findPatientProfile(patient.clinicId, patient.name, patient.chartId).then(async p => p && (await withPatientContacts(patient.clinicId, [p], userRole))[0]),
+                getPatientReminderLogs(patient.clinicId, patient.name, patient.chartId)
+            ]);
+            setReminders(reminderLogs);
+            setProfile(profile);
+            setTimeline(data);
+            setPlans(planData.filter(p => p.plan.status !== 'cancelled'));
+            setAttendance(Object.values(profile?.attendanceLog || {}).sort((a, b) => b.date.localeCompare(a.date)));
+            if (calendarSource) loadAppointments(calendarSource, data).catch(err => console.error(err));
         } catch (e) {
             console.error(e);
         } finally {
@@ -33,8 +97,51 @@ export const PatientHistoryModal: React.FC<Props> = ({ isOpen, onClose, patient
         }
     };
 
+    // Searches every doctor's calendar from the patient's first record (at least a year back) to a year ahead
+    const loadAppointments = async (source: PatientCalendarSource, records: PatientTimelineEntry[]) => {
+        if (!patient) return;
+        const mapping = source.clinic.googleCalendarMapping || {};
+        const firstDate = records.map(r => r.date).filter(Boolean).sort()[0];
+        const from = new Date();
+        from.setFullYear(from.getFullYear() - 1);
+        if (firstDate && new Date(`${firstDate}T00:00:00`) < from) from.setTime(new Date(`${firstDate}T00:00:00`).getTime());
+        const to = new Date();
+        to.setFullYear(to.getFullYear() + 1);
+
+        setIsLoadingAppointments(true);
+        try {
+            const recordIds = new Set(records.map(r => r.id));
+            const perDoctor = await Promise.all(source.doctors.filter(d => mapping[d.id]).map(async doc => {
+                const events = await source.provider.searchEvents(mapping[doc.id], patient.name, from, to);
+                return events.flatMap(ev => {
+                    const parsed = parseCalendarEvent(ev.summary, source.clinic.titleGrammar);
+                    if (!parsed || !ev.start.dateTime || parsed.name !== patient.name) return [];
+                    if (patient.chartId && parsed.chartId && parsed.chartId !== patient.chartId) return [];
+                    const start = new Date(ev.start.dateTime);
+                    // Appointments synced into the day's accounting already show as visits
+                    if (recordIds.has(`visit_${toDateKey(start)}_${ev.id}`)) return [];
+                    return [appointmentTimelineEntry({ id: ev.id, start, treatment: parsed.treatment }, doc.name)];
+                });
+            }));
+            setAppointments(perDoctor.flat());
+        } finally {
+            setIsLoadingAppointments(false);
+        }
+    };
+
+    const entries = useMemo(() => sortTimeline([...timeline, ...appointments]), [timeline, appointments]);
+    const doctorNames = useMemo(() => Array.from(new Set(entries.map(e => e.doctorName).filter((n): n is string => !!n))).sort(), [entries]);
+    const filteredEntries = entries.filter(e =>
+        (categoryFilter === 'all' || e.category === categoryFilter) && (!doctorFilter || e.doctorName === doctorFilter)
+    );
+
     if (!isOpen || !patient) return null;
 
+    const contact = profile && viewPatientContact(profile, userRole);
+    const totalOutstanding = plans.reduce((sum, p) => sum + p.outstanding, 0);
+    const attendanceSummary = summarizeAttendance(attendance);
+    const misses = attendance.filter(e => e.outcome !== 'attended');
+
     return (
         <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
             <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slide-down flex flex-col max-h-[85vh]">
@@ -48,6 +155,11 @@ export const PatientHistoryModal: React.FC<Props> = ({ isOpen, onClose, patient
                         <div className="flex items-center gap-2 text-sm text-slate-400 mt-1">
                             <span className="bg-slate-800 px-2 py-0.5 rounded text-white font-bold">{patient.name}</span>
                             {patient.chartId && <span className="font-mono bg-slate-800 px-2 py-0.5 rounded text-teal-300">{patient.chartId}</span>}
+                            {contact?.phone && <span className="flex items-center gap-1 font-mono"><Phone size={12} /> {contact.phone}</span>}
+                            {contact?.lineId && <span className="flex items-center gap-1"><MessageCircle size={12} /> {contact.lineId}</span>}
+                            {(contact?.gender || contact?.birthday) && (
+                                <span>{[contact.gender && GENDER_LABELS[contact.gender], contact.birthday && `${ageOn(contact.birthday)} 歲`].filter(Boolean).join(' · ')}</span>
+                            )}
                         </div>
                     </div>
                     <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors p-1 rounded-full hover:bg-slate-800">
@@ -57,62 +169,146 @@ export const PatientHistoryModal: React.FC<Props> = ({ isOpen, onClose, patient
 
                 {/* Body */}
                 <div className="flex-1 overflow-y-auto bg-slate-50 p-4">
+                    {!isLoading && attendanceSummary.appointments > 0 && (
+                        <div className={`bg-white rounded-xl border p-4 mb-4 ${attendanceSummary.noShowRate >= 0.2 ? 'border-rose-200' : 'border-slate-200'}`}>
+                            <div className="flex justify-between items-center">
+                                <h4 className="text-sm font-bold text-slate-700 flex items-center gap-2"><UserX size={16} className="text-rose-500" /> 爽約紀錄 (No-show)</h4>
+                                <div className="flex items-center gap-3 text-xs text-slate-500 tabular-nums">
+                                    <span>預約 {attendanceSummary.appointments}</span>
+                                    <span>爽約 {attendanceSummary.noShows}</span>
+                                    <span>臨時取消 {attendanceSummary.lateCancels}</span>
+                                    <span className={`px-2 py-0.5 rounded font-bold ${attendanceSummary.noShowRate >= 0.2 ? 'bg-rose-50 text-rose-600' : 'bg-emerald-50 text-emerald-600'}`}>
+                                        爽約率 {formatRate(attendanceSummary.noShowRate)}
+                                    </span>
+                                </div>
+                            </div>
+                            {misses.length > 0 && (
+                                <div className="flex flex-wrap gap-2 mt-3 pt-3 border-t border-slate-100">
+                                    {misses.slice(0, 8).map((e, idx) => (
+                                        <span key={idx} className="text-xs px-2 py-1 bg-rose-50 text-rose-700 rounded border border-rose-100 font-medium">
+                                            {e.date} {ATTENDANCE_OUTCOME_LABELS[e.outcome]}{e.doctorName ? ` · ${e.doctorName}` : ''}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {!isLoading && reminders.length > 0 && (
+                        <div className="bg-white rounded-xl border border-slate-200 p-4 mb-4">
+                            <h4 className="text-sm font-bold text-slate-700 flex items-center gap-2 mb-2"><BellRing size={16} className="text-indigo-500" /> 提醒紀錄 (Reminders)</h4>
+                            <div className="space-y-1">
+                                {reminders.slice(0, 5).map(r => (
+                                    <div key={r.id} className="flex justify-between items-center text-xs border-t border-slate-100 pt-1" title={r.message}>
+                                        <span className="text-slate-600">約診 {r.appointmentDate} · {r.doctorName}</span>
+                                        <span className={r.status === 'sent' ? 'text-emerald-600' : 'text-rose-600'}>
+                                            {r.status === 'sent' ? '已傳送' : `傳送失敗${r.error ? ` (${r.error})` : ''}`} · {new Date(r.sentAt).toLocaleString()}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {!isLoading && plans.length > 0 && (
+                        <div className="bg-white rounded-xl border border-purple-200 p-4 mb-4">
+                            <div className="flex justify-between items-center mb-3">
+                                <h4 className="text-sm font-bold text-purple-700 flex items-center gap-2"><ClipboardList size={16} /> 療程合約 (Treatment Plans)</h4>
+                                <div className="text-sm font-bold text-slate-600">
+                                    未收餘額 <span className={`tabular-nums ${totalOutstanding > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>${totalOutstanding.toLocaleString()}</span>
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                {plans.map(p => (
+                                    <div key={p.plan.id} className="flex justify-between items-center text-xs border-t border-slate-100 pt-2">
+                                        <div>
+                                            <span className="font-bold text-slate-700">{p.plan.title}</span>
+                                            <span className="ml-2 text-slate-400">{PLAN_CATEGORY_LABELS[p.plan.category]} · {p.plan.startDate} · {PLAN_STATUS_LABELS[p.plan.status]}</span>
+                                        </div>
+                                        <div className="flex gap-3 tabular-nums">
+                                            <span className="text-slate-500">合約 ${p.plan.contractPrice.toLocaleString()}</span>
+                                            <span className="text-emerald-600">已收 ${p.paid.toLocaleString()}</span>
+                                            <span className="font-bold text-rose-600">未收 ${p.outstanding.toLocaleString()}</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {!isLoading && entries.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 mb-3">
+                            {(['all', ...Object.keys(TIMELINE_CATEGORY_LABELS)] as (TimelineCategory | 'all')[]).map(cat => {
+                                const count = cat === 'all' ? entries.length : entries.filter(e => e.category === cat).length;
+                                if (cat !== 'all' && count === 0) return null;
+                                return (
+                                    <button
+                                        key={cat}
+                                        onClick={() => setCategoryFilter(cat)}
+                                        className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${categoryFilter === cat ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-100'}`}
+                                    >
+                                        {cat === 'all' ? '全部' : TIMELINE_CATEGORY_LABELS[cat]} ({count})
+                                    </button>
+                                );
+                            })}
+                            {doctorNames.length > 1 && (
+                                <select className="ml-auto border rounded-lg px-2 py-1 text-xs bg-white outline-none focus:ring-2 focus:ring-teal-500" value={doctorFilter} onChange={e => setDoctorFilter(e.target.value)}>
+                                    <option value="">所有醫師</option>
+                                    {doctorNames.map(name => <option key={name} value={name}>{name}</option>)}
+                                </select>
+                            )}
+                        </div>
+                    )}
+                    {isLoadingAppointments && (
+                        <div className="flex items-center gap-2 text-xs text-slate-400 mb-3"><Loader2 size={12} className="animate-spin" /> 正在搜尋日曆預約...</div>
+                    )}
                     {isLoading ? (
                         <div className="flex flex-col items-center justify-center py-12 text-slate-400">
                             <Loader2 size={32} className="animate-spin mb-2 text-teal-600" />
-                            <p>正在搜尋最近六個月紀錄...</p>
+                            <p>正在載入病患完整紀錄...</p>
                         </div>
-                    ) : history.length === 0 ? (
+                    ) : filteredEntries.length === 0 ? (
                         <div className="flex flex-col items-center justify-center py-16 text-slate-400 border-2 border-dashed border-slate-200 rounded-xl m-4">
                             <Calendar size={48} className="text-slate-200 mb-4" />
-                            <p className="font-medium">查無近期看診紀錄</p>
-                            <p className="text-xs mt-1 text-slate-400">(僅顯示最近 180 天內資料)</p>
+                            <p className="font-medium">{entries.length === 0 ? '查無任何紀錄' : '沒有符合篩選條件的紀錄'}</p>
                         </div>
                     ) : (
-                        <div className="space-y-4">
-                            {history.map((record, idx) => (
-                                <div key={idx} className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 hover:border-teal-200 transition-colors group">
-                                    <div className="flex justify-between items-start mb-3">
-                                        <div className="flex items-center gap-3">
+                        <div className="space-y-3">
+                            {filteredEntries.map(entry => (
+                                <div key={entry.id} className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 hover:border-teal-200 transition-colors group">
+                                    <div className="flex justify-between items-start mb-2">
+                                        <div className="flex items-center gap-2 flex-wrap">
                                             <div className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg text-sm font-bold font-mono flex items-center gap-2 border border-slate-200">
-                                                <Calendar size={14} /> {record.date}
-                                            </div>
-                                            <div className="flex items-center gap-1 text-sm font-bold text-slate-700 bg-indigo-50 px-2 py-1 rounded text-indigo-700">
-                                                <User size={14} /> {record.doctor}
+                                                <Calendar size={14} /> {entry.date || '日期不明'}{entry.time ? ` ${entry.time}` : ''}
                                             </div>
+                                            <span className={`text-xs font-bold px-2 py-1 rounded border ${CATEGORY_STYLES[entry.category]}`}>{TIMELINE_CATEGORY_LABELS[entry.category]}</span>
+                                            {entry.doctorName && (
+                                                <div className="flex items-center gap-1 text-sm font-bold bg-indigo-50 px-2 py-1 rounded text-indigo-700">
+                                                    <User size={14} /> {entry.doctorName}
+                                                </div>
+                                            )}
+                                            {entry.status && <span className="text-xs font-bold text-slate-500">{entry.status}</span>}
                                         </div>
-                                        <div className="font-black text-slate-800 flex items-center gap-1 text-lg">
-                                            <span className="text-xs text-slate-400 font-medium mr-1">實收</span>
-                                            <DollarSign size={16} className="text-emerald-500" />
-                                            {record.amount.toLocaleString()}
-                                        </div>
+                                        {entry.amount !== undefined && (
+                                            <div className="font-black text-slate-800 flex items-center gap-1 text-lg">
+                                                <DollarSign size={16} className="text-emerald-500" />
+                                                {entry.amount.toLocaleString()}
+                                            </div>
+                                        )}
                                     </div>
                                     
-                                    <div className="text-sm text-slate-700 pl-4 border-l-4 border-slate-100 py-1 mb-3">
-                                        {record.treatment || <span className="text-slate-300 italic">無療程內容</span>}
+                                    <div className="text-sm text-slate-700 pl-4 border-l-4 border-slate-100 py-1">
+                                        {entry.title || <span className="text-slate-300 italic">無內容</span>}
+                                        {entry.detail && <div className="text-xs text-slate-400 mt-1">{entry.detail}</div>}
                                     </div>
                                     
                                     {/* Detailed breakdown badges */}
-                                    <div className="flex flex-wrap gap-2 pt-2 border-t border-slate-50">
-                                        {Object.entries(record.items).map(([key, val]) => {
-                                            const amount = Number(val);
-                                            if (amount > 0 && key !== 'consultant') {
-                                                // Human readable key map (simplified)
-                                                const labelMap: Record<string, string> = {
-                                                    regFee: '掛號', copayment: '部分', prostho: '假牙', 
-                                                    implant: '植牙', ortho: '矯正', sov: 'SOV', inv: '隱適美',
-                                                    perio: '牙周', whitening: '美白', otherSelfPay: '其他',
-                                                };
-                                                const label = labelMap[key] || key;
-                                                return (
-                                                    <span key={key} className="text-xs px-2 py-1 bg-slate-50 text-slate-600 rounded border border-slate-100 font-medium flex items-center gap-1">
-                                                        {label} <span className="text-slate-400">|</span> ${amount}
-                                                    </span>
-                                                )
-                                            }
-                                            return null;
-                                        })}
-                                    </div>
+                                    {entry.items && Object.keys(entry.items).length > 0 && (
+                                        <div className="flex flex-wrap gap-2 pt-2 mt-2 border-t border-slate-50">
+                                            {Object.entries(entry.items).map(([key, amount]) => (
+                                                <span key={key} className="text-xs px-2 py-1 bg-slate-50 text-slate-600 rounded border border-slate-100 font-medium flex items-center gap-1">
+                                                    {ITEM_LABELS[key] || key} <span className="text-slate-400">|</span> ${amount}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                         </div>
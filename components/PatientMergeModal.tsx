@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Patient, getAllPatients, mergePatients, withPatientContacts } from '../services/firebase';
+import { findDuplicatePatients, DuplicateGroup, DUPLICATE_REASON_LABELS } from '../utils/patients';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Users, Loader2, GitMerge, RefreshCw } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinicId: string;
+    clinicName?: string;
+    onMerged: () => void;
+}
+
+interface GroupChoice {
+    keepId: string;
+    mergeIds: string[];
+}
+
+// The profile with a chart id and the most recent visit is the usual survivor
+const defaultChoice = (group: DuplicateGroup<Patient>): GroupChoice => {
+    const [keep] = [...group.patients].sort((a, b) =>
+        Number(!!b.chartId) - Number(!!a.chartId) || (b.lastVisit || '').localeCompare(a.lastVisit || '')
+    );
+    return { keepId: keep.docId, mergeIds: group.patients.filter(p => p.docId !== keep.docId).map(p => p.docId) };
+};
+
+const groupKey = (group: DuplicateGroup<Patient>) => group.patients.map(p => p.docId).join('|');
+
+export const PatientMergeModal: React.FC<Props> = ({ isOpen, onClose, clinicId, clinicName, onMerged }) => {
+    const { currentUser, userRole } = useAuth();
+    const [groups, setGroups] = useState<DuplicateGroup<Patient>[]>([]);
+    const [choices, setChoices] = useState<Record<string, GroupChoice>>({});
+    const [scanned, setScanned] = useState(0);
+    const [isLoading, setIsLoading] = useState(false);
+    const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen && clinicId) scan();
+    }, [isOpen, clinicId]);
+
+    const scan = async () => {
+        setIsLoading(true);
+        try {
+            // Phone numbers only count towards duplicates for roles that may read them
+            const patients = await withPatientContacts(clinicId, await getAllPatients(clinicId), userRole);
+            const found = findDuplicatePatients(patients);
+            setScanned(patients.length);
+            setGroups(found);
+            setChoices(Object.fromEntries(found.map(g => [groupKey(g), defaultChoice(g)])));
+        } catch (e) {
+            console.error(e);
+            alert("讀取病患資料失敗");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const setKeep = (key: string, group: DuplicateGroup<Patient>, keepId: string) => {
+        setChoices(prev => ({ ...prev, [key]: { keepId, mergeIds: group.patients.filter(p => p.docId !== keepId).map(p => p.docId) } }));
+    };
+
+    const toggleMerge = (key: string, docId: string) => {
+        setChoices(prev => {
+            const choice = prev[key];
+            const mergeIds = choice.mergeIds.includes(docId) ? choice.mergeIds.filter(id => id !== docId) : [...choice.mergeIds, docId];
+            return { ...prev, [key]: { ...choice, mergeIds } };
+        });
+    };
+
+    const handleMerge = async (group: DuplicateGroup<Patient>) => {
+        const key = groupKey(group);
+        const choice = choices[key];
+        const keep = group.patients.find(p => p.docId === choice.keepId)!;
+        const merging = group.patients.filter(p => choice.mergeIds.includes(p.docId));
+        if (merging.length === 0) return;
+
+        const label = (p: Patient) => `${p.chartId || 'NP'} ${p.name}`;
+        if (!confirm(`確定將以下病患合併到「${label(keep)}」嗎？\n${merging.map(p => `• ${label(p)}`).join('\n')}\n\n看診紀錄、消費與諮詢師會合併，歷史日報表、NP 紀錄與療程合約的病歷號及姓名會改為「${label(keep)}」。此動作無法復原。`)) return;
+
+        setMergingKey(key);
+        try {
+            const result = await mergePatients(clinicId, keep.docId, choice.mergeIds, { uid: currentUser?.uid || 'unknown', name: currentUser?.email || 'User' });
+            alert(`合併完成，共更新 ${result.rows} 筆日報表紀錄`);
+            setGroups(prev => prev.filter(g => groupKey(g) !== key));
+            onMerged();
+        } catch (e) {
+            console.error(e);
+            alert("合併失敗: " + (e as Error).message);
+        } finally {
+            setMergingKey(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-indigo-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2"><Users size={20} /> 重複病患檢查{clinicName ? ` - ${clinicName}` : ''}</h3>
+                    <button onClick={onClose} disabled={!!mergingKey} className="hover:bg-indigo-700 p-1 rounded transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="p-3 border-b border-slate-100 flex items-center justify-between text-xs text-slate-500 shrink-0">
+                    <span>{isLoading ? '掃描中...' : `已掃描 ${scanned} 位病患，找到 ${groups.length} 組可能重複`}</span>
+                    <button onClick={scan} disabled={isLoading || !!mergingKey} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-100 font-bold">
+                        <RefreshCw size={12} className={isLoading ? 'animate-spin' : ''} /> 重新掃描
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto bg-slate-50 p-4 space-y-4">
+                    {isLoading ? (
+                        <div className="flex justify-center py-12 text-slate-400"><Loader2 size={28} className="animate-spin" /></div>
+                    ) : groups.length === 0 ? (
+                        <div className="text-center py-12 text-slate-400">沒有找到重複的病患資料</div>
+                    ) : groups.map(group => {
+                        const key = groupKey(group);
+                        const choice = choices[key];
+                        return (
+                            <div key={key} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+                                <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex justify-between items-center">
+                                    <div className="flex gap-2">
+                                        {group.reasons.map(r => (
+                                            <span key={r} className="text-[10px] font-bold px-2 py-0.5 rounded bg-amber-50 text-amber-700 border border-amber-100">{DUPLICATE_REASON_LABELS[r]}</span>
+                                        ))}
+                                    </div>
+                                    <button
+                                        onClick={() => handleMerge(group)}
+                                        disabled={!!mergingKey || !choice || choice.mergeIds.length === 0}
+                                        className="px-3 py-1 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                                    >
+                                        {mergingKey === key ? <Loader2 size={12} className="animate-spin" /> : <GitMerge size={12} />} 合併
+                                    </button>
+                                </div>
+                                <table className="w-full text-sm">
+                                    <thead className="text-xs text-slate-400">
+                                        <tr>
+                                            <th className="px-4 py-2 text-left w-16">保留</th>
+                                            <th className="px-4 py-2 text-left w-16">合併</th>
+                                            <th className="px-4 py-2 text-left">病歷號</th>
+                                            <th className="px-4 py-2 text-left">姓名</th>
+                                            <th className="px-4 py-2 text-left">電話</th>
+                                            <th className="px-4 py-2 text-left">最近看診</th>
+                                            <th className="px-4 py-2 text-right">看診 / 消費</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {group.patients.map(p => {
+                                            const isKeep = choice?.keepId === p.docId;
+                                            return (
+                                                <tr key={p.docId} className={isKeep ? 'bg-indigo-50/50' : ''}>
+                                                    <td className="px-4 py-2">
+                                                        <input type="radio" name={`keep_${key}`} checked={isKeep} onChange={() => setKeep(key, group, p.docId)} className="text-indigo-600" />
+                                                    </td>
+                                                    <td className="px-4 py-2">
+                                                        <input type="checkbox" disabled={isKeep} checked={!isKeep && !!choice?.mergeIds.includes(p.docId)} onChange={() => toggleMerge(key, p.docId)} className="rounded text-indigo-600" />
+                                                    </td>
+                                                    <td className="px-4 py-2 font-mono font-bold text-slate-700">{p.chartId || <span className="text-amber-600 text-xs">NP</span>}</td>
+                                                    <td className="px-4 py-2 font-bold text-slate-800">{p.name}</td>
+                                                    <td className="px-4 py-2 text-slate-500">{p.phone || '-'}</td>
+                                                    <td className="px-4 py-2 font-mono text-slate-500">{p.lastVisit || '-'}</td>
+                                                    <td className="px-4 py-2 text-right tabular-nums text-slate-600">{(p.visitHistory || []).length} 次 / ${(p.totalSpending || 0).toLocaleString()}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
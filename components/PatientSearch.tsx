@@ -1,16 +1,24 @@
 
 import React, { useState } from 'react';
-import { Doctor } from '../types';
-import { searchEvents, GoogleEvent } from '../services/googleCalendar';
-import { Search, Calendar, User, Loader2, Clock } from 'lucide-react';
+import { CalendarEvent, CalendarProvider, Doctor, TitleGrammar } from '../types';
+import { findPatientProfile, findPatientsByPhone } from '../services/firebase';
+import { parseCalendarEvent } from '../utils/eventParser';
+import { summarizeAttendance, formatRate, AttendanceSummary } from '../utils/attendance';
+import { isPhoneLike } from '../utils/patients';
+import { Search, Calendar, User, Loader2, Clock, UserX } from 'lucide-react';
 
 interface Props {
+  clinicId: string;
+  titleGrammar?: TitleGrammar | null;
   doctors: Doctor[];
   mapping: Record<string, string>;
+  provider: CalendarProvider;
   onEventClick: (event: any) => void;
 }
 
-export const PatientSearch: React.FC<Props> = ({ doctors, mapping, onEventClick }) => {
+const patientKey = (chartId: string | null, name: string) => `${chartId || ''}|${name}`;
+
+export const PatientSearch: React.FC<Props> = ({ clinicId, titleGrammar, doctors, mapping, provider, onEventClick }) => {
   const [selectedDoctorId, setSelectedDoctorId] = useState<string>(doctors[0]?.id || '');
   const [query, setQuery] = useState('');
   const [startDate, setStartDate] = useState(() => {
@@ -24,7 +32,11 @@ export const PatientSearch: React.FC<Props> = ({ doctors, mapping, onEventClick
       return d.toISOString().split('T')[0];
   });
   
-  const [results, setResults] = useState<GoogleEvent[]>([]);
+  const [results, setResults] = useState<CalendarEvent[]>([]);
+  // Patients a phone number search resolved to (null for a name search)
+  const [phoneMatches, setPhoneMatches] = useState<{ chartId: string | null; name: string }[] | null>(null);
+  // No-show record of each patient in the results, by patientKey
+  const [attendance, setAttendance] = useState<Record<string, AttendanceSummary>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
 
@@ -34,13 +46,15 @@ export const PatientSearch: React.FC<Props> = ({ doctors, mapping, onEventClick
       
       const calendarId = mapping[selectedDoctorId];
       if (!calendarId) {
-          alert('此醫師尚未綁定 Google 日曆');
+          alert('此醫師尚未綁定日曆');
           return;
       }
 
       setIsLoading(true);
       setHasSearched(true);
       setResults([]);
+      setAttendance({});
+      setPhoneMatches(null);
 
       try {
           const start = new Date(startDate);
@@ -49,8 +63,25 @@ export const PatientSearch: React.FC<Props> = ({ doctors, mapping, onEventClick
           start.setHours(0, 0, 0, 0);
           end.setHours(23, 59, 59, 999);
 
-          const events = await searchEvents(calendarId, query, start, end);
+          let events: CalendarEvent[];
+          if (isPhoneLike(query)) {
+              // Calendars only know names, so the number is turned into the patients who have it first
+              const matches = (await findPatientsByPhone(clinicId, query)).map(p => ({ chartId: p.chartId, name: p.name }));
+              setPhoneMatches(matches);
+              const found = await Promise.all(Array.from(new Set(matches.map(m => m.name))).map(name => provider.searchEvents(calendarId, name, start, end)));
+              // A name search also finds namesakes; keep the appointments of the matched profiles
+              events = found.flat()
+                  .filter((ev, i, all) => all.findIndex(o => o.id === ev.id) === i)
+                  .filter(ev => {
+                      const parsed = parseCalendarEvent(ev.summary, titleGrammar);
+                      return !!parsed && matches.some(m => m.name === parsed.name && (!m.chartId || !parsed.chartId || m.chartId === parsed.chartId));
+                  })
+                  .sort((a, b) => (a.start.dateTime || a.start.date || '').localeCompare(b.start.dateTime || b.start.date || ''));
+          } else {
+              events = await provider.searchEvents(calendarId, query, start, end);
+          }
           setResults(events);
+          loadAttendance(events).catch(err => console.error(err));
       } catch (err) {
           console.error(err);
           alert('搜尋失敗，請檢查網路或日期範圍');
@@ -59,18 +90,32 @@ export const PatientSearch: React.FC<Props> = ({ doctors, mapping, onEventClick
       }
   };
 
-  const handleClick = (googleEvent: GoogleEvent) => {
-      // Map GoogleEvent to the shape expected by AppointmentDetailModal
-      const start = googleEvent.start.dateTime ? new Date(googleEvent.start.dateTime) : (googleEvent.start.date ? new Date(googleEvent.start.date) : new Date());
+  const loadAttendance = async (events: CalendarEvent[]) => {
+      const patients = new Map<string, { chartId: string | null; name: string }>();
+      events.forEach(ev => {
+          const parsed = parseCalendarEvent(ev.summary, titleGrammar);
+          if (parsed) patients.set(patientKey(parsed.chartId, parsed.name), { chartId: parsed.chartId, name: parsed.name });
+      });
+      const summaries: Record<string, AttendanceSummary> = {};
+      await Promise.all(Array.from(patients.entries()).map(async ([key, p]) => {
+          const profile = await findPatientProfile(clinicId, p.name, p.chartId);
+          if (profile?.attendanceLog) summaries[key] = summarizeAttendance(Object.values(profile.attendanceLog));
+      }));
+      setAttendance(summaries);
+  };
+
+  const handleClick = (calendarEvent: CalendarEvent) => {
+      // Map CalendarEvent to the shape expected by AppointmentDetailModal
+      const start = calendarEvent.start.dateTime ? new Date(calendarEvent.start.dateTime) : (calendarEvent.start.date ? new Date(calendarEvent.start.date) : new Date());
       const calendarId = mapping[selectedDoctorId];
       
       onEventClick({
-          id: googleEvent.id,
-          title: googleEvent.summary,
+          id: calendarEvent.id,
+          title: calendarEvent.summary,
           start: start,
           doctorId: selectedDoctorId,
           calendarId: calendarId,
-          allDay: googleEvent.allDay
+          allDay: calendarEvent.allDay
       });
   };
 
@@ -102,11 +147,11 @@ export const PatientSearch: React.FC<Props> = ({ doctors, mapping, onEventClick
 
                 {/* Keyword: 3 Cols */}
                 <div className="md:col-span-3">
-                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">搜尋關鍵字 (病患姓名)</label>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">搜尋關鍵字 (病患姓名或電話)</label>
                     <input 
                         type="text"
                         className="w-full border rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-teal-500"
-                        placeholder="輸入姓名..."
+                        placeholder="輸入姓名或電話..."
                         value={query}
                         onChange={e => setQuery(e.target.value)}
                     />
@@ -152,12 +197,21 @@ export const PatientSearch: React.FC<Props> = ({ doctors, mapping, onEventClick
                 <span>搜尋結果 ({results.length})</span>
                 {hasSearched && <span>區間: {startDate} ~ {endDate}</span>}
             </div>
+            {phoneMatches && (
+                <div className="px-6 py-2 border-b border-slate-100 text-xs text-slate-500">
+                    {phoneMatches.length === 0
+                        ? '沒有病患登記此電話'
+                        : `此電話對應病患：${phoneMatches.map(m => `${m.name}${m.chartId ? ` (${m.chartId})` : ''}`).join('、')}`}
+                </div>
+            )}
             
             {results.length > 0 ? (
                 <div className="divide-y divide-slate-100">
                     {results.map(ev => {
                         const start = ev.start.dateTime ? new Date(ev.start.dateTime) : (ev.start.date ? new Date(ev.start.date) : new Date());
                         const isPast = start < new Date();
+                        const parsed = parseCalendarEvent(ev.summary, titleGrammar);
+                        const record = parsed ? attendance[patientKey(parsed.chartId, parsed.name)] : undefined;
                         
                         return (
                             <div 
@@ -178,6 +232,14 @@ export const PatientSearch: React.FC<Props> = ({ doctors, mapping, onEventClick
                                                 {ev.allDay ? '全日' : start.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                                             </span>
                                             {isPast && <span className="px-2 py-0.5 bg-slate-100 rounded text-xs">已結束</span>}
+                                            {record && record.appointments > 0 && (
+                                                <span
+                                                    className={`px-2 py-0.5 rounded text-xs font-bold flex items-center gap-1 ${record.noShowRate >= 0.2 ? 'bg-rose-50 text-rose-600' : 'bg-slate-50 text-slate-500'}`}
+                                                    title={`預約 ${record.appointments} 次：爽約 ${record.noShows}、臨時取消 ${record.lateCancels}`}
+                                                >
+                                                    <UserX size={12} /> 爽約率 {formatRate(record.noShowRate)}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
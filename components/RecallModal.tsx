@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Clinic, RecallCategory, RecallEntry, RecallStatus } from '../types';
+import { Patient, generateRecallList, updateRecallStatus, getRecallReport, withPatientContacts } from '../services/firebase';
+import { getRecallRules, summarizeRecalls, RECALL_CATEGORY_LABELS, RECALL_STATUS_LABELS, RecallConversionRow } from '../utils/recalls';
+import { viewPatientContact } from '../utils/patients';
+import { useAuth } from '../contexts/AuthContext';
+import { X, CalendarClock, Loader2, RefreshCw, Phone, MessageCircle, BarChart3 } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinic: Clinic | undefined;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const daysBetween = (from: string, to: string) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+const STATUS_STYLES: Record<RecallStatus, string> = {
+    pending: 'bg-slate-100 text-slate-600 border-slate-200',
+    contacted: 'bg-amber-50 text-amber-700 border-amber-200',
+    booked: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    declined: 'bg-rose-50 text-rose-700 border-rose-200'
+};
+
+const percent = (n: number, total: number) => (total > 0 ? `${Math.round((n / total) * 100)}%` : '-');
+
+export const RecallModal: React.FC<Props> = ({ isOpen, onClose, clinic }) => {
+    const { currentUser, userRole } = useAuth();
+    const canUpdate = userRole !== 'guest';
+    const today = toDateInput(new Date());
+
+    const [tab, setTab] = useState<'list' | 'report'>('list');
+    const [entries, setEntries] = useState<RecallEntry[]>([]);
+    const [patients, setPatients] = useState<Map<string, Patient>>(new Map());
+    const [statusFilter, setStatusFilter] = useState<'open' | RecallStatus>('open');
+    const [categoryFilter, setCategoryFilter] = useState<RecallCategory | 'all'>('all');
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const [reportMonth, setReportMonth] = useState(today.slice(0, 7));
+    const [report, setReport] = useState<RecallConversionRow[]>([]);
+    const [isReportLoading, setIsReportLoading] = useState(false);
+
+    useEffect(() => {
+        if (isOpen && clinic) {
+            setTab('list');
+            loadList();
+        }
+    }, [isOpen, clinic?.id]);
+
+    useEffect(() => {
+        if (isOpen && clinic && tab === 'report') loadReport();
+    }, [isOpen, clinic?.id, tab, reportMonth]);
+
+    const loadList = async () => {
+        if (!clinic) return;
+        setIsLoading(true);
+        try {
+            const result = await generateRecallList(clinic.id, getRecallRules(clinic), today);
+            const listed = Array.from(new Set(result.entries.map(e => e.patientDocId)))
+                .map(id => result.patients.get(id))
+                .filter((p): p is Patient => !!p);
+            setEntries(result.entries);
+            setPatients(new Map((await withPatientContacts(clinic.id, listed, userRole)).map(p => [p.docId, p])));
+        } catch (e) {
+            console.error(e);
+            alert("產生回診名單失敗");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const loadReport = async () => {
+        if (!clinic) return;
+        setIsReportLoading(true);
+        try {
+            const { entries: monthEntries, returnedIds } = await getRecallReport(clinic.id, reportMonth);
+            setReport(summarizeRecalls(monthEntries, e => returnedIds.has(e.id)));
+        } catch (e) {
+            console.error(e);
+            alert("讀取報表失敗");
+        } finally {
+            setIsReportLoading(false);
+        }
+    };
+
+    const visible = useMemo(() => entries.filter(e =>
+        (statusFilter === 'open' ? e.status === 'pending' || e.status === 'contacted' : e.status === statusFilter) &&
+        (categoryFilter === 'all' || e.category === categoryFilter)
+    ), [entries, statusFilter, categoryFilter]);
+
+    if (!isOpen || !clinic) return null;
+
+    const handleStatus = async (entry: RecallEntry, status: RecallStatus) => {
+        let note: string | undefined;
+        if (status === 'declined') {
+            const reason = prompt("婉拒原因 (選填)", entry.note || '');
+            if (reason === null) return;
+            note = reason.trim();
+        }
+        setBusyId(entry.id);
+        try {
+            await updateRecallStatus(entry.id, status, { uid: currentUser?.uid || 'unknown', name: currentUser?.email || 'User' }, note);
+            setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, status, ...(note !== undefined ? { note } : {}), updatedBy: currentUser?.email || 'User' } : e));
+        } catch (e) {
+            console.error(e);
+            alert("更新失敗: " + (e as Error).message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const rules = getRecallRules(clinic).filter(r => r.enabled);
+    const openCount = entries.filter(e => e.status === 'pending' || e.status === 'contacted').length;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-indigo-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2"><CalendarClock size={20} /> 回診提醒 - {clinic.name}</h3>
+                    <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="px-4 pt-3 border-b border-slate-100 flex items-end justify-between shrink-0">
+                    <div className="flex gap-1">
+                        <button onClick={() => setTab('list')} className={`px-4 py-2 text-sm font-bold rounded-t-lg border-b-2 ${tab === 'list' ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
+                            今日名單 ({openCount})
+                        </button>
+                        <button onClick={() => setTab('report')} className={`px-4 py-2 text-sm font-bold rounded-t-lg border-b-2 flex items-center gap-1 ${tab === 'report' ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
+                            <BarChart3 size={14} /> 轉換報表
+                        </button>
+                    </div>
+                    <div className="text-[10px] text-slate-400 pb-2">
+                        {rules.map(r => `${RECALL_CATEGORY_LABELS[r.category]} ${r.intervalMonths} 個月`).join(' · ') || '未啟用任何規則'}
+                    </div>
+                </div>
+
+                {tab === 'list' ? (
+                    <>
+                        <div className="p-3 border-b border-slate-100 flex flex-wrap items-center gap-2 text-xs shrink-0">
+                            <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as typeof statusFilter)} className="border rounded-lg px-2 py-1 bg-white outline-none">
+                                <option value="open">待處理 (待聯絡 + 已聯絡)</option>
+                                {(Object.keys(RECALL_STATUS_LABELS) as RecallStatus[]).map(s => <option key={s} value={s}>{RECALL_STATUS_LABELS[s]}</option>)}
+                            </select>
+                            <select value={categoryFilter} onChange={e => setCategoryFilter(e.target.value as typeof categoryFilter)} className="border rounded-lg px-2 py-1 bg-white outline-none">
+                                <option value="all">全部類別</option>
+                                {(Object.keys(RECALL_CATEGORY_LABELS) as RecallCategory[]).map(c => <option key={c} value={c}>{RECALL_CATEGORY_LABELS[c]}</option>)}
+                            </select>
+                            <span className="text-slate-400">僅列出同意接收行銷訊息的病患</span>
+                            <button onClick={loadList} disabled={isLoading} className="ml-auto flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-100 font-bold text-slate-500">
+                                <RefreshCw size={12} className={isLoading ? 'animate-spin' : ''} /> 重新產生
+                            </button>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto">
+                            {isLoading ? (
+                                <div className="flex justify-center py-12 text-slate-400"><Loader2 size={28} className="animate-spin" /></div>
+                            ) : visible.length === 0 ? (
+                                <div className="text-center py-12 text-slate-400">目前沒有需要聯絡的病患</div>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead className="bg-slate-50 text-xs text-slate-500 sticky top-0">
+                                        <tr>
+                                            <th className="px-4 py-2 text-left">病患</th>
+                                            <th className="px-4 py-2 text-left">類別</th>
+                                            <th className="px-4 py-2 text-left">上次 / 應回診</th>
+                                            <th className="px-4 py-2 text-left">聯絡方式</th>
+                                            <th className="px-4 py-2 text-left">狀態</th>
+                                            <th className="px-4 py-2 text-right">更新</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {visible.map(entry => {
+                                            const profile = patients.get(entry.patientDocId);
+                                            const contact = profile && viewPatientContact(profile, userRole);
+                                            const overdue = daysBetween(entry.dueDate, today);
+                                            return (
+                                                <tr key={entry.id} className="hover:bg-slate-50">
+                                                    <td className="px-4 py-2">
+                                                        <div className="font-bold text-slate-800">{entry.patientName}</div>
+                                                        <div className="font-mono text-xs text-slate-400">{entry.chartId || 'NP'}</div>
+                                                    </td>
+                                                    <td className="px-4 py-2">
+                                                        <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-indigo-50 text-indigo-700 border border-indigo-100">{RECALL_CATEGORY_LABELS[entry.category]}</span>
+                                                    </td>
+                                                    <td className="px-4 py-2 font-mono text-xs text-slate-500">
+                                                        <div>{entry.lastDate}</div>
+                                                        <div className={overdue > 30 ? 'text-rose-600 font-bold' : 'text-slate-700'}>
+                                                            {entry.dueDate}{overdue > 0 && ` (逾 ${overdue} 天)`}
+                                                        </div>
+                                                    </td>
+                                                    <td className="px-4 py-2 text-xs text-slate-600">
+                                                        {contact?.phone && <div className="flex items-center gap-1 font-mono"><Phone size={12} /> {contact.phone}</div>}
+                                                        {contact?.lineId && <div className="flex items-center gap-1"><MessageCircle size={12} /> {contact.lineId}</div>}
+                                                        {!contact?.phone && !contact?.lineId && <span className="text-slate-300">-</span>}
+                                                    </td>
+                                                    <td className="px-4 py-2">
+                                                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded border ${STATUS_STYLES[entry.status]}`}>{RECALL_STATUS_LABELS[entry.status]}</span>
+                                                        {entry.note && <div className="text-[10px] text-slate-400 mt-1">{entry.note}</div>}
+                                                    </td>
+                                                    <td className="px-4 py-2">
+                                                        <div className="flex justify-end gap-1">
+                                                            {busyId === entry.id ? <Loader2 size={16} className="animate-spin text-slate-400" /> : (['contacted', 'booked', 'declined'] as RecallStatus[]).map(s => (
+                                                                <button
+                                                                    key={s}
+                                                                    onClick={() => handleStatus(entry, s)}
+                                                                    disabled={!canUpdate || entry.status === s}
+                                                                    className={`text-xs px-2 py-1 rounded border font-bold disabled:opacity-40 ${STATUS_STYLES[s]}`}
+                                                                >
+                                                                    {RECALL_STATUS_LABELS[s]}
+                                                                </button>
+                                                            ))}
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    </>
+                ) : (
+                    <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                        <div className="flex items-center gap-2 text-sm">
+                            <label className="font-bold text-slate-500">產生月份</label>
+                            <input type="month" value={reportMonth} onChange={e => setReportMonth(e.target.value)} className="border rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-500" />
+                        </div>
+                        {isReportLoading ? (
+                            <div className="flex justify-center py-12 text-slate-400"><Loader2 size={28} className="animate-spin" /></div>
+                        ) : report.length <= 1 && (report[0]?.total || 0) === 0 ? (
+                            <div className="text-center py-12 text-slate-400">這個月沒有產生回診名單</div>
+                        ) : (
+                            <table className="w-full text-sm border border-slate-200 rounded-lg overflow-hidden">
+                                <thead className="bg-slate-50 text-xs text-slate-500">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left">類別</th>
+                                        <th className="px-4 py-2 text-right">名單</th>
+                                        <th className="px-4 py-2 text-right">已聯絡</th>
+                                        <th className="px-4 py-2 text-right">已預約</th>
+                                        <th className="px-4 py-2 text-right">婉拒</th>
+                                        <th className="px-4 py-2 text-right">已回診</th>
+                                        <th className="px-4 py-2 text-right">回診率</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100 tabular-nums">
+                                    {report.map(r => (
+                                        <tr key={r.category} className={r.category === 'all' ? 'bg-slate-50 font-bold' : ''}>
+                                            <td className="px-4 py-2">{r.category === 'all' ? '合計' : RECALL_CATEGORY_LABELS[r.category]}</td>
+                                            <td className="px-4 py-2 text-right">{r.total}</td>
+                                            <td className="px-4 py-2 text-right">{r.contacted} <span className="text-xs text-slate-400">({percent(r.contacted, r.total)})</span></td>
+                                            <td className="px-4 py-2 text-right">{r.booked} <span className="text-xs text-slate-400">({percent(r.booked, r.total)})</span></td>
+                                            <td className="px-4 py-2 text-right">{r.declined}</td>
+                                            <td className="px-4 py-2 text-right">{r.returned}</td>
+                                            <td className="px-4 py-2 text-right text-indigo-700">{percent(r.returned, r.total)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        <p className="text-[10px] text-slate-400">「已回診」為名單產生後病患已再次看診該類療程；「已預約」為櫃台標記或系統偵測到回診。</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AccountingRow, Clinic, Receipt, ReceiptPaperSize } from '../types';
+import { getReceiptForRow, issueReceipt, computeRowTotals } from '../services/firebase';
+import { buildReceiptHtml, buildReceiptItems, RECEIPT_PAPER } from '../utils/receipt';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Printer, FileDown, Loader2, Receipt as ReceiptIcon } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinic: Clinic | null | undefined;
+    date: string;
+    row: AccountingRow | null;
+}
+
+const PAPER_STORAGE_KEY = 'dental_receipt_paper_v1';
+
+export const ReceiptModal: React.FC<Props> = ({ isOpen, onClose, clinic, date, row }) => {
+    const { currentUser } = useAuth();
+    const [receipt, setReceipt] = useState<Receipt | null>(null);
+    const [paper, setPaper] = useState<ReceiptPaperSize>(() => (localStorage.getItem(PAPER_STORAGE_KEY) as ReceiptPaperSize) || 'a5');
+    const [isLoading, setIsLoading] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen || !row || !clinic) return;
+        setReceipt(null);
+        setIsLoading(true);
+        getReceiptForRow(clinic.id, row.id)
+            .then(setReceipt)
+            .catch(e => console.error("Load receipt failed:", e))
+            .finally(() => setIsLoading(false));
+    }, [isOpen, row?.id, clinic?.id]);
+
+    // Until the first print there is no number yet; preview the row as it would be issued
+    const previewReceipt = useMemo<Receipt | null>(() => {
+        if (receipt || !row || !clinic) return receipt;
+        const { actualCollected, paymentBreakdown } = computeRowTotals(row);
+        return {
+            id: '', clinicId: clinic.id, rowId: row.id, date,
+            receiptNo: '(列印時編號)', year: 0, seq: 0,
+            patientName: row.patientName, chartId: row.chartId, doctorName: row.doctorName,
+            items: buildReceiptItems(row), total: actualCollected,
+            paymentMethod: row.paymentMethod, paymentBreakdown: paymentBreakdown || { cash: actualCollected, card: 0, transfer: 0 },
+            issuedAt: new Date().toISOString(), issuedBy: '', printCount: 0
+        };
+    }, [receipt, row, clinic, date]);
+
+    if (!isOpen || !row) return null;
+
+    const changedSinceIssue = !!receipt && receipt.total !== computeRowTotals(row).actualCollected;
+
+    const handlePaperChange = (value: ReceiptPaperSize) => {
+        setPaper(value);
+        localStorage.setItem(PAPER_STORAGE_KEY, value);
+    };
+
+    const issue = async () => {
+        if (!clinic || !currentUser) throw new Error("缺少診所或登入資訊");
+        const issued = await issueReceipt(clinic.id, date, row, { uid: currentUser.uid, name: currentUser.email || 'User' });
+        setReceipt(issued);
+        return issued;
+    };
+
+    const handlePrint = async () => {
+        // Opened before the await so the popup blocker treats it as user initiated
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+            alert("請允許彈出視窗以進行列印");
+            return;
+        }
+        setIsBusy(true);
+        try {
+            const issued = await issue();
+            printWindow.document.write(`
+                <html>
+                    <head>
+                        <title>${clinic?.name || ''} 收據 ${issued.receiptNo}</title>
+                        <style>
+                            @page { size: ${paper === 'a5' ? 'A5' : '80mm auto'}; margin: 0; }
+                            @media print { body { -webkit-print-color-adjust: exact; } }
+                            body { margin: 0; }
+                        </style>
+                    </head>
+                    <body>
+                        ${buildReceiptHtml(issued, clinic, paper)}
+                        <script>
+                            window.onload = function() { window.print(); }
+                        </script>
+                    </body>
+                </html>
+            `);
+            printWindow.document.close();
+        } catch (e: any) {
+            printWindow.close();
+            console.error(e);
+            alert("列印收據失敗: " + e.message);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleDownloadPdf = async () => {
+        setIsBusy(true);
+        try {
+            const issued = await issue();
+            const html2pdf = (await import('html2pdf.js')).default;
+            await html2pdf()
+                .set({
+                    margin: 0,
+                    filename: `收據_${issued.receiptNo}_${issued.patientName || ''}.pdf`,
+                    image: { type: 'jpeg', quality: 0.98 },
+                    html2canvas: { scale: 2, useCORS: true },
+                    jsPDF: { unit: 'mm', format: RECEIPT_PAPER[paper].pdfFormat, orientation: 'portrait' }
+                })
+                .from(buildReceiptHtml(issued, clinic, paper))
+                .save();
+        } catch (e: any) {
+            console.error(e);
+            alert("匯出 PDF 失敗: " + e.message);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-teal-700 text-white p-4 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="text-lg font-bold flex items-center gap-2">
+                            <ReceiptIcon size={20} />
+                            列印收據 (Receipt)
+                        </h3>
+                        <div className="text-sm text-teal-100 mt-1">
+                            {receipt ? `收據編號 ${receipt.receiptNo} · 已列印 ${receipt.printCount} 次` : '尚未開立，第一次列印時取號'}
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-teal-800 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-3 shrink-0">
+                    <span className="text-xs font-bold text-slate-500">紙張</span>
+                    {(Object.keys(RECEIPT_PAPER) as ReceiptPaperSize[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => handlePaperChange(key)}
+                            className={`px-3 py-1 rounded-lg text-xs font-bold border transition-colors ${paper === key ? 'bg-teal-600 border-teal-600 text-white' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                        >
+                            {RECEIPT_PAPER[key].label}
+                        </button>
+                    ))}
+                    {changedSinceIssue && (
+                        <span className="ml-auto text-xs font-bold text-amber-700 bg-amber-50 border border-amber-200 px-2 py-1 rounded">開立後金額已變更，補印內容仍為原收據</span>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-auto bg-slate-100 p-4 flex justify-center">
+                    {isLoading || !previewReceipt ? (
+                        <div className="flex items-center justify-center py-12 text-slate-400 gap-2"><Loader2 className="animate-spin" /> 讀取中...</div>
+                    ) : (
+                        <div className="shadow-md h-fit" dangerouslySetInnerHTML={{ __html: buildReceiptHtml(previewReceipt, clinic, paper) }} />
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50 shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">關閉</button>
+                    <button onClick={handleDownloadPdf} disabled={isBusy || isLoading} className="px-4 py-2 bg-white border border-slate-200 text-slate-700 hover:bg-slate-100 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50 transition-colors">
+                        <FileDown size={18} /> 下載 PDF
+                    </button>
+                    <button onClick={handlePrint} disabled={isBusy || isLoading} className="bg-teal-600 hover:bg-teal-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md disabled:opacity-50 transition-transform active:scale-95">
+                        {isBusy ? <Loader2 size={18} className="animate-spin" /> : <Printer size={18} />} {receipt ? '補印' : '列印'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { AccountingRow } from '../types';
+import { queryAccountingRows, isRefundRow, computeRowTotals } from '../services/firebase';
+import { X, RotateCcw, Search, Loader2, Check } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinicId: string;
+    initialRow: AccountingRow | null; // Row the refund was started from (today's, possibly unsaved)
+    onConfirm: (original: AccountingRow | null, reason: string) => void;
+}
+
+const LOOKBACK_DAYS = 365;
+
+export const RefundModal: React.FC<Props> = ({ isOpen, onClose, clinicId, initialRow, onConfirm }) => {
+    const [searchName, setSearchName] = useState('');
+    const [candidates, setCandidates] = useState<AccountingRow[]>([]);
+    const [selectedId, setSelectedId] = useState<string>('');
+    const [reason, setReason] = useState('');
+    const [isSearching, setIsSearching] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSearchName(initialRow?.patientName || '');
+            setCandidates(initialRow ? [initialRow] : []);
+            setSelectedId(initialRow?.id || '');
+            setReason('');
+        }
+    }, [isOpen, initialRow?.id]);
+
+    if (!isOpen) return null;
+
+    const handleSearch = async () => {
+        const name = searchName.trim();
+        if (!name) return;
+        setIsSearching(true);
+        try {
+            const start = new Date(); start.setDate(start.getDate() - LOOKBACK_DAYS);
+            const rows = await queryAccountingRows({ clinicId, patientName: name, startDate: start.toISOString().split('T')[0] });
+            const found = rows
+                .filter(r => !isRefundRow(r) && computeRowTotals(r).actualCollected > 0)
+                .sort((a, b) => (b.originalDate || '').localeCompare(a.originalDate || ''));
+            // Keep the row the refund was opened from, it may not be saved yet
+            const merged = initialRow && !found.some(r => r.id === initialRow.id) ? [initialRow, ...found] : found;
+            setCandidates(merged);
+        } catch (e) {
+            console.error(e);
+            alert("搜尋失敗");
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    const handleConfirm = () => {
+        if (!reason.trim()) { alert("請填寫退款原因"); return; }
+        const original = candidates.find(r => r.id === selectedId) || null;
+        onConfirm(original, reason.trim());
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden animate-slide-down flex flex-col max-h-[85vh]">
+                <div className="bg-rose-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2">
+                        <RotateCcw size={20} />
+                        新增退款 (Refund)
+                    </h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-rose-700 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-4 overflow-y-auto">
+                    <div className="text-xs text-slate-500 bg-slate-50 border border-slate-100 rounded px-3 py-2">
+                        退款會在今日新增一筆負數金額的退款列，醫師、諮詢師與分期合約沿用原始紀錄，獎金與抽成將自動沖銷。部分退款請於新增後調整金額。
+                    </div>
+
+                    <div className="flex gap-2">
+                        <input
+                            className="flex-1 border rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-rose-400"
+                            placeholder="病患姓名"
+                            value={searchName}
+                            onChange={e => setSearchName(e.target.value)}
+                            onKeyDown={e => e.key === 'Enter' && handleSearch()}
+                        />
+                        <button onClick={handleSearch} disabled={isSearching} className="flex items-center gap-1 px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-bold hover:bg-slate-700 disabled:opacity-50 transition-colors">
+                            {isSearching ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />} 搜尋
+                        </button>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="text-xs font-bold text-slate-500">原始紀錄 (近 {LOOKBACK_DAYS} 天)</div>
+                        {candidates.map(row => {
+                            const isSelected = selectedId === row.id;
+                            return (
+                                <button
+                                    key={row.id}
+                                    onClick={() => setSelectedId(row.id)}
+                                    className={`w-full text-left p-3 rounded-lg border-2 flex justify-between items-center transition-colors ${isSelected ? 'border-rose-400 bg-rose-50' : 'border-slate-200 hover:border-slate-300'}`}
+                                >
+                                    <div>
+                                        <div className="text-sm font-bold text-slate-700">{row.originalDate} · {row.patientName} · {row.doctorName || '-'}</div>
+                                        <div className="text-xs text-slate-500 truncate max-w-[320px]">{row.treatmentContent || '無療程內容'}</div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-bold text-slate-700 tabular-nums">${computeRowTotals(row).actualCollected.toLocaleString()}</span>
+                                        {isSelected && <Check size={16} className="text-rose-600" />}
+                                    </div>
+                                </button>
+                            );
+                        })}
+                        <button
+                            onClick={() => setSelectedId('')}
+                            className={`w-full text-left p-3 rounded-lg border-2 text-sm transition-colors ${selectedId === '' ? 'border-rose-400 bg-rose-50 font-bold text-rose-700' : 'border-dashed border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                        >
+                            不指定原始紀錄 (一般折讓/調整)
+                        </button>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 mb-1">退款原因 *</label>
+                        <input
+                            className="w-full border rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-rose-400"
+                            placeholder="例: 療程取消、刷卡爭議款、重複收費"
+                            value={reason}
+                            onChange={e => setReason(e.target.value)}
+                        />
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50 shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">取消</button>
+                    <button onClick={handleConfirm} className="bg-rose-600 hover:bg-rose-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md transition-transform active:scale-95">
+                        <RotateCcw size={18} /> 建立退款列
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
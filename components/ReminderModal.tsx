@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Clinic, Doctor, CalendarProvider, ReminderLogEntry } from '../types';
+import { addReminderLog, deleteReminderLog, getReminderLogsForDate } from '../services/firebase';
+import { getReminderDelivery } from '../services/reminderDelivery';
+import { parseCalendarEvent } from '../utils/eventParser';
+import { renderClinicReminder } from '../utils/reminders';
+import { useAuth } from '../contexts/AuthContext';
+import { X, BellRing, Loader2, Copy, Check, Send, AlertTriangle, RefreshCw } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinic: Clinic;
+    doctors: Doctor[]; // Doctors of the clinic that have a calendar mapped
+    provider: CalendarProvider;
+}
+
+interface ReminderItem {
+    eventId: string;
+    start: Date;
+    doctorName: string;
+    patientName: string;
+    chartId: string | null;
+    message: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const tomorrow = () => {
+    const d = new Date();
+    d.setDate(d.getDate() + 1);
+    return toDateInput(d);
+};
+
+export const ReminderModal: React.FC<Props> = ({ isOpen, onClose, clinic, doctors, provider }) => {
+    const { currentUser } = useAuth();
+    const delivery = getReminderDelivery(clinic.reminderChannel);
+    const mapping = clinic.googleCalendarMapping || {};
+
+    const [date, setDate] = useState(tomorrow);
+    const [items, setItems] = useState<ReminderItem[]>([]);
+    const [unparsed, setUnparsed] = useState<string[]>([]);
+    const [logs, setLogs] = useState<ReminderLogEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) setDate(tomorrow());
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (isOpen && date) loadReminders();
+    }, [isOpen, date, clinic.id]);
+
+    const loadReminders = async () => {
+        setIsLoading(true);
+        try {
+            const dayStart = new Date(`${date}T00:00:00`);
+            const dayEnd = new Date(`${date}T23:59:59`);
+            const perDoctor = await Promise.all(doctors.filter(d => mapping[d.id]).map(async doc => {
+                const events = await provider.listEvents(mapping[doc.id], dayStart, dayEnd);
+                return events
+                    .filter(ev => !ev.allDay && ev.start.dateTime && ev.status !== 'cancelled')
+                    .map(ev => ({ ev, doc }));
+            }));
+
+            const next: ReminderItem[] = [];
+            const skipped: string[] = [];
+            perDoctor.flat().forEach(({ ev, doc }) => {
+                const parsed = parseCalendarEvent(ev.summary, clinic.titleGrammar);
+                if (!parsed) { skipped.push(ev.summary); return; }
+                const start = new Date(ev.start.dateTime!);
+                next.push({
+                    eventId: ev.id,
+                    start,
+                    doctorName: doc.name,
+                    patientName: parsed.name,
+                    chartId: parsed.chartId,
+                    message: renderClinicReminder(clinic, doc.name, parsed.name, start)
+                });
+            });
+
+            setItems(next.sort((a, b) => a.start.getTime() - b.start.getTime()));
+            setUnparsed(skipped);
+            setLogs(await getReminderLogsForDate(clinic.id, date));
+        } catch (e) {
+            console.error(e);
+            alert("讀取約診失敗: " + (e as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Latest log per appointment decides whether it still needs a reminder
+    const latestLog = useMemo(() => {
+        const map = new Map<string, ReminderLogEntry>();
+        logs.forEach(l => map.set(l.eventId, l));
+        return map;
+    }, [logs]);
+
+    if (!isOpen) return null;
+
+    const isSent = (item: ReminderItem) => latestLog.get(item.eventId)?.status === 'sent';
+    const pending = items.filter(i => !isSent(i));
+
+    const setBusy = (id: string, busy: boolean) => setBusyIds(prev => {
+        const next = new Set(prev);
+        if (busy) next.add(id); else next.delete(id);
+        return next;
+    });
+
+    const writeLog = async (item: ReminderItem, status: 'sent' | 'failed', error?: string) => {
+        const entry = await addReminderLog({
+            clinicId: clinic.id,
+            eventId: item.eventId,
+            appointmentDate: date,
+            appointmentAt: item.start.toISOString(),
+            patientName: item.patientName,
+            chartId: item.chartId,
+            doctorName: item.doctorName,
+            message: item.message,
+            channel: delivery.channel,
+            status,
+            error,
+            sentAt: new Date().toISOString(),
+            sentBy: currentUser?.email || undefined
+        });
+        setLogs(prev => [...prev, entry]);
+    };
+
+    const handleCopy = async (item: ReminderItem) => {
+        try {
+            await navigator.clipboard.writeText(item.message);
+            setCopiedId(item.eventId);
+            setTimeout(() => setCopiedId(id => id === item.eventId ? null : id), 1500);
+        } catch (e) {
+            alert("無法複製到剪貼簿，請手動選取訊息");
+        }
+    };
+
+    // Manual channel: staff tick the reminder off after pasting it into LINE; ticking again undoes it
+    const handleToggleSent = async (item: ReminderItem) => {
+        setBusy(item.eventId, true);
+        try {
+            const last = latestLog.get(item.eventId);
+            if (last?.status === 'sent') {
+                await deleteReminderLog(last.id);
+                setLogs(prev => prev.filter(l => l.id !== last.id));
+            } else {
+                await writeLog(item, 'sent');
+            }
+        } catch (e) {
+            console.error(e);
+            alert("更新傳送紀錄失敗");
+        } finally {
+            setBusy(item.eventId, false);
+        }
+    };
+
+    const handleSend = async (item: ReminderItem) => {
+        setBusy(item.eventId, true);
+        try {
+            await delivery.send({ patientName: item.patientName, chartId: item.chartId }, item.message);
+            await writeLog(item, 'sent');
+        } catch (e) {
+            console.error(e);
+            await writeLog(item, 'failed', (e as Error).message).catch(err => console.error(err));
+        } finally {
+            setBusy(item.eventId, false);
+        }
+    };
+
+    const handleSendAll = async () => {
+        if (!confirm(`確定要透過「${delivery.label}」傳送 ${pending.length} 則提醒嗎？`)) return;
+        for (const item of pending) await handleSend(item);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-indigo-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2">
+                        <BellRing size={20} /> 約診提醒 - {clinic.name}
+                    </h3>
+                    <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="p-4 border-b border-slate-100 flex flex-wrap items-center gap-3 shrink-0">
+                    <label className="text-sm font-bold text-slate-600">約診日期</label>
+                    <input type="date" className="border rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={date} onChange={e => setDate(e.target.value)} />
+                    <button onClick={loadReminders} disabled={isLoading} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors" title="重新整理">
+                        <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                    </button>
+                    <span className="text-xs text-slate-500 ml-auto">
+                        傳送方式：<span className="font-bold text-slate-700">{delivery.label}</span>
+                        <span className="mx-2 text-slate-300">|</span>
+                        已傳送 <span className="font-bold text-emerald-600">{items.length - pending.length}</span> / {items.length}
+                    </span>
+                </div>
+
+                <div className="flex-1 overflow-y-auto bg-slate-50 p-4 space-y-3">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-12 text-slate-400 gap-2"><Loader2 className="animate-spin" size={20} /> 讀取約診中...</div>
+                    ) : items.length === 0 ? (
+                        <div className="text-center py-12 text-slate-400">當日沒有可提醒的約診</div>
+                    ) : items.map(item => {
+                        const last = latestLog.get(item.eventId);
+                        const sent = last?.status === 'sent';
+                        const busy = busyIds.has(item.eventId);
+                        return (
+                            <div key={item.eventId} className={`bg-white rounded-xl border p-3 ${sent ? 'border-emerald-200' : 'border-slate-200'}`}>
+                                <div className="flex justify-between items-start gap-3 mb-2">
+                                    <div className="text-sm">
+                                        <span className="font-mono font-bold text-slate-700">{item.start.getHours()}:{pad(item.start.getMinutes())}</span>
+                                        <span className="ml-2 font-bold text-slate-800">{item.patientName}</span>
+                                        {item.chartId && <span className="ml-1 font-mono text-xs text-slate-400">{item.chartId}</span>}
+                                        <span className="ml-2 text-xs bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded">{item.doctorName}</span>
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {last?.status === 'failed' && (
+                                            <span className="text-xs text-rose-600 flex items-center gap-1" title={last.error}><AlertTriangle size={12} /> 傳送失敗</span>
+                                        )}
+                                        {sent && (
+                                            <span className="text-[10px] text-slate-400">{new Date(last!.sentAt).toLocaleString()}{last!.sentBy ? ` · ${last!.sentBy}` : ''}</span>
+                                        )}
+                                        <button onClick={() => handleCopy(item)} className="px-2 py-1 text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded flex items-center gap-1">
+                                            {copiedId === item.eventId ? <><Check size={12} /> 已複製</> : <><Copy size={12} /> 複製</>}
+                                        </button>
+                                        {delivery.sendsMessages ? (
+                                            <button onClick={() => handleSend(item)} disabled={busy} className={`px-2 py-1 text-xs font-bold rounded flex items-center gap-1 disabled:opacity-50 ${sent ? 'text-slate-500 bg-slate-100 hover:bg-slate-200' : 'text-white bg-indigo-600 hover:bg-indigo-700'}`}>
+                                                {busy ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} />} {sent ? '重新傳送' : '傳送'}
+                                            </button>
+                                        ) : (
+                                            <label className={`px-2 py-1 text-xs font-bold rounded flex items-center gap-1 cursor-pointer ${sent ? 'text-emerald-700 bg-emerald-50' : 'text-slate-600 bg-white border border-slate-200'}`}>
+                                                <input type="checkbox" className="accent-emerald-600" checked={sent} disabled={busy} onChange={() => handleToggleSent(item)} />
+                                                已傳送
+                                            </label>
+                                        )}
+                                    </div>
+                                </div>
+                                <pre className="text-xs text-slate-600 whitespace-pre-wrap font-sans bg-slate-50 rounded p-2 border border-slate-100">{item.message}</pre>
+                            </div>
+                        );
+                    })}
+
+                    {!isLoading && unparsed.length > 0 && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 text-xs text-amber-700">
+                            <div className="font-bold flex items-center gap-1 mb-1"><AlertTriangle size={12} /> 以下 {unparsed.length} 筆標題無法解析出病患，未產生提醒：</div>
+                            <div className="flex flex-wrap gap-1">
+                                {unparsed.map((title, idx) => <span key={idx} className="bg-white px-2 py-0.5 rounded border border-amber-100">{title}</span>)}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-2 shrink-0">
+                    {delivery.sendsMessages && pending.length > 0 && (
+                        <button onClick={handleSendAll} disabled={busyIds.size > 0} className="px-4 py-2 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg flex items-center gap-2 disabled:opacity-50">
+                            <Send size={16} /> 全部傳送 ({pending.length})
+                        </button>
+                    )}
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-slate-600 hover:bg-slate-200 rounded-lg">關閉</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { AccountingRow, RowConflict } from '../types';
+import { X, AlertTriangle, User, Users, Check } from 'lucide-react';
+
+export type ConflictResolution = 'mine' | 'theirs';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    conflicts: RowConflict[];
+    onResolve: (resolutions: Record<string, ConflictResolution>) => void;
+}
+
+const FIELD_LABELS: { key: string; label: string; get: (r: AccountingRow) => any }[] = [
+    { key: 'chartId', label: '病歷號', get: r => r.chartId || '' },
+    { key: 'patientName', label: '姓名', get: r => r.patientName || '' },
+    { key: 'doctorName', label: '醫師', get: r => r.doctorName || '' },
+    { key: 'regFee', label: '掛號', get: r => r.treatments.regFee || 0 },
+    { key: 'copayment', label: '部分', get: r => r.treatments.copayment || 0 },
+    { key: 'prostho', label: '假牙', get: r => r.treatments.prostho || 0 },
+    { key: 'implant', label: '植牙', get: r => r.treatments.implant || 0 },
+    { key: 'ortho', label: '矯正', get: r => r.treatments.ortho || 0 },
+    { key: 'sov', label: 'SOV', get: r => r.treatments.sov || 0 },
+    { key: 'inv', label: 'INV', get: r => r.treatments.inv || 0 },
+    { key: 'perio', label: '牙周', get: r => r.treatments.perio || 0 },
+    { key: 'whitening', label: '美白', get: r => r.treatments.whitening || 0 },
+    { key: 'otherSelfPay', label: '其他', get: r => r.treatments.otherSelfPay || 0 },
+    { key: 'consultant', label: '諮詢師', get: r => r.treatments.consultant || '' },
+    { key: 'diyWhitening', label: '小金庫', get: r => r.retail.diyWhitening || 0 },
+    { key: 'products', label: '物販', get: r => r.retail.products || 0 },
+    { key: 'retailStaff', label: '經手人', get: r => r.retail.staff || '' },
+    { key: 'treatmentContent', label: '內容', get: r => r.treatmentContent || '' },
+    { key: 'labName', label: '技工所', get: r => r.labName || '' },
+    { key: 'paymentMethod', label: '方式', get: r => r.paymentMethod || '' },
+    { key: 'attendance', label: '到診', get: r => (r.attendance === false ? '否' : '是') },
+];
+
+export const RowConflictModal: React.FC<Props> = ({ isOpen, onClose, conflicts, onResolve }) => {
+    const [choices, setChoices] = useState<Record<string, ConflictResolution>>({});
+
+    useEffect(() => {
+        if (isOpen) {
+            // Default to the server copy so nothing is lost by an accidental confirm
+            const initial: Record<string, ConflictResolution> = {};
+            conflicts.forEach(c => { initial[c.rowId] = 'theirs'; });
+            setChoices(initial);
+        }
+    }, [isOpen, conflicts]);
+
+    if (!isOpen || conflicts.length === 0) return null;
+
+    const renderSide = (row: AccountingRow | null, other: AccountingRow | null, side: ConflictResolution, conflictId: string) => {
+        const isChosen = choices[conflictId] === side;
+        return (
+            <button
+                onClick={() => setChoices(prev => ({ ...prev, [conflictId]: side }))}
+                className={`flex-1 text-left p-3 rounded-lg border-2 transition-colors ${isChosen ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 bg-white hover:border-slate-300'}`}
+            >
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-xs font-bold text-slate-600 flex items-center gap-1">
+                        {side === 'mine' ? <User size={14} /> : <Users size={14} />}
+                        {side === 'mine' ? '我的版本' : `對方版本${row?.updatedBy ? ` (${row.updatedBy})` : ''}`}
+                    </span>
+                    {isChosen && <Check size={16} className="text-indigo-600" />}
+                </div>
+                {row ? (
+                    <div className="space-y-0.5">
+                        {FIELD_LABELS.map(f => {
+                            const val = f.get(row);
+                            const isDiff = !other || String(val) !== String(f.get(other));
+                            if (!isDiff && !val) return null;
+                            return (
+                                <div key={f.key} className={`flex justify-between text-xs px-1 rounded ${isDiff ? 'bg-amber-100 text-amber-800 font-bold' : 'text-slate-500'}`}>
+                                    <span>{f.label}</span>
+                                    <span className="font-mono">{typeof val === 'number' ? val.toLocaleString() : val}</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <div className="text-xs text-rose-600 font-bold py-4 text-center">此列已刪除</div>
+                )}
+            </button>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[110] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-amber-500 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2">
+                        <AlertTriangle size={20} />
+                        資料衝突 (Edit Conflict)
+                    </h3>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-amber-600 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-4 text-sm text-slate-600 bg-amber-50 border-b border-amber-100 shrink-0">
+                    以下 {conflicts.length} 列在您編輯期間已被其他人修改並儲存。請選擇每一列要保留的版本，黃色標示為兩者不同的欄位。
+                </div>
+
+                <div className="p-4 space-y-4 overflow-y-auto">
+                    {conflicts.map(c => (
+                        <div key={c.rowId} className="border border-slate-200 rounded-lg p-3">
+                            <div className="font-bold text-slate-800 mb-2">
+                                {c.local?.patientName || c.remote?.patientName || '未命名'}
+                            </div>
+                            <div className="flex gap-3">
+                                {renderSide(c.local, c.remote, 'mine', c.rowId)}
+                                {renderSide(c.remote, c.local, 'theirs', c.rowId)}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50 shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-bold transition-colors">
+                        稍後處理
+                    </button>
+                    <button
+                        onClick={() => onResolve(choices)}
+                        className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 shadow-md transition-transform active:scale-95"
+                    >
+                        <Check size={18} /> 套用並儲存
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
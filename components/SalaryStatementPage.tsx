@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Clinic, Doctor, AccountingRow, DailyAccountingRecord, TechnicianRecord, NHIRecord, SalaryAdjustment } from '../types';
-import { loadDailyAccounting, getTechnicianRecords, getNHIRecords, getClinicSalaryAdjustments, addSalaryAdjustment, deleteSalaryAdjustment, CLINIC_ORDER } from '../services/firebase';
+import { loadDailyAccounting, isRefundRow, getTechnicianRecords, getNHIRecords, getClinicSalaryAdjustments, addSalaryAdjustment, deleteSalaryAdjustment, CLINIC_ORDER } from '../services/firebase';
 import { NHIClaimsModal } from './NHIClaimsModal';
 import { 
   Calculator, ChevronDown, 
@@ -232,7 +232,9 @@ export const SalaryStatementPage: React.FC<Props> = ({ clinics, doctors }) => {
                                         type: 'revenue',
                                         date: record.date,
                                         patient: row.patientName,
-                                        content: row.treatmentContent || CATEGORY_MAP[cat].label,
+                                        content: isRefundRow(row)
+                                            ? `(退款) ${row.refundReason || row.treatmentContent || CATEGORY_MAP[cat].label}`
+                                            : (row.treatmentContent || CATEGORY_MAP[cat].label),
                                         revenue: revenue,
                                         labFee: 0, 
                                         netProfit: revenue, 
@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PatientSegment, SegmentCondition, SegmentField, PlanCategory } from '../types';
+import { Patient, getPatientSegments, savePatientSegment, deletePatientSegment, getSegmentData, withPatientContacts } from '../services/firebase';
+import { exportPatientSegment } from '../services/excelExport';
+import {
+    SEGMENT_FIELDS, SEGMENT_OPERATORS, OPERATOR_LABELS, SEGMENT_CATEGORIES, newCondition, describeCondition,
+    buildSegmentFacts, evaluateSegment, buildSegmentExport, SegmentFacts
+} from '../utils/segments';
+import { PLAN_CATEGORY_LABELS } from '../utils/receivables';
+import { viewPatientContact, hasMarketingConsent, CONTACT_FIELD_ACCESS } from '../utils/patients';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Filter, Loader2, Plus, Trash2, Save, Play, FileSpreadsheet, FileText } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinicId: string;
+    clinicName?: string;
+}
+
+type Draft = Omit<PatientSegment, 'id' | 'clinicId' | 'createdAt'> & { id?: string; createdAt?: string };
+
+const EMPTY_DRAFT: Draft = { name: '', conditions: [], lookbackMonths: 12 };
+
+// Starting points for the lists marketing asks for most
+const PRESETS: Draft[] = [
+    {
+        name: '植牙諮詢 NP 90 天內未成交',
+        lookbackMonths: 3,
+        conditions: [
+            { field: 'npTag', op: 'contains', value: '植牙' },
+            { field: 'npClosed', op: 'eq', value: 'no' },
+            { field: 'npDays', op: 'lte', value: 90 }
+        ]
+    },
+    {
+        name: '消費超過 10 萬、一年未回診',
+        lookbackMonths: 12,
+        conditions: [
+            { field: 'totalSpending', op: 'gte', value: 100000 },
+            { field: 'daysSinceVisit', op: 'gte', value: 365 }
+        ]
+    }
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const monthsAgo = (months: number) => {
+    const d = new Date();
+    d.setMonth(d.getMonth() - months);
+    return toDateInput(d);
+};
+
+export const SegmentModal: React.FC<Props> = ({ isOpen, onClose, clinicId, clinicName }) => {
+    const { currentUser, userRole } = useAuth();
+    const canExport = !!CONTACT_FIELD_ACCESS[userRole]?.canExport;
+    const canSave = ['admin', 'manager', 'marketing'].includes(userRole);
+
+    const [segments, setSegments] = useState<PatientSegment[]>([]);
+    const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+    const [data, setData] = useState<{ clinicId: string; since: string; patients: Patient[]; facts: Map<string, SegmentFacts> } | null>(null);
+    const [results, setResults] = useState<Patient[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen && clinicId) {
+            setDraft(EMPTY_DRAFT);
+            setResults(null);
+            loadSegments();
+        }
+    }, [isOpen, clinicId]);
+
+    const loadSegments = async () => {
+        try {
+            setSegments(await getPatientSegments(clinicId));
+        } catch (e) {
+            console.error(e);
+        }
+    };
+
+    const consenting = useMemo(() => (results || []).filter(hasMarketingConsent), [results]);
+
+    if (!isOpen) return null;
+
+    const selectDraft = (next: Draft) => {
+        setDraft({ ...next, conditions: next.conditions.map(c => ({ ...c })) });
+        setResults(null);
+    };
+
+    const updateCondition = (index: number, patch: Partial<SegmentCondition>) => {
+        setDraft(prev => ({ ...prev, conditions: prev.conditions.map((c, i) => i === index ? { ...c, ...patch } : c) }));
+        setResults(null);
+    };
+
+    const changeField = (index: number, field: SegmentField) => {
+        setDraft(prev => ({ ...prev, conditions: prev.conditions.map((c, i) => i === index ? newCondition(field) : c) }));
+        setResults(null);
+    };
+
+    const handleRun = async () => {
+        setIsLoading(true);
+        try {
+            const since = monthsAgo(draft.lookbackMonths);
+            let current = data;
+            // Rows and NP records are read once per clinic and window; tweaking conditions reuses them
+            if (!current || current.clinicId !== clinicId || current.since !== since) {
+                const loaded = await getSegmentData(clinicId, since);
+                const patients = await withPatientContacts(clinicId, loaded.patients, userRole);
+                current = { clinicId, since, patients, facts: buildSegmentFacts(patients, loaded.rows, loaded.npRecords) };
+                setData(current);
+            }
+            setResults(evaluateSegment(current.patients, draft.conditions, current.facts, toDateInput(new Date())));
+        } catch (e) {
+            console.error(e);
+            alert("篩選失敗: " + (e as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft.name.trim()) return alert("請輸入名單名稱");
+        setIsSaving(true);
+        try {
+            const id = await savePatientSegment({
+                ...draft,
+                name: draft.name.trim(),
+                clinicId,
+                createdAt: draft.createdAt || new Date().toISOString(),
+                createdBy: draft.createdBy || currentUser?.email || 'User'
+            });
+            setDraft(prev => ({ ...prev, id }));
+            await loadSegments();
+        } catch (e) {
+            console.error(e);
+            alert("儲存失敗: " + (e as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!draft.id || !confirm(`確定刪除名單「${draft.name}」嗎？`)) return;
+        try {
+            await deletePatientSegment(draft.id);
+            selectDraft(EMPTY_DRAFT);
+            await loadSegments();
+        } catch (e) {
+            console.error(e);
+            alert("刪除失敗");
+        }
+    };
+
+    const handleExport = async (format: 'csv' | 'xlsx') => {
+        if (!results) return;
+        setIsExporting(true);
+        try {
+            const rows = buildSegmentExport(results, userRole);
+            await exportPatientSegment(`${clinicName || clinicId}_${draft.name.trim() || '病患名單'}_${toDateInput(new Date())}`, rows, format);
+        } catch (e) {
+            console.error(e);
+            alert("匯出失敗");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-indigo-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2"><Filter size={20} /> 分眾名單{clinicName ? ` - ${clinicName}` : ''}</h3>
+                    <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    {/* Saved segments */}
+                    <div className="w-56 border-r border-slate-100 bg-slate-50 overflow-y-auto p-3 space-y-1 shrink-0">
+                        <button onClick={() => selectDraft(EMPTY_DRAFT)} className="w-full text-left px-3 py-2 rounded-lg text-sm font-bold text-indigo-600 hover:bg-indigo-50 flex items-center gap-1">
+                            <Plus size={14} /> 新名單
+                        </button>
+                        <div className="text-[10px] font-bold text-slate-400 px-3 pt-2">已儲存</div>
+                        {segments.length === 0 && <div className="text-xs text-slate-400 px-3">尚無儲存的名單</div>}
+                        {segments.map(s => (
+                            <button
+                                key={s.id}
+                                onClick={() => selectDraft(s)}
+                                className={`w-full text-left px-3 py-2 rounded-lg text-sm ${draft.id === s.id ? 'bg-indigo-100 text-indigo-800 font-bold' : 'text-slate-700 hover:bg-white'}`}
+                            >
+                                {s.name}
+                            </button>
+                        ))}
+                        <div className="text-[10px] font-bold text-slate-400 px-3 pt-2">範例</div>
+                        {PRESETS.map(p => (
+                            <button key={p.name} onClick={() => selectDraft(p)} className="w-full text-left px-3 py-2 rounded-lg text-xs text-slate-500 hover:bg-white">
+                                {p.name}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex-1 flex flex-col min-w-0">
+                        {/* Builder */}
+                        <div className="p-4 border-b border-slate-100 space-y-3 shrink-0">
+                            <div className="flex gap-3 items-end">
+                                <div className="flex-1">
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">名單名稱</label>
+                                    <input className="w-full border rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">統計期間 (日報表 / NP)</label>
+                                    <select className="border rounded-lg px-3 py-2 text-sm bg-white outline-none" value={draft.lookbackMonths} onChange={e => { setDraft({ ...draft, lookbackMonths: Number(e.target.value) }); setResults(null); }}>
+                                        {[3, 6, 12, 24, 36].map(m => <option key={m} value={m}>近 {m} 個月</option>)}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                {draft.conditions.map((c, i) => {
+                                    const def = SEGMENT_FIELDS[c.field];
+                                    return (
+                                        <div key={i} className="flex items-center gap-2 text-sm">
+                                            <span className="text-xs text-slate-400 w-8 text-right">{i === 0 ? '條件' : '且'}</span>
+                                            <select className="border rounded-lg px-2 py-1.5 bg-white outline-none" value={c.field} onChange={e => changeField(i, e.target.value as SegmentField)}>
+                                                {(Object.keys(SEGMENT_FIELDS) as SegmentField[]).map(f => <option key={f} value={f}>{SEGMENT_FIELDS[f].label}</option>)}
+                                            </select>
+                                            {c.field === 'categorySpend' && (
+                                                <select className="border rounded-lg px-2 py-1.5 bg-white outline-none" value={c.category} onChange={e => updateCondition(i, { category: e.target.value as PlanCategory })}>
+                                                    {SEGMENT_CATEGORIES.map(cat => <option key={cat} value={cat}>{PLAN_CATEGORY_LABELS[cat]}</option>)}
+                                                </select>
+                                            )}
+                                            <select className="border rounded-lg px-2 py-1.5 bg-white outline-none" value={c.op} onChange={e => updateCondition(i, { op: e.target.value as SegmentCondition['op'] })}>
+                                                {SEGMENT_OPERATORS[def.kind].map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+                                            </select>
+                                            {def.options ? (
+                                                <select className="border rounded-lg px-2 py-1.5 bg-white outline-none" value={String(c.value)} onChange={e => updateCondition(i, { value: e.target.value })}>
+                                                    {Object.entries(def.options).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                                </select>
+                                            ) : (
+                                                <input
+                                                    type={def.kind === 'number' ? 'number' : 'text'}
+                                                    className="border rounded-lg px-2 py-1.5 w-32 outline-none focus:ring-2 focus:ring-indigo-500"
+                                                    value={c.value}
+                                                    onChange={e => updateCondition(i, { value: def.kind === 'number' ? Number(e.target.value) : e.target.value })}
+                                                />
+                                            )}
+                                            {def.unit && <span className="text-xs text-slate-400">{def.unit}</span>}
+                                            <button onClick={() => { setDraft({ ...draft, conditions: draft.conditions.filter((_, j) => j !== i) }); setResults(null); }} className="p-1 text-slate-300 hover:text-rose-500">
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                                <button onClick={() => { setDraft({ ...draft, conditions: [...draft.conditions, newCondition('daysSinceVisit')] }); setResults(null); }} className="text-xs font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-1 ml-10">
+                                    <Plus size={12} /> 新增條件
+                                </button>
+                                <p className="text-[10px] text-slate-400 ml-10">所有條件需同時成立；NP 相關條件需為同一筆 NP 紀錄。</p>
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                                <button onClick={handleRun} disabled={isLoading} className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                                    {isLoading ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />} 篩選
+                                </button>
+                                <button onClick={handleSave} disabled={!canSave || isSaving} title={canSave ? undefined : '您的角色無法儲存名單'} className="bg-white hover:bg-slate-100 text-slate-600 px-4 py-2 rounded-lg border border-slate-300 text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                                    {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />} 儲存名單
+                                </button>
+                                {draft.id && canSave && (
+                                    <button onClick={handleDelete} className="text-rose-500 hover:bg-rose-50 px-3 py-2 rounded-lg text-sm font-bold flex items-center gap-1">
+                                        <Trash2 size={14} /> 刪除
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Results */}
+                        <div className="flex-1 overflow-y-auto">
+                            {results === null ? (
+                                <div className="text-center py-12 text-slate-400 text-sm">
+                                    {draft.conditions.length > 0 ? draft.conditions.map(describeCondition).join(' 且 ') : '新增條件後按「篩選」'}
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex items-center justify-between text-xs sticky top-0">
+                                        <span className="text-slate-500">
+                                            符合 <span className="font-bold text-slate-800">{results.length}</span> 位，其中 <span className="font-bold text-emerald-700">{consenting.length}</span> 位同意接收行銷訊息 (僅這些病患會匯出)
+                                        </span>
+                                        <div className="flex gap-2">
+                                            <button onClick={() => handleExport('csv')} disabled={!canExport || isExporting || consenting.length === 0} title={canExport ? undefined : '您的角色無匯出權限'} className="px-3 py-1 rounded-lg border border-slate-300 bg-white font-bold text-slate-600 hover:bg-slate-100 flex items-center gap-1 disabled:opacity-50">
+                                                <FileText size={12} /> CSV
+                                            </button>
+                                            <button onClick={() => handleExport('xlsx')} disabled={!canExport || isExporting || consenting.length === 0} title={canExport ? undefined : '您的角色無匯出權限'} className="px-3 py-1 rounded-lg border border-emerald-300 bg-emerald-50 font-bold text-emerald-700 hover:bg-emerald-100 flex items-center gap-1 disabled:opacity-50">
+                                                {isExporting ? <Loader2 size={12} className="animate-spin" /> : <FileSpreadsheet size={12} />} Excel
+                                            </button>
+                                        </div>
+                                    </div>
+                                    <table className="w-full text-sm">
+                                        <thead className="text-xs text-slate-400">
+                                            <tr>
+                                                <th className="px-4 py-2 text-left">病歷號</th>
+                                                <th className="px-4 py-2 text-left">姓名</th>
+                                                <th className="px-4 py-2 text-left">電話</th>
+                                                <th className="px-4 py-2 text-left">最近看診</th>
+                                                <th className="px-4 py-2 text-right">累計消費</th>
+                                                <th className="px-4 py-2 text-center">行銷同意</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-100">
+                                            {results.slice(0, 200).map(p => {
+                                                const contact = viewPatientContact(p, userRole);
+                                                return (
+                                                    <tr key={p.docId} className={hasMarketingConsent(p) ? '' : 'text-slate-400'}>
+                                                        <td className="px-4 py-2 font-mono">{p.chartId || 'NP'}</td>
+                                                        <td className="px-4 py-2 font-bold">{p.name}</td>
+                                                        <td className="px-4 py-2 font-mono text-xs">{contact.phone || '-'}</td>
+                                                        <td className="px-4 py-2 font-mono text-xs">{p.lastVisit || '-'}</td>
+                                                        <td className="px-4 py-2 text-right tabular-nums">${(p.totalSpending || 0).toLocaleString()}</td>
+                                                        <td className="px-4 py-2 text-center text-xs">{hasMarketingConsent(p) ? <span className="text-emerald-600 font-bold">✓</span> : '-'}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                    {results.length > 200 && <div className="text-center text-xs text-slate-400 py-3">僅顯示前 200 位，匯出檔包含全部符合且同意的病患</div>}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
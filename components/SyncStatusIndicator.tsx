@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { QueuedDaySave } from '../types';
+import { WifiOff, Wifi, UploadCloud, AlertTriangle, RefreshCw, Trash2, ChevronDown } from 'lucide-react';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'conflict' | 'queued';
+
+interface Props {
+    isOnline: boolean;
+    saveStatus: SaveStatus;
+    hasUnsavedChanges: boolean;
+    queuedSaves: QueuedDaySave[];
+    currentClinicId: string;
+    currentDate: string;
+    isReplaying: boolean;
+    onRetry: () => void;
+    onOpenDay: (date: string) => void;
+    onDiscard: (entry: QueuedDaySave) => void;
+}
+
+const STATUS_LABELS: Record<QueuedDaySave['status'], string> = {
+    pending: '待同步',
+    conflict: '資料衝突',
+    error: '同步失敗'
+};
+
+export const SyncStatusIndicator: React.FC<Props> = ({
+    isOnline, saveStatus, hasUnsavedChanges, queuedSaves, currentClinicId, currentDate, isReplaying, onRetry, onOpenDay, onDiscard
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const problemCount = queuedSaves.filter(q => q.status !== 'pending').length;
+
+    let badge: React.ReactNode;
+    if (!isOnline) {
+        badge = <span className="flex items-center gap-1 text-xs font-bold text-slate-600 bg-slate-100 border border-slate-300 px-2 py-1 rounded"><WifiOff size={12} /> 離線模式{queuedSaves.length > 0 && ` · ${queuedSaves.length} 天暫存`}</span>;
+    } else if (isReplaying || saveStatus === 'saving') {
+        badge = <span className="flex items-center gap-1 text-xs text-blue-500 font-bold animate-pulse"><RefreshCw size={12} className="animate-spin" /> {isReplaying ? '同步中...' : '儲存中...'}</span>;
+    } else if (problemCount > 0) {
+        badge = <span className="flex items-center gap-1 text-xs font-bold text-rose-700 bg-rose-50 border border-rose-200 px-2 py-1 rounded"><AlertTriangle size={12} /> {problemCount} 天同步異常</span>;
+    } else if (queuedSaves.length > 0 || saveStatus === 'queued') {
+        badge = <span className="flex items-center gap-1 text-xs font-bold text-amber-700 bg-amber-50 border border-amber-200 px-2 py-1 rounded"><UploadCloud size={12} /> {Math.max(queuedSaves.length, 1)} 天待同步</span>;
+    } else if (hasUnsavedChanges) {
+        badge = <span className="text-xs text-amber-600 font-bold">變更未儲存</span>;
+    } else if (saveStatus === 'saved') {
+        badge = <span className="text-xs text-emerald-600 font-bold">資料已儲存</span>;
+    } else {
+        badge = <span className="flex items-center gap-1 text-xs text-slate-300"><Wifi size={12} /></span>;
+    }
+
+    if (queuedSaves.length === 0) return <>{badge}</>;
+
+    return (
+        <div className="relative">
+            <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1">
+                {badge}
+                <ChevronDown size={12} className="text-slate-400" />
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-80 bg-white border border-slate-200 rounded-xl shadow-xl z-[60] overflow-hidden">
+                    <div className="px-3 py-2 bg-slate-50 border-b border-slate-100 flex justify-between items-center">
+                        <span className="text-xs font-bold text-slate-600">本機暫存的變更</span>
+                        <button onClick={onRetry} disabled={!isOnline || isReplaying} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-800 disabled:text-slate-300">
+                            <RefreshCw size={12} /> 立即同步
+                        </button>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto divide-y divide-slate-100">
+                        {queuedSaves.map(q => {
+                            const isSameClinic = q.clinicId === currentClinicId;
+                            const isCurrent = isSameClinic && q.date === currentDate;
+                            return (
+                                <div key={`${q.clinicId}_${q.date}`} className="px-3 py-2 text-xs">
+                                    <div className="flex justify-between items-center">
+                                        <span className="font-bold text-slate-700">{q.date}{!isSameClinic && <span className="ml-1 text-slate-400 font-normal">(其他診所)</span>}</span>
+                                        <span className={`px-1.5 py-0.5 rounded font-bold ${q.status === 'pending' ? 'bg-amber-50 text-amber-700' : 'bg-rose-50 text-rose-700'}`}>{STATUS_LABELS[q.status]}</span>
+                                    </div>
+                                    <div className="text-slate-400 mt-0.5">
+                                        {q.dirtyRowIds.length + q.deletedRowIds.length} 列變更 · {new Date(q.queuedAt).toLocaleString()}
+                                    </div>
+                                    {q.lastError && q.status === 'error' && <div className="text-rose-500 mt-0.5">{q.lastError}</div>}
+                                    <div className="flex justify-end gap-3 mt-1">
+                                        {isSameClinic && !isCurrent && (
+                                            <button onClick={() => { setIsOpen(false); onOpenDay(q.date); }} className="font-bold text-indigo-600 hover:text-indigo-800">前往處理</button>
+                                        )}
+                                        {q.status !== 'pending' && (
+                                            <button onClick={() => onDiscard(q)} className="flex items-center gap-0.5 font-bold text-slate-400 hover:text-rose-600"><Trash2 size={12} /> 捨棄</button>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Clinic, CalendarProvider, TitleGrammar, TitlePattern } from '../types';
+import { parseTitleWithGrammar, getTitlePatternError, DEFAULT_TITLE_PATTERNS } from '../utils/eventParser';
+import { updateClinicTitleGrammar } from '../services/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { Type, Plus, Trash2, ArrowUp, ArrowDown, Save, Loader2, RefreshCw, RotateCcw, CheckCircle, XCircle } from 'lucide-react';
+
+interface Props {
+    clinic: Clinic;
+    provider: CalendarProvider;
+    mapping: Record<string, string>;
+    isConnected: boolean;
+    onSaved: (grammar: TitleGrammar | null) => Promise<void>;
+}
+
+const SAMPLE_SIZE = 100;
+const SAMPLE_DAYS = 60;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const TitleGrammarEditor: React.FC<Props> = ({ clinic, provider, mapping, isConnected, onSaved }) => {
+    const { currentUser, userRole } = useAuth();
+    const canEdit = userRole === 'admin';
+
+    // null = built-in rules
+    const [patterns, setPatterns] = useState<TitlePattern[] | null>(null);
+    const [samples, setSamples] = useState<{ id: string; title: string; start: string }[]>([]);
+    const [isLoadingSamples, setIsLoadingSamples] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [showFailuresOnly, setShowFailuresOnly] = useState(false);
+
+    useEffect(() => {
+        setPatterns(clinic.titleGrammar?.patterns?.length ? clinic.titleGrammar.patterns.map(p => ({ ...p })) : null);
+    }, [clinic.id, clinic.titleGrammar]);
+
+    const calendarIds = useMemo(() => Array.from(new Set(Object.values(mapping).filter(Boolean))).sort(), [mapping]);
+
+    // The most recent real titles from every calendar mapped for the clinic
+    const loadSamples = async () => {
+        if (calendarIds.length === 0) { setSamples([]); return; }
+        setIsLoadingSamples(true);
+        try {
+            const end = new Date();
+            const start = new Date(); start.setDate(start.getDate() - SAMPLE_DAYS);
+            const lists = await Promise.all(calendarIds.map(id => provider.listEvents(id, start, end)));
+            setSamples(lists.flat()
+                .filter(ev => !ev.allDay && ev.start.dateTime)
+                .sort((a, b) => (b.start.dateTime || '').localeCompare(a.start.dateTime || ''))
+                .slice(0, SAMPLE_SIZE)
+                .map(ev => ({ id: ev.id, title: ev.summary, start: ev.start.dateTime! })));
+        } catch (e) {
+            console.error(e);
+            alert("讀取日曆標題失敗");
+        } finally {
+            setIsLoadingSamples(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isConnected) loadSamples();
+        else setSamples([]);
+    }, [provider, isConnected, calendarIds.join('|')]);
+
+    const grammar: TitleGrammar | null = patterns ? { patterns } : null;
+    const patternLabels = useMemo(() => Object.fromEntries((patterns || []).map(p => [p.id, p.label || p.id])), [patterns]);
+    const results = useMemo(() => samples.map(s => ({ ...s, ...parseTitleWithGrammar(s.title, grammar) })), [samples, patterns]);
+    const failedCount = results.filter(r => !r.parsed).length;
+    const errors = (patterns || []).map(p => p.disabled ? null : getTitlePatternError(p.regex));
+    const isDirty = JSON.stringify(patterns) !== JSON.stringify(clinic.titleGrammar?.patterns?.length ? clinic.titleGrammar.patterns : null);
+
+    const updatePattern = (index: number, changes: Partial<TitlePattern>) => {
+        setPatterns(prev => prev!.map((p, i) => i === index ? { ...p, ...changes } : p));
+    };
+
+    const movePattern = (index: number, offset: number) => {
+        setPatterns(prev => {
+            const next = [...prev!];
+            const [item] = next.splice(index, 1);
+            next.splice(index + offset, 0, item);
+            return next;
+        });
+    };
+
+    const handleSave = async () => {
+        if (errors.some(Boolean)) { alert("請先修正有錯誤的規則"); return; }
+        if (patterns && patterns.every(p => p.disabled)) { alert("至少需要一條啟用的規則，或改用內建規則"); return; }
+        setIsSaving(true);
+        try {
+            const next = patterns ? { patterns, updatedAt: new Date().toISOString(), updatedBy: currentUser?.email || 'User' } : null;
+            await updateClinicTitleGrammar(clinic.id, next);
+            await onSaved(next);
+            alert('標題解析規則已儲存！');
+        } catch (e) {
+            console.error(e);
+            alert("儲存失敗: " + (e as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-6">
+            <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4 border-b border-slate-100 pb-6">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-700 flex items-center gap-2">
+                        <Type size={20} className="text-blue-500" />
+                        預約標題解析規則 ({clinic.name})
+                    </h3>
+                    <p className="text-sm text-slate-500 mt-1">
+                        依序嘗試每條規則，第一條找到姓名的規則生效。使用具名群組：
+                        <code className="text-xs bg-slate-100 px-1 rounded mx-0.5">chartId</code>
+                        <code className="text-xs bg-slate-100 px-1 rounded mx-0.5">name</code>
+                        <code className="text-xs bg-slate-100 px-1 rounded mx-0.5">treatment</code>
+                        <code className="text-xs bg-slate-100 px-1 rounded mx-0.5">status</code>
+                        <code className="text-xs bg-slate-100 px-1 rounded mx-0.5">np</code>
+                        ，沒有病歷號的預約視為 NP。
+                    </p>
+                </div>
+                {canEdit && (
+                    <div className="flex gap-2 shrink-0">
+                        {patterns ? (
+                            <button onClick={() => setPatterns(null)} className="bg-white border border-slate-300 text-slate-600 px-3 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-50">
+                                <RotateCcw size={16} /> 改用內建規則
+                            </button>
+                        ) : (
+                            <button onClick={() => setPatterns(DEFAULT_TITLE_PATTERNS.map(p => ({ ...p })))} className="bg-indigo-50 border border-indigo-200 text-indigo-700 px-3 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-indigo-100">
+                                <Plus size={16} /> 自訂規則 (從預設範本開始)
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {patterns ? (
+                <div className="space-y-2">
+                    {patterns.map((p, i) => (
+                        <div key={p.id} className={`grid grid-cols-1 md:grid-cols-[2rem_10rem_1fr_auto] gap-2 items-start p-2 rounded-lg border ${p.disabled ? 'border-slate-100 bg-slate-50 opacity-60' : errors[i] ? 'border-rose-200 bg-rose-50/40' : 'border-slate-200'}`}>
+                            <span className="text-xs font-bold text-slate-400 pt-2 text-center">{i + 1}</span>
+                            <input className="border rounded px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-blue-500" value={p.label} placeholder="名稱" onChange={e => updatePattern(i, { label: e.target.value })} disabled={!canEdit} />
+                            <div>
+                                <input className="w-full border rounded px-2 py-1.5 text-sm font-mono outline-none focus:ring-2 focus:ring-blue-500" value={p.regex} placeholder="^(?<chartId>\d+)-(?<name>[^-]+)$" onChange={e => updatePattern(i, { regex: e.target.value })} disabled={!canEdit} />
+                                {errors[i] && <div className="text-xs text-rose-600 mt-1">{errors[i]}</div>}
+                            </div>
+                            <div className="flex items-center gap-2 pt-1.5">
+                                <label className="flex items-center gap-1 text-xs font-bold text-slate-600 whitespace-nowrap"><input type="checkbox" checked={!!p.isNP} onChange={e => updatePattern(i, { isNP: e.target.checked })} disabled={!canEdit} /> 一律 NP</label>
+                                <label className="flex items-center gap-1 text-xs font-bold text-slate-600 whitespace-nowrap"><input type="checkbox" checked={!p.disabled} onChange={e => updatePattern(i, { disabled: !e.target.checked })} disabled={!canEdit} /> 啟用</label>
+                                {canEdit && (
+                                    <>
+                                        <button onClick={() => movePattern(i, -1)} disabled={i === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"><ArrowUp size={14} /></button>
+                                        <button onClick={() => movePattern(i, 1)} disabled={i === patterns.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"><ArrowDown size={14} /></button>
+                                        <button onClick={() => setPatterns(patterns.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-rose-500"><Trash2 size={14} /></button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                    {canEdit && (
+                        <button onClick={() => setPatterns([...patterns, { id: generateId(), label: '', regex: '' }])} className="text-sm font-bold text-blue-600 hover:text-blue-800 flex items-center gap-1">
+                            <Plus size={14} /> 新增規則
+                        </button>
+                    )}
+                </div>
+            ) : (
+                <div className="p-4 text-sm text-slate-500 bg-slate-50 rounded-lg border border-dashed border-slate-300">
+                    目前使用內建規則：<span className="font-mono">狀態+病歷號(4–7 碼)-姓名-治療</span>，沒有病歷號的「姓名-治療」視為 NP。
+                </div>
+            )}
+
+            <div className="border rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between bg-slate-50 border-b border-slate-200 p-3">
+                    <div className="text-sm font-bold text-slate-600">
+                        測試台：最近 {samples.length} 筆預約標題
+                        {samples.length > 0 && (
+                            <span className={`ml-2 text-xs px-2 py-0.5 rounded ${failedCount > 0 ? 'bg-rose-100 text-rose-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                                {samples.length - failedCount} 成功 / {failedCount} 失敗
+                            </span>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-1 text-xs font-bold text-slate-500"><input type="checkbox" checked={showFailuresOnly} onChange={e => setShowFailuresOnly(e.target.checked)} /> 只看失敗</label>
+                        <button onClick={loadSamples} disabled={!isConnected || isLoadingSamples} className="text-slate-500 hover:text-slate-800 disabled:opacity-40" title="重新讀取">
+                            {isLoadingSamples ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                        </button>
+                    </div>
+                </div>
+                {!isConnected ? (
+                    <div className="p-8 text-center text-slate-400 text-sm">連結日曆後即可用真實標題測試規則</div>
+                ) : calendarIds.length === 0 ? (
+                    <div className="p-8 text-center text-slate-400 text-sm">請先在上方對應醫師日曆</div>
+                ) : samples.length === 0 && !isLoadingSamples ? (
+                    <div className="p-8 text-center text-slate-400 text-sm">最近 {SAMPLE_DAYS} 天沒有預約</div>
+                ) : (
+                    <div className="max-h-96 overflow-y-auto">
+                        <table className="w-full text-xs">
+                            <thead className="sticky top-0 bg-white shadow-sm">
+                                <tr className="text-slate-500">
+                                    <th className="p-2 text-left">標題</th>
+                                    <th className="p-2 text-left">規則</th>
+                                    <th className="p-2 text-left">病歷號</th>
+                                    <th className="p-2 text-left">姓名</th>
+                                    <th className="p-2 text-left">治療</th>
+                                    <th className="p-2 text-left">狀態</th>
+                                    <th className="p-2 text-center">NP</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {results.filter(r => !showFailuresOnly || !r.parsed).map(r => (
+                                    <tr key={r.id} className={`border-t border-slate-100 ${r.parsed ? '' : 'bg-rose-50/50'}`}>
+                                        <td className="p-2 font-mono text-slate-700">{r.title || '(無標題)'}</td>
+                                        {r.parsed ? (
+                                            <>
+                                                <td className="p-2 text-emerald-700 whitespace-nowrap"><CheckCircle size={12} className="inline mr-1" />{r.patternId === 'builtin' ? '內建' : patternLabels[r.patternId!]}</td>
+                                                <td className="p-2 font-mono">{r.parsed.chartId || '-'}</td>
+                                                <td className="p-2 font-bold">{r.parsed.name}</td>
+                                                <td className="p-2">{r.parsed.treatment || '-'}</td>
+                                                <td className="p-2">{r.parsed.status || '-'}</td>
+                                                <td className="p-2 text-center">{r.parsed.isNP ? '✓' : ''}</td>
+                                            </>
+                                        ) : (
+                                            <td colSpan={6} className="p-2 text-rose-600 font-bold"><XCircle size={12} className="inline mr-1" />無法解析，同步時不會匯入</td>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {canEdit && (
+                <div className="flex justify-end">
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || !isDirty}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium shadow-md transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+                        儲存解析規則
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { AccountingRow, PlanBalance, PlanCategory, PlanStatus, TreatmentPlan } from '../types';
+import { getPatientPlanBalances, saveTreatmentPlan } from '../services/firebase';
+import { PLAN_CATEGORY_LABELS, PLAN_STATUS_LABELS, planPaymentAmount } from '../utils/receivables';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Loader2, Plus, Link2, Unlink, ClipboardList, Save } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinicId: string;
+    date: string;
+    row: AccountingRow | null;
+    isLocked: boolean;
+    onLink: (rowId: string, planId: string) => void; // Empty planId unlinks
+}
+
+const CATEGORIES = Object.keys(PLAN_CATEGORY_LABELS) as PlanCategory[];
+
+// Pre-select the self-pay column that carries the most money on this visit
+const guessCategory = (row: AccountingRow): PlanCategory =>
+    CATEGORIES.reduce((best, key) => ((row.treatments[key] || 0) > (row.treatments[best] || 0) ? key : best), 'implant' as PlanCategory);
+
+export const TreatmentPlanModal: React.FC<Props> = ({ isOpen, onClose, clinicId, date, row, isLocked, onLink }) => {
+    const { currentUser } = useAuth();
+    const [balances, setBalances] = useState<PlanBalance[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [form, setForm] = useState({ title: '', category: 'implant' as PlanCategory, contractPrice: 0, deposit: 0, note: '' });
+
+    useEffect(() => {
+        if (isOpen && row) {
+            setIsCreating(false);
+            setForm({ title: '', category: guessCategory(row), contractPrice: 0, deposit: 0, note: '' });
+            loadPlans();
+        }
+    }, [isOpen, row?.id]);
+
+    const loadPlans = async () => {
+        if (!row?.patientName) return;
+        setIsLoading(true);
+        try {
+            const data = await getPatientPlanBalances(clinicId, row.patientName, row.chartId || null);
+            setBalances(data);
+        } catch (e) {
+            console.error(e);
+            alert("讀取療程合約失敗");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    if (!isOpen || !row) return null;
+
+    const user = currentUser ? { uid: currentUser.uid, name: currentUser.email || 'User' } : undefined;
+
+    const handleCreate = async () => {
+        if (!form.title.trim()) { alert("請輸入療程名稱"); return; }
+        setIsSaving(true);
+        try {
+            const planId = await saveTreatmentPlan({
+                clinicId,
+                chartId: row.chartId || null,
+                patientName: row.patientName,
+                category: form.category,
+                title: form.title.trim(),
+                contractPrice: Number(form.contractPrice),
+                deposit: Number(form.deposit) || 0,
+                startDate: date,
+                status: 'active',
+                doctorId: row.doctorId,
+                doctorName: row.doctorName,
+                note: form.note
+            }, user);
+            if (!isLocked) onLink(row.id, planId);
+            setIsCreating(false);
+            await loadPlans();
+        } catch (e: any) {
+            console.error(e);
+            alert("建立合約失敗: " + e.message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleStatusChange = async (plan: TreatmentPlan, status: PlanStatus) => {
+        try {
+            await saveTreatmentPlan({ ...plan, status }, user);
+            await loadPlans();
+        } catch (e: any) {
+            console.error(e);
+            alert("更新狀態失敗: " + e.message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slide-down flex flex-col max-h-[85vh]">
+                <div className="bg-purple-700 text-white p-4 flex justify-between items-center shrink-0">
+                    <div>
+                        <h3 className="text-lg font-bold flex items-center gap-2">
+                            <ClipboardList size={20} />
+                            療程合約 / 分期付款 (Treatment Plans)
+                        </h3>
+                        <div className="flex items-center gap-2 text-sm text-purple-200 mt-1">
+                            <span className="bg-purple-800 px-2 py-0.5 rounded text-white font-bold">{row.patientName || '未命名'}</span>
+                            {row.chartId && <span className="font-mono bg-purple-800 px-2 py-0.5 rounded">{row.chartId}</span>}
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-purple-800 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto bg-slate-50 p-4 space-y-3">
+                    {isLocked && (
+                        <div className="text-xs text-rose-600 bg-rose-50 border border-rose-100 rounded px-3 py-2 font-bold">本日已結帳鎖定，無法變更此列的合約連結。</div>
+                    )}
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-12 text-slate-400 gap-2"><Loader2 className="animate-spin" /> 讀取中...</div>
+                    ) : balances.length === 0 ? (
+                        <div className="text-center py-8 text-slate-400 text-sm">此病患尚無療程合約</div>
+                    ) : (
+                        balances.map(b => {
+                            const isLinked = row.planId === b.plan.id;
+                            const thisVisit = planPaymentAmount(row, b.plan);
+                            const percent = b.plan.contractPrice > 0 ? Math.min(100, (b.paid / b.plan.contractPrice) * 100) : 0;
+                            return (
+                                <div key={b.plan.id} className={`bg-white p-4 rounded-xl border-2 transition-colors ${isLinked ? 'border-purple-400' : 'border-slate-200'}`}>
+                                    <div className="flex justify-between items-start gap-3">
+                                        <div>
+                                            <div className="font-bold text-slate-800 flex items-center gap-2">
+                                                {b.plan.title}
+                                                <span className="text-[10px] px-1.5 py-0.5 rounded bg-purple-50 text-purple-700 border border-purple-100">{PLAN_CATEGORY_LABELS[b.plan.category]}</span>
+                                            </div>
+                                            <div className="text-xs text-slate-500 mt-0.5">
+                                                {b.plan.startDate} 起 · {b.plan.doctorName || '未指定醫師'} · 付款 {b.payments.length} 次
+                                            </div>
+                                        </div>
+                                        <select
+                                            className="text-xs border border-slate-200 rounded px-1 py-1 bg-white text-slate-600 outline-none"
+                                            value={b.plan.status}
+                                            onChange={(e) => handleStatusChange(b.plan, e.target.value as PlanStatus)}
+                                        >
+                                            {Object.entries(PLAN_STATUS_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                                        </select>
+                                    </div>
+
+                                    <div className="h-2 rounded-full bg-slate-100 overflow-hidden mt-3">
+                                        <div style={{ width: `${percent}%` }} className="h-full bg-purple-500 transition-all duration-500"></div>
+                                    </div>
+                                    <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+                                        <div><span className="text-slate-400">合約</span> <span className="font-bold text-slate-700 tabular-nums">${b.plan.contractPrice.toLocaleString()}</span></div>
+                                        <div><span className="text-slate-400">已收</span> <span className="font-bold text-emerald-600 tabular-nums">${b.paid.toLocaleString()}</span></div>
+                                        <div className="text-right"><span className="text-slate-400">未收</span> <span className="font-bold text-rose-600 tabular-nums">${b.outstanding.toLocaleString()}</span></div>
+                                    </div>
+
+                                    <div className="flex justify-between items-center mt-3 pt-3 border-t border-slate-100">
+                                        <span className="text-xs text-slate-500">
+                                            本次 {PLAN_CATEGORY_LABELS[b.plan.category]} 金額: <span className="font-bold text-slate-700">${thisVisit.toLocaleString()}</span>
+                                            {isLinked && <span className="text-slate-400"> (儲存後計入)</span>}
+                                        </span>
+                                        {isLinked ? (
+                                            <button onClick={() => onLink(row.id, '')} disabled={isLocked} className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-100 disabled:opacity-50 transition-colors">
+                                                <Unlink size={14} /> 取消連結
+                                            </button>
+                                        ) : (
+                                            <button onClick={() => onLink(row.id, b.plan.id)} disabled={isLocked || b.plan.status === 'cancelled'} className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50 transition-colors">
+                                                <Link2 size={14} /> 本次付款計入此合約
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })
+                    )}
+
+                    {isCreating ? (
+                        <div className="bg-white p-4 rounded-xl border border-purple-200 space-y-3">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="col-span-2">
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">療程名稱</label>
+                                    <input className="w-full border rounded px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-purple-400" placeholder="例: 全口矯正、植牙 #36" value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">項目 (付款欄位)</label>
+                                    <select className="w-full border rounded px-2 py-1.5 text-sm bg-white outline-none" value={form.category} onChange={e => setForm({ ...form, category: e.target.value as PlanCategory })}>
+                                        {CATEGORIES.map(c => <option key={c} value={c}>{PLAN_CATEGORY_LABELS[c]}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">合約總價</label>
+                                    <input type="number" className="w-full border rounded px-2 py-1.5 text-sm text-right outline-none focus:ring-2 focus:ring-purple-400" value={form.contractPrice || ''} onChange={e => setForm({ ...form, contractPrice: Number(e.target.value) })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">訂金 (Deposit)</label>
+                                    <input type="number" className="w-full border rounded px-2 py-1.5 text-sm text-right outline-none focus:ring-2 focus:ring-purple-400" value={form.deposit || ''} onChange={e => setForm({ ...form, deposit: Number(e.target.value) })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">備註</label>
+                                    <input className="w-full border rounded px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-purple-400" value={form.note} onChange={e => setForm({ ...form, note: e.target.value })} />
+                                </div>
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setIsCreating(false)} className="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg font-bold transition-colors">取消</button>
+                                <button onClick={handleCreate} disabled={isSaving} className="flex items-center gap-1 bg-purple-600 hover:bg-purple-700 text-white px-4 py-1.5 rounded-lg text-sm font-bold shadow-sm disabled:opacity-50 transition-colors">
+                                    {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} 建立合約
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button onClick={() => setIsCreating(true)} disabled={!row.patientName} className="w-full py-2 border-2 border-dashed border-purple-200 text-purple-600 rounded-xl font-bold text-sm hover:bg-purple-50 disabled:opacity-50 transition-colors flex items-center justify-center gap-1">
+                            <Plus size={16} /> 新增療程合約
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
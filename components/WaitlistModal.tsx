@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Clinic, Doctor, ShiftType, WaitlistEntry, WaitlistStatus } from '../types';
+import { saveWaitlistEntry, updateWaitlistStatus } from '../services/firebase';
+import { DEFAULT_APPOINTMENT_MINUTES } from '../utils/appointments';
+import { useAuth } from '../contexts/AuthContext';
+import { X, ListPlus, Plus, Save, Loader2, Edit2, Trash2, RotateCcw } from 'lucide-react';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    clinic: Clinic;
+    doctors: Doctor[];
+    entries: WaitlistEntry[]; // The clinic's whole waitlist (live)
+}
+
+type Draft = Omit<WaitlistEntry, 'id' | 'clinicId' | 'status' | 'createdAt'> & { id?: string };
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+const SHIFTS: { shift: ShiftType; label: string }[] = [
+    { shift: 'Morning', label: '早診' },
+    { shift: 'Afternoon', label: '午診' },
+    { shift: 'Evening', label: '晚診' }
+];
+const STATUS_TABS: { status: WaitlistStatus; label: string }[] = [
+    { status: 'waiting', label: '候補中' },
+    { status: 'booked', label: '已安排' },
+    { status: 'removed', label: '已移除' }
+];
+
+const emptyDraft = (): Draft => ({
+    patientName: '', chartId: null, phone: '', doctorId: '', treatment: '',
+    durationMinutes: DEFAULT_APPOINTMENT_MINUTES, weekdays: [], shifts: [], note: ''
+});
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+export const WaitlistModal: React.FC<Props> = ({ isOpen, onClose, clinic, doctors, entries }) => {
+    const { currentUser } = useAuth();
+    const [tab, setTab] = useState<WaitlistStatus>('waiting');
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    if (!isOpen) return null;
+
+    const doctorName = (id?: string) => id ? (doctors.find(d => d.id === id)?.name || '已離職醫師') : '不限醫師';
+    const listed = entries.filter(e => e.status === tab);
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.patientName.trim()) { alert("請輸入病患姓名"); return; }
+        setIsSaving(true);
+        try {
+            const existing = draft.id ? entries.find(e => e.id === draft.id) : undefined;
+            await saveWaitlistEntry({
+                ...draft,
+                clinicId: clinic.id,
+                patientName: draft.patientName.trim(),
+                chartId: draft.chartId?.trim() || null,
+                doctorId: draft.doctorId || undefined,
+                treatment: draft.treatment.trim(),
+                status: existing?.status || 'waiting',
+                createdAt: existing?.createdAt || new Date().toISOString(),
+                createdBy: existing?.createdBy || currentUser?.email || undefined
+            });
+            setDraft(null);
+        } catch (e) {
+            console.error(e);
+            alert("儲存候補失敗: " + (e as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleStatus = async (entry: WaitlistEntry, status: WaitlistStatus) => {
+        if (status === 'removed' && !confirm(`確定要將「${entry.patientName}」移出候補名單嗎？`)) return;
+        try {
+            await updateWaitlistStatus(entry.id, status);
+        } catch (e) {
+            console.error(e);
+            alert("更新失敗");
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden animate-slide-down flex flex-col max-h-[90vh]">
+                <div className="bg-indigo-600 text-white p-4 flex justify-between items-center shrink-0">
+                    <h3 className="text-lg font-bold flex items-center gap-2"><ListPlus size={20} /> 候補名單 - {clinic.name}</h3>
+                    <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="p-3 border-b border-slate-100 flex items-center gap-2 shrink-0">
+                    {STATUS_TABS.map(t => (
+                        <button
+                            key={t.status}
+                            onClick={() => setTab(t.status)}
+                            className={`px-3 py-1 rounded-lg text-xs font-bold transition-colors ${tab === t.status ? 'bg-indigo-50 text-indigo-700' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                            {t.label} ({entries.filter(e => e.status === t.status).length})
+                        </button>
+                    ))}
+                    <button onClick={() => setDraft(emptyDraft())} className="ml-auto px-3 py-1.5 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg flex items-center gap-1">
+                        <Plus size={14} /> 新增候補
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto bg-slate-50 p-4 space-y-3">
+                    {draft && (
+                        <div className="bg-white rounded-xl border border-indigo-200 p-4 space-y-3">
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">病患姓名</label>
+                                    <input className="w-full border rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={draft.patientName} onChange={e => setDraft({ ...draft, patientName: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">病歷號</label>
+                                    <input className="w-full border rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={draft.chartId || ''} onChange={e => setDraft({ ...draft, chartId: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">聯絡電話</label>
+                                    <input className="w-full border rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={draft.phone || ''} onChange={e => setDraft({ ...draft, phone: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">指定醫師</label>
+                                    <select className="w-full border rounded-lg px-3 py-1.5 text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500" value={draft.doctorId || ''} onChange={e => setDraft({ ...draft, doctorId: e.target.value })}>
+                                        <option value="">不限醫師</option>
+                                        {doctors.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">療程</label>
+                                    <input className="w-full border rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={draft.treatment} onChange={e => setDraft({ ...draft, treatment: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-500 mb-1">所需時間 (分鐘)</label>
+                                    <input type="number" min={15} step={15} className="w-full border rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={draft.durationMinutes} onChange={e => setDraft({ ...draft, durationMinutes: Number(e.target.value) || DEFAULT_APPOINTMENT_MINUTES })} />
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-4">
+                                <div className="flex items-center gap-1">
+                                    <span className="text-xs font-bold text-slate-500 mr-1">可來星期</span>
+                                    {WEEKDAYS.map((label, day) => (
+                                        <button key={day} type="button" onClick={() => setDraft({ ...draft, weekdays: toggle(draft.weekdays, day) })} className={`w-7 h-7 rounded text-xs font-bold border ${draft.weekdays.includes(day) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200'}`}>{label}</button>
+                                    ))}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <span className="text-xs font-bold text-slate-500 mr-1">時段</span>
+                                    {SHIFTS.map(s => (
+                                        <button key={s.shift} type="button" onClick={() => setDraft({ ...draft, shifts: toggle(draft.shifts, s.shift) })} className={`px-2 h-7 rounded text-xs font-bold border ${draft.shifts.includes(s.shift) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200'}`}>{s.label}</button>
+                                    ))}
+                                </div>
+                                <span className="text-[10px] text-slate-400">都不選代表皆可</span>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 mb-1">備註</label>
+                                <input className="w-full border rounded-lg px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-indigo-500" value={draft.note || ''} onChange={e => setDraft({ ...draft, note: e.target.value })} />
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm font-bold text-slate-600 hover:bg-slate-100 rounded-lg">取消</button>
+                                <button onClick={handleSave} disabled={isSaving} className="px-3 py-1.5 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg flex items-center gap-1 disabled:opacity-50">
+                                    {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} 儲存
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {listed.length === 0 ? (
+                        <div className="text-center py-12 text-slate-400">沒有{STATUS_TABS.find(t => t.status === tab)?.label}的病患</div>
+                    ) : listed.map(entry => (
+                        <div key={entry.id} className="bg-white rounded-xl border border-slate-200 p-3 flex justify-between items-start gap-3">
+                            <div className="text-sm space-y-1">
+                                <div>
+                                    <span className="font-bold text-slate-800">{entry.patientName}</span>
+                                    {entry.chartId && <span className="ml-1 font-mono text-xs text-slate-400">{entry.chartId}</span>}
+                                    {entry.phone && <span className="ml-2 text-xs text-slate-500">{entry.phone}</span>}
+                                    <span className="ml-2 text-xs bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded">{doctorName(entry.doctorId)}</span>
+                                </div>
+                                <div className="text-xs text-slate-500">
+                                    {entry.treatment || '未填療程'} · {entry.durationMinutes} 分鐘 ·
+                                    {' '}{entry.weekdays.length > 0 ? `週${[...entry.weekdays].sort().map(d => WEEKDAYS[d]).join('、')}` : '任何一天'}
+                                    {' '}{entry.shifts.length > 0 ? SHIFTS.filter(s => entry.shifts.includes(s.shift)).map(s => s.label).join('、') : '任何時段'}
+                                </div>
+                                {entry.note && <div className="text-xs text-slate-400">{entry.note}</div>}
+                                <div className="text-[10px] text-slate-300">登記於 {new Date(entry.createdAt).toLocaleDateString()}</div>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                                {entry.status === 'waiting' ? (
+                                    <>
+                                        <button onClick={() => setDraft({ ...entry, doctorId: entry.doctorId || '' })} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded" title="編輯"><Edit2 size={14} /></button>
+                                        <button onClick={() => handleStatus(entry, 'removed')} className="p-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded" title="移出候補"><Trash2 size={14} /></button>
+                                    </>
+                                ) : (
+                                    <button onClick={() => handleStatus(entry, 'waiting')} className="px-2 py-1 text-xs font-bold text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded flex items-center gap-1"><RotateCcw size={12} /> 重新候補</button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,7 @@
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { onAuthStateChanged, db, auth } from '../services/firebase';
+import { clearCalDavCredentials } from '../services/icsCalendar';
 import firebase from "firebase/compat/app";
 import { UserRole } from '../types';
 
@@ -130,6 +131,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         });
 
       } else {
+        clearCalDavCredentials();
         setCurrentUser(null);
         setUserRole('guest');
         setUserClinicId(null);
@@ -1,23 +1,34 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Clinic, Doctor, Consultant, Laboratory, SOVReferral, DailyAccountingRecord, AccountingRow, Expenditure, AuditLogEntry, NPRecord, MonthlyClosing, MealExpense, MealFund, MealType } from '../types';
-import { hydrateRow, getStaffList, db, lockDailyReport, unlockDailyReport, saveDailyAccounting, addSOVReferral, getMonthlyClosingStatus, saveNPRecord, deleteNPRecord, checkPreviousUnlocked, findPatientProfile, getPreviousDayMealBalance } from '../services/firebase';
+import { Clinic, Doctor, Consultant, Laboratory, SOVReferral, DailyAccountingRecord, AccountingRow, Expenditure, NPRecord, MonthlyClosing, MealExpense, MealFund, MealType, DailyRowChanges, RowConflict, CashCount, QueuedDaySave, CalendarWriteBackChange, CalendarSyncReport } from '../types';
+import { hydrateRow, computeRowTotals, createRefundRow, getStaffList, db, subscribeDailyAccounting, lockDailyReport, unlockDailyReport, saveDailyAccounting, addSOVReferral, getMonthlyClosingStatus, saveNPRecord, deleteNPRecord, checkPreviousUnlocked, getClosingBacklogRange, findPatientProfile, getPreviousDayMealBalance, getPreviousClosingFloat, recordCalendarCancellations } from '../services/firebase';
 import { exportDailyReportToExcel } from '../services/excelExport';
-import { listEvents, initGoogleClient, authorizeCalendar } from '../services/googleCalendar';
-import { parseCalendarEvent, parseSourceFromNote } from '../utils/eventParser';
+import { getQueuedSaves, getQueuedSave, queueDaySave, removeQueuedSave, replayQueuedSaves, subscribeQueue, isOfflineError } from '../services/offlineQueue';
+import { getCalendarProvider } from '../services/calendarProvider';
+import { getCalendarSources, fetchCalendarChanges, buildSyncReport, isEmptySyncReport, applySyncReport, buildWriteBackPlan } from '../services/calendarSync';
+import { parseSourceFromNote } from '../utils/eventParser';
+import { evaluateRow } from '../utils/validationRules';
 import { ClinicSelector } from '../components/ClinicSelector';
 import { useClinic } from '../contexts/ClinicContext';
 import { useAuth } from '../contexts/AuthContext';
 import { ClosingSummaryModal } from '../components/ClosingSummaryModal';
 import { AuditLogModal } from '../components/AuditLogModal';
 import { NPStatusModal } from '../components/NPStatusModal';
+import { TreatmentPlanModal } from '../components/TreatmentPlanModal';
+import { ClosingBacklogModal } from '../components/ClosingBacklogModal';
+import { CalendarWriteBackModal } from '../components/CalendarWriteBackModal';
+import { CalendarSyncReportModal } from '../components/CalendarSyncReportModal';
+import { ReceiptModal } from '../components/ReceiptModal';
+import { RefundModal } from '../components/RefundModal';
+import { SyncStatusIndicator, SaveStatus } from '../components/SyncStatusIndicator';
+import { RowConflictModal, ConflictResolution } from '../components/RowConflictModal';
 import DailyAccountingRow from '../components/DailyAccountingRow';
 import { 
   Save, Plus, Trash2, FileSpreadsheet, Loader2,
   ChevronLeft, ChevronRight, RefreshCw, 
   Wallet, CreditCard, TrendingUp, CheckCircle, 
-  WifiOff, Lock, Unlock, History, AlertCircle, Filter,
-  Utensils, Coffee, DollarSign
+  WifiOff, Lock, Unlock, History, AlertCircle, Filter, RotateCcw,
+  Utensils, Coffee, DollarSign, ListChecks, CalendarCheck
 } from 'lucide-react';
 
 interface Props {
@@ -56,42 +67,25 @@ const getNextDate = (dateStr: string, offset: number) => {
     return `${ny}-${nm}-${nd}`;
 };
 
-const TREATMENT_LABELS: Record<string, string> = {
-    regFee: '掛號', copayment: '部分', prostho: '假牙', implant: '植牙',
-    ortho: '矯正', sov: 'SOV', inv: 'INV', whitening: '美白',
-    perio: '牙周', otherSelfPay: '其他'
+const toRowMap = (rows: AccountingRow[]): Record<string, AccountingRow> => {
+    const map: Record<string, AccountingRow> = {};
+    rows.forEach(r => { map[r.id] = r; });
+    return map;
 };
 
-const RETAIL_LABELS: Record<string, string> = {
-    products: '物販', diyWhitening: '小金庫'
-};
-
-const calculateDiff = (oldRow: AccountingRow, newRow: AccountingRow): string | null => {
-    const changes: string[] = [];
-    const prefix = `[${newRow.patientName || '未命名'}]`;
-
-    if (oldRow.chartId !== newRow.chartId) changes.push(`ChartID: ${oldRow.chartId || '無'} -> ${newRow.chartId}`);
-    if (oldRow.patientName !== newRow.patientName) changes.push(`Name: ${oldRow.patientName} -> ${newRow.patientName}`);
-    if (oldRow.paymentMethod !== newRow.paymentMethod) changes.push(`支付: ${oldRow.paymentMethod} -> ${newRow.paymentMethod}`);
-    
-    (Object.keys(TREATMENT_LABELS) as Array<keyof typeof newRow.treatments>).forEach(key => {
-        const oldV = safeNum(oldRow.treatments[key]);
-        const newV = safeNum(newRow.treatments[key]);
-        if (oldV !== newV) {
-            changes.push(`${TREATMENT_LABELS[key]}: ${oldV} -> ${newV}`);
-        }
-    });
-
-    (Object.keys(RETAIL_LABELS) as Array<keyof typeof newRow.retail>).forEach(key => {
-        const oldV = safeNum(oldRow.retail[key]);
-        const newV = safeNum(newRow.retail[key]);
-        if (oldV !== newV) {
-            changes.push(`${RETAIL_LABELS[key]}: ${oldV} -> ${newV}`);
-        }
+const sortRows = (rows: AccountingRow[]) => rows.sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0));
+
+// Apply a remote snapshot on top of local state, keeping rows the user is still editing
+const mergeRemoteRows = (localRows: AccountingRow[], serverRows: AccountingRow[], dirty: Map<string, number>, deleted: Set<string>) => {
+    const localMap = new Map(localRows.map(r => [r.id, r]));
+    const serverIds = new Set(serverRows.map(r => r.id));
+    const merged = serverRows
+        .filter(r => !deleted.has(r.id))
+        .map(r => (dirty.has(r.id) && localMap.get(r.id)) || r);
+    localRows.forEach(r => {
+        if (!serverIds.has(r.id) && dirty.has(r.id)) merged.push(r);
     });
-    
-    if (changes.length === 0) return null;
-    return `${prefix} ${changes.join(', ')}`;
+    return sortRows(merged);
 };
 
 export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants, laboratories, sovReferrals }) => {
@@ -107,6 +101,7 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
   
   const [mealExpenses, setMealExpenses] = useState<MealExpense[]>([]);
   const [mealFund, setMealFund] = useState<MealFund>({ initial: 0, added: 0 });
+  const [carriedFloat, setCarriedFloat] = useState(0); // Previous day's closing float
 
   const [monthlyStatus, setMonthlyStatus] = useState<MonthlyClosing | null>(null);
   const [todaysNPRecords, setTodaysNPRecords] = useState<Record<string, NPRecord>>({});
@@ -115,20 +110,45 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
   const [isLoading, setIsLoading] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isManualSaving, setIsManualSaving] = useState(false);
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+
+  // Offline support: edits that could not reach the server wait in services/offlineQueue
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queuedSaves, setQueuedSaves] = useState<QueuedDaySave[]>(() => getQueuedSaves());
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [pendingFlush, setPendingFlush] = useState(false); // Save the current day once the page state is settled
+  const restoredDayKeyRef = useRef('');
 
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const hasUnsavedChangesRef = useRef(false);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // Concurrent editing: server rows our local edits are based on, the latest server copy,
+  // and the rows touched locally since the last successful save (rowId -> edit sequence)
+  const baseRowsRef = useRef<Record<string, AccountingRow>>({});
+  const latestServerRowsRef = useRef<Record<string, AccountingRow>>({});
+  const dirtyRowsRef = useRef<Map<string, number>>(new Map());
+  const deletedRowIdsRef = useRef<Set<string>>(new Set());
+  const [remoteChangedRowIds, setRemoteChangedRowIds] = useState<Set<string>>(new Set());
+  const [pendingConflicts, setPendingConflicts] = useState<RowConflict[]>([]);
+
   const [filterDoctorId, setFilterDoctorId] = useState<string>('');
   
   const [isClosingModalOpen, setIsClosingModalOpen] = useState(false);
   const [closingError, setClosingError] = useState<string | null>(null);
   const [unlockedDates, setUnlockedDates] = useState<string[]>([]); 
+  const [isBacklogOpen, setIsBacklogOpen] = useState(false);
+  const [writeBackChanges, setWriteBackChanges] = useState<CalendarWriteBackChange[] | null>(null);
+  const [isPlanningWriteBack, setIsPlanningWriteBack] = useState(false);
+  const [syncReport, setSyncReport] = useState<CalendarSyncReport | null>(null);
+  // Stores the sync watermark once the report is applied; cancelling leaves the changes pending
+  const syncCommitRef = useRef<(() => void) | null>(null);
 
   const [isAuditModalOpen, setIsAuditModalOpen] = useState(false);
   const [npModalData, setNpModalData] = useState<{row: AccountingRow} | null>(null);
+  const [planModalRowId, setPlanModalRowId] = useState<string | null>(null);
+  const [receiptModalRowId, setReceiptModalRowId] = useState<string | null>(null);
+  const [refundModalData, setRefundModalData] = useState<{row: AccountingRow | null} | null>(null);
 
   const rowsRef = useRef(rows);
   const expendituresRef = useRef(expenditures);
@@ -160,7 +180,35 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
     };
   }, []);
 
-  const getDocId = (clinicId: string, dateStr: string) => `${clinicId}_${dateStr}`;
+  const markRowDirty = useCallback((id: string) => {
+      dirtyRowsRef.current.set(id, (dirtyRowsRef.current.get(id) || 0) + 1);
+  }, []);
+
+  // Locally edited rows whose server copy moved on since we loaded them
+  const findRemoteChanges = useCallback((): Set<string> => {
+      const changed = new Set<string>();
+      const touched = [...Array.from(dirtyRowsRef.current.keys()), ...Array.from(deletedRowIdsRef.current)];
+      touched.forEach(id => {
+          const base = baseRowsRef.current[id];
+          if (!base) return; // New local row, nobody else can have it
+          const latest = latestServerRowsRef.current[id];
+          if (!latest || (latest.version || 0) !== (base.version || 0)) changed.add(id);
+      });
+      return changed;
+  }, []);
+
+  const buildConflict = useCallback((rowId: string): RowConflict => ({
+      rowId,
+      local: rowsRef.current.find(r => r.id === rowId) || null,
+      remote: latestServerRowsRef.current[rowId] || null
+  }), []);
+
+  // Server copies of the given rows as our edits last saw them, kept with queued edits for conflict checks on replay
+  const getBaseRows = useCallback((ids: string[]): Record<string, AccountingRow> => {
+      const map: Record<string, AccountingRow> = {};
+      ids.forEach(id => { if (baseRowsRef.current[id]) map[id] = baseRowsRef.current[id]; });
+      return map;
+  }, []);
 
   useEffect(() => {
       const fetchStaff = async () => {
@@ -299,23 +347,78 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
       }
 
       setIsLoading(true);
-      const docId = getDocId(selectedClinicId, currentDate);
+      const dayKey = `${selectedClinicId}_${currentDate}`;
       
-      const unsubscribe = db.collection('daily_accounting').doc(docId).onSnapshot((doc: any) => {
+      const unsubscribe = subscribeDailyAccounting(selectedClinicId, currentDate, (data) => {
           setIsLoading(false);
-          
-          if (hasUnsavedChangesRef.current) return;
 
-          if (doc.exists) {
-              const data = doc.data() as DailyAccountingRecord;
+          // First snapshot of the day: bring back edits left in the offline queue (reload, Wi-Fi drop, day switch)
+          if (restoredDayKeyRef.current !== dayKey) {
+              restoredDayKeyRef.current = dayKey;
+              const queued = getQueuedSave(selectedClinicId, currentDate);
+              if (queued && queued.status !== 'error') {
+                  const serverRows = data?.rows || [];
+                  const dirty = new Map(queued.dirtyRowIds.map(id => [id, 1]));
+                  const deleted = new Set(queued.deletedRowIds);
+                  latestServerRowsRef.current = toRowMap(serverRows);
+                  baseRowsRef.current = { ...toRowMap(serverRows.filter(r => !dirty.has(r.id) && !deleted.has(r.id))), ...queued.baseRows };
+                  dirtyRowsRef.current = dirty;
+                  deletedRowIdsRef.current = deleted;
+                  hasUnsavedChangesRef.current = true;
+                  setHasUnsavedChanges(true);
+
+                  setDailyRecord(data);
+                  setRows(mergeRemoteRows(queued.record.rows.map(hydrateRow), serverRows, dirty, deleted));
+                  setExpenditures(queued.record.expenditures || []);
+                  setMealExpenses(queued.record.mealExpenses || []);
+                  setMealFund(queued.record.mealFund || { initial: 0, added: 0 });
+                  setRemoteChangedRowIds(findRemoteChanges());
+                  setSaveStatus('queued');
+                  setPendingFlush(true);
+                  return;
+              }
+          }
+          
+          if (data) {
+              const loadedRows = data.rows;
+              latestServerRowsRef.current = toRowMap(loadedRows);
               setDailyRecord(data);
-              
-              const loadedRows = (data.rows || []).map(r => hydrateRow(r));
-              setRows(loadedRows.sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0)));
+
+              if (hasUnsavedChangesRef.current) {
+                  // Someone else saved while we have pending edits: take their untouched rows, flag the overlaps
+                  const dirty = dirtyRowsRef.current;
+                  const deleted = deletedRowIdsRef.current;
+                  const nextBase: Record<string, AccountingRow> = {};
+                  loadedRows.forEach(r => {
+                      if (!dirty.has(r.id) && !deleted.has(r.id)) nextBase[r.id] = r;
+                  });
+                  Object.keys(baseRowsRef.current).forEach(id => {
+                      if (dirty.has(id) || deleted.has(id)) nextBase[id] = baseRowsRef.current[id];
+                  });
+                  baseRowsRef.current = nextBase;
+                  setRows(prev => mergeRemoteRows(prev, loadedRows, dirty, deleted));
+                  setRemoteChangedRowIds(findRemoteChanges());
+                  return;
+              }
+
+              baseRowsRef.current = toRowMap(loadedRows);
+              dirtyRowsRef.current = new Map();
+              deletedRowIdsRef.current = new Set();
+              setRemoteChangedRowIds(new Set());
+
+              setRows(sortRows(loadedRows));
               setExpenditures(data.expenditures || []);
               setMealExpenses(data.mealExpenses || []);
               setMealFund(data.mealFund || { initial: 0, added: 0 });
           } else {
+              latestServerRowsRef.current = {};
+              if (hasUnsavedChangesRef.current) return;
+
+              baseRowsRef.current = {};
+              dirtyRowsRef.current = new Map();
+              deletedRowIdsRef.current = new Set();
+              setRemoteChangedRowIds(new Set());
+
               setDailyRecord(null);
               setRows([]);
               setExpenditures([]);
@@ -328,8 +431,41 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
           setSaveStatus('error');
       });
 
-      return () => unsubscribe();
-  }, [selectedClinicId, currentDate]);
+      return () => {
+          unsubscribe();
+          restoredDayKeyRef.current = '';
+          if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+
+          // Leaving a day with edits still pending: park them in the queue so they are neither lost
+          // nor carried over into the next day, then let the queue deliver them
+          if (hasUnsavedChangesRef.current) {
+              const dirtyRowIds = Array.from(dirtyRowsRef.current.keys());
+              const deletedRowIds = Array.from(deletedRowIdsRef.current);
+              queueDaySave({
+                  record: {
+                      clinicId: selectedClinicId,
+                      date: currentDate,
+                      rows: prepareDataForSave(rowsRef.current),
+                      expenditures: expendituresRef.current,
+                      mealExpenses: mealExpensesRef.current,
+                      mealFund: mealFundRef.current,
+                      lastUpdated: Date.now()
+                  },
+                  dirtyRowIds,
+                  deletedRowIds,
+                  baseRows: getBaseRows([...dirtyRowIds, ...deletedRowIds]),
+                  user: { uid: currentUser?.uid || 'unknown', name: currentUser?.email || 'User' }
+              });
+              if (navigator.onLine) replayQueuedSaves().catch(e => console.error("Queued save replay failed:", e));
+          }
+          baseRowsRef.current = {};
+          dirtyRowsRef.current = new Map();
+          deletedRowIdsRef.current = new Set();
+          hasUnsavedChangesRef.current = false;
+          setHasUnsavedChanges(false);
+          setPendingConflicts([]);
+      };
+  }, [selectedClinicId, currentDate, findRemoteChanges]);
 
   const isLocked = dailyRecord?.isLocked || false;
   const isMonthLocked = monthlyStatus?.isLocked || false;
@@ -358,6 +494,18 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
       fetchPrevBalance();
   }, [selectedClinicId, currentDate, isLocked]);
 
+  // Cash Drawer Float Carry Over (a locked day keeps the opening cash it was closed with)
+  useEffect(() => {
+      if (!selectedClinicId || !currentDate || isLocked) return;
+      let cancelled = false;
+      getPreviousClosingFloat(selectedClinicId, currentDate).then(val => {
+          if (!cancelled) setCarriedFloat(val);
+      });
+      return () => { cancelled = true; };
+  }, [selectedClinicId, currentDate, isLocked]);
+
+  const initialCash = isLocked ? (dailyRecord?.initialCash || 0) : carriedFloat;
+
   const visibleRows = useMemo(() => {
       let filtered = rows;
       if (filterDoctorId) {
@@ -407,28 +555,21 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
       return { totalSpent, balance };
   }, [mealExpenses, mealFund]);
 
-  const validationErrors = useMemo(() => {
+  const ruleConfig = selectedClinic?.validationRules;
+
+  // Closing checks from the clinic's rule configuration; 'block' issues prevent locking
+  const { validationErrors, validationWarnings } = useMemo(() => {
       const errors: string[] = [];
+      const warnings: string[] = [];
       rows.forEach((row, idx) => {
-          const t = row.treatments;
-          const r = row.retail;
-          const totalAmount = (t.regFee||0) + (t.copayment||0) + 
-                           (t.prostho||0) + (t.implant||0) + (t.ortho||0) + (t.sov||0) + (t.inv||0) + (t.perio||0) + (t.whitening||0) + (t.otherSelfPay||0) +
-                           (r.products||0) + (r.diyWhitening||0);
-          
-          if (totalAmount > 0) {
-              const rowErrors: string[] = [];
-              if (!row.patientName?.trim()) rowErrors.push("姓名");
-              if (!row.doctorId) rowErrors.push("醫師");
-              if (!row.paymentMethod) rowErrors.push("付款方式");
-              
-              if (rowErrors.length > 0) {
-                  errors.push(`第 ${idx + 1} 列 (${row.patientName || '未命名'}): 缺少 ${rowErrors.join('、')}`);
-              }
-          }
+          evaluateRow(row, { npRecord: todaysNPRecords[row.id] }, ruleConfig).forEach(issue => {
+              const msg = `第 ${idx + 1} 列 (${row.patientName || '未命名'}): ${issue.message}`;
+              if (issue.severity === 'block') errors.push(msg);
+              else warnings.push(msg);
+          });
       });
-      return errors;
-  }, [rows]);
+      return { validationErrors: errors, validationWarnings: warnings };
+  }, [rows, todaysNPRecords, ruleConfig]);
 
   const prepareDataForSave = (currentRows: AccountingRow[]) => {
       return currentRows.map((row, index) => {
@@ -453,14 +594,7 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
               productNote: r.productNote || '',
               staff: r.staff || ''
           };
-          const total = safeT.regFee + safeT.copayment + 
-                        safeT.prostho + safeT.implant + safeT.ortho + safeT.sov + safeT.inv + safeT.perio + safeT.whitening + safeT.otherSelfPay +
-                        safeR.products + safeR.diyWhitening;
-          
-          const pb = { cash: 0, card: 0, transfer: 0 };
-          if (row.paymentMethod === 'card') pb.card = total;
-          else if (row.paymentMethod === 'transfer') pb.transfer = total;
-          else pb.cash = total;
+          const { actualCollected: total, paymentBreakdown: pb } = computeRowTotals({ ...row, treatments: safeT, retail: safeR });
 
           return {
               ...row,
@@ -480,10 +614,9 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
       currentRows: AccountingRow[], 
       currentExp: Expenditure[], 
       currentFund: MealFund, 
-      currentMeals: MealExpense[],
-      diffDetails?: string
-  ) => {
-      if (!selectedClinicId) return;
+      currentMeals: MealExpense[]
+  ): Promise<RowConflict[]> => {
+      if (!selectedClinicId) return [];
       setSaveStatus('saving');
       try {
           const cleanRows = prepareDataForSave(currentRows);
@@ -500,131 +633,263 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
               isLocked: dailyRecord?.isLocked || false,
           };
 
-          let auditEntry: AuditLogEntry | undefined;
-          if (diffDetails) {
-              auditEntry = {
-                  timestamp: new Date().toISOString(),
-                  userId: currentUser?.uid || 'unknown',
-                  userName: currentUser?.email || 'User',
-                  action: 'UPDATE',
-                  details: diffDetails
-              };
+          const savingDirty = new Map(dirtyRowsRef.current);
+          const savingDeleted = new Set(deletedRowIdsRef.current);
+          const baseVersions: Record<string, number> = {};
+          Object.values(baseRowsRef.current).forEach(r => { baseVersions[r.id] = r.version || 0; });
+          const changes: DailyRowChanges = {
+              dirtyRowIds: Array.from(savingDirty.keys()),
+              deletedRowIds: Array.from(savingDeleted),
+              baseVersions,
+              expectUnlocked: !dailyRecord?.isLocked
+          };
+          const user = { uid: currentUser?.uid || 'unknown', name: currentUser?.email || 'User' };
+
+          // No connection: keep the edits locally (they stay dirty here too) and let the queue replay them
+          const queueLocally = (): RowConflict[] => {
+              queueDaySave({
+                  record: payload,
+                  dirtyRowIds: changes.dirtyRowIds,
+                  deletedRowIds: changes.deletedRowIds,
+                  baseRows: getBaseRows([...changes.dirtyRowIds, ...changes.deletedRowIds]),
+                  user
+              });
+              setSaveStatus('queued');
+              return [];
+          };
+          if (!navigator.onLine) return queueLocally();
+
+          let saveResult;
+          try {
+              saveResult = await saveDailyAccounting(payload, changes, user);
+          } catch (e) {
+              if (isOfflineError(e)) return queueLocally();
+              throw e;
+          }
+          const { rows: savedRows, deletedRowIds, conflicts } = saveResult;
+          // The page state we just sent supersedes anything queued for this day
+          removeQueuedSave(selectedClinicId, currentDate);
+
+          // Rows we just wrote become the new base; conflicting rows keep their old base
+          const conflictIds = new Set(conflicts.map(c => c.rowId));
+          savedRows.forEach(r => {
+              const hydrated = hydrateRow(r);
+              baseRowsRef.current[r.id] = hydrated;
+              latestServerRowsRef.current[r.id] = hydrated;
+          });
+          deletedRowIds.forEach(id => {
+              delete baseRowsRef.current[id];
+              delete latestServerRowsRef.current[id];
+          });
+          conflicts.forEach(c => {
+              if (c.remote) latestServerRowsRef.current[c.rowId] = hydrateRow(c.remote);
+              else delete latestServerRowsRef.current[c.rowId];
+          });
+
+          // Rows edited again while the save was in flight stay dirty
+          savingDirty.forEach((seq, id) => {
+              if (!conflictIds.has(id) && dirtyRowsRef.current.get(id) === seq) dirtyRowsRef.current.delete(id);
+          });
+          savingDeleted.forEach(id => {
+              if (!conflictIds.has(id)) deletedRowIdsRef.current.delete(id);
+          });
+          setRemoteChangedRowIds(findRemoteChanges());
+
+          if (conflicts.length > 0) {
+              setSaveStatus('conflict');
+              setPendingConflicts(conflicts);
+              return conflicts;
           }
 
-          await saveDailyAccounting(payload, auditEntry);
-          
           setSaveStatus('saved');
-          setHasUnsavedChanges(false);
-          hasUnsavedChangesRef.current = false;
+          if (dirtyRowsRef.current.size === 0 && deletedRowIdsRef.current.size === 0) {
+              setHasUnsavedChanges(false);
+              hasUnsavedChangesRef.current = false;
+          }
           
           setTimeout(() => setSaveStatus('idle'), 2000);
+          return [];
       } catch (e) {
           console.error(e);
           setSaveStatus('error');
           throw e; 
       }
-  }, [selectedClinicId, currentDate, dailyRecord?.isLocked, currentUser]);
+  }, [selectedClinicId, currentDate, dailyRecord?.isLocked, currentUser, findRemoteChanges, getBaseRows]);
 
-  const handleSyncCalendar = async () => {
-      if (isLocked) { alert("今日已結帳，無法同步。"); return; }
-      if (!selectedClinic?.googleCalendarMapping) { alert("此診所尚未設定 Google 日曆連結"); return; }
-      
-      setIsSyncing(true);
+  useEffect(() => {
+      const handleOnline = () => setIsOnline(true);
+      const handleOffline = () => setIsOnline(false);
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+      const unsubscribeQueue = subscribeQueue(setQueuedSaves);
+      return () => {
+          window.removeEventListener('online', handleOnline);
+          window.removeEventListener('offline', handleOffline);
+          unsubscribeQueue();
+      };
+  }, []);
+
+  // Other days go straight from the queue; the open day is saved through persistData so its conflicts reach the modal
+  const flushQueue = useCallback(async () => {
+      if (!navigator.onLine) return;
+      setIsReplaying(true);
       try {
-          const start = new Date(currentDate); start.setHours(0,0,0,0);
-          const end = new Date(currentDate); end.setHours(23,59,59,999);
-          const mapping = selectedClinic.googleCalendarMapping;
-          const currentRows = rowsRef.current;
-          
-          const existingManualRows = currentRows.filter(r => r.isManual);
-          const allEvents: any[] = [];
-
-          for (const doc of clinicDocs) {
-              const calendarId = mapping[doc.id];
-              if (calendarId) {
-                  const events = await listEvents(calendarId, start, end);
-                  events.forEach(ev => {
-                      if (!ev.allDay) {
-                          allEvents.push({ event: ev, doc });
-                      }
-                  });
-              }
-          }
+          await replayQueuedSaves(selectedClinicId ? { clinicId: selectedClinicId, date: currentDate } : undefined);
+          if (hasUnsavedChangesRef.current) setPendingFlush(true);
+      } catch (e) {
+          console.error("Queued save replay failed:", e);
+      } finally {
+          setIsReplaying(false);
+      }
+  }, [selectedClinicId, currentDate]);
 
-          const publicCalId = mapping['clinic_public'] || mapping['clinic_shared'];
-          if (publicCalId) {
-              const pEvents = await listEvents(publicCalId, start, end);
-              pEvents.forEach(ev => {
-                  if (!ev.allDay) {
-                      allEvents.push({ event: ev, isPublic: true });
-                  }
-              });
+  useEffect(() => {
+      if (isOnline) flushQueue();
+  }, [isOnline]);
+
+  // Firestore can be unreachable while the browser still reports online, so keep retrying
+  useEffect(() => {
+      if (!isOnline || queuedSaves.length === 0) return;
+      const timer = setInterval(flushQueue, 60000);
+      return () => clearInterval(timer);
+  }, [isOnline, queuedSaves.length, flushQueue]);
+
+  useEffect(() => {
+      if (!pendingFlush || !isOnline) return;
+      setPendingFlush(false);
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current)
+          .catch(e => console.error("Sync after reconnect failed:", e));
+  }, [pendingFlush, isOnline, persistData]);
+
+  const handleDiscardQueued = useCallback((entry: QueuedDaySave) => {
+      if (!confirm(`確定捨棄 ${entry.date} 尚未同步的變更嗎？此動作無法復原。`)) return;
+      removeQueuedSave(entry.clinicId, entry.date);
+      if (entry.clinicId !== selectedClinicId || entry.date !== currentDate) return;
+
+      // Fall back to the server copy of the open day
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      baseRowsRef.current = { ...latestServerRowsRef.current };
+      dirtyRowsRef.current = new Map();
+      deletedRowIdsRef.current = new Set();
+      hasUnsavedChangesRef.current = false;
+      setHasUnsavedChanges(false);
+      setRemoteChangedRowIds(new Set());
+      setRows(sortRows(Object.values(latestServerRowsRef.current)));
+      setExpenditures(dailyRecord?.expenditures || []);
+      setMealExpenses(dailyRecord?.mealExpenses || []);
+      setMealFund(dailyRecord?.mealFund || { initial: 0, added: 0 });
+      setSaveStatus('idle');
+  }, [selectedClinicId, currentDate, dailyRecord]);
+
+  const handleResolveConflicts = useCallback((resolutions: Record<string, ConflictResolution>) => {
+      let nextRows = [...rowsRef.current];
+
+      pendingConflicts.forEach(c => {
+          const remote = c.remote ? hydrateRow(c.remote) : null;
+          if (resolutions[c.rowId] === 'theirs') {
+              nextRows = nextRows.filter(r => r.id !== c.rowId);
+              if (remote) nextRows.push(remote);
+              dirtyRowsRef.current.delete(c.rowId);
+              deletedRowIdsRef.current.delete(c.rowId);
+          } else if (c.local) {
+              // Keep ours but rebase it on their version so the next save goes through
+              markRowDirty(c.rowId);
           }
+          if (remote) baseRowsRef.current[c.rowId] = remote;
+          else delete baseRowsRef.current[c.rowId];
+      });
 
-          const sortedEvents = allEvents.sort((a, b) => {
-              const getDocIndex = (item: any) => {
-                  if (item.isPublic) return 9999;
-                  const idx = clinicDocs.findIndex(d => d.id === item.doc.id);
-                  return idx === -1 ? 9998 : idx;
-              };
-              const idxA = getDocIndex(a);
-              const idxB = getDocIndex(b);
-              if (idxA !== idxB) return idxA - idxB;
-              return (a.event.start.dateTime || '').localeCompare(b.event.start.dateTime || '');
-          });
+      sortRows(nextRows);
+      rowsRef.current = nextRows;
+      setRows(nextRows);
+      setPendingConflicts([]);
+      setRemoteChangedRowIds(findRemoteChanges());
 
-          const processedCalendarRows = await Promise.all(sortedEvents.map(async (item, index) => {
-              const { event, doc, isPublic } = item;
-              const parsed = parseCalendarEvent(event.summary);
-              if (!parsed) return null;
+      hasUnsavedChangesRef.current = true;
+      setHasUnsavedChanges(true);
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      persistData(nextRows, expendituresRef.current, mealFundRef.current, mealExpensesRef.current)
+          .catch(e => console.error("Conflict resolution save failed:", e));
+  }, [pendingConflicts, markRowDirty, findRemoteChanges, persistData]);
 
-              let lastConsultant = '';
-              let finalChartId = parsed.chartId; 
+  const handleOpenRowConflict = useCallback((rowId: string) => {
+      setPendingConflicts([buildConflict(rowId)]);
+  }, [buildConflict]);
 
-              const existingRow = currentRows.find(r => r.id === event.id);
+  const handleOpenPlanModal = useCallback((row: AccountingRow) => {
+      setPlanModalRowId(row.id);
+  }, []);
 
-              if (!parsed.isNP && parsed.chartId) {
-                  try {
-                      const profile = await findPatientProfile(selectedClinicId, parsed.name, parsed.chartId);
-                      if (profile && profile.chartId === parsed.chartId) {
-                          if (profile.lastConsultant) lastConsultant = profile.lastConsultant;
-                      }
-                  } catch (e) {
-                      console.warn("CRM lookup failed", e);
+  const handleOpenReceipt = useCallback((row: AccountingRow) => {
+      setReceiptModalRowId(row.id);
+  }, []);
+
+  // Write-back to the appointment titles: always a dry run first, then only the changes left selected are sent
+  const handlePreviewWriteBack = async () => {
+      if (!selectedClinic?.googleCalendarMapping) { alert("此診所尚未設定日曆連結"); return; }
+      setWriteBackChanges([]);
+      setIsPlanningWriteBack(true);
+      try {
+          const start = new Date(currentDate); start.setHours(0,0,0,0);
+          const end = new Date(currentDate); end.setHours(23,59,59,999);
+          setWriteBackChanges(await buildWriteBackPlan(getCalendarProvider(selectedClinic.calendarProvider), rowsRef.current, selectedClinic.googleCalendarMapping, start, end, selectedClinic.titleGrammar));
+      } catch (e) {
+          console.error(e);
+          alert("讀取日曆失敗");
+          setWriteBackChanges(null);
+      } finally {
+          setIsPlanningWriteBack(false);
+      }
+  };
+
+  const handleConfirmWriteBack = async (changes: CalendarWriteBackChange[]) => {
+      const provider = getCalendarProvider(selectedClinic?.calendarProvider);
+      let failed = 0;
+      for (const change of changes) {
+          const ok = await provider.patchEvent(change.calendarId, change.eventId, { summary: change.toTitle });
+          if (!ok) failed++;
+      }
+      setWriteBackChanges(null);
+      if (failed > 0) alert(`已回寫 ${changes.length - failed} 筆，${failed} 筆失敗，請確認日曆帳號的寫入權限。`);
+      else alert(`✅ 已回寫 ${changes.length} 筆預約`);
+  };
+
+  const handleSyncCalendar = async () => {
+      if (isLocked) { alert("今日已結帳，無法同步。"); return; }
+      if (!selectedClinic?.googleCalendarMapping) { alert("此診所尚未設定日曆連結"); return; }
+      
+      setIsSyncing(true);
+      try {
+          const sources = getCalendarSources(selectedClinic.googleCalendarMapping, clinicDocs);
+          const { events, isFull, commit } = await fetchCalendarChanges(getCalendarProvider(selectedClinic.calendarProvider), selectedClinicId, currentDate, sources);
+          const report = buildSyncReport(rowsRef.current, events, currentDate, isFull, selectedClinic.titleGrammar);
+
+          if (isEmptySyncReport(report)) {
+              commit();
+              const unparsed = report.unparsed.length > 0
+                  ? `\n\n⚠️ ${report.unparsed.length} 筆預約標題無法解析，未匯入：\n` + report.unparsed.slice(0, 10).map(u => `• ${u.title}`).join('\n')
+                  : '';
+              alert("✅ 預約已是最新，沒有需要同步的變更" + unparsed);
+              return;
+          }
+
+          // New appointments pick up the consultant from the patient's CRM profile
+          report.added = await Promise.all(report.added.map(async row => {
+              if (row.npStatus === 'NP' || !row.chartId) return row;
+              try {
+                  const profile = await findPatientProfile(selectedClinicId, row.patientName, row.chartId);
+                  if (profile && profile.chartId === row.chartId && profile.lastConsultant) {
+                      return { ...row, treatments: { ...row.treatments, consultant: profile.lastConsultant } };
                   }
+              } catch (e) {
+                  console.warn("CRM lookup failed", e);
               }
-
-              const baseRow = hydrateRow(existingRow || {});
-
-              return {
-                  ...baseRow,
-                  id: event.id,
-                  patientName: parsed.name,
-                  doctorId: isPublic ? PUBLIC_DOCTOR.id : doc.id,
-                  doctorName: isPublic ? PUBLIC_DOCTOR.name : doc.name,
-                  treatmentContent: existingRow?.treatmentContent || "", 
-                  calendarTreatment: parsed.treatment, 
-                  npStatus: existingRow?.npStatus || (parsed.isNP ? 'NP' : ''),
-                  paymentMethod: existingRow?.paymentMethod || 'cash',
-                  isManual: false,
-                  isPublicCalendar: isPublic || false,
-                  attendance: existingRow?.attendance ?? true,
-                  startTime: event.start.dateTime || new Date().toISOString(),
-                  chartId: finalChartId || existingRow?.chartId || undefined, 
-                  treatments: {
-                      ...baseRow.treatments,
-                      consultant: lastConsultant || baseRow.treatments.consultant || ''
-                  },
-                  sortOrder: (index + 1) * 10
-              } as AccountingRow;
+              return row;
           }));
 
-          const validCalendarRows = processedCalendarRows.filter(Boolean) as AccountingRow[];
-          const finalCombined = [...validCalendarRows, ...existingManualRows];
-
-          setRows(finalCombined);
-          await persistData(finalCombined, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
-          
+          syncCommitRef.current = commit;
+          setSyncReport(report);
       } catch (e) {
           console.error(e);
           alert("同步失敗");
@@ -633,16 +898,35 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
       }
   };
 
+  const handleApplySyncReport = async (report: CalendarSyncReport) => {
+      if (isLocked) { alert("今日已結帳，無法同步。"); return; }
+      const { rows: nextRows, changedIds } = applySyncReport(rowsRef.current, report, clinicDocs.map(d => d.id));
+      changedIds.forEach(id => markRowDirty(id));
+      hasUnsavedChangesRef.current = true;
+      setHasUnsavedChanges(true);
+
+      setRows(nextRows);
+      syncCommitRef.current?.();
+      syncCommitRef.current = null;
+      setSyncReport(null);
+      await persistData(nextRows, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
+      recordCalendarCancellations(selectedClinicId, currentDate, report.removed.map(r => r.after))
+          .catch(e => console.error("Recording late cancellations failed", e));
+  };
+
   const handleAddRow = useCallback(() => {
       if (isLocked) return;
       hasUnsavedChangesRef.current = true;
       setHasUnsavedChanges(true);
 
+      const newId = crypto.randomUUID();
+      markRowDirty(newId);
+
       setRows(prevRows => {
           const maxSortOrder = Math.max(...prevRows.map(r => r.sortOrder || 0), 0);
           const newRow: AccountingRow = {
               ...hydrateRow({}),
-              id: crypto.randomUUID(),
+              id: newId,
               isManual: true,
               attendance: true,
               startTime: new Date().toISOString(),
@@ -659,7 +943,31 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
       saveTimeoutRef.current = setTimeout(() => {
           persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
       }, 10000);
-  }, [isLocked, persistData]);
+  }, [isLocked, persistData, markRowDirty]);
+
+  const handleAddRefundRow = useCallback((original: AccountingRow | null, reason: string) => {
+      if (isLocked) return;
+      setRefundModalData(null);
+      hasUnsavedChangesRef.current = true;
+      setHasUnsavedChanges(true);
+
+      const refundRow = createRefundRow(original, reason);
+      markRowDirty(refundRow.id);
+
+      setRows(prevRows => {
+          const maxSortOrder = Math.max(...prevRows.map(r => r.sortOrder || 0), 0);
+          return [...prevRows, { ...refundRow, startTime: new Date().toISOString(), sortOrder: maxSortOrder + 10 }];
+      });
+
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = setTimeout(() => {
+          persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
+      }, 10000);
+  }, [isLocked, persistData, markRowDirty]);
+
+  const handleOpenRefund = useCallback((row: AccountingRow) => {
+      setRefundModalData({ row: { ...row, originalDate: currentDate } });
+  }, [currentDate]);
 
   const handleManualSave = async () => {
       if (isLocked) { alert("已結帳鎖定，無法修改"); return; }
@@ -667,8 +975,9 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
       setIsManualSaving(true);
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
       try {
-          await persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
-          alert("✅ 儲存成功！");
+          const conflicts = await persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
+          if (getQueuedSave(selectedClinicId, currentDate)) alert("📴 目前無法連線，變更已暫存於本機，恢復連線後會自動同步。");
+          else if (conflicts.length === 0) alert("✅ 儲存成功！");
       } catch (error: any) {
           alert("❌ 儲存失敗: " + error.message);
       } finally {
@@ -677,6 +986,7 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
   };
 
   const handleRevokeNP = useCallback((rowId: string) => {
+    markRowDirty(rowId);
     hasUnsavedChangesRef.current = true;
     setHasUnsavedChanges(true);
     setRows(prevRows => prevRows.map(r => {
@@ -687,20 +997,19 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
     saveTimeoutRef.current = setTimeout(() => {
         persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
     }, 10000);
-  }, [persistData]);
+  }, [persistData, markRowDirty]);
 
   const updateRow = useCallback((id: string, updates: Partial<AccountingRow> | any) => {
       const isRestrictedField = Object.keys(updates).some(key => 
-          ['treatments', 'retail', 'patientName', 'paymentMethod', 'doctorId', 'chartId'].includes(key)
+          ['treatments', 'retail', 'patientName', 'paymentMethod', 'doctorId', 'chartId', 'planId'].includes(key)
       );
 
       if (isLocked && isRestrictedField) return;
 
+      markRowDirty(id);
       hasUnsavedChangesRef.current = true;
       setHasUnsavedChanges(true);
 
-      let diffStringForEffect: string | null = null;
-
       setRows(prevRows => {
           return prevRows.map(r => {
               if (r.id === id) {
@@ -768,7 +1077,6 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
                       }
                   }
 
-                  diffStringForEffect = calculateDiff(r, newRow);
                   return newRow;
               }
               return r;
@@ -777,9 +1085,9 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
 
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
       saveTimeoutRef.current = setTimeout(() => {
-          persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current, diffStringForEffect || undefined);
+          persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
       }, 10000);
-  }, [isLocked, clinicDocs, selectedClinicId, realtimeSovReferrals, currentDate, persistData, todaysNPRecords]);
+  }, [isLocked, clinicDocs, selectedClinicId, realtimeSovReferrals, currentDate, persistData, todaysNPRecords, markRowDirty]);
 
   const handleDeleteRow = useCallback(async (id: string) => {
       if (isLocked) return;
@@ -792,6 +1100,8 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
           await deleteNPRecord(id);
       } catch (e) {}
 
+      dirtyRowsRef.current.delete(id);
+      if (baseRowsRef.current[id]) deletedRowIdsRef.current.add(id);
       setRows(prevRows => prevRows.filter(r => r.id !== id));
       
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
@@ -878,21 +1188,25 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
 
   const handleLockDay = async () => {
       if (!currentUser || !selectedClinicId) return;
+      if (!navigator.onLine) { alert("目前離線，結帳需要連線，請恢復網路後再試。"); return; }
         
       if (hasUnsavedChanges) {
           try {
-              await persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
+              const conflicts = await persistData(rowsRef.current, expendituresRef.current, mealFundRef.current, mealExpensesRef.current);
+              if (conflicts.length > 0) {
+                  alert("有資料衝突尚未處理，請先選擇要保留的版本後再結帳。");
+                  return;
+              }
+              if (getQueuedSave(selectedClinicId, currentDate)) {
+                  alert("變更尚未同步到伺服器，無法結帳。請確認網路後再試。");
+                  return;
+              }
           } catch (e) {
               alert("自動存檔失敗，無法進行結帳。請稍後再試。");
               return; 
           }
       }
 
-      if (validationErrors.length > 0) {
-          alert("無法結帳，請檢查以下資料：\n\n" + validationErrors.join("\n"));
-          return; 
-      }
-
       if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
         
       setClosingError(null); 
@@ -910,10 +1224,10 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
       }
   };
 
-  const handleConfirmLock = async () => {
+  const handleConfirmLock = async (cashCount: CashCount) => {
       if (!currentUser || !selectedClinicId) return;
       try {
-          await lockDailyReport(currentDate, selectedClinicId, rowsRef.current, { uid: currentUser.uid, name: currentUser.email || 'User' });
+          await lockDailyReport(currentDate, selectedClinicId, { uid: currentUser.uid, name: currentUser.email || 'User' }, cashCount);
           setHasUnsavedChanges(false);
           hasUnsavedChangesRef.current = false;
           setIsClosingModalOpen(false); 
@@ -985,9 +1299,23 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
               </div>
 
               <div className="flex gap-2 items-center">
-                  {saveStatus === 'saving' && <span className="text-xs text-blue-500 font-bold animate-pulse">儲存中...</span>}
-                  {hasUnsavedChanges && saveStatus !== 'saving' && <span className="text-xs text-amber-600 font-bold">變更未儲存</span>}
-                  {!hasUnsavedChanges && saveStatus === 'saved' && <span className="text-xs text-emerald-600 font-bold">資料已儲存</span>}
+                  <SyncStatusIndicator
+                      isOnline={isOnline}
+                      saveStatus={saveStatus}
+                      hasUnsavedChanges={hasUnsavedChanges}
+                      queuedSaves={queuedSaves}
+                      currentClinicId={selectedClinicId}
+                      currentDate={currentDate}
+                      isReplaying={isReplaying}
+                      onRetry={flushQueue}
+                      onOpenDay={handleSafeDateChange}
+                      onDiscard={handleDiscardQueued}
+                  />
+                  {remoteChangedRowIds.size > 0 && (
+                      <button onClick={() => setPendingConflicts(Array.from(remoteChangedRowIds).map(buildConflict))} className="text-xs text-amber-700 bg-amber-50 border border-amber-200 px-2 py-1 rounded font-bold flex items-center gap-1 hover:bg-amber-100">
+                          <AlertCircle size={12} /> {remoteChangedRowIds.size} 列已被他人修改
+                      </button>
+                  )}
                     
                   {isLocked && (['admin', 'manager', 'team_leader'].includes(userRole || '')) && (
                       <button onClick={handleUnlockDay} disabled={isSyncing || isMonthLocked} className={`px-3 py-2 rounded-lg font-bold text-sm border flex items-center gap-2 transition-all ${isMonthLocked ? 'text-slate-400 cursor-not-allowed' : 'text-rose-500 hover:bg-rose-50'}`}>
@@ -996,9 +1324,13 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
                       </button>
                   )}
 
+                  <button onClick={() => setIsBacklogOpen(true)} className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100" title="結帳待辦"><ListChecks size={18} /></button>
                   <button onClick={() => setIsAuditModalOpen(true)} className="text-slate-400 hover:text-slate-600 p-2 rounded-full hover:bg-slate-100" title="異動紀錄"><History size={18} /></button>
                   <button onClick={handleManualSave} disabled={isManualSaving || isLocked} className="bg-emerald-600 text-white px-4 py-2 rounded-lg font-bold text-sm flex items-center gap-2 hover:bg-emerald-700 transition-colors shadow-sm disabled:opacity-50">{isManualSaving ? <Loader2 className="animate-spin" size={16}/> : <Save size={16}/>} 儲存</button>
                   <button onClick={handleSyncCalendar} disabled={isSyncing || isLocked} className="bg-blue-50 text-blue-600 px-4 py-2 rounded-lg font-bold text-sm flex items-center gap-2 hover:bg-blue-100 transition-colors disabled:opacity-50">{isSyncing ? <Loader2 className="animate-spin" size={16}/> : <RefreshCw size={16}/>} 同步預約</button>
+                  {selectedClinic?.calendarWriteBack && (
+                      <button onClick={handlePreviewWriteBack} disabled={isSyncing || isPlanningWriteBack} className="bg-blue-50 text-blue-600 px-4 py-2 rounded-lg font-bold text-sm flex items-center gap-2 hover:bg-blue-100 transition-colors disabled:opacity-50" title="將到診、病歷號與治療內容寫回預約標題">{isPlanningWriteBack ? <Loader2 className="animate-spin" size={16}/> : <CalendarCheck size={16}/>} 回寫日曆</button>
+                  )}
                   <button onClick={() => selectedClinic && exportDailyReportToExcel(selectedClinic.id, selectedClinic.name, currentDate, rows, expenditures, fullStaffList)} className="bg-slate-100 text-slate-600 px-4 py-2 rounded-lg font-bold text-sm flex items-center gap-2 hover:bg-slate-200 transition-colors"><FileSpreadsheet size={16} /> 匯出</button>
               </div>
           </div>
@@ -1013,6 +1345,7 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
                     <div className="text-3xl font-black tabular-nums">${totals.cashBalance.toLocaleString()}</div>
                 </div>
                 <div className="mt-4 pt-3 border-t border-emerald-500/50 text-[10px] text-emerald-100 font-medium flex justify-between relative z-10">
+                    <span>期初: ${initialCash.toLocaleString()}</span>
                     <span>現金收: ${totals.cashRevenue.toLocaleString()}</span>
                     <span>總支: -${totals.totalExpenditure.toLocaleString()}</span>
                 </div>
@@ -1064,7 +1397,7 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
                                 className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-3.5 px-6 rounded-xl font-bold text-lg flex items-center justify-center gap-3 shadow-lg shadow-indigo-200 hover:shadow-indigo-300 transition-all active:scale-95 disabled:opacity-70 disabled:scale-100"
                             >
                                 {isSyncing ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={20} />}
-                                同步 Google 日曆
+                                同步預約日曆
                             </button>
                             <div className="relative flex py-2 items-center">
                                 <div className="flex-grow border-t border-slate-200"></div>
@@ -1134,15 +1467,26 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
                                         consultantOptions={consultantOptions}
                                         staffOptions={staffOptions}
                                         npRec={todaysNPRecords[row.id]}
+                                        hasRemoteChange={remoteChangedRowIds.has(row.id)}
+                                        onOpenConflict={handleOpenRowConflict}
+                                        ruleConfig={ruleConfig}
                                         onUpdate={updateRow}
                                         onDelete={handleDeleteRow}
                                         onOpenNPModal={(r) => setNpModalData({ row: r })}
+                                        onOpenPlanModal={handleOpenPlanModal}
+                                        onRefund={handleOpenRefund}
+                                        onPrintReceipt={handleOpenReceipt}
                                     />
                                 ))}
                             </tbody>
                         </table>
                     </div>
-                    {!isLocked && (<button onClick={handleAddRow} className="w-full py-2 bg-slate-50 border-t border-slate-200 text-blue-600 font-bold text-sm hover:bg-blue-50 transition-colors flex items-center justify-center gap-1"><Plus size={16} /> 新增一列</button>)}
+                    {!isLocked && (
+                        <div className="flex border-t border-slate-200">
+                            <button onClick={handleAddRow} className="flex-1 py-2 bg-slate-50 text-blue-600 font-bold text-sm hover:bg-blue-50 transition-colors flex items-center justify-center gap-1"><Plus size={16} /> 新增一列</button>
+                            <button onClick={() => setRefundModalData({ row: null })} className="px-6 py-2 bg-slate-50 border-l border-slate-200 text-rose-600 font-bold text-sm hover:bg-rose-50 transition-colors flex items-center justify-center gap-1"><RotateCcw size={16} /> 新增退款</button>
+                        </div>
+                    )}
                 </>
             )}
         </div>
@@ -1232,11 +1576,66 @@ export const DailyAccounting: React.FC<Props> = ({ clinics, doctors, consultants
             onConfirm={handleConfirmLock} 
             date={currentDate} 
             clinicId={selectedClinicId} 
+            overShortThreshold={selectedClinic?.overShortThreshold}
             rows={rows} 
             totals={{ cash: totals.cashBalance, card: totals.cardRevenue, transfer: totals.transferRevenue, total: totals.netTotal }} 
+            cashFlow={{ initialCash, cashCollected: totals.cashRevenue, cashExpenditure: totals.totalExpenditure, mealSpending: mealStats.totalSpent }}
+            validationErrors={validationErrors}
+            validationWarnings={validationWarnings}
             unlockedDates={unlockedDates}
+            onOpenBacklog={() => { setIsClosingModalOpen(false); setIsBacklogOpen(true); }}
+        />
+        <CalendarWriteBackModal
+            isOpen={writeBackChanges !== null}
+            onClose={() => setWriteBackChanges(null)}
+            changes={writeBackChanges || []}
+            isLoading={isPlanningWriteBack}
+            onConfirm={handleConfirmWriteBack}
+        />
+        <CalendarSyncReportModal
+            report={syncReport}
+            onClose={() => { setSyncReport(null); syncCommitRef.current = null; }}
+            onApply={handleApplySyncReport}
+        />
+        <ClosingBacklogModal
+            isOpen={isBacklogOpen}
+            onClose={() => setIsBacklogOpen(false)}
+            clinicId={selectedClinicId}
+            {...getClosingBacklogRange(currentDate)}
+            ruleConfig={ruleConfig}
+            onOpenDay={handleSafeDateChange}
+            onLocked={(dates) => setUnlockedDates(prev => prev.filter(d => !dates.includes(d)))}
+        />
+        <RowConflictModal
+            isOpen={pendingConflicts.length > 0}
+            onClose={() => setPendingConflicts([])}
+            conflicts={pendingConflicts}
+            onResolve={handleResolveConflicts}
+        />
+        <AuditLogModal isOpen={isAuditModalOpen} onClose={() => setIsAuditModalOpen(false)} clinicId={selectedClinicId} date={currentDate} isLocked={isLocked} />
+        <RefundModal
+            isOpen={!!refundModalData}
+            onClose={() => setRefundModalData(null)}
+            clinicId={selectedClinicId}
+            initialRow={refundModalData?.row || null}
+            onConfirm={handleAddRefundRow}
+        />
+        <TreatmentPlanModal
+            isOpen={!!planModalRowId}
+            onClose={() => setPlanModalRowId(null)}
+            clinicId={selectedClinicId}
+            date={currentDate}
+            row={rows.find(r => r.id === planModalRowId) || null}
+            isLocked={isLocked}
+            onLink={(rowId, planId) => updateRow(rowId, { planId })}
+        />
+        <ReceiptModal
+            isOpen={!!receiptModalRowId}
+            onClose={() => setReceiptModalRowId(null)}
+            clinic={selectedClinic}
+            date={currentDate}
+            row={rows.find(r => r.id === receiptModalRowId) || null}
         />
-        <AuditLogModal isOpen={isAuditModalOpen} onClose={() => setIsAuditModalOpen(false)} logs={dailyRecord?.auditLog || []} />
         {npModalData && (
             <NPStatusModal 
                 isOpen={!!npModalData} 
@@ -5,18 +5,21 @@ import {
     fetchDashboardSnapshot, auth, 
     getMonthlyAccounting, CLINIC_ORDER, 
     getStaffList, db,
-    saveMonthlyTarget, deleteNPRecord, updateNPRecord, getMarketingTags, saveNPRecord, saveMarketingTags
+    saveMonthlyTarget, deleteNPRecord, updateNPRecord, getMarketingTags, saveNPRecord, saveMarketingTags, getNPSourceRules
 } from '../services/firebase';
-import { listEvents, initGoogleClient, authorizeCalendar } from '../services/googleCalendar';
+import { initGoogleClient, authorizeCalendar } from '../services/googleCalendar';
+import { getCalendarProvider } from '../services/calendarProvider';
 import { parseCalendarEvent, parseSourceFromNote } from '../utils/eventParser';
+import { buildNoShowReport, mergeAttendanceSummaries, formatRate } from '../utils/attendance';
 import { UnauthorizedPage } from '../components/UnauthorizedPage';
 import { NPStatusModal } from '../components/NPStatusModal';
+import { NPSourceRulesModal } from '../components/NPSourceRulesModal';
 import { 
     BarChart2, TrendingUp, Users, DollarSign, Calendar, 
     ArrowUpRight, ArrowDownRight, Loader2, 
     Trophy, Activity, Target, PieChart as PieChartIcon,
     Filter, LineChart, CheckCircle, Medal, Star, Trash2, Clock, AlertCircle, Info as InfoIcon,
-    Tag, MessageCircle, ShieldOff, RefreshCw, PlugZap, LayoutGrid
+    Tag, MessageCircle, ShieldOff, RefreshCw, PlugZap, LayoutGrid, ListFilter, UserX
 } from 'lucide-react';
 import { 
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
@@ -396,6 +399,7 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
     const [excludeNHI, setExcludeNHI] = useState(false);
 
     const [isSyncingNP, setIsSyncingNP] = useState(false);
+    const [isSourceRulesOpen, setIsSourceRulesOpen] = useState(false);
     const [isGoogleLoggedIn, setIsGoogleLoggedIn] = useState(false);
 
     // Column Filter States (for Raw Data Table)
@@ -411,6 +415,10 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
     const sortedClinics = useMemo(() => {
         return [...clinics].sort((a, b) => (CLINIC_ORDER[a.name] ?? 999) - (CLINIC_ORDER[b.name] ?? 999));
     }, [clinics]);
+
+    // The Google sign-in only matters while some clinic still reads its appointments from Google
+    const usesGoogleCalendar = useMemo(() => sortedClinics.some(c => c.googleCalendarMapping && getCalendarProvider(c.calendarProvider).type === 'google'), [sortedClinics]);
+    const isCalendarReady = isGoogleLoggedIn || !usesGoogleCalendar;
     
     const [snapshot, setSnapshot] = useState<{ current: ClinicMonthlySummary[], lastMonth: ClinicMonthlySummary[], lastYear: ClinicMonthlySummary[] }>({ current: [], lastMonth: [], lastYear: [] });
     const [monthlyRows, setMonthlyRows] = useState<Record<string, AccountingRow[]>>({});
@@ -719,6 +727,17 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
         return [...performanceMatrix].sort((a: any, b: any) => b.revenueRate - a.revenueRate);
     }, [performanceMatrix]);
 
+    // 7b. No-show Report (per clinic, then per doctor)
+    const noShowReport = useMemo(() => {
+        const byDoctor = buildNoShowReport(monthlyRows);
+        return sortedClinics
+            .map(c => {
+                const doctors = byDoctor.filter(r => r.clinicId === c.id);
+                return { id: c.id, name: c.name, doctors, total: mergeAttendanceSummaries(doctors.map(d => d.summary)) };
+            })
+            .filter(c => c.doctors.length > 0);
+    }, [monthlyRows, sortedClinics]);
+
     // 8. Self-Pay Analytics
     const selfPayAnalytics = useMemo(() => {
         const keys = ['implant', 'ortho', 'prostho', 'sov', 'inv', 'whitening', 'perio', 'otherSelfPay', 'retail'] as const;
@@ -912,27 +931,31 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
     // --- HANDLERS ---
 
     const handleSyncNP = async () => {
-        if (!isGoogleLoggedIn) { authorizeCalendar(); return; }
-        if (!confirm("確定要同步本月 Google 日曆中的 NP 資料嗎？")) return;
+        if (!isCalendarReady) { authorizeCalendar(); return; }
+        if (!confirm("確定要同步本月預約日曆中的 NP 資料嗎？")) return;
         setIsSyncingNP(true);
         try {
             const [y, m] = currentMonth.split('-').map(Number);
             const start = new Date(y, m - 1, 1);
             const end = new Date(y, m, 0, 23, 59, 59, 999);
+            const sourceRules = await getNPSourceRules();
             const batch = db.batch();
             let count = 0;
+            let unparsedCount = 0;
             const existingIds = new Set(npRecords.map(r => r.id));
 
             for (const clinic of sortedClinics) {
                 const mapping = clinic.googleCalendarMapping;
                 if (!mapping) continue;
+                const provider = getCalendarProvider(clinic.calendarProvider);
                 const calendarIds = Array.from<string>(new Set(Object.values(mapping)));
                 for (const calId of calendarIds) {
                     try {
-                        const events = await listEvents(calId, start, end);
+                        const events = await provider.listEvents(calId, start, end);
                         for (const ev of events) {
                             if (!ev.start.dateTime || existingIds.has(ev.id)) continue;
-                            const parsed = parseCalendarEvent(ev.summary);
+                            const parsed = parseCalendarEvent(ev.summary, clinic.titleGrammar);
+                            if (!parsed) unparsedCount++;
                             if (parsed && parsed.isNP) {
                                 let doctorName = '未知';
                                 const docEntry = Object.entries(mapping).find(([id, cid]) => cid === calId);
@@ -953,7 +976,7 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
                                     calendarNote: ev.description || '',
                                     doctorName,
                                     marketingTag: '矯正諮詢',
-                                    source: parseSourceFromNote(ev.description || ''),
+                                    source: parseSourceFromNote(ev.description || '', sourceRules, clinic.id),
                                     isVisited: false, isClosed: false, updatedAt: new Date().toISOString()
                                 }, { merge: true });
                                 count++; existingIds.add(ev.id);
@@ -962,8 +985,9 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
                     } catch (e) { console.error(`Failed to sync ${calId}`, e); }
                 }
             }
-            if (count > 0) { await batch.commit(); alert(`同步完成！共新增 ${count} 筆紀錄。`); }
-            else { alert("未在日曆中發現符合標註的新 NP 預約。"); }
+            const unparsedNote = unparsedCount > 0 ? `\n另有 ${unparsedCount} 筆預約標題無法解析，請檢查各診所的標題解析規則。` : '';
+            if (count > 0) { await batch.commit(); alert(`同步完成！共新增 ${count} 筆紀錄。${unparsedNote}`); }
+            else { alert(`未在日曆中發現符合標註的新 NP 預約。${unparsedNote}`); }
         } catch (e) { console.error(e); alert("同步發生錯誤。"); }
         finally { setIsSyncingNP(false); }
     };
@@ -1099,6 +1123,54 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
                             </table>
                         </div>
                     </div>
+
+                    {/* No-show Report */}
+                    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                        <div className="p-6 bg-slate-50 border-b border-slate-100 flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2"><UserX className="text-rose-500" /><h3 className="font-black text-slate-800 uppercase tracking-wider text-sm">爽約 / 臨時取消月報</h3></div>
+                            <span className="text-[10px] text-slate-400 font-bold">統計至昨日；臨時取消 = 看診前 24 小時內從日曆刪除</span>
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-left">
+                                <thead className="bg-white text-slate-400 font-bold uppercase text-[10px] border-b border-slate-100">
+                                    <tr>
+                                        <th className="px-6 py-4">診所 / 醫師</th>
+                                        <th className="px-6 py-4 text-right">預約</th>
+                                        <th className="px-6 py-4 text-right">到診</th>
+                                        <th className="px-6 py-4 text-right">爽約</th>
+                                        <th className="px-6 py-4 text-right">臨時取消</th>
+                                        <th className="px-6 py-4 text-center">爽約率</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-50">
+                                    {noShowReport.length === 0 ? (
+                                        <tr><td colSpan={6} className="px-6 py-8 text-center text-slate-400">本月尚無約診資料</td></tr>
+                                    ) : noShowReport.map(clinic => (
+                                        <React.Fragment key={clinic.id}>
+                                            <tr className="bg-slate-50/60 font-black text-slate-700">
+                                                <td className="px-6 py-3">{clinic.name}</td>
+                                                <td className="px-6 py-3 text-right tabular-nums">{clinic.total.appointments}</td>
+                                                <td className="px-6 py-3 text-right tabular-nums">{clinic.total.attended}</td>
+                                                <td className="px-6 py-3 text-right tabular-nums">{clinic.total.noShows}</td>
+                                                <td className="px-6 py-3 text-right tabular-nums">{clinic.total.lateCancels}</td>
+                                                <td className="px-6 py-3 text-center"><span className={`px-2 py-1 rounded-lg text-xs font-black tabular-nums border ${clinic.total.noShowRate >= 0.1 ? 'bg-rose-50 text-rose-700 border-rose-100' : 'bg-emerald-50 text-emerald-700 border-emerald-100'}`}>{formatRate(clinic.total.noShowRate)}</span></td>
+                                            </tr>
+                                            {clinic.doctors.map(d => (
+                                                <tr key={`${clinic.id}_${d.doctorId || d.doctorName}`} className="hover:bg-slate-50 transition-colors text-slate-600">
+                                                    <td className="px-6 py-2 pl-10">{d.doctorName}</td>
+                                                    <td className="px-6 py-2 text-right tabular-nums">{d.summary.appointments}</td>
+                                                    <td className="px-6 py-2 text-right tabular-nums">{d.summary.attended}</td>
+                                                    <td className="px-6 py-2 text-right tabular-nums">{d.summary.noShows}</td>
+                                                    <td className="px-6 py-2 text-right tabular-nums">{d.summary.lateCancels}</td>
+                                                    <td className={`px-6 py-2 text-center tabular-nums font-bold ${d.summary.noShowRate >= 0.1 ? 'text-rose-600' : 'text-slate-500'}`}>{formatRate(d.summary.noShowRate)}</td>
+                                                </tr>
+                                            ))}
+                                        </React.Fragment>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
                 </div>
             )}
 
@@ -1148,7 +1220,10 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
                             <div className="flex items-center gap-2"><label className="text-xs font-bold text-slate-500 uppercase">行銷:</label><select className="border border-slate-300 rounded-lg px-3 py-2 text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer min-w-[140px]" value={globalFilterTag} onChange={e => setGlobalFilterTag(e.target.value)}><option value="all">全部標籤</option>{tagOptions.map(({ tag, label }) => (<option key={tag} value={tag}>{label}</option>))}</select></div>
                             <label className="flex items-center gap-2 cursor-pointer bg-slate-50 px-3 py-2 rounded-lg border border-slate-200 hover:border-indigo-300 transition-all select-none group"><input type="checkbox" checked={excludeNHI} onChange={e => setExcludeNHI(e.target.checked)} className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500 border-slate-300" /><div className="flex items-center gap-1.5"><ShieldOff size={14} className={excludeNHI ? "text-rose-500" : "text-slate-400"} /><span className={`text-sm font-black ${excludeNHI ? "text-indigo-600" : "text-slate-500"}`}>排除健保</span></div></label>
                          </div>
-                         <button onClick={handleSyncNP} disabled={isSyncingNP} className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold shadow-sm transition-all active:scale-95 whitespace-nowrap ${isGoogleLoggedIn ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-50'}`}>{isSyncingNP ? <Loader2 size={16} className="animate-spin" /> : isGoogleLoggedIn ? <RefreshCw size={16} /> : <PlugZap size={16} />}{isGoogleLoggedIn ? '同步本月 NP' : '連結日曆'}</button>
+                         <div className="flex items-center gap-2">
+                         <button onClick={() => setIsSourceRulesOpen(true)} className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold shadow-sm transition-all active:scale-95 whitespace-nowrap bg-white border border-slate-200 text-slate-600 hover:bg-slate-50"><ListFilter size={16} />來源規則</button>
+                         <button onClick={handleSyncNP} disabled={isSyncingNP} className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold shadow-sm transition-all active:scale-95 whitespace-nowrap ${isCalendarReady ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-white border border-indigo-200 text-indigo-600 hover:bg-indigo-50'}`}>{isSyncingNP ? <Loader2 size={16} className="animate-spin" /> : isCalendarReady ? <RefreshCw size={16} /> : <PlugZap size={16} />}{isCalendarReady ? '同步本月 NP' : '連結日曆'}</button>
+                         </div>
                     </div>
 
                     {/* Row 1 */}
@@ -1240,6 +1315,8 @@ export const GroupDashboard: React.FC<Props> = ({ clinics, userRole }) => {
                 </div>
             )}
 
+            <NPSourceRulesModal isOpen={isSourceRulesOpen} onClose={() => setIsSourceRulesOpen(false)} clinics={sortedClinics} />
+
             {editingNP && (
                 <NPStatusModal 
                     isOpen={!!editingNP} 
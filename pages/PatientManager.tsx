@@ -1,14 +1,20 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
-    getPatients, migratePatientId, Patient, 
+    getPatients, migratePatientId, withPatientContacts, Patient, 
 } from '../services/firebase';
 import { useClinic } from '../contexts/ClinicContext';
+import { useAuth } from '../contexts/AuthContext';
 import { 
     Users, Search, RefreshCw, Loader2, Save, History, 
-    ArrowRight, AlertTriangle, Building2, ChevronDown
+    ArrowRight, AlertTriangle, Building2, ChevronDown, GitMerge, Contact, Phone, MessageCircle, CalendarClock, Filter
 } from 'lucide-react';
 import { PatientHistoryModal } from '../components/PatientHistoryModal';
+import { PatientMergeModal } from '../components/PatientMergeModal';
+import { PatientContactModal } from '../components/PatientContactModal';
+import { RecallModal } from '../components/RecallModal';
+import { SegmentModal } from '../components/SegmentModal';
+import { viewPatientContact, ageOn, GENDER_LABELS, CONTACT_FIELD_ACCESS } from '../utils/patients';
 
 // Badge Colors for Purchased Items
 const BADGE_COLORS: Record<string, string> = {
@@ -39,6 +45,8 @@ const getPurchasedItems = (patient: any): string[] => {
 
 export const PatientManager: React.FC = () => {
     const { selectedClinicId, clinics } = useClinic();
+    const { currentUser, userRole } = useAuth();
+    const canEditContact = CONTACT_FIELD_ACCESS[userRole]?.canEdit;
     
     // Local Clinic State for Filtering
     const [currentClinicId, setCurrentClinicId] = useState<string>(selectedClinicId || '');
@@ -64,6 +72,18 @@ export const PatientManager: React.FC = () => {
     const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
     const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
+    // Contact Details Modal
+    const [contactPatient, setContactPatient] = useState<Patient | null>(null);
+
+    // Duplicate Check Modal
+    const [isMergeOpen, setIsMergeOpen] = useState(false);
+
+    // Recall List Modal
+    const [isRecallOpen, setIsRecallOpen] = useState(false);
+
+    // Segment Builder Modal
+    const [isSegmentOpen, setIsSegmentOpen] = useState(false);
+
     // Sync local clinic state with global on mount/change if empty
     useEffect(() => {
         if (selectedClinicId && !currentClinicId) {
@@ -78,11 +98,12 @@ export const PatientManager: React.FC = () => {
         try {
             const startDoc = reset ? undefined : lastDoc;
             const res = await getPatients(currentClinicId, startDoc, search);
+            const loaded = await withPatientContacts(currentClinicId, res.patients, userRole);
             
             if (reset) {
-                setPatients(res.patients);
+                setPatients(loaded);
             } else {
-                setPatients(prev => [...prev, ...res.patients]);
+                setPatients(prev => [...prev, ...loaded]);
             }
             
             // If searching, we currently disable pagination cursor because sort orders might differ
@@ -98,7 +119,7 @@ export const PatientManager: React.FC = () => {
         } finally {
             setLoading(false);
         }
-    }, [currentClinicId, lastDoc]);
+    }, [currentClinicId, lastDoc, userRole]);
 
     // Handle Search Term Changes with Debounce
     useEffect(() => {
@@ -143,14 +164,14 @@ export const PatientManager: React.FC = () => {
              return;
         }
 
-        if (!confirm(`確定將病歷號從 "${patient.chartId || '無'}" 改為 "${tempIdValue}"？\n如果目標病歷號已存在，資料將會自動合併 (Merge)。`)) {
+        if (!confirm(`確定將病歷號從 "${patient.chartId || '無'}" 改為 "${tempIdValue}"？\n歷史日報表會一併改為新病歷號；如果目標病歷號已存在，資料將會自動合併 (Merge)。`)) {
             setEditingId(null);
             return;
         }
 
         setProcessingId(patient.docId);
         try {
-            await migratePatientId(patient.docId, tempIdValue, patient.clinicId);
+            await migratePatientId(patient.docId, tempIdValue, patient.clinicId, { uid: currentUser?.uid || 'unknown', name: currentUser?.email || 'User' });
             // Reload to reflect changes
             await loadData(true, searchTerm);
         } catch (e: any) {
@@ -207,7 +228,7 @@ export const PatientManager: React.FC = () => {
                             <input 
                                 type="text" 
                                 className="w-full pl-10 pr-4 py-2 border rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
-                                placeholder="輸入姓名或病歷號..."
+                                placeholder="輸入姓名、病歷號或電話..."
                                 value={searchTerm}
                                 onChange={e => setSearchTerm(e.target.value)}
                             />
@@ -227,6 +248,30 @@ export const PatientManager: React.FC = () => {
                             <span className="text-sm font-bold text-slate-600">只顯示未設定病歷號</span>
                         </label>
 
+                        <button
+                            onClick={() => setIsMergeOpen(true)}
+                            disabled={!currentClinicId}
+                            className="bg-white hover:bg-slate-100 text-slate-600 px-3 py-2 rounded-lg border border-slate-300 transition-colors shadow-sm flex items-center gap-2 text-sm font-bold whitespace-nowrap disabled:opacity-50"
+                        >
+                            <GitMerge size={16} /> 重複檢查
+                        </button>
+
+                        <button
+                            onClick={() => setIsRecallOpen(true)}
+                            disabled={!currentClinicId}
+                            className="bg-white hover:bg-slate-100 text-slate-600 px-3 py-2 rounded-lg border border-slate-300 transition-colors shadow-sm flex items-center gap-2 text-sm font-bold whitespace-nowrap disabled:opacity-50"
+                        >
+                            <CalendarClock size={16} /> 回診提醒
+                        </button>
+
+                        <button
+                            onClick={() => setIsSegmentOpen(true)}
+                            disabled={!currentClinicId}
+                            className="bg-white hover:bg-slate-100 text-slate-600 px-3 py-2 rounded-lg border border-slate-300 transition-colors shadow-sm flex items-center gap-2 text-sm font-bold whitespace-nowrap disabled:opacity-50"
+                        >
+                            <Filter size={16} /> 分眾名單
+                        </button>
+
                         <button 
                             onClick={() => loadData(true, searchTerm)} 
                             className="bg-white hover:bg-slate-100 text-slate-600 p-2 rounded-lg border border-slate-300 transition-colors shadow-sm"
@@ -246,6 +291,7 @@ export const PatientManager: React.FC = () => {
                             <tr>
                                 <th className="px-6 py-4 w-48">病歷號 (Chart ID)</th>
                                 <th className="px-6 py-4 w-32">姓名</th>
+                                <th className="px-6 py-4 w-48">聯絡資料</th>
                                 <th className="px-6 py-4 w-32">最近看診</th>
                                 <th className="px-6 py-4">消費項目 (Purchased Items)</th>
                                 <th className="px-6 py-4 text-right w-24">詳細</th>
@@ -254,6 +300,7 @@ export const PatientManager: React.FC = () => {
                         <tbody className="divide-y divide-slate-100">
                             {displayedPatients.map(patient => {
                                 const purchasedItems = getPurchasedItems(patient);
+                                const contact = viewPatientContact(patient, userRole);
                                 return (
                                     <tr key={patient.docId} className="hover:bg-slate-50 transition-colors group">
                                         {/* Chart ID Column */}
@@ -288,6 +335,18 @@ export const PatientManager: React.FC = () => {
                                         {/* Name */}
                                         <td className="px-6 py-4 font-bold text-slate-800">{patient.name}</td>
 
+                                        {/* Contact (masked or hidden per role) */}
+                                        <td className="px-6 py-4 text-xs text-slate-600 space-y-0.5">
+                                            {contact.phone && <div className="flex items-center gap-1 font-mono"><Phone size={12} className="text-slate-400" /> {contact.phone}</div>}
+                                            {contact.lineId && <div className="flex items-center gap-1"><MessageCircle size={12} className="text-slate-400" /> {contact.lineId}</div>}
+                                            {(contact.birthday || patient.gender) && (
+                                                <div className="text-slate-400">
+                                                    {[patient.gender && GENDER_LABELS[patient.gender], contact.birthday && `${ageOn(contact.birthday)} 歲`].filter(Boolean).join(' · ')}
+                                                </div>
+                                            )}
+                                            {patient.marketingConsent && <span className="inline-block text-[10px] font-bold px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 border border-emerald-100">可行銷</span>}
+                                        </td>
+
                                         {/* Last Visit */}
                                         <td className="px-6 py-4 text-slate-500 font-mono">
                                             {patient.lastVisit || '-'}
@@ -308,7 +367,16 @@ export const PatientManager: React.FC = () => {
                                         </td>
 
                                         {/* Actions */}
-                                        <td className="px-6 py-4 text-right">
+                                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                                            {canEditContact && (
+                                                <button
+                                                    onClick={() => setContactPatient(patient)}
+                                                    className="text-slate-400 hover:text-indigo-600 transition-colors p-2 rounded-full hover:bg-indigo-50"
+                                                    title="編輯聯絡資料"
+                                                >
+                                                    <Contact size={18} />
+                                                </button>
+                                            )}
                                             <button 
                                                 onClick={() => openHistory(patient)}
                                                 className="text-slate-400 hover:text-indigo-600 transition-colors p-2 rounded-full hover:bg-indigo-50"
@@ -323,7 +391,7 @@ export const PatientManager: React.FC = () => {
                             
                             {displayedPatients.length === 0 && (
                                 <tr>
-                                    <td colSpan={5} className="p-12 text-center text-slate-400">
+                                    <td colSpan={6} className="p-12 text-center text-slate-400">
                                         {loading ? "搜尋中..." : showMissingIdOnly ? "太棒了！所有病患皆已設定病歷號。" : "無符合資料"}
                                     </td>
                                 </tr>
@@ -352,6 +420,34 @@ export const PatientManager: React.FC = () => {
                 onClose={() => setIsHistoryOpen(false)}
                 patient={selectedPatient}
             />
+
+            <PatientContactModal
+                isOpen={!!contactPatient}
+                onClose={() => setContactPatient(null)}
+                patient={contactPatient}
+                onSaved={() => loadData(true, searchTerm)}
+            />
+
+            <PatientMergeModal
+                isOpen={isMergeOpen}
+                onClose={() => setIsMergeOpen(false)}
+                clinicId={currentClinicId}
+                clinicName={clinics.find(c => c.id === currentClinicId)?.name}
+                onMerged={() => loadData(true, searchTerm)}
+            />
+
+            <RecallModal
+                isOpen={isRecallOpen}
+                onClose={() => setIsRecallOpen(false)}
+                clinic={clinics.find(c => c.id === currentClinicId)}
+            />
+
+            <SegmentModal
+                isOpen={isSegmentOpen}
+                onClose={() => setIsSegmentOpen(false)}
+                clinicId={currentClinicId}
+                clinicName={clinics.find(c => c.id === currentClinicId)?.name}
+            />
         </div>
     );
 };
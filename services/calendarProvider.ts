@@ -0,0 +1,67 @@
+import { CalendarEventDraft, CalendarProvider, CalendarProviderConfig, CalendarProviderType } from '../types';
+import { googleCalendarProvider } from './googleCalendar';
+import { getCalDavProvider, icsFileProvider } from './icsCalendar';
+import { rekeyDailyRow } from './firebase';
+
+export const CALENDAR_PROVIDER_OPTIONS: { type: CalendarProviderType; label: string; description: string }[] = [
+  { type: 'google', label: 'Google Calendar', description: '登入 Google 帳號後讀取醫師日曆' },
+  { type: 'caldav', label: 'CalDAV', description: 'iCloud、Nextcloud、Synology 等 CalDAV 伺服器' },
+  { type: 'ics', label: 'ICS 檔案', description: '匯入日曆匯出的 .ics 檔案 (僅存於此裝置，適合測試或離線使用)' }
+];
+
+/**
+ * The calendar backend configured for a clinic. Clinics without a config use Google, which is what
+ * every clinic had before providers were configurable.
+ */
+export const getCalendarProvider = (config?: CalendarProviderConfig | null): CalendarProvider => {
+  switch (config?.type) {
+    case 'caldav':
+      return getCalDavProvider(config.serverUrl || '');
+    case 'ics':
+      return icsFileProvider;
+    default:
+      return googleCalendarProvider;
+  }
+};
+
+/**
+ * Moves an appointment to another doctor's calendar and returns its event id afterwards.
+ * Without `moveEvent` the event is re-created under a new id, so the row of its original day
+ * (`date`) is re-keyed to follow it. Throws when the move failed; the appointment then stays
+ * in the old calendar, unless the message says otherwise.
+ */
+export const moveAppointment = async (
+  provider: CalendarProvider,
+  clinicId: string,
+  appointment: { id: string; calendarId: string; date: string },
+  toCalendarId: string,
+  fields: CalendarEventDraft
+): Promise<string> => {
+  if (provider.moveEvent) {
+    await provider.moveEvent(appointment.calendarId, appointment.id, toCalendarId);
+    const ok = await provider.patchEvent(toCalendarId, appointment.id, { ...fields, description: fields.description || '' });
+    if (!ok) throw new Error('預約已移至新醫師的日曆，但日曆拒絕了時間或內容的變更');
+    return appointment.id;
+  }
+
+  // Book there first, then free the old slot, undoing the booking if that fails
+  const movedId = (await provider.createEvent(toCalendarId, fields)).id;
+  try {
+    await provider.deleteEvent(appointment.calendarId, appointment.id);
+  } catch (err) {
+    try {
+      await provider.deleteEvent(toCalendarId, movedId);
+    } catch (undoErr) {
+      console.error('[moveAppointment] Undo failed', undoErr);
+      throw new Error(`預約同時存在於兩位醫師的日曆，請手動刪除其中一筆 (${(err as Error).message})`);
+    }
+    throw err;
+  }
+
+  try {
+    await rekeyDailyRow(clinicId, appointment.date, appointment.id, movedId);
+  } catch (err) {
+    throw new Error(`日曆已改約，但當日帳務列未能跟著更新 (${(err as Error).message})`);
+  }
+  return movedId;
+};
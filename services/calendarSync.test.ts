@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AccountingRow, CalendarEvent, CalendarProvider } from '../types';
+
+// The real module connects to Firebase on import; the sync only needs its row defaults
+vi.mock('./firebase', () => ({
+  hydrateRow: (row: any) => ({ treatments: {}, retail: {}, attendance: true, ...row })
+}));
+
+import { buildSyncReport, applySyncReport, buildWriteBackPlan, CalendarSource, PUBLIC_CALENDAR_DOCTOR } from './calendarSync';
+
+const DATE = '2026-10-19';
+const drChen: CalendarSource = { calendarId: 'cal-chen', doc: { id: 'doc-chen', name: '陳醫師' } };
+const drLin: CalendarSource = { calendarId: 'cal-lin', doc: { id: 'doc-lin', name: '林醫師' } };
+const shared: CalendarSource = { calendarId: 'cal-shared', isPublic: true };
+
+const event = (id: string, summary: string, time: string, fields: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id,
+  summary,
+  start: { dateTime: `${DATE}T${time}:00` },
+  end: { dateTime: `${DATE}T${time}:30` },
+  ...fields
+});
+
+const row = (id: string, fields: Partial<AccountingRow> = {}): AccountingRow => ({
+  id,
+  patientName: '王小明',
+  doctorName: '陳醫師',
+  doctorId: 'doc-chen',
+  chartId: '123456',
+  calendarTreatment: '洗牙',
+  npStatus: '',
+  isPublicCalendar: false,
+  isManual: false,
+  startTime: `${DATE}T10:00:00`,
+  attendance: true,
+  treatments: {},
+  retail: {},
+  ...fields
+} as AccountingRow);
+
+describe('buildSyncReport', () => {
+  it('adds a row for a new appointment of the day', () => {
+    const report = buildSyncReport([], [{ event: event('e1', '123456-王小明-洗牙', '10:00'), source: drChen }], DATE, false);
+
+    expect(report.added).toHaveLength(1);
+    expect(report.added[0]).toMatchObject({ id: 'e1', patientName: '王小明', chartId: '123456', doctorId: 'doc-chen', calendarTreatment: '洗牙' });
+    expect(report.updated).toEqual([]);
+    expect(report.removed).toEqual([]);
+  });
+
+  it('lists only the synced fields that changed and keeps what the front desk entered', () => {
+    const existing = row('e1', { treatmentContent: '洗牙+塗氟', paymentMethod: 'card' });
+    const report = buildSyncReport([existing], [{ event: event('e1', '123456-王小明-根管', '10:00'), source: drChen }], DATE, false);
+
+    expect(report.updated).toHaveLength(1);
+    expect(report.updated[0].fields).toEqual(['calendarTreatment']);
+    expect(report.updated[0].after).toMatchObject({ calendarTreatment: '根管', treatmentContent: '洗牙+塗氟', paymentMethod: 'card' });
+  });
+
+  it('reports nothing when the calendar matches the rows', () => {
+    const report = buildSyncReport([row('e1')], [{ event: event('e1', '123456-王小明-洗牙', '10:00'), source: drChen }], DATE, false);
+    expect(report.added).toEqual([]);
+    expect(report.updated).toEqual([]);
+    expect(report.removed).toEqual([]);
+  });
+
+  it('marks rows of deleted and moved appointments instead of removing them', () => {
+    const report = buildSyncReport(
+      [row('gone'), row('moved')],
+      [
+        { event: event('gone', '123456-王小明-洗牙', '10:00', { status: 'cancelled' }), source: drChen },
+        { event: { ...event('moved', '123456-王小明-洗牙', '10:00'), start: { dateTime: '2026-10-21T10:00:00' } }, source: drChen }
+      ],
+      DATE,
+      false
+    );
+
+    expect(report.removed.map(r => [r.before.id, r.after.calendarCancelled?.reason, r.after.calendarCancelled?.movedTo])).toEqual([
+      ['gone', 'deleted', undefined],
+      ['moved', 'moved', '2026-10-21']
+    ]);
+  });
+
+  it('follows an appointment moved to another doctor rather than cancelling it', () => {
+    const report = buildSyncReport(
+      [row('e1')],
+      [
+        { event: event('e1', '123456-王小明-洗牙', '10:00', { status: 'cancelled' }), source: drChen },
+        { event: event('e1', '123456-王小明-洗牙', '10:00'), source: drLin }
+      ],
+      DATE,
+      false
+    );
+
+    expect(report.removed).toEqual([]);
+    expect(report.updated).toHaveLength(1);
+    expect(report.updated[0].after).toMatchObject({ doctorId: 'doc-lin', doctorName: '林醫師' });
+  });
+
+  it('cancels calendar rows missing from a full listing but never manual rows', () => {
+    const manual = row('m1', { isManual: true });
+    const report = buildSyncReport([row('e1'), manual], [], DATE, true);
+    expect(report.removed.map(r => r.before.id)).toEqual(['e1']);
+
+    expect(buildSyncReport([row('e1'), manual], [], DATE, false).removed).toEqual([]);
+  });
+
+  it('lists titles the grammar cannot read and skips all-day events', () => {
+    const report = buildSyncReport(
+      [],
+      [
+        { event: event('lunch', '午休', '12:00'), source: drChen },
+        { event: { ...event('off', '123456-王小明-洗牙', '09:00'), allDay: true, start: { date: DATE } }, source: drChen }
+      ],
+      DATE,
+      false
+    );
+
+    expect(report.added).toEqual([]);
+    expect(report.unparsed).toEqual([{ eventId: 'lunch', title: '午休', startTime: `${DATE}T12:00:00` }]);
+  });
+});
+
+describe('applySyncReport', () => {
+  it('merges the report and renumbers calendar rows by doctor order and start time', () => {
+    const rows = [
+      row('chen-late', { startTime: `${DATE}T15:00:00`, sortOrder: 10 }),
+      row('manual', { isManual: true, sortOrder: 5 })
+    ];
+    const report = buildSyncReport(rows, [
+      { event: event('chen-late', '123456-王小明-洗牙', '15:00'), source: drChen },
+      { event: event('chen-early', '222222-李大同-補牙', '09:00'), source: drChen },
+      { event: event('lin', '333333-張三-拔牙', '08:00'), source: drLin },
+      { event: event('public', '444444-陳四-諮詢', '07:00'), source: shared }
+    ], DATE, false);
+
+    const { rows: merged, changedIds } = applySyncReport(rows, report, ['doc-chen', 'doc-lin']);
+
+    expect(merged.map(r => [r.id, r.sortOrder])).toEqual([
+      ['chen-early', 10],
+      ['chen-late', 20],
+      ['lin', 30],
+      ['public', 40],
+      ['manual', 5]
+    ]);
+    expect(merged.find(r => r.id === 'public')?.doctorId).toBe(PUBLIC_CALENDAR_DOCTOR.id);
+    expect(changedIds.sort()).toEqual(['chen-early', 'chen-late', 'lin', 'public']);
+  });
+
+  it('keeps cancelled rows in place with their mark', () => {
+    const rows = [row('e1', { sortOrder: 10 })];
+    const report = buildSyncReport(rows, [{ event: event('e1', '123456-王小明-洗牙', '10:00', { status: 'cancelled' }), source: drChen }], DATE, false);
+    const { rows: merged, changedIds } = applySyncReport(rows, report, ['doc-chen']);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].calendarCancelled?.reason).toBe('deleted');
+    expect(changedIds).toEqual(['e1']);
+  });
+});
+
+describe('buildWriteBackPlan', () => {
+  const provider = (events: CalendarEvent[]) => ({ listEvents: async () => events } as unknown as CalendarProvider);
+  const plan = (rows: AccountingRow[], events: CalendarEvent[]) =>
+    buildWriteBackPlan(provider(events), rows, { 'doc-chen': 'cal-chen' }, new Date(`${DATE}T00:00:00`), new Date(`${DATE}T23:59:59`));
+
+  it('marks arrival only on rows with a charge or treatment entered', async () => {
+    const events = ['waiting', 'paid', 'treated'].map(id => event(id, '123456-王小明-洗牙', '10:00'));
+    const changes = await plan([
+      row('waiting'),
+      row('paid', { treatments: { regFee: 150 } as AccountingRow['treatments'] }),
+      row('treated', { treatmentContent: '洗牙' })
+    ], events);
+
+    expect(changes.map(c => [c.rowId, c.toTitle])).toEqual([
+      ['paid', 'V123456-王小明-洗牙'],
+      ['treated', 'V123456-王小明-洗牙']
+    ]);
+  });
+
+  it('marks a no-show once attendance is unticked', async () => {
+    const changes = await plan([row('e1', { attendance: false })], [event('e1', 'V123456-王小明-洗牙', '10:00')]);
+    expect(changes.map(c => c.toTitle)).toEqual(['X123456-王小明-洗牙']);
+  });
+});
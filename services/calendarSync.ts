@@ -0,0 +1,276 @@
+import { AccountingRow, CalendarEvent, CalendarProvider, CalendarSyncReport, CalendarWriteBackChange, TitleGrammar } from '../types';
+import { hydrateRow } from './firebase';
+import { parseCalendarEvent, formatCalendarTitle, applyAttendanceMark } from '../utils/eventParser';
+import { hasRecordedArrival } from '../utils/attendance';
+
+// Per device: when each calendar was last synced for a clinic/day. Another device syncing the same day
+// only means we ask Google for a few changes we already have, which the diff below ignores.
+const STORAGE_KEY = 'dental_calendar_sync_v1';
+// Older watermarks are dropped and the day is listed in full again
+const MAX_WATERMARK_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+// Margin for clock differences between this device and Google
+const WATERMARK_SKEW_MS = 60 * 1000;
+
+export const PUBLIC_CALENDAR_DOCTOR = { id: 'clinic_public', name: '診所 (Public)' };
+
+export interface CalendarSource {
+  calendarId: string;
+  doc?: { id: string; name: string };
+  isPublic?: boolean;
+}
+
+interface SourcedEvent {
+  event: CalendarEvent;
+  source: CalendarSource;
+}
+
+type WatermarkStore = Record<string, Record<string, number>>;
+
+const readWatermarks = (): WatermarkStore => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const dayKey = (clinicId: string, date: string) => `${clinicId}_${date}`;
+
+const localDate = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Doctor calendars in the clinic's doctor order, the shared calendar last
+export const getCalendarSources = (mapping: Record<string, string>, clinicDocs: { id: string; name: string }[]): CalendarSource[] => {
+  const sources: CalendarSource[] = clinicDocs
+    .filter(doc => mapping[doc.id])
+    .map(doc => ({ calendarId: mapping[doc.id], doc: { id: doc.id, name: doc.name } }));
+  const publicCalId = mapping['clinic_public'] || mapping['clinic_shared'];
+  if (publicCalId) sources.push({ calendarId: publicCalId, isPublic: true });
+  return sources;
+};
+
+/**
+ * Fetches what changed on the day's calendars since this device last synced them. Without a usable
+ * watermark for every calendar, or with a provider that cannot list changes, the whole day is listed
+ * instead (`isFull`), which also lets rows whose event silently left the day be detected.
+ * `commit` stores the new watermarks once the result is applied.
+ */
+export const fetchCalendarChanges = async (
+  provider: CalendarProvider,
+  clinicId: string,
+  date: string,
+  sources: CalendarSource[]
+): Promise<{ events: SourcedEvent[]; isFull: boolean; commit: () => void }> => {
+  const startedAt = Date.now();
+  const marks = readWatermarks()[dayKey(clinicId, date)] || {};
+  const canIncrement = provider.incremental && sources.length > 0 && sources.every(s => marks[s.calendarId] && startedAt - marks[s.calendarId] < MAX_WATERMARK_AGE_MS);
+
+  const dayStart = new Date(date); dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(date); dayEnd.setHours(23, 59, 59, 999);
+
+  const listAll = async (options: (s: CalendarSource) => { timeMin?: Date; timeMax?: Date; updatedMin?: Date }) => {
+    const events: SourcedEvent[] = [];
+    for (const source of sources) {
+      const list = await provider.listEventChanges(source.calendarId, options(source));
+      list.forEach(event => events.push({ event, source }));
+    }
+    return events;
+  };
+
+  let events: SourcedEvent[];
+  let isFull = !canIncrement;
+  if (canIncrement) {
+    try {
+      events = await listAll(s => ({ updatedMin: new Date(marks[s.calendarId] - WATERMARK_SKEW_MS) }));
+    } catch (e) {
+      console.warn('[CalendarSync] Incremental listing failed, listing the whole day', e);
+      isFull = true;
+    }
+  }
+  if (isFull) events = await listAll(() => ({ timeMin: dayStart, timeMax: dayEnd }));
+
+  const commit = () => {
+    const store = readWatermarks();
+    store[dayKey(clinicId, date)] = Object.fromEntries(sources.map(s => [s.calendarId, startedAt]));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  };
+
+  return { events: events!, isFull, commit };
+};
+
+const rowFromEvent = (event: CalendarEvent, source: CalendarSource, grammar?: TitleGrammar | null, existing?: AccountingRow): AccountingRow | null => {
+  const parsed = parseCalendarEvent(event.summary, grammar);
+  if (!parsed) return null;
+  const base = hydrateRow(existing || {});
+  return {
+    ...base,
+    id: event.id,
+    patientName: parsed.name,
+    doctorId: source.isPublic ? PUBLIC_CALENDAR_DOCTOR.id : source.doc!.id,
+    doctorName: source.isPublic ? PUBLIC_CALENDAR_DOCTOR.name : source.doc!.name,
+    treatmentContent: existing?.treatmentContent || '',
+    calendarTreatment: parsed.treatment,
+    npStatus: existing?.npStatus || (parsed.isNP ? 'NP' : ''),
+    paymentMethod: existing?.paymentMethod || 'cash',
+    isManual: false,
+    isPublicCalendar: source.isPublic || false,
+    attendance: existing?.attendance ?? true,
+    startTime: event.start.dateTime || existing?.startTime || new Date().toISOString(),
+    chartId: parsed.chartId || existing?.chartId || undefined,
+    calendarCancelled: undefined
+  } as AccountingRow;
+};
+
+const SYNCED_FIELDS: (keyof AccountingRow)[] = ['patientName', 'doctorId', 'calendarTreatment', 'startTime', 'chartId', 'npStatus', 'isPublicCalendar', 'calendarCancelled'];
+
+/**
+ * Compares calendar events with the day's rows. Nothing is removed: rows whose appointment was
+ * deleted or moved to another day are flagged with `calendarCancelled` instead. Titles the clinic's
+ * grammar cannot read are listed in `unparsed` and leave their rows untouched.
+ */
+export const buildSyncReport = (rows: AccountingRow[], events: SourcedEvent[], date: string, isFull: boolean, grammar?: TitleGrammar | null): CalendarSyncReport => {
+  const report: CalendarSyncReport = { added: [], updated: [], removed: [], isFull, unparsed: [] };
+  const rowMap = new Map(rows.map(r => [r.id, r]));
+  const now = new Date().toISOString();
+
+  // An event moved to another doctor shows up as cancelled in the old calendar and live in the new one
+  const latest = new Map<string, SourcedEvent>();
+  events.forEach(item => {
+    const prev = latest.get(item.event.id);
+    if (!prev || prev.event.status === 'cancelled') latest.set(item.event.id, item);
+  });
+
+  const cancel = (row: AccountingRow, reason: 'deleted' | 'moved', movedTo?: string) => {
+    if (row.isManual || row.calendarCancelled?.reason === reason && row.calendarCancelled?.movedTo === movedTo) return;
+    report.removed.push({ before: row, after: { ...row, calendarCancelled: { reason, movedTo, at: now } } });
+  };
+
+  latest.forEach(({ event, source }) => {
+    const existing = rowMap.get(event.id);
+
+    if (event.status === 'cancelled') {
+      if (existing) cancel(existing, 'deleted');
+      return;
+    }
+    if (event.allDay || !event.start.dateTime) return;
+
+    const eventDate = localDate(event.start.dateTime);
+    if (eventDate !== date) {
+      if (existing) cancel(existing, 'moved', eventDate);
+      return;
+    }
+
+    const next = rowFromEvent(event, source, grammar, existing);
+    if (!next) {
+      report.unparsed.push({ eventId: event.id, title: event.summary, startTime: event.start.dateTime });
+      return;
+    }
+    if (!existing) {
+      report.added.push(next);
+      return;
+    }
+    const fields = SYNCED_FIELDS.filter(f => JSON.stringify(existing[f] ?? null) !== JSON.stringify(next[f] ?? null));
+    if (fields.length > 0) report.updated.push({ before: existing, after: next, fields });
+  });
+
+  // A full listing shows the whole day, so calendar rows missing from it left the day
+  if (isFull) {
+    rows.forEach(row => {
+      if (!row.isManual && !row.calendarCancelled && !latest.has(row.id)) cancel(row, 'deleted');
+    });
+  }
+
+  return report;
+};
+
+export const isEmptySyncReport = (report: CalendarSyncReport) =>
+  report.added.length === 0 && report.updated.length === 0 && report.removed.length === 0;
+
+/**
+ * Merges the report into the rows and renumbers the calendar rows by doctor and start time
+ * (manual rows keep their own order). Returns the ids whose content changed.
+ */
+export const applySyncReport = (rows: AccountingRow[], report: CalendarSyncReport, doctorOrder: string[]) => {
+  const byId = new Map(rows.map(r => [r.id, r]));
+  const changed = new Set<string>();
+  [...report.added, ...report.updated.map(u => u.after), ...report.removed.map(r => r.after)].forEach(row => {
+    byId.set(row.id, row);
+    changed.add(row.id);
+  });
+
+  const docIndex = (row: AccountingRow) => {
+    if (row.doctorId === PUBLIC_CALENDAR_DOCTOR.id) return 9999;
+    const idx = doctorOrder.indexOf(row.doctorId);
+    return idx === -1 ? 9998 : idx;
+  };
+
+  const all = Array.from(byId.values());
+  const calendarRows = all
+    .filter(r => !r.isManual)
+    .sort((a, b) => docIndex(a) - docIndex(b) || (a.startTime || '').localeCompare(b.startTime || ''))
+    .map((row, index) => {
+      const sortOrder = (index + 1) * 10;
+      if (row.sortOrder === sortOrder) return row;
+      changed.add(row.id);
+      return { ...row, sortOrder };
+    });
+
+  return { rows: [...calendarRows, ...all.filter(r => r.isManual)], changedIds: Array.from(changed) };
+};
+
+/**
+ * Dry run of the accounting -> calendar write-back: for every calendar row of the day, the title its
+ * event would get from the row's attendance, chart ID, name and treatment. Unchanged titles are left out.
+ * The attendance mark is only written once it is known: a no-show unticked, or an arrival with something
+ * entered for the visit; patients still expected keep the status they have.
+ */
+export const buildWriteBackPlan = async (
+  provider: CalendarProvider,
+  rows: AccountingRow[],
+  mapping: Record<string, string>,
+  timeMin: Date,
+  timeMax: Date,
+  grammar?: TitleGrammar | null
+): Promise<CalendarWriteBackChange[]> => {
+  // Rows may have been moved to another doctor, so look events up across every mapped calendar
+  const calendarIds = Array.from(new Set(Object.values(mapping).filter(Boolean)));
+  const events = new Map<string, { calendarId: string; event: CalendarEvent }>();
+  for (const calendarId of calendarIds) {
+    const list = await provider.listEvents(calendarId, timeMin, timeMax);
+    list.forEach(event => events.set(event.id, { calendarId, event }));
+  }
+
+  const changes: CalendarWriteBackChange[] = [];
+  rows.forEach(row => {
+    if (row.isManual || row.rowType === 'refund') return;
+    const found = events.get(row.id);
+    if (!found) return;
+    const parsed = parseCalendarEvent(found.event.summary, grammar);
+    if (!parsed) return;
+
+    const chartId = row.chartId || parsed.chartId;
+    const baseStatus = parsed.isNP ? '' : parsed.status;
+    const isRecorded = row.attendance === false || hasRecordedArrival(row);
+    const toTitle = formatCalendarTitle({
+      chartId,
+      name: row.patientName || parsed.name,
+      treatment: row.treatmentContent || parsed.treatment,
+      status: chartId && isRecorded ? applyAttendanceMark(baseStatus, row.attendance !== false) : baseStatus
+    });
+    if (toTitle === found.event.summary) return;
+    // A clinic grammar that cannot read the standard title back would lose the appointment on the next sync
+    if (grammar?.patterns?.length && !parseCalendarEvent(toTitle, grammar)) return;
+
+    changes.push({
+      rowId: row.id,
+      calendarId: found.calendarId,
+      eventId: row.id,
+      patientName: row.patientName,
+      fromTitle: found.event.summary,
+      toTitle
+    });
+  });
+  return changes;
+};
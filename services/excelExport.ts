@@ -1,5 +1,6 @@
 import * as ExcelJSModule from 'exceljs';
 import { AccountingRow, Expenditure, NPRecord, Consultant } from '../types';
+import { SegmentExportRow } from '../utils/segments';
 import { db } from './firebase';
 
 // Defensive import strategy for ExcelJS
@@ -358,4 +359,52 @@ export const exportDailyReportToExcel = async (
   a.download = `${clinicName}_日報表_${dateStr}.xlsx`;
   a.click();
   window.URL.revokeObjectURL(url);
-};
\ No newline at end of file
+};
+
+const SEGMENT_COLUMNS: { key: keyof SegmentExportRow; header: string; width: number }[] = [
+  { key: 'chartId', header: '病歷號', width: 12 },
+  { key: 'name', header: '姓名', width: 12 },
+  { key: 'phone', header: '電話', width: 16 },
+  { key: 'lineId', header: 'LINE ID', width: 16 },
+  { key: 'gender', header: '性別', width: 6 },
+  { key: 'birthday', header: '生日', width: 12 },
+  { key: 'lastVisit', header: '最近看診', width: 12 },
+  { key: 'totalSpending', header: '累計消費', width: 12 }
+];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+// Rows come from buildSegmentExport, which has already dropped non-consenting patients and masked by role
+export const exportPatientSegment = async (fileBase: string, rows: SegmentExportRow[], format: 'csv' | 'xlsx') => {
+  if (format === 'csv') {
+    const escape = (v: string | number) => {
+      // Text starting like a formula is prefixed so Excel shows it as text; numbers stay numbers
+      const text = typeof v === 'string' && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const lines = [
+      SEGMENT_COLUMNS.map(c => c.header).join(','),
+      ...rows.map(r => SEGMENT_COLUMNS.map(c => escape(r[c.key])).join(','))
+    ];
+    // BOM so Excel opens the Chinese headers as UTF-8
+    downloadBlob(new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), `${fileBase}.csv`);
+    return;
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('名單');
+  sheet.columns = SEGMENT_COLUMNS.map(c => ({ header: c.header, key: c.key, width: c.width }));
+  rows.forEach(r => sheet.addRow(r));
+  sheet.getRow(1).font = { name: 'Microsoft JhengHei', bold: true };
+  sheet.getColumn('totalSpending').numFmt = '#,##0';
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${fileBase}.xlsx`);
+};
@@ -3,7 +3,16 @@ import firebase from "firebase/compat/app";
 import "firebase/compat/auth";
 import "firebase/compat/firestore";
 import "firebase/compat/storage";
-import { AppData, DailyAccountingRecord, AccountingRow, TechnicianRecord, MonthlyTarget, Clinic, NHIRecord, SalaryAdjustment, Consultant, InsuranceGrade, User, UserRole, Doctor, Laboratory, SOVReferral, DailySchedule, AuditLogEntry, NPRecord, ClinicMonthlySummary, MonthlyClosing, SalaryRecord } from '../types';
+import { AppData, DailyAccountingRecord, AccountingRow, TechnicianRecord, MonthlyTarget, Clinic, NHIRecord, SalaryAdjustment, Consultant, InsuranceGrade, User, UserRole, Doctor, Laboratory, SOVReferral, DailySchedule, AuditLogEntry, NPRecord, ClinicMonthlySummary, MonthlyClosing, SalaryRecord, DailyRowChanges, RowConflict, CashCount, TreatmentPlan, PlanBalance, Receipt, ClosingBacklogDay, RuleSeverity, CalendarProviderConfig, TitleGrammar, NPSourceRule, OperatoryAssignment, PatientAttendanceEvent, ReminderLogEntry, WaitlistEntry, PatientTimelineEntry, PatientContact, RecallCategory, RecallEntry, RecallRule, RecallStatus, PatientSegment } from '../types';
+import { buildPlanBalances } from '../utils/receivables';
+import { buildReceiptItems, formatReceiptNo } from '../utils/receipt';
+import { evaluateRow } from '../utils/validationRules';
+import { mergeDailyRows } from '../utils/rowMerge';
+import { DEFAULT_NP_SOURCE_RULES } from '../utils/eventParser';
+import { getAttendanceOutcome, attendanceLogKey } from '../utils/attendance';
+import { normalizePhone, isPhoneLike, maskPhone, maskLineId, CONTACT_FIELD_ACCESS } from '../utils/patients';
+import { rowTimelineEntry, npTimelineEntry, labTimelineEntry, sovTimelineEntry, sortTimeline } from '../utils/timeline';
+import { rowRecallCategories, findDueRecalls, hasReturned, addMonths, RECALL_LOOKBACK_MONTHS } from '../utils/recalls';
 
 // --- CONFIGURATION STRATEGY: HOSTNAME SWITCHING ---
 
@@ -45,6 +54,12 @@ auth.setPersistence(firebase.auth.Auth.Persistence.LOCAL).catch((error) => {
   console.error("Firebase Auth Persistence Error:", error);
 });
 
+// Cache reads in IndexedDB so an open day still loads when the front desk drops off Wi-Fi.
+// Writes made offline go through services/offlineQueue instead (transactions need the server).
+db.enablePersistence({ synchronizeTabs: true }).catch((error) => {
+  console.warn("Firestore offline cache unavailable:", error.code);
+});
+
 export const googleProvider = new firebase.auth.GoogleAuthProvider();
 
 // --- CONSTANTS ---
@@ -173,6 +188,68 @@ export const hydrateRow = (row: any): AccountingRow => {
     };
 };
 
+export const isRefundRow = (row: Pick<AccountingRow, 'rowType'>) => row.rowType === 'refund';
+
+/**
+ * Builds a refund row reversing `original` (or a blank adjustment when there is no original).
+ * Amounts are copied negated so the user only has to trim them for a partial refund; the
+ * doctor, consultant and plan carry over so commissions, bonuses and balances are reduced
+ * for the same people and contracts that were credited with the payment.
+ */
+export const createRefundRow = (original: AccountingRow | null, reason: string): AccountingRow => {
+    const neg = (v: any) => -Math.abs(Number(v) || 0);
+    const base = hydrateRow({});
+    const row: AccountingRow = {
+        ...base,
+        id: crypto.randomUUID(),
+        rowType: 'refund',
+        refundReason: reason,
+        isManual: true,
+        attendance: false, // Not a visit
+        chartId: null,
+        patientStatus: '',
+        paymentBreakdown: { cash: 0, card: 0, transfer: 0 }
+    };
+    if (!original) return row;
+
+    const t = original.treatments;
+    const r = original.retail;
+    return {
+        ...row,
+        patientName: original.patientName,
+        chartId: original.chartId,
+        doctorId: original.doctorId,
+        doctorName: original.doctorName,
+        paymentMethod: original.paymentMethod || 'cash',
+        treatmentContent: original.treatmentContent,
+        planId: original.planId,
+        refundOf: { rowId: original.id, date: original.originalDate || '' },
+        treatments: {
+            regFee: neg(t.regFee), copayment: neg(t.copayment), prostho: neg(t.prostho), implant: neg(t.implant),
+            ortho: neg(t.ortho), sov: neg(t.sov), inv: neg(t.inv), perio: neg(t.perio), whitening: neg(t.whitening),
+            otherSelfPay: neg(t.otherSelfPay), consultant: t.consultant || ''
+        },
+        retail: { diyWhitening: neg(r.diyWhitening), products: neg(r.products), productNote: r.productNote || '', staff: r.staff || '' }
+    };
+};
+
+// Derived totals of a row, from its treatment and retail amounts
+export const computeRowTotals = (row: AccountingRow): Pick<AccountingRow, 'actualCollected' | 'paymentBreakdown'> => {
+    const n = (v: any) => (isNaN(Number(v)) ? 0 : Number(v));
+    const t = row.treatments;
+    const r = row.retail;
+    const total = n(t.regFee) + n(t.copayment) +
+                  n(t.prostho) + n(t.implant) + n(t.ortho) + n(t.sov) + n(t.inv) + n(t.perio) + n(t.whitening) + n(t.otherSelfPay) +
+                  n(r.products) + n(r.diyWhitening);
+
+    const paymentBreakdown = { cash: 0, card: 0, transfer: 0 };
+    if (row.paymentMethod === 'card') paymentBreakdown.card = total;
+    else if (row.paymentMethod === 'transfer') paymentBreakdown.transfer = total;
+    else paymentBreakdown.cash = total;
+
+    return { actualCollected: total, paymentBreakdown };
+};
+
 export const uploadImage = async (file: File, path: string): Promise<string> => {
   const ref = storage.ref(path);
   await ref.put(file);
@@ -305,6 +382,21 @@ export const updateClinicCalendarMapping = async (clinicId: string, mapping: Rec
     });
 };
 
+export const updateClinicCalendarWriteBack = async (clinicId: string, enabled: boolean) => {
+    await db.collection('clinics').doc(clinicId).update({ calendarWriteBack: enabled });
+};
+
+export const updateClinicCalendarProvider = async (clinicId: string, config: CalendarProviderConfig) => {
+    await db.collection('clinics').doc(clinicId).update({ calendarProvider: deepSanitize(config) });
+};
+
+// null goes back to the built-in title parser
+export const updateClinicTitleGrammar = async (clinicId: string, grammar: TitleGrammar | null) => {
+    await db.collection('clinics').doc(clinicId).update({
+        titleGrammar: grammar ? deepSanitize(grammar) : firebase.firestore.FieldValue.delete()
+    });
+};
+
 export const saveDoctors = async (clinicId: string, doctors: Doctor[]) => {
     const sanitizedDoctors = deepSanitize(doctors);
     await db.collection('clinics').doc(clinicId).update({ doctors: sanitizedDoctors });
@@ -427,14 +519,197 @@ export const saveRolePermissions = async (perms: Record<string, string[]>) => {
 };
 
 // --- DAILY ACCOUNTING ---
+// Day documents (daily_accounting/{clinicId}_{date}) hold day-level fields only (cash, expenditures, meals, lock, audit).
+// Each AccountingRow lives in daily_accounting/{clinicId}_{date}/accounting_rows/{rowId}.
+// Days written before the split still carry a `rows` array until migrateDailyAccountingDay runs on them.
+
+const ACCOUNTING_ROWS = 'accounting_rows';
+
+const dayDocRef = (clinicId: string, date: string) => db.collection('daily_accounting').doc(`${clinicId}_${date}`);
+const rowDocRef = (clinicId: string, date: string, rowId: string) => dayDocRef(clinicId, date).collection(ACCOUNTING_ROWS).doc(rowId);
+
+// Row docs carry their day's clinicId/date so rows can be queried across days (collectionGroup)
+const toRowDoc = (clinicId: string, date: string, row: AccountingRow) => deepSanitize({ ...row, clinicId, date });
+
+const fromRowDoc = (data: any): AccountingRow => {
+    const { clinicId, date, ...row } = data;
+    return hydrateRow({ ...row, originalDate: date });
+};
+
+const sortRowsByOrder = (rows: AccountingRow[]) =>
+    rows.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || (a.startTime || '').localeCompare(b.startTime || ''));
+
+const assembleDayRecord = (data: DailyAccountingRecord, rowDocs: AccountingRow[]): DailyAccountingRecord => ({
+    ...data,
+    rows: data.rowsMigrated ? sortRowsByOrder(rowDocs) : (data.rows || []).map(r => ({ ...hydrateRow(r), originalDate: data.date }))
+});
+
+const getDayRowDocs = async (clinicId: string, date: string): Promise<AccountingRow[]> => {
+    const snap = await dayDocRef(clinicId, date).collection(ACCOUNTING_ROWS).get();
+    return snap.docs.map(d => fromRowDoc(d.data()));
+};
 
 export const loadDailyAccounting = async (clinicId: string, date: string): Promise<DailyAccountingRecord | null> => {
-    const docId = `${clinicId}_${date}`;
-    const doc = await db.collection('daily_accounting').doc(docId).get();
-    if (doc.exists) {
-        return doc.data() as DailyAccountingRecord;
+    const doc = await dayDocRef(clinicId, date).get();
+    if (!doc.exists) return null;
+    const data = doc.data() as DailyAccountingRecord;
+    const rowDocs = data.rowsMigrated ? await getDayRowDocs(clinicId, date) : [];
+    return assembleDayRecord(data, rowDocs);
+};
+
+export const getDayRows = async (clinicId: string, date: string): Promise<AccountingRow[]> => {
+    const record = await loadDailyAccounting(clinicId, date);
+    return record ? record.rows : [];
+};
+
+/**
+ * Live view of one day: the day document plus its row documents, delivered as a single record.
+ * The callback gets null when the day has not been created yet.
+ */
+export const subscribeDailyAccounting = (
+    clinicId: string,
+    date: string,
+    onChange: (record: DailyAccountingRecord | null) => void,
+    onError?: (error: Error) => void
+): (() => void) => {
+    let dayData: DailyAccountingRecord | null | undefined;
+    let rowDocs: AccountingRow[] | undefined;
+
+    const emit = () => {
+        // Wait for both listeners so we never publish a day without its rows
+        if (dayData === undefined || rowDocs === undefined) return;
+        onChange(dayData ? assembleDayRecord(dayData, rowDocs) : null);
+    };
+
+    const unsubDay = dayDocRef(clinicId, date).onSnapshot(doc => {
+        dayData = doc.exists ? doc.data() as DailyAccountingRecord : null;
+        emit();
+    }, err => onError?.(err));
+
+    const unsubRows = dayDocRef(clinicId, date).collection(ACCOUNTING_ROWS).onSnapshot(snap => {
+        rowDocs = snap.docs.map(d => fromRowDoc(d.data()));
+        emit();
+    }, err => onError?.(err));
+
+    return () => { unsubDay(); unsubRows(); };
+};
+
+/**
+ * Moves a legacy `rows` array into row documents. Safe to call repeatedly;
+ * returns the number of rows moved (0 if the day was already migrated or does not exist).
+ */
+export const migrateDailyAccountingDay = async (clinicId: string, date: string): Promise<number> => {
+    const dayRef = dayDocRef(clinicId, date);
+    return db.runTransaction(async (t) => {
+        const doc = await t.get(dayRef);
+        if (!doc.exists) return 0;
+        const data = doc.data() as DailyAccountingRecord;
+        if (data.rowsMigrated) return 0;
+
+        const legacyRows = data.rows || [];
+        legacyRows.forEach(r => {
+            const id = r.id || crypto.randomUUID();
+            t.set(rowDocRef(clinicId, date, id), toRowDoc(clinicId, date, { ...r, id }));
+        });
+        t.update(dayRef, { rows: firebase.firestore.FieldValue.delete(), rowsMigrated: true });
+        return legacyRows.length;
+    });
+};
+
+// Set once every existing day has been migrated; lets row queries skip the legacy day-doc scan
+const ROW_SCHEMA_DOC = 'accounting_row_schema';
+let rowsFullyMigrated: boolean | null = null;
+
+const isRowMigrationComplete = async (): Promise<boolean> => {
+    if (rowsFullyMigrated === null) {
+        const doc = await db.collection('settings').doc(ROW_SCHEMA_DOC).get();
+        rowsFullyMigrated = !!(doc.exists && doc.data()?.migratedAt);
     }
-    return null;
+    return rowsFullyMigrated;
+};
+
+export const migrateAllDailyAccounting = async (onProgress?: (done: number, total: number) => void): Promise<{ days: number, rows: number }> => {
+    const snap = await db.collection('daily_accounting').get();
+    const pending = snap.docs
+        .map(d => d.data() as DailyAccountingRecord)
+        .filter(d => !d.rowsMigrated && d.clinicId && d.date);
+
+    let rows = 0;
+    for (let i = 0; i < pending.length; i++) {
+        rows += await migrateDailyAccountingDay(pending[i].clinicId, pending[i].date);
+        onProgress?.(i + 1, pending.length);
+    }
+
+    await db.collection('settings').doc(ROW_SCHEMA_DOC).set({ migratedAt: new Date().toISOString() }, { merge: true });
+    rowsFullyMigrated = true;
+    return { days: pending.length, rows };
+};
+
+export interface AccountingRowQuery {
+    clinicId: string;
+    startDate?: string; // YYYY-MM-DD (inclusive)
+    endDate?: string;   // YYYY-MM-DD (inclusive)
+    doctorId?: string;
+    consultant?: string;
+    labName?: string;
+    chartId?: string;
+    patientName?: string;
+    hasPlan?: boolean; // Only rows linked to a treatment plan (inequality filter: not combinable with a date range)
+}
+
+const matchesRowQuery = (row: AccountingRow, q: AccountingRowQuery) =>
+    (!q.doctorId || row.doctorId === q.doctorId) &&
+    (!q.consultant || row.treatments.consultant === q.consultant) &&
+    (!q.labName || row.labName === q.labName) &&
+    (!q.chartId || row.chartId === q.chartId) &&
+    (!q.patientName || row.patientName === q.patientName) &&
+    (!q.hasPlan || !!row.planId);
+
+// Rows still embedded in un-migrated day documents
+const getLegacyRows = async (q: AccountingRowQuery): Promise<AccountingRow[]> => {
+    if (await isRowMigrationComplete()) return [];
+
+    const snap = await db.collection('daily_accounting')
+        .where(firebase.firestore.FieldPath.documentId(), '>=', `${q.clinicId}_${q.startDate || '0000-00-00'}`)
+        .where(firebase.firestore.FieldPath.documentId(), '<=', `${q.clinicId}_${q.endDate || '9999-12-31'}`)
+        .get();
+
+    const rows: AccountingRow[] = [];
+    snap.forEach(doc => {
+        const data = doc.data() as DailyAccountingRecord;
+        if (data.rowsMigrated || !data.rows) return;
+        data.rows.forEach(r => {
+            const hydrated = hydrateRow(r);
+            hydrated.originalDate = data.date;
+            if (matchesRowQuery(hydrated, q)) rows.push(hydrated);
+        });
+    });
+    return rows;
+};
+
+/**
+ * Single entry point for reading accounting rows across days.
+ * Every returned row has `originalDate` set to the day it belongs to.
+ * Each filter combination callers use has a collection-group index in firestore.indexes.json;
+ * a new combination needs one there too.
+ */
+export const queryAccountingRows = async (q: AccountingRowQuery): Promise<AccountingRow[]> => {
+    let query: firebase.firestore.Query = db.collectionGroup(ACCOUNTING_ROWS).where('clinicId', '==', q.clinicId);
+    if (q.doctorId) query = query.where('doctorId', '==', q.doctorId);
+    if (q.consultant) query = query.where('treatments.consultant', '==', q.consultant);
+    if (q.labName) query = query.where('labName', '==', q.labName);
+    if (q.chartId) query = query.where('chartId', '==', q.chartId);
+    if (q.patientName) query = query.where('patientName', '==', q.patientName);
+    if (q.hasPlan) query = query.where('planId', '>', '');
+    if (q.startDate) query = query.where('date', '>=', q.startDate);
+    if (q.endDate) query = query.where('date', '<=', q.endDate);
+
+    const [snap, legacyRows] = await Promise.all([query.get(), getLegacyRows(q)]);
+    const rows = snap.docs.map(d => fromRowDoc(d.data()));
+
+    return [...rows, ...legacyRows].sort((a, b) =>
+        (a.originalDate || '').localeCompare(b.originalDate || '') || (a.sortOrder ?? 0) - (b.sortOrder ?? 0)
+    );
 };
 
 // NEW: Meal Fund Balance Carry-Over Calculation
@@ -472,27 +747,174 @@ export const getPreviousDayMealBalance = async (clinicId: string, currentDate: s
   }
 };
 
-export const saveDailyAccounting = async (record: DailyAccountingRecord, auditEntry?: AuditLogEntry) => {
-    const docId = `${record.clinicId}_${record.date}`;
-    const { auditLog, ...otherData } = record;
-    
-    const payload: any = deepSanitize(otherData);
-    if (auditEntry) {
-        payload.auditLog = firebase.firestore.FieldValue.arrayUnion(deepSanitize(auditEntry));
+// NEW: Cash Drawer Float Carry-Over
+// The last counted closing float becomes today's opening cash; a day closed before counts existed passes its own opening cash on.
+// Only locked days count: a draft or a day opened by mistake says nothing about the drawer, and neither does
+// a day locked in bulk from the closing backlog (lockedWithoutCount), so those are passed over.
+export const getPreviousClosingFloat = async (clinicId: string, currentDate: string): Promise<number> => {
+    try {
+        const snapshot = await db.collection('daily_accounting')
+            .where('clinicId', '==', clinicId)
+            .where('isLocked', '==', true)
+            .where('date', '<', currentDate)
+            .orderBy('date', 'desc')
+            .limit(62)
+            .get();
+
+        const data = snapshot.docs.map(d => d.data() as DailyAccountingRecord).find(d => !d.lockedWithoutCount);
+        if (!data) return 0;
+        return Number(data.cashCount?.closingFloat ?? data.initialCash) || 0;
+    } catch (error) {
+        console.error("Error fetching previous closing float:", error);
+        return 0;
     }
-    
-    await db.collection('daily_accounting').doc(docId).set(payload, { merge: true });
+};
+
+// --- Audit trail helpers ---
+// Every change is stored as its own entry in daily_accounting/{clinicId}_{date}/audit_entries.
+// Older days may also carry a free-text `auditLog` array on the day document.
+
+const AUDIT_ENTRIES = 'audit_entries';
+
+type AuditActor = { uid: string, name: string };
+
+// Bookkeeping fields and derived totals are not audited (totals follow from the audited amounts)
+const UNAUDITED_ROW_FIELDS = new Set(['id', 'version', 'updatedAt', 'updatedBy', 'originalDate', 'sortOrder', 'matchStatus', 'actualCollected', 'paymentBreakdown']);
+const AUDITED_DAY_FIELDS = ['expenditures', 'mealExpenses', 'mealFund', 'initialCash', 'reportImageUrl'] as const;
+
+const normalizeAuditValue = (v: any) => (v === undefined || v === '' ? null : v);
+const isSameAuditValue = (a: any, b: any) => JSON.stringify(normalizeAuditValue(a)) === JSON.stringify(normalizeAuditValue(b));
 
-    const updates = record.rows.filter(r => r.patientName).map(r => {
+// One level of nesting is flattened so e.g. treatments.implant is tracked as its own field
+const flattenRowFields = (row: any): Record<string, any> => {
+    const flat: Record<string, any> = {};
+    Object.entries(row || {}).forEach(([key, value]) => {
+        if (UNAUDITED_ROW_FIELDS.has(key)) return;
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+            Object.entries(value).forEach(([sub, subValue]) => { flat[`${key}.${sub}`] = subValue; });
+        } else {
+            flat[key] = value;
+        }
+    });
+    return flat;
+};
+
+const getFieldValue = (obj: any, path: string) => path.split('.').reduce((acc, key) => (acc == null ? undefined : acc[key]), obj);
+
+const setFieldValue = (obj: any, path: string, value: any) => {
+    const keys = path.split('.');
+    const last = keys.pop()!;
+    const target = keys.reduce((acc, key) => (acc[key] = { ...(acc[key] || {}) }), obj);
+    target[last] = value;
+    return obj;
+};
+
+const stripRowMeta = (row: AccountingRow) => {
+    const { originalDate, ...rest } = row;
+    return rest;
+};
+
+// Flattened field paths whose values differ between two versions of a row
+const changedRowFields = (before: any, after: any): string[] => {
+    const oldFields = flattenRowFields(before);
+    const newFields = flattenRowFields(after);
+    return Array.from(new Set([...Object.keys(oldFields), ...Object.keys(newFields)]))
+        .filter(path => !isSameAuditValue(oldFields[path], newFields[path]));
+};
+
+const buildAuditEntry = (user: AuditActor, fields: Omit<AuditLogEntry, 'timestamp' | 'userId' | 'userName'>): AuditLogEntry => ({
+    timestamp: new Date().toISOString(),
+    userId: user.uid,
+    userName: user.name,
+    ...fields
+});
+
+// Field-level entries for one row; a null side means the row was created / deleted
+const diffRowForAudit = (before: AccountingRow | null, after: AccountingRow | null, user: AuditActor): AuditLogEntry[] => {
+    const row = (after || before) as AccountingRow;
+    const target = { rowId: row.id, rowLabel: row.patientName || '' };
+
+    if (!before) return [buildAuditEntry(user, { ...target, action: 'CREATE', oldValue: null, newValue: stripRowMeta(row) })];
+    if (!after) return [buildAuditEntry(user, { ...target, action: 'DELETE', oldValue: stripRowMeta(row), newValue: null })];
+
+    return changedRowFields(before, after).map(path => buildAuditEntry(user, {
+        ...target,
+        action: 'UPDATE',
+        fieldPath: path,
+        oldValue: normalizeAuditValue(getFieldValue(before, path)),
+        newValue: normalizeAuditValue(getFieldValue(after, path))
+    }));
+};
+
+const diffDayForAudit = (before: any, after: any, user: AuditActor): AuditLogEntry[] =>
+    AUDITED_DAY_FIELDS
+        .filter(field => field in after && !isSameAuditValue(before?.[field], after[field]))
+        .map(field => buildAuditEntry(user, {
+            action: 'UPDATE',
+            fieldPath: field,
+            oldValue: normalizeAuditValue(before?.[field]),
+            newValue: normalizeAuditValue(after[field])
+        }));
+
+const writeAuditEntries = (
+    writer: { set: (ref: firebase.firestore.DocumentReference, data: any) => unknown },
+    dayRef: firebase.firestore.DocumentReference,
+    entries: AuditLogEntry[]
+) => {
+    entries.forEach(entry => writer.set(dayRef.collection(AUDIT_ENTRIES).doc(), deepSanitize(entry)));
+};
+
+export const saveDailyAccounting = async (
+    record: DailyAccountingRecord,
+    changes: DailyRowChanges,
+    user?: AuditActor
+): Promise<{ rows: AccountingRow[], deletedRowIds: string[], conflicts: RowConflict[] }> => {
+    const { clinicId, date } = record;
+    const dayRef = dayDocRef(clinicId, date);
+    // Locking only goes through lockDailyReport/unlockDailyReport, never through a (possibly stale) save
+    const { auditLog, rows: localRows, isLocked: _isLocked, ...otherData } = record;
+    const actor = user || { uid: 'unknown', name: 'User' };
+
+    // Row docs are the source of truth from here on, so fold any legacy array in first
+    await migrateDailyAccountingDay(clinicId, date);
+
+    const result = await db.runTransaction(async (t) => {
+        const touchedIds = Array.from(new Set([...changes.dirtyRowIds, ...changes.deletedRowIds]));
+        const [dayDoc, ...snaps] = await Promise.all([
+            t.get(dayRef),
+            ...touchedIds.map(id => t.get(rowDocRef(clinicId, date, id)))
+        ]);
+        if (changes.expectUnlocked && dayDoc.data()?.isLocked) throw new Error("本日已被結帳鎖定，變更未寫入");
+        const serverRows = snaps.filter(s => s.exists).map(s => fromRowDoc(s.data()));
+        const serverMap = new Map(serverRows.map(r => [r.id, r]));
+
+        const merged = mergeDailyRows(serverRows, localRows, changes, actor.name);
+
+        merged.writes.forEach(r => t.set(rowDocRef(clinicId, date, r.id), toRowDoc(clinicId, date, r)));
+        merged.deletes.forEach(id => t.delete(rowDocRef(clinicId, date, id)));
+        t.set(dayRef, deepSanitize({ ...otherData, rowsMigrated: true }), { merge: true });
+
+        writeAuditEntries(t, dayRef, [
+            ...merged.writes.flatMap(r => diffRowForAudit(serverMap.get(r.id) || null, r, actor)),
+            ...merged.deletes.flatMap(id => diffRowForAudit(serverMap.get(id) || null, null, actor)),
+            ...diffDayForAudit(dayDoc.data(), otherData, actor)
+        ]);
+
+        return merged;
+    });
+
+    const updates = result.writes.filter(r => r.patientName && !isRefundRow(r)).map(r => {
         const consultantName = r.treatments.consultant || r.retail.staff || undefined;
-        return upsertPatient(record.clinicId, {
+        return upsertPatient(clinicId, {
             chartId: r.chartId || null,
             name: r.patientName,
-            lastVisitDate: record.date,
+            lastVisitDate: date,
             consultant: consultantName
         });
     });
     Promise.all(updates).catch(err => console.error("Background CRM Sync Error:", err));
+
+    return { rows: result.writes, deletedRowIds: result.deletes, conflicts: result.conflicts };
 };
 
 export const updateDailyRowField = async (
@@ -501,45 +923,44 @@ export const updateDailyRowField = async (
     rowId: string, 
     field: string, 
     value: any,
-    user?: { uid: string, name: string }
+    user?: { uid: string, name: string },
+    expectedVersion?: number
 ) => {
-    const docId = `${clinicId}_${date}`;
-    const docRef = db.collection('daily_accounting').doc(docId);
+    const dayRef = dayDocRef(clinicId, date);
+    const rowRef = rowDocRef(clinicId, date, rowId);
 
     try {
-        await db.runTransaction(async (t) => {
-            const doc = await t.get(docRef);
-            if (!doc.exists) throw new Error("Document does not exist");
+        await migrateDailyAccountingDay(clinicId, date);
 
-            const data = doc.data() as DailyAccountingRecord;
-            const rows = data.rows || [];
-            
-            // Find row index
-            const rowIndex = rows.findIndex(r => r.id === rowId);
-            if (rowIndex === -1) throw new Error("Row not found");
-
-            // Update specific field
-            const updatedRow = { ...rows[rowIndex], [field]: value };
-            rows[rowIndex] = updatedRow;
+        await db.runTransaction(async (t) => {
+            const doc = await t.get(rowRef);
+            if (!doc.exists) throw new Error("Row not found");
 
-            const updatePayload: any = { 
-                rows: deepSanitize(rows), 
-                lastUpdated: Date.now() 
-            };
+            const row = fromRowDoc(doc.data());
 
-            // Add audit log if user provided
-            if (user) {
-                const auditEntry: AuditLogEntry = {
-                    timestamp: new Date().toISOString(),
-                    userId: user.uid,
-                    userName: user.name,
-                    action: 'UPDATE',
-                    details: `Quick Edit: ${field} -> ${value} for patient ${updatedRow.patientName}`
-                };
-                updatePayload.auditLog = firebase.firestore.FieldValue.arrayUnion(deepSanitize(auditEntry));
+            // Reject the edit if someone else saved this row after the caller loaded it
+            const currentVersion = row.version || 0;
+            if (expectedVersion !== undefined && currentVersion !== expectedVersion) {
+                throw new Error(`此列已被 ${row.updatedBy || '其他使用者'} 修改，請重新整理後再試`);
             }
 
-            t.update(docRef, updatePayload);
+            t.update(rowRef, deepSanitize({
+                [field]: value,
+                version: currentVersion + 1,
+                updatedAt: Date.now(),
+                updatedBy: user?.name || ''
+            }));
+            t.update(dayRef, { lastUpdated: Date.now() });
+
+            writeAuditEntries(t, dayRef, [buildAuditEntry(user || { uid: 'unknown', name: 'User' }, {
+                action: 'UPDATE',
+                rowId,
+                rowLabel: row.patientName || '',
+                fieldPath: field,
+                oldValue: normalizeAuditValue(getFieldValue(row, field)),
+                newValue: normalizeAuditValue(value),
+                details: 'Quick Edit'
+            })]);
         });
     } catch (e) {
         console.error("Quick Edit Error:", e);
@@ -547,26 +968,109 @@ export const updateDailyRowField = async (
     }
 };
 
+/**
+ * Moves a day's calendar row to a new event id, for calendars that can only move an appointment to
+ * another calendar by re-creating it. Otherwise the next sync would cancel the row and add a blank one.
+ */
+export const rekeyDailyRow = async (clinicId: string, date: string, fromRowId: string, toRowId: string) => {
+    await migrateDailyAccountingDay(clinicId, date);
+    const fromRef = rowDocRef(clinicId, date, fromRowId);
+    await db.runTransaction(async (t) => {
+        const doc = await t.get(fromRef);
+        if (!doc.exists) return;
+        const row = fromRowDoc(doc.data());
+        t.set(rowDocRef(clinicId, date, toRowId), toRowDoc(clinicId, date, {
+            ...row,
+            id: toRowId,
+            version: (row.version || 0) + 1,
+            updatedAt: Date.now()
+        }));
+        t.delete(fromRef);
+        t.update(dayDocRef(clinicId, date), { lastUpdated: Date.now() });
+    });
+};
+
 export const getMonthlyAccounting = async (clinicId: string, month: string): Promise<AccountingRow[]> => {
-    const startId = `${clinicId}_${month}-01`;
-    const endId = `${clinicId}_${month}-31`;
-    const snap = await db.collection('daily_accounting')
-        .where(firebase.firestore.FieldPath.documentId(), '>=', startId)
-        .where(firebase.firestore.FieldPath.documentId(), '<=', endId)
-        .get();
+    return queryAccountingRows({ clinicId, startDate: `${month}-01`, endDate: `${month}-31` });
+};
 
-    const allRows: AccountingRow[] = [];
-    snap.forEach(doc => {
-        const data = doc.data() as DailyAccountingRecord;
-        if (data.rows) {
-            data.rows.forEach(r => {
-                const hydrated = hydrateRow(r);
-                hydrated.originalDate = data.date;
-                allRows.push(hydrated);
+// --- ACCOUNTING AUDIT TRAIL ---
+
+// Structured entries plus any legacy free-text `auditLog` entries of the day, newest first
+export const getAuditEntries = async (clinicId: string, date: string): Promise<AuditLogEntry[]> => {
+    const dayRef = dayDocRef(clinicId, date);
+    const [dayDoc, snap] = await Promise.all([dayRef.get(), dayRef.collection(AUDIT_ENTRIES).get()]);
+
+    const legacy: AuditLogEntry[] = dayDoc.exists ? ((dayDoc.data() as DailyAccountingRecord).auditLog || []) : [];
+    const entries = snap.docs.map(d => ({ ...d.data(), id: d.id } as AuditLogEntry));
+
+    return [...entries, ...legacy].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+export const isAuditEntryRevertible = (entry: AuditLogEntry) =>
+    !!entry.id && (entry.action === 'UPDATE' || entry.action === 'CREATE' || entry.action === 'DELETE' || entry.action === 'REVERT') &&
+    (!!entry.fieldPath || !!entry.rowId);
+
+/**
+ * Undoes one audited change, provided the value is still what that change left behind.
+ * The revert is itself recorded (action 'REVERT') and can be reverted in turn.
+ */
+export const revertAuditEntry = async (clinicId: string, date: string, entry: AuditLogEntry, user: AuditActor) => {
+    if (!isAuditEntryRevertible(entry)) throw new Error('此紀錄無法還原');
+    const CHANGED_SINCE = '此資料在這筆紀錄之後已再次被修改，無法直接還原';
+    const dayRef = dayDocRef(clinicId, date);
+
+    await db.runTransaction(async (t) => {
+        const rowRef = entry.rowId ? rowDocRef(clinicId, date, entry.rowId) : null;
+        const [dayDoc, rowDoc] = await Promise.all([t.get(dayRef), rowRef ? t.get(rowRef) : Promise.resolve(null)]);
+
+        if (!dayDoc.exists) throw new Error('找不到當日帳務資料');
+        if ((dayDoc.data() as DailyAccountingRecord).isLocked) throw new Error('本日已結帳鎖定，請先解鎖再還原');
+
+        if (!rowRef) {
+            // Day-level field
+            const field = entry.fieldPath as string;
+            if (!isSameAuditValue(dayDoc.data()?.[field], entry.newValue)) throw new Error(CHANGED_SINCE);
+            t.update(dayRef, {
+                [field]: entry.oldValue == null ? firebase.firestore.FieldValue.delete() : deepSanitize(entry.oldValue),
+                lastUpdated: Date.now()
             });
+        } else {
+            const current = rowDoc && rowDoc.exists ? fromRowDoc(rowDoc.data()) : null;
+            const stamp = { updatedAt: Date.now(), updatedBy: user.name };
+
+            if (entry.fieldPath) {
+                if (!current) throw new Error('此列已被刪除，無法還原欄位');
+                if (!isSameAuditValue(getFieldValue(current, entry.fieldPath), entry.newValue)) throw new Error(CHANGED_SINCE);
+
+                const reverted = setFieldValue(stripRowMeta(current), entry.fieldPath, entry.oldValue);
+                t.set(rowRef, toRowDoc(clinicId, date, {
+                    ...reverted, ...computeRowTotals(reverted), ...stamp, version: (current.version || 0) + 1
+                }));
+            } else if (entry.oldValue == null) {
+                // Row was created: remove it again, unless it has been edited since
+                if (!current) throw new Error('此列已被刪除');
+                if (changedRowFields(current, hydrateRow(entry.newValue)).length > 0) throw new Error(CHANGED_SINCE);
+                t.delete(rowRef);
+            } else {
+                // Row was deleted: restore it
+                if (current) throw new Error('此列已存在，無需還原');
+                const restored = hydrateRow(entry.oldValue);
+                t.set(rowRef, toRowDoc(clinicId, date, { ...restored, ...stamp, version: (restored.version || 0) + 1 }));
+            }
+            t.update(dayRef, { lastUpdated: Date.now() });
         }
+
+        writeAuditEntries(t, dayRef, [buildAuditEntry(user, {
+            action: 'REVERT',
+            revertOf: entry.id,
+            rowId: entry.rowId,
+            rowLabel: entry.rowLabel,
+            fieldPath: entry.fieldPath,
+            oldValue: entry.newValue,
+            newValue: entry.oldValue
+        })]);
     });
-    return allRows;
 };
 
 // --- TECHNICIAN RECORDS ---
@@ -660,7 +1164,7 @@ export const fetchDashboardSnapshot = async (clinics: Clinic[], month: string):
             let visits = 0;
 
             rows.forEach(row => {
-                if (row.attendance) visits++;
+                if (row.attendance && !isRefundRow(row)) visits++;
                 revenue += (row.actualCollected || 0);
                 const t = row.treatments;
                 const sp = (t.prostho || 0) + (t.implant || 0) + (t.ortho || 0) + (t.sov || 0) + (t.inv || 0) + (t.whitening || 0) + (t.perio || 0) + (t.otherSelfPay || 0);
@@ -828,7 +1332,8 @@ export const calculateMonthlyBonus = async (clinicId: string, yearMonth: string)
                        (t.sov || 0) + (t.perio || 0) + (t.whitening || 0) + 
                        (t.inv || 0) + (t.otherSelfPay || 0);
             
-            if (sp > 0 && isTreatmentMatch) {
+            // Refund rows claw back the bonus earned on the original sale
+            if ((sp > 0 || isRefundRow(row)) && isTreatmentMatch) {
                 selfPayTotal += sp;
             }
 
@@ -837,7 +1342,7 @@ export const calculateMonthlyBonus = async (clinicId: string, yearMonth: string)
             const isRetailMatch = (rowRetailer === staff.id || rowRetailer === staffName);
 
             const ret = (r.products || 0) + (r.diyWhitening || 0);
-            if (ret > 0 && isRetailMatch) {
+            if ((ret > 0 || isRefundRow(row)) && isRetailMatch) {
                 retailTotal += ret;
             }
         });
@@ -878,26 +1383,116 @@ export const calculateMonthlyBonus = async (clinicId: string, yearMonth: string)
 
 // --- CRM / PATIENT LOGIC ---
 
-export interface Patient {
+// Patient documents keep the id they were created with. Every (chart id, name) a patient has been
+// recorded under is listed in `identityKeys`, so a later chart number, a corrected name or a merge
+// adds a key instead of moving the document. Documents from before stable ids are still found by
+// their old `${clinicId}_${chartId||'NP'}_${name}` id.
+export interface Patient extends PatientContact {
     docId: string;
     clinicId: string;
     chartId: string | null;
     name: string;
     lastVisit: string;
+    identityKeys?: string[]; // patientIdentityKey() of every chart id / name the patient is known by
+    mergedFrom?: string[]; // Doc ids of duplicates merged into this profile
     purchasedItems?: string[]; 
+    lastTreatmentDates?: Partial<Record<RecallCategory, string>>; // Last visit per recall category (see utils/recalls)
     visitHistory?: any[];     
     totalSpending?: number;
     lastConsultant?: string;
     pastConsultants?: string[];
+    attendanceLog?: Record<string, PatientAttendanceEvent>; // Keyed by attendanceLogKey(date, rowId)
     updatedAt?: any;
 }
 
+export const patientIdentityKey = (chartId: string | null | undefined, name: string) => `${chartId || 'NP'}_${name.replace(/[\/\s]/g, '_')}`;
+
+/**
+ * The profile document for a chart id / name as rows record it: the one listing that identity,
+ * else the document under the pre-stable id. `data` is null when there is none yet; `ref` is then
+ * a fresh document to create it under.
+ */
+const resolvePatientRef = async (clinicId: string, chartId: string | null, name: string): Promise<{ ref: firebase.firestore.DocumentReference, data: Patient | null }> => {
+    const key = patientIdentityKey(chartId, name);
+    const q = await db.collection('patients').where('clinicId', '==', clinicId).where('identityKeys', 'array-contains', key).limit(1).get();
+    if (!q.empty) return { ref: q.docs[0].ref, data: { docId: q.docs[0].id, ...q.docs[0].data() } as Patient };
+
+    const legacyRef = db.collection('patients').doc(`${clinicId}_${key}`);
+    const legacy = await legacyRef.get();
+    if (legacy.exists) return { ref: legacyRef, data: { docId: legacy.id, ...legacy.data() } as Patient };
+
+    return { ref: db.collection('patients').doc(), data: null };
+};
+
+// Fields that start a new profile; existing profiles keep the chart id and name they show
+const newPatientFields = (clinicId: string, chartId: string | null, name: string) => ({
+    clinicId, chartId, name,
+    identityKeys: [patientIdentityKey(chartId, name)],
+    createdAt: firebase.firestore.FieldValue.serverTimestamp()
+});
+
+// --- Patient contact details ---
+// Phone and LINE ID live in patient_contacts under the profile's doc id, so the rules can keep them from
+// roles that only see masks; the profile stores those masks for display.
+type PrivateContact = Pick<PatientContact, 'phone' | 'lineId'>;
+
+const patientContactRef = (docId: string) => db.collection('patient_contacts').doc(docId);
+
+const maskedContactFields = (contact: PrivateContact) => ({
+    maskedPhone: maskPhone(contact.phone) || firebase.firestore.FieldValue.delete(),
+    maskedLineId: maskLineId(contact.lineId) || firebase.firestore.FieldValue.delete()
+});
+
+// Profiles by doc id; 'in' takes at most 10 values
+const getPatientsByIds = async (ids: string[]): Promise<Patient[]> => {
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += 10) chunks.push(ids.slice(i, i + 10));
+    const snaps = await Promise.all(chunks.map(chunk =>
+        db.collection('patients').where(firebase.firestore.FieldPath.documentId(), 'in', chunk).get()
+    ));
+    return snaps.flatMap(snap => snap.docs.map(d => ({ docId: d.id, ...d.data() } as Patient)));
+};
+
+// Small lists are fetched by id, larger ones with the clinic's whole contact list
+const attachPatientContacts = async <T extends { docId: string } & PatientContact>(clinicId: string, patients: T[]): Promise<T[]> => {
+    if (patients.length === 0) return patients;
+    const contacts = new Map<string, PrivateContact>();
+    if (patients.length > 30) {
+        const snap = await db.collection('patient_contacts').where('clinicId', '==', clinicId).get();
+        snap.docs.forEach(d => contacts.set(d.id, d.data() as PrivateContact));
+    } else {
+        const snaps = await Promise.all(patients.map(p => patientContactRef(p.docId).get()));
+        snaps.filter(d => d.exists).forEach(d => contacts.set(d.id, d.data() as PrivateContact));
+    }
+    // Profiles not yet moved over by migratePatientContacts still hold their own phone and LINE ID
+    return patients.map(p => {
+        const contact = contacts.get(p.docId);
+        return contact ? { ...p, phone: contact.phone, lineId: contact.lineId } : p;
+    });
+};
+
+// Adds phone and LINE ID to the profiles when `role` may see them in full; other roles get the profiles
+// back as they are (the rules would refuse the read anyway)
+export const withPatientContacts = async <T extends { docId: string } & PatientContact>(clinicId: string, patients: T[], role: UserRole): Promise<T[]> =>
+    CONTACT_FIELD_ACCESS[role]?.phone === 'full' ? attachPatientContacts(clinicId, patients) : patients;
+
 export const getPatients = async (clinicId: string, lastDoc?: any, searchTerm?: string) => {
     let query: firebase.firestore.Query = db.collection('patients')
         .where('clinicId', '==', clinicId);
 
     if (searchTerm) {
         const isDigits = /^\d+$/.test(searchTerm);
+        if (isPhoneLike(searchTerm)) {
+            // A chart id can look like a phone number too, so both are looked up; roles without access to
+            // the contact details only get the chart id matches
+            const [byChart, byPhone] = await Promise.all([
+                isDigits ? query.where('chartId', '==', searchTerm).limit(50).get() : Promise.resolve(null),
+                findPatientsByPhone(clinicId, searchTerm).catch(() => [] as Patient[])
+            ]);
+            const patients = [...(byChart?.docs || []).map(d => ({ docId: d.id, ...d.data() } as Patient)), ...byPhone]
+                .filter((p, i, all) => all.findIndex(o => o.docId === p.docId) === i);
+            return { patients, lastVisible: undefined };
+        }
         if (isDigits) {
             query = query.where('chartId', '==', searchTerm);
         } else {
@@ -923,21 +1518,98 @@ export const getPatients = async (clinicId: string, lastDoc?: any, searchTerm?:
     };
 };
 
+// Profiles with the phone number, contact details included (clinic staff only: it reads patient_contacts)
+export const findPatientsByPhone = async (clinicId: string, phone: string): Promise<Patient[]> => {
+    const snap = await db.collection('patient_contacts').where('clinicId', '==', clinicId).where('phone', '==', normalizePhone(phone)).get();
+    const contacts = new Map(snap.docs.map(d => [d.id, d.data() as PrivateContact]));
+    const patients = await getPatientsByIds(Array.from(contacts.keys()));
+    return patients.map(p => ({ ...p, phone: contacts.get(p.docId)?.phone, lineId: contacts.get(p.docId)?.lineId }));
+};
+
+// Saves the contact details as entered (validate with validatePatientContact first); a consent change is stamped
+export const updatePatientContact = async (docId: string, contact: PatientContact, user: AuditActor) => {
+    const ref = db.collection('patients').doc(docId);
+    await db.runTransaction(async (t) => {
+        const snap = await t.get(ref);
+        if (!snap.exists) throw new Error("Patient not found");
+        const current = snap.data() as Patient;
+        const orDelete = (value?: string) => value || firebase.firestore.FieldValue.delete();
+        const privateContact = { phone: normalizePhone(contact.phone) || undefined, lineId: contact.lineId?.trim() || undefined };
+
+        const update: any = {
+            ...maskedContactFields(privateContact),
+            // Left on profiles from before patient_contacts
+            phone: firebase.firestore.FieldValue.delete(),
+            lineId: firebase.firestore.FieldValue.delete(),
+            birthday: orDelete(contact.birthday),
+            gender: orDelete(contact.gender),
+            marketingConsent: !!contact.marketingConsent,
+            updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+        };
+        if (!!current.marketingConsent !== !!contact.marketingConsent) {
+            update.consentUpdatedAt = new Date().toISOString();
+            update.consentUpdatedBy = user.name;
+        }
+        t.set(patientContactRef(docId), {
+            clinicId: current.clinicId,
+            phone: orDelete(privateContact.phone),
+            lineId: orDelete(privateContact.lineId)
+        }, { merge: true });
+        t.update(ref, update);
+    });
+};
+
+/**
+ * One-off: moves the phone and LINE ID still stored on profiles into patient_contacts and leaves the
+ * masks in their place. Safe to run again; returns the number of profiles moved.
+ */
+export const migratePatientContacts = async (onProgress?: (done: number, total: number) => void): Promise<number> => {
+    const snap = await db.collection('patients').get();
+    const pending = snap.docs.filter(d => d.data().phone !== undefined || d.data().lineId !== undefined);
+
+    // Two writes per profile; a batch takes at most 500
+    for (let i = 0; i < pending.length; i += 200) {
+        const batch = db.batch();
+        pending.slice(i, i + 200).forEach(d => {
+            const data = d.data() as Patient;
+            const contact = { phone: normalizePhone(data.phone) || undefined, lineId: data.lineId?.trim() || undefined };
+            batch.set(patientContactRef(d.id), {
+                clinicId: data.clinicId,
+                ...(contact.phone ? { phone: contact.phone } : {}),
+                ...(contact.lineId ? { lineId: contact.lineId } : {})
+            }, { merge: true });
+            batch.update(d.ref, {
+                ...maskedContactFields(contact),
+                phone: firebase.firestore.FieldValue.delete(),
+                lineId: firebase.firestore.FieldValue.delete()
+            });
+        });
+        await batch.commit();
+        onProgress?.(Math.min(i + 200, pending.length), pending.length);
+    }
+    return pending.length;
+};
+
+export const getAllPatients = async (clinicId: string): Promise<Patient[]> => {
+    const snap = await db.collection('patients').where('clinicId', '==', clinicId).get();
+    return snap.docs.map(d => ({ docId: d.id, ...d.data() } as Patient));
+};
+
 export const upsertPatient = async (clinicId: string, data: { chartId: string | null, name: string, lastVisitDate: string, consultant?: string }) => {
     if (!clinicId || !data.name) return;
-    const safeName = data.name.replace(/[\/\s]/g, '_');
-    const safeId = data.chartId || 'NP';
-    const docId = `${clinicId}_${safeId}_${safeName}`;
-    const docRef = db.collection('patients').doc(docId);
 
     try {
+        const { ref: docRef } = await resolvePatientRef(clinicId, data.chartId, data.name);
         await db.runTransaction(async (t) => {
             const doc = await t.get(docRef);
             if (doc.exists) {
                 const existing = doc.data() as Patient;
                 const newVisit = data.lastVisitDate;
                 const oldVisit = existing.lastVisit || '';
-                const update: any = { updatedAt: firebase.firestore.FieldValue.serverTimestamp() };
+                const update: any = {
+                    identityKeys: firebase.firestore.FieldValue.arrayUnion(patientIdentityKey(data.chartId, data.name)),
+                    updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+                };
                 if (newVisit > oldVisit) update.lastVisit = newVisit;
                 if (data.consultant) {
                     update.lastConsultant = data.consultant;
@@ -946,8 +1618,8 @@ export const upsertPatient = async (clinicId: string, data: { chartId: string |
                 t.set(docRef, deepSanitize(update), { merge: true });
             } else {
                 const payload: any = {
-                    clinicId, chartId: data.chartId, name: data.name,
-                    lastVisit: data.lastVisitDate, createdAt: firebase.firestore.FieldValue.serverTimestamp(),
+                    ...newPatientFields(clinicId, data.chartId, data.name),
+                    lastVisit: data.lastVisitDate,
                     visitHistory: [], purchasedItems: []
                 };
                 if (data.consultant) {
@@ -962,68 +1634,479 @@ export const upsertPatient = async (clinicId: string, data: { chartId: string |
     }
 };
 
-export const migratePatientId = async (oldDocId: string, newChartId: string, clinicId: string) => {
-    const oldRef = db.collection('patients').doc(oldDocId);
-    const oldSnap = await oldRef.get();
-    if (!oldSnap.exists) throw new Error("Patient not found");
-    const oldData = oldSnap.data() as Patient;
+/**
+ * Moves everything recorded under one chart id / name to another: accounting rows (audited on
+ * their day, locked or not), NP records and treatment plans. Returns the number of rows changed.
+ */
+const repointPatientRecords = async (
+    clinicId: string,
+    from: { chartId: string | null, name: string },
+    to: { chartId: string | null, name: string },
+    user: AuditActor
+): Promise<number> => {
+    if ((from.chartId || null) === (to.chartId || null) && from.name === to.name) return 0;
+    const isFrom = (chartId?: string | null) => (chartId || null) === (from.chartId || null);
+
+    const rows = (await queryAccountingRows({ clinicId, patientName: from.name })).filter(r => isFrom(r.chartId));
+    const byDate: Record<string, AccountingRow[]> = {};
+    rows.forEach(r => { (byDate[r.originalDate!] = byDate[r.originalDate!] || []).push(r); });
+
+    for (const date of Object.keys(byDate)) {
+        await migrateDailyAccountingDay(clinicId, date);
+        const dayRef = dayDocRef(clinicId, date);
+        const batch = db.batch();
+        byDate[date].forEach(row => {
+            const after = { ...row, chartId: to.chartId || '', patientName: to.name };
+            batch.update(rowDocRef(clinicId, date, row.id), {
+                chartId: after.chartId,
+                patientName: after.patientName,
+                version: (row.version || 0) + 1,
+                updatedAt: Date.now(),
+                updatedBy: user.name
+            });
+            writeAuditEntries(batch, dayRef, diffRowForAudit(row, after, user).map(e => ({ ...e, details: '病患合併' })));
+        });
+        batch.update(dayRef, { lastUpdated: Date.now() });
+        await batch.commit();
+    }
 
-    const safeName = (oldData.name || '').replace(/[\/\s]/g, '_');
-    const safeId = newChartId || 'NP';
-    const newDocId = `${clinicId}_${safeId}_${safeName}`;
-    const newRef = db.collection('patients').doc(newDocId);
+    const [npSnap, planSnap] = await Promise.all([
+        from.name !== to.name
+            ? db.collection('np_records').where('clinicId', '==', clinicId).where('patientName', '==', from.name).get()
+            : Promise.resolve(null),
+        db.collection('treatment_plans').where('clinicId', '==', clinicId).where('patientName', '==', from.name).get()
+    ]);
+    const batch = db.batch();
+    const updatedAt = new Date().toISOString();
+    npSnap?.docs.forEach(d => batch.update(d.ref, { patientName: to.name, updatedAt }));
+    planSnap.docs
+        .filter(d => isFrom((d.data() as TreatmentPlan).chartId))
+        .forEach(d => batch.update(d.ref, { chartId: to.chartId || null, patientName: to.name, updatedAt, updatedBy: user.name }));
+    await batch.commit();
 
-    await db.runTransaction(async (t) => {
-        const newSnap = await t.get(newRef);
-        let newData: any;
-        
-        if (newSnap.exists) {
-            const existing = newSnap.data() as Patient;
-            newData = {
-                ...existing,
-                chartId: newChartId, 
-                totalSpending: (existing.totalSpending || 0) + (oldData.totalSpending || 0),
-                visitHistory: [...(existing.visitHistory || []), ...(oldData.visitHistory || [])],
-                purchasedItems: Array.from(new Set([...(existing.purchasedItems || []), ...(oldData.purchasedItems || [])])),
-                lastVisit: (existing.lastVisit > oldData.lastVisit) ? existing.lastVisit : oldData.lastVisit,
-                pastConsultants: Array.from(new Set([...(existing.pastConsultants || []), ...(oldData.pastConsultants || [])])),
-                updatedAt: firebase.firestore.FieldValue.serverTimestamp()
-            };
-        } else {
-            newData = { 
-                ...oldData, 
-                chartId: newChartId, 
-                docId: newDocId,
-                updatedAt: firebase.firestore.FieldValue.serverTimestamp()
-            };
-        }
-        
-        t.set(newRef, deepSanitize(newData), { merge: true });
-        t.delete(oldRef);
+    return rows.length;
+};
+
+/**
+ * Folds duplicate profiles into `keepDocId`: visit history, spending, purchased items, consultants,
+ * attendance and identities are combined, the duplicates' records are re-pointed to the kept chart
+ * id and name, and the duplicate documents are deleted.
+ */
+export const mergePatients = async (clinicId: string, keepDocId: string, mergeDocIds: string[], user: AuditActor): Promise<{ rows: number }> => {
+    const ids = mergeDocIds.filter(id => id !== keepDocId);
+    const snaps = await Promise.all([keepDocId, ...ids].map(id => db.collection('patients').doc(id).get()));
+    if (snaps.some(s => !s.exists)) throw new Error("Patient not found");
+    const [keep, ...others] = await attachPatientContacts(clinicId, snaps.map(s => ({ docId: s.id, ...s.data() } as Patient)));
+
+    // Records first: if this stops halfway the duplicates still exist and the merge can be run again
+    let rows = 0;
+    for (const other of others) {
+        rows += await repointPatientRecords(clinicId, { chartId: other.chartId, name: other.name }, { chartId: keep.chartId, name: keep.name }, user);
+    }
+
+    const all = [keep, ...others];
+    const latest = [...all].sort((a, b) => (b.lastVisit || '').localeCompare(a.lastVisit || ''));
+    const union = (pick: (p: Patient) => string[] | undefined) => Array.from(new Set(all.flatMap(p => pick(p) || [])));
+
+    const contact: PrivateContact = {
+        phone: normalizePhone(keep.phone || others.find(p => p.phone)?.phone) || undefined,
+        lineId: (keep.lineId || others.find(p => p.lineId)?.lineId)?.trim() || undefined
+    };
+
+    const merged = {
+        ...Object.assign({}, ...[...others].reverse(), keep),
+        lastVisit: latest[0].lastVisit || '',
+        ...(contact.phone ? { maskedPhone: maskPhone(contact.phone) } : {}),
+        ...(contact.lineId ? { maskedLineId: maskLineId(contact.lineId) } : {}),
+        identityKeys: Array.from(new Set([...union(p => p.identityKeys), ...all.map(p => patientIdentityKey(p.chartId, p.name))])),
+        mergedFrom: Array.from(new Set([...union(p => p.mergedFrom), ...ids])),
+        totalSpending: all.reduce((sum, p) => sum + (p.totalSpending || 0), 0),
+        purchasedItems: union(p => Array.isArray(p.purchasedItems) ? p.purchasedItems : undefined),
+        visitHistory: all.flatMap(p => p.visitHistory || []).sort((a, b) => (a.date || '').localeCompare(b.date || '')),
+        lastConsultant: latest.find(p => p.lastConsultant)?.lastConsultant,
+        pastConsultants: union(p => p.pastConsultants),
+        lastTreatmentDates: all.reduce<Partial<Record<RecallCategory, string>>>((dates, p) => {
+            Object.entries(p.lastTreatmentDates || {}).forEach(([c, d]) => {
+                if (d && d > (dates[c as RecallCategory] || '')) dates[c as RecallCategory] = d;
+            });
+            return dates;
+        }, {}),
+        attendanceLog: Object.assign({}, ...all.map(p => p.attendanceLog || {})),
+        updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+    };
+    // createdAt is a Timestamp, which deepSanitize would flatten into a plain map; phone and LINE ID go to patient_contacts
+    const { docId, createdAt, phone, lineId, ...fields } = merged;
+
+    const batch = db.batch();
+    batch.set(db.collection('patients').doc(keepDocId), { ...deepSanitize(fields), ...(createdAt ? { createdAt } : {}) });
+    if (contact.phone || contact.lineId) {
+        batch.set(patientContactRef(keepDocId), {
+            clinicId,
+            ...(contact.phone ? { phone: contact.phone } : {}),
+            ...(contact.lineId ? { lineId: contact.lineId } : {})
+        });
+    }
+    ids.forEach(id => {
+        batch.delete(db.collection('patients').doc(id));
+        batch.delete(patientContactRef(id));
     });
+    await batch.commit();
+    return { rows };
 };
 
-export const getPatientHistory = async (clinicId: string, name: string, chartId: string | null) => {
-    const startDate = new Date(); startDate.setDate(startDate.getDate() - 180); 
-    const startStr = startDate.toISOString().split('T')[0];
-    const endStr = new Date().toISOString().split('T')[0];
+// Gives a profile its chart number; when another profile already holds that chart id and name the two are merged
+export const migratePatientId = async (oldDocId: string, newChartId: string, clinicId: string, user: AuditActor) => {
+    const ref = db.collection('patients').doc(oldDocId);
+    const snap = await ref.get();
+    if (!snap.exists) throw new Error("Patient not found");
+    const data = snap.data() as Patient;
 
-    const snap = await db.collection('daily_accounting')
-        .where(firebase.firestore.FieldPath.documentId(), '>=', `${clinicId}_${startStr}`)
-        .where(firebase.firestore.FieldPath.documentId(), '<=', `${clinicId}_${endStr}`)
+    const target = await resolvePatientRef(clinicId, newChartId, data.name);
+    if (target.data && target.ref.id !== oldDocId) {
+        await mergePatients(clinicId, target.ref.id, [oldDocId], user);
+        return;
+    }
+
+    await repointPatientRecords(clinicId, { chartId: data.chartId, name: data.name }, { chartId: newChartId, name: data.name }, user);
+    await ref.update({
+        chartId: newChartId,
+        identityKeys: firebase.firestore.FieldValue.arrayUnion(patientIdentityKey(data.chartId, data.name), patientIdentityKey(newChartId, data.name)),
+        updatedAt: firebase.firestore.FieldValue.serverTimestamp()
+    });
+};
+
+/**
+ * Everything on record for a patient across all time: accounting rows, NP records, lab orders and
+ * the SOV referral list. Each source is a field query (collection group for the rows), so no day
+ * documents are scanned once the rows have been migrated. Calendar appointments are not included.
+ */
+export const getPatientTimeline = async (clinicId: string, name: string, chartId: string | null): Promise<PatientTimelineEntry[]> => {
+    const [byName, byChart, npSnap, labSnap, clinicDoc] = await Promise.all([
+        queryAccountingRows({ clinicId, patientName: name }),
+        chartId ? queryAccountingRows({ clinicId, chartId }) : Promise.resolve([] as AccountingRow[]),
+        db.collection('np_records').where('clinicId', '==', clinicId).where('patientName', '==', name).get(),
+        db.collection('technician_records').where('clinicId', '==', clinicId).where('patientName', '==', name).get(),
+        db.collection('clinics').doc(clinicId).get()
+    ]);
+
+    // A namesake under another chart id is someone else; the same chart id under another spelling is not
+    const rows = new Map<string, AccountingRow>();
+    [...byName.filter(r => !chartId || r.chartId === chartId), ...byChart]
+        .filter(r => !r.isPublicCalendar)
+        .forEach(r => rows.set(`${r.originalDate}_${r.id}`, r));
+    const visits = Array.from(rows.values());
+
+    const firstSovVisit = visits.filter(r => (r.treatments?.sov || 0) > 0).map(r => r.originalDate || '').sort()[0] || '';
+    const referrals = ((clinicDoc.data()?.sovReferrals || []) as SOVReferral[]).filter(r => r.name.trim() === name.trim());
+
+    return sortTimeline([
+        ...visits.map(rowTimelineEntry),
+        ...npSnap.docs.map(d => ({ ...d.data(), id: d.id } as NPRecord)).filter(r => !r.isHidden).map(npTimelineEntry),
+        ...labSnap.docs.map(d => ({ ...d.data(), id: d.id } as TechnicianRecord)).map(labTimelineEntry),
+        ...referrals.map(r => sovTimelineEntry(r, firstSovVisit))
+    ]);
+};
+
+// --- TREATMENT PLANS (Receivables) ---
+// Plans only hold the contract; payments are the daily rows pointing at them via `planId`,
+// so edits, deletes and reverts of those rows are reflected without any extra bookkeeping.
+
+export const getTreatmentPlans = async (clinicId: string): Promise<TreatmentPlan[]> => {
+    const snap = await db.collection('treatment_plans').where('clinicId', '==', clinicId).get();
+    return snap.docs
+        .map(d => ({ ...d.data(), id: d.id } as TreatmentPlan))
+        .sort((a, b) => b.startDate.localeCompare(a.startDate));
+};
+
+export const getPatientTreatmentPlans = async (clinicId: string, patientName: string, chartId: string | null): Promise<TreatmentPlan[]> => {
+    const snap = await db.collection('treatment_plans')
+        .where('clinicId', '==', clinicId)
+        .where('patientName', '==', patientName)
         .get();
+    return snap.docs
+        .map(d => ({ ...d.data(), id: d.id } as TreatmentPlan))
+        .filter(p => !chartId || !p.chartId || p.chartId === chartId)
+        .sort((a, b) => b.startDate.localeCompare(a.startDate));
+};
 
-    const history: any[] = [];
-    snap.forEach(doc => {
-        const data = doc.data() as DailyAccountingRecord;
-        if (data.rows) {
-            data.rows.forEach(row => {
-                let match = (chartId && row.chartId === chartId && row.patientName === name) || (!chartId && row.patientName === name);
-                if (match) history.push({ date: data.date, doctor: row.doctorName, treatment: row.treatmentContent, amount: row.actualCollected, items: row.treatments });
+export const saveTreatmentPlan = async (plan: Omit<TreatmentPlan, 'id'> & { id?: string }, user?: { uid: string, name: string }): Promise<string> => {
+    if (!plan.clinicId || !plan.patientName?.trim()) throw new Error("缺少診所或病患姓名");
+    if (!(Number(plan.contractPrice) > 0)) throw new Error("合約金額必須大於 0");
+
+    const ref = plan.id ? db.collection('treatment_plans').doc(plan.id) : db.collection('treatment_plans').doc();
+    const now = new Date().toISOString();
+    const payload: any = { ...plan, id: ref.id, contractPrice: Number(plan.contractPrice), updatedAt: now, updatedBy: user?.name || 'Unknown' };
+    if (!plan.id) payload.createdAt = now;
+
+    await ref.set(deepSanitize(payload), { merge: true });
+    return ref.id;
+};
+
+export const getPatientPlanBalances = async (clinicId: string, patientName: string, chartId: string | null): Promise<PlanBalance[]> => {
+    const plans = await getPatientTreatmentPlans(clinicId, patientName, chartId);
+    if (plans.length === 0) return [];
+    const rows = await queryAccountingRows({ clinicId, patientName, hasPlan: true });
+    return buildPlanBalances(plans, rows);
+};
+
+export const getClinicPlanBalances = async (clinicId: string, asOfDate?: string): Promise<PlanBalance[]> => {
+    const [plans, rows] = await Promise.all([
+        getTreatmentPlans(clinicId),
+        queryAccountingRows({ clinicId, hasPlan: true })
+    ]);
+    return buildPlanBalances(plans, rows, asOfDate);
+};
+
+// --- RECEIPTS ---
+// One receipt per row (receipts/{clinicId}_{rowId}); numbers come from receipt_counters/{clinicId}_{year}.
+// Every print, first or reprint, is logged to the audit trail of the row's day.
+
+export const getReceiptForRow = async (clinicId: string, rowId: string): Promise<Receipt | null> => {
+    const doc = await db.collection('receipts').doc(`${clinicId}_${rowId}`).get();
+    return doc.exists ? (doc.data() as Receipt) : null;
+};
+
+/**
+ * Issues the receipt of a row on its first print (taking the next number of the year),
+ * or counts a reprint of the existing one. The printed content is the snapshot taken at issue time.
+ */
+export const issueReceipt = async (clinicId: string, date: string, row: AccountingRow, user: AuditActor): Promise<Receipt> => {
+    if (isRefundRow(row)) throw new Error("退款列無法開立收據");
+    const { actualCollected, paymentBreakdown } = computeRowTotals(row);
+    if (actualCollected <= 0) throw new Error("此列沒有收費金額");
+
+    const receiptRef = db.collection('receipts').doc(`${clinicId}_${row.id}`);
+    const now = new Date();
+    const year = now.getFullYear();
+    const counterRef = db.collection('receipt_counters').doc(`${clinicId}_${year}`);
+    const dayRef = dayDocRef(clinicId, date);
+
+    return db.runTransaction(async (t) => {
+        const [receiptDoc, counterDoc] = await Promise.all([t.get(receiptRef), t.get(counterRef)]);
+        const target = { rowId: row.id, rowLabel: row.patientName || '' };
+
+        if (receiptDoc.exists) {
+            const existing = receiptDoc.data() as Receipt;
+            const reprinted: Receipt = { ...existing, printCount: (existing.printCount || 1) + 1, lastPrintedAt: now.toISOString() };
+            t.update(receiptRef, { printCount: reprinted.printCount, lastPrintedAt: reprinted.lastPrintedAt });
+            writeAuditEntries(t, dayRef, [buildAuditEntry(user, {
+                ...target, action: 'PRINT', details: `補印收據 ${existing.receiptNo} (第 ${reprinted.printCount} 次列印)`
+            })]);
+            return reprinted;
+        }
+
+        const seq = (counterDoc.exists ? counterDoc.data()?.lastSeq || 0 : 0) + 1;
+        const receipt: Receipt = {
+            id: receiptRef.id,
+            clinicId,
+            rowId: row.id,
+            date,
+            receiptNo: formatReceiptNo(year, seq),
+            year,
+            seq,
+            patientName: row.patientName,
+            chartId: row.chartId,
+            doctorName: row.doctorName,
+            items: buildReceiptItems(row),
+            total: actualCollected,
+            paymentMethod: row.paymentMethod || 'cash',
+            paymentBreakdown: paymentBreakdown || { cash: actualCollected, card: 0, transfer: 0 },
+            issuedAt: now.toISOString(),
+            issuedBy: user.name,
+            printCount: 1,
+            lastPrintedAt: now.toISOString()
+        };
+        t.set(counterRef, { clinicId, year, lastSeq: seq }, { merge: true });
+        t.set(receiptRef, deepSanitize(receipt));
+        writeAuditEntries(t, dayRef, [buildAuditEntry(user, { ...target, action: 'PRINT', details: `開立收據 ${receipt.receiptNo}` })]);
+        return receipt;
+    });
+};
+
+// --- OPERATORY ASSIGNMENTS ---
+const operatoryAssignmentRef = (clinicId: string, eventId: string) =>
+    db.collection('operatory_assignments').doc(`${clinicId}_${eventId}`);
+
+// Live chair assignments of a clinic for a date range, keyed by calendar event id
+export const subscribeOperatoryAssignments = (
+    clinicId: string,
+    startDate: string,
+    endDate: string,
+    onChange: (assignments: Record<string, OperatoryAssignment>) => void
+): (() => void) => {
+    return db.collection('operatory_assignments')
+        .where('clinicId', '==', clinicId)
+        .where('date', '>=', startDate)
+        .where('date', '<=', endDate)
+        .onSnapshot(snap => {
+            const assignments: Record<string, OperatoryAssignment> = {};
+            snap.forEach(doc => {
+                const data = doc.data() as OperatoryAssignment;
+                assignments[data.eventId] = data;
             });
+            onChange(assignments);
+        }, err => console.error("[subscribeOperatoryAssignments]", err));
+};
+
+// Passing no operatory clears the assignment
+export const setOperatoryAssignment = async (clinicId: string, eventId: string, date: string, operatoryId: string | null, updatedBy?: string) => {
+    const ref = operatoryAssignmentRef(clinicId, eventId);
+    if (!operatoryId) {
+        await ref.delete();
+        return;
+    }
+    const assignment: OperatoryAssignment = { clinicId, eventId, date, operatoryId, updatedAt: new Date().toISOString(), updatedBy };
+    await ref.set(deepSanitize(assignment));
+};
+
+// --- WAITLIST ---
+// Live waitlist of a clinic, oldest first; booked and removed entries are kept for the record
+export const subscribeWaitlist = (clinicId: string, onChange: (entries: WaitlistEntry[]) => void): (() => void) => {
+    return db.collection('waitlist')
+        .where('clinicId', '==', clinicId)
+        .onSnapshot(snap => {
+            const entries = snap.docs.map(d => ({ ...d.data(), id: d.id } as WaitlistEntry));
+            onChange(entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+        }, err => console.error("[subscribeWaitlist]", err));
+};
+
+export const saveWaitlistEntry = async (entry: Omit<WaitlistEntry, 'id'> & { id?: string }): Promise<string> => {
+    if (!entry.clinicId || !entry.patientName?.trim()) throw new Error("缺少診所或病患姓名");
+    const ref = entry.id ? db.collection('waitlist').doc(entry.id) : db.collection('waitlist').doc();
+    await ref.set(deepSanitize({ ...entry, id: ref.id, updatedAt: new Date().toISOString() }), { merge: true });
+    return ref.id;
+};
+
+export const updateWaitlistStatus = async (id: string, status: WaitlistEntry['status'], bookedEventId?: string) => {
+    await db.collection('waitlist').doc(id).update(deepSanitize({ status, bookedEventId, updatedAt: new Date().toISOString() }));
+};
+
+// --- RECALL ---
+const getRecallsSince = async (clinicId: string, firstDueDate: string): Promise<RecallEntry[]> => {
+    const snap = await db.collection('recalls')
+        .where('clinicId', '==', clinicId)
+        .where('dueDate', '>=', firstDueDate)
+        .get();
+    return snap.docs.map(d => d.data() as RecallEntry);
+};
+
+/**
+ * Brings the clinic's recall list up to `today`: adds the patients who have fallen due since it was
+ * last generated and marks open entries booked once the patient has come back. Entries are keyed by
+ * patient, category and due date, so running it again the same day (or from two desks) changes nothing.
+ * Returns the open entries plus everything generated or closed today, oldest due date first, and the
+ * profiles they belong to for contact details.
+ */
+export const generateRecallList = async (clinicId: string, rules: RecallRule[], today: string): Promise<{ entries: RecallEntry[], patients: Map<string, Patient> }> => {
+    const [patients, existing] = await Promise.all([
+        getAllPatients(clinicId),
+        getRecallsSince(clinicId, addMonths(today, -RECALL_LOOKBACK_MONTHS))
+    ]);
+    const byId = new Map(existing.map(e => [e.id, e]));
+    const patientsById = new Map(patients.map(p => [p.docId, p]));
+    const now = new Date().toISOString();
+
+    const writes: RecallEntry[] = findDueRecalls(patients, rules, today).filter(e => !byId.has(e.id));
+    existing.forEach(e => {
+        if ((e.status === 'pending' || e.status === 'contacted') && hasReturned(e, patientsById.get(e.patientDocId))) {
+            writes.push({ ...e, status: 'booked', note: e.note || '已回診', updatedAt: now, updatedBy: '系統' });
         }
     });
-    return history.sort((a,b) => b.date.localeCompare(a.date));
+
+    // A batch takes at most 500 writes
+    for (let i = 0; i < writes.length; i += 400) {
+        const batch = db.batch();
+        writes.slice(i, i + 400).forEach(e => batch.set(db.collection('recalls').doc(e.id), deepSanitize(e)));
+        await batch.commit();
+    }
+
+    writes.forEach(e => byId.set(e.id, e));
+    const entries = Array.from(byId.values())
+        .filter(e => e.status === 'pending' || e.status === 'contacted' || e.generatedDate === today || (e.updatedAt || '').startsWith(today))
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.patientName.localeCompare(b.patientName));
+    return { entries, patients: patientsById };
+};
+
+export const updateRecallStatus = async (id: string, status: RecallStatus, user: { uid: string, name: string }, note?: string) => {
+    await db.collection('recalls').doc(id).update(deepSanitize({
+        status,
+        ...(note !== undefined ? { note } : {}),
+        updatedAt: new Date().toISOString(),
+        updatedBy: user.name
+    }));
+};
+
+// Entries generated in the month, each with whether the patient has since come back for the category
+export const getRecallReport = async (clinicId: string, month: string): Promise<{ entries: RecallEntry[], returnedIds: Set<string> }> => {
+    const [snap, patients] = await Promise.all([
+        db.collection('recalls')
+            .where('clinicId', '==', clinicId)
+            .where('generatedDate', '>=', `${month}-01`)
+            .where('generatedDate', '<=', `${month}-31`)
+            .get(),
+        getAllPatients(clinicId)
+    ]);
+    const entries = snap.docs.map(d => d.data() as RecallEntry);
+    const patientsById = new Map(patients.map(p => [p.docId, p]));
+    return { entries, returnedIds: new Set(entries.filter(e => hasReturned(e, patientsById.get(e.patientDocId))).map(e => e.id)) };
+};
+
+// --- PATIENT SEGMENTS ---
+export const getPatientSegments = async (clinicId: string): Promise<PatientSegment[]> => {
+    const snap = await db.collection('patient_segments').where('clinicId', '==', clinicId).get();
+    return snap.docs.map(d => ({ ...d.data(), id: d.id } as PatientSegment)).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePatientSegment = async (segment: Omit<PatientSegment, 'id'> & { id?: string }): Promise<string> => {
+    if (!segment.clinicId || !segment.name?.trim()) throw new Error("缺少診所或名單名稱");
+    const ref = segment.id ? db.collection('patient_segments').doc(segment.id) : db.collection('patient_segments').doc();
+    await ref.set(deepSanitize({ ...segment, id: ref.id, updatedAt: new Date().toISOString() }), { merge: true });
+    return ref.id;
+};
+
+export const deletePatientSegment = async (id: string) => {
+    await db.collection('patient_segments').doc(id).delete();
+};
+
+// Everything a segment is evaluated over: the clinic's profiles plus its rows and NP records since `since`
+export const getSegmentData = async (clinicId: string, since: string) => {
+    const [patients, rows, npSnap] = await Promise.all([
+        getAllPatients(clinicId),
+        queryAccountingRows({ clinicId, startDate: since }),
+        db.collection('np_records').where('clinicId', '==', clinicId).where('date', '>=', since).get()
+    ]);
+    return { patients, rows, npRecords: npSnap.docs.map(d => ({ ...d.data(), id: d.id } as NPRecord)) };
+};
+
+// --- APPOINTMENT REMINDERS ---
+export const addReminderLog = async (entry: Omit<ReminderLogEntry, 'id'>): Promise<ReminderLogEntry> => {
+    const ref = db.collection('reminder_logs').doc();
+    const saved: ReminderLogEntry = { ...entry, id: ref.id };
+    await ref.set(deepSanitize(saved));
+    return saved;
+};
+
+export const deleteReminderLog = async (id: string) => {
+    await db.collection('reminder_logs').doc(id).delete();
+};
+
+export const getReminderLogsForDate = async (clinicId: string, appointmentDate: string): Promise<ReminderLogEntry[]> => {
+    const snap = await db.collection('reminder_logs')
+        .where('clinicId', '==', clinicId)
+        .where('appointmentDate', '==', appointmentDate)
+        .get();
+    return snap.docs.map(d => d.data() as ReminderLogEntry).sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+};
+
+export const getPatientReminderLogs = async (clinicId: string, patientName: string, chartId: string | null): Promise<ReminderLogEntry[]> => {
+    const snap = await db.collection('reminder_logs')
+        .where('clinicId', '==', clinicId)
+        .where('patientName', '==', patientName)
+        .get();
+    return snap.docs
+        .map(d => d.data() as ReminderLogEntry)
+        .filter(l => !chartId || !l.chartId || l.chartId === chartId)
+        .sort((a, b) => b.sentAt.localeCompare(a.sentAt));
 };
 
 // --- NP RECORDS ---
@@ -1061,19 +2144,91 @@ export const saveMarketingTags = async (tags: string[]) => {
     await db.collection('settings').doc('marketing_tags').set({ tags: deepSanitize(tags) }, { merge: true });
 };
 
+export const getNPSourceRules = async (): Promise<NPSourceRule[]> => {
+    const doc = await db.collection('settings').doc('np_source_rules').get();
+    return doc.exists && doc.data()?.rules ? doc.data()!.rules : DEFAULT_NP_SOURCE_RULES;
+};
+
+export const saveNPSourceRules = async (rules: NPSourceRule[]) => {
+    await db.collection('settings').doc('np_source_rules').set({ rules: deepSanitize(rules), updatedAt: new Date().toISOString() }, { merge: true });
+};
+
+// Visible NP records for a reclassification run; both bounds are optional so the whole history can be reviewed
+export const getNPRecordsForSourceReview = async (startDate?: string, endDate?: string): Promise<NPRecord[]> => {
+    let query: firebase.firestore.Query = db.collection('np_records');
+    if (startDate) query = query.where('date', '>=', startDate);
+    if (endDate) query = query.where('date', '<=', endDate);
+    const snap = await query.get();
+    return snap.docs
+        .map(doc => ({ ...doc.data(), id: doc.id } as NPRecord))
+        .filter(r => !r.isHidden);
+};
+
+export const applyNPSourceChanges = async (changes: { id: string; source: string }[]) => {
+    // Firestore batches are capped at 500 writes
+    for (let i = 0; i < changes.length; i += 400) {
+        const batch = db.batch();
+        changes.slice(i, i + 400).forEach(c => {
+            batch.update(db.collection('np_records').doc(c.id), { source: c.source, updatedAt: new Date().toISOString() });
+        });
+        await batch.commit();
+    }
+};
+
+// --- PATIENT ATTENDANCE (No-show / late cancellation) ---
+
+/**
+ * attendanceLog entries for the given rows of one day, to be merged into the patient doc.
+ * Rows that no longer count (e.g. moved) clear their entry, so re-closing a day stays correct.
+ */
+const buildAttendanceLogUpdate = (date: string, rows: AccountingRow[], source: PatientAttendanceEvent['source']) => {
+    const update: Record<string, PatientAttendanceEvent | firebase.firestore.FieldValue> = {};
+    rows.forEach(row => {
+        const outcome = getAttendanceOutcome(row);
+        update[attendanceLogKey(date, row.id)] = outcome
+            ? { date, outcome, doctorId: row.doctorId, doctorName: row.doctorName, source, recordedAt: new Date().toISOString() }
+            : firebase.firestore.FieldValue.delete();
+    });
+    return update;
+};
+
+/**
+ * Puts late cancellations found by the calendar sync on the patients' profiles without waiting for
+ * the day to be closed; closing the day later rewrites the same entries from the rows.
+ */
+export const recordCalendarCancellations = async (clinicId: string, date: string, rows: AccountingRow[]) => {
+    const lateCancels = rows.filter(r => getAttendanceOutcome(r) === 'late_cancel');
+    if (lateCancels.length === 0) return;
+    const profiles = await Promise.all(lateCancels.map(row => resolvePatientRef(clinicId, row.chartId || null, row.patientName)));
+    const batch = db.batch();
+    lateCancels.forEach((row, i) => {
+        const { ref, data } = profiles[i];
+        batch.set(ref, deepSanitize({
+            ...(data ? {} : newPatientFields(clinicId, row.chartId || null, row.patientName)),
+            attendanceLog: buildAttendanceLogUpdate(date, [row], 'calendar')
+        }), { merge: true });
+    });
+    await batch.commit();
+};
+
 // --- DAILY CLOSING & LOCKING ---
 
-export const lockDailyReport = async (date: string, clinicId: string, rows: AccountingRow[], user: {uid: string, name: string}) => {
-    const docId = `${clinicId}_${date}`;
+export const lockDailyReport = async (date: string, clinicId: string, user: {uid: string, name: string}, cashCount?: CashCount, note?: string) => {
+    const rows = await getDayRows(clinicId, date);
     const batch = db.batch();
-    const dailyRef = db.collection('daily_accounting').doc(docId);
+    const dailyRef = dayDocRef(clinicId, date);
     
-    batch.update(dailyRef, {
-        isLocked: true,
-        auditLog: firebase.firestore.FieldValue.arrayUnion(deepSanitize({
-            timestamp: new Date().toISOString(), userId: user.uid, userName: user.name, action: 'LOCK'
-        }))
-    });
+    if (cashCount) {
+        batch.update(dailyRef, { isLocked: true, lockedWithoutCount: firebase.firestore.FieldValue.delete(), initialCash: cashCount.initialCash, cashCount: deepSanitize(cashCount) });
+    } else {
+        batch.update(dailyRef, { isLocked: true, lockedWithoutCount: true });
+    }
+    writeAuditEntries(batch, dailyRef, [buildAuditEntry(user, {
+        action: 'LOCK',
+        details: cashCount
+            ? `點鈔 $${cashCount.countedTotal} / 應有 $${cashCount.expectedCash} / 差額 ${cashCount.overShort >= 0 ? '+' : ''}${cashCount.overShort}${cashCount.explanation ? ` (${cashCount.explanation})` : ''}`
+            : note
+    })]);
 
     const groups: Record<string, AccountingRow[]> = {};
     rows.forEach(r => {
@@ -1083,7 +2238,10 @@ export const lockDailyReport = async (date: string, clinicId: string, rows: Acco
         groups[key].push(r);
     });
 
-    for (const key in groups) {
+    const groupKeys = Object.keys(groups);
+    const profiles = await Promise.all(groupKeys.map(key => resolvePatientRef(clinicId, groups[key][0].chartId || null, groups[key][0].patientName)));
+
+    for (const [index, key] of groupKeys.entries()) {
         const groupRows = groups[key];
         const rep = groupRows[0]; 
         
@@ -1091,9 +2249,7 @@ export const lockDailyReport = async (date: string, clinicId: string, rows: Acco
 
         const chartId = rep.chartId || null; 
         const name = rep.patientName;
-        const safeName = name.replace(/[\/\s]/g, '_');
-        const patientDocId = `${clinicId}_${chartId || 'NP'}_${safeName}`;
-        const patientRef = db.collection('patients').doc(patientDocId);
+        const { ref: patientRef, data: profile } = profiles[index];
 
         let totalSpend = 0;
         const items = new Set<string>();
@@ -1119,35 +2275,54 @@ export const lockDailyReport = async (date: string, clinicId: string, rows: Acco
 
         const purchasedItemsArray = Array.from(items);
 
+        // Re-locking an older day must not move a category's date backwards
+        const treatmentDates: Partial<Record<RecallCategory, string>> = {};
+        groupRows.flatMap(rowRecallCategories).forEach(c => {
+            if (!((profile?.lastTreatmentDates?.[c] || '') > date)) treatmentDates[c] = date;
+        });
+
         batch.set(patientRef, deepSanitize({
-            clinicId, chartId, name, lastVisit: date,
+            ...(profile ? { identityKeys: firebase.firestore.FieldValue.arrayUnion(patientIdentityKey(chartId, name)) } : newPatientFields(clinicId, chartId, name)),
+            lastVisit: date,
             updatedAt: firebase.firestore.FieldValue.serverTimestamp(),
             totalSpending: firebase.firestore.FieldValue.increment(totalSpend),
             purchasedItems: purchasedItemsArray.length > 0 ? firebase.firestore.FieldValue.arrayUnion(...purchasedItemsArray) : undefined,
-            visitHistory: visitHistoryData.length > 0 ? firebase.firestore.FieldValue.arrayUnion(...visitHistoryData) : undefined
+            visitHistory: visitHistoryData.length > 0 ? firebase.firestore.FieldValue.arrayUnion(...visitHistoryData) : undefined,
+            attendanceLog: buildAttendanceLogUpdate(date, groupRows, 'accounting'),
+            ...(Object.keys(treatmentDates).length > 0 ? { lastTreatmentDates: treatmentDates } : {})
         }), { merge: true });
     }
     await batch.commit();
 };
 
 export const unlockDailyReport = async (date: string, clinicId: string, user: {uid: string, name: string}) => {
-    const docId = `${clinicId}_${date}`;
-    await db.collection('daily_accounting').doc(docId).update({
-        isLocked: false,
-        auditLog: firebase.firestore.FieldValue.arrayUnion(deepSanitize({
-            timestamp: new Date().toISOString(), userId: user.uid, userName: user.name, action: 'UNLOCK'
-        }))
-    });
+    const dailyRef = dayDocRef(clinicId, date);
+    const batch = db.batch();
+    batch.update(dailyRef, { isLocked: false });
+    writeAuditEntries(batch, dailyRef, [buildAuditEntry(user, { action: 'UNLOCK' })]);
+    await batch.commit();
 };
 
-export const checkPreviousUnlocked = async (currentDate: string, clinicId: string): Promise<string[]> => {
-    const pastDate = new Date(currentDate); 
-    pastDate.setDate(pastDate.getDate() - 14);
-    const minDateStr = pastDate.toISOString().split('T')[0];
-    
+const dayBefore = (date: string) => {
+    const d = new Date(date);
+    d.setDate(d.getDate() - 1);
+    return d.toISOString().split('T')[0];
+};
+
+// The closing backlog covers the previous and the current month, up to (not including) the given day
+export const getClosingBacklogRange = (currentDate: string) => {
+    const [y, m] = currentDate.split('-').map(Number);
+    const prev = new Date(y, m - 2, 1);
+    return {
+        startDate: `${prev.getFullYear()}-${String(prev.getMonth() + 1).padStart(2, '0')}-01`,
+        endDate: dayBefore(currentDate)
+    };
+};
+
+const getUnlockedDates = async (clinicId: string, startDate: string, endDate: string): Promise<string[]> => {
     const snap = await db.collection('daily_accounting')
-        .where(firebase.firestore.FieldPath.documentId(), '>=', `${clinicId}_${minDateStr}`)
-        .where(firebase.firestore.FieldPath.documentId(), '<', `${clinicId}_${currentDate}`)
+        .where(firebase.firestore.FieldPath.documentId(), '>=', `${clinicId}_${startDate}`)
+        .where(firebase.firestore.FieldPath.documentId(), '<=', `${clinicId}_${endDate}`)
         .get();
 
     const unlocked: string[] = [];
@@ -1160,6 +2335,93 @@ export const checkPreviousUnlocked = async (currentDate: string, clinicId: strin
     return unlocked.sort();
 };
 
+export const checkPreviousUnlocked = async (currentDate: string, clinicId: string): Promise<string[]> => {
+    const { startDate, endDate } = getClosingBacklogRange(currentDate);
+    return getUnlockedDates(clinicId, startDate, endDate);
+};
+
+/**
+ * Unlocked days between the two dates (inclusive) with their totals and validation results,
+ * evaluated with the clinic's rule configuration like the daily close does.
+ */
+export const getClosingBacklog = async (
+    clinicId: string,
+    startDate: string,
+    endDate: string,
+    ruleConfig?: Record<string, RuleSeverity>
+): Promise<ClosingBacklogDay[]> => {
+    const dates = await getUnlockedDates(clinicId, startDate, endDate);
+    if (dates.length === 0) return [];
+
+    const first = dates[0];
+    const last = dates[dates.length - 1];
+    const [rows, npSnap] = await Promise.all([
+        queryAccountingRows({ clinicId, startDate: first, endDate: last }),
+        db.collection('np_records').where('clinicId', '==', clinicId).where('date', '>=', first).where('date', '<=', last).get()
+    ]);
+    const npRecords = new Map<string, NPRecord>();
+    npSnap.forEach(doc => {
+        const data = doc.data() as NPRecord;
+        if (!data.isHidden) npRecords.set(doc.id, data);
+    });
+
+    return dates.map(date => {
+        const dayRows = rows.filter(r => r.originalDate === date);
+        const totals = { cash: 0, card: 0, transfer: 0, total: 0 };
+        const errors: string[] = [];
+        const warnings: string[] = [];
+
+        dayRows.forEach((row, idx) => {
+            const { actualCollected, paymentBreakdown } = computeRowTotals(row);
+            totals.total += actualCollected;
+            totals.cash += paymentBreakdown?.cash || 0;
+            totals.card += paymentBreakdown?.card || 0;
+            totals.transfer += paymentBreakdown?.transfer || 0;
+
+            evaluateRow(row, { npRecord: npRecords.get(row.id) }, ruleConfig).forEach(issue => {
+                const msg = `第 ${idx + 1} 列 (${row.patientName || '未命名'}): ${issue.message}`;
+                if (issue.severity === 'block') errors.push(msg);
+                else warnings.push(msg);
+            });
+        });
+
+        return { date, rowCount: dayRows.length, totals, errors, warnings };
+    });
+};
+
+/**
+ * Locks the days one by one (oldest first) so one failing day does not stop the rest. Each day is
+ * validated again just before it is locked, since it may have changed after the backlog was listed;
+ * days with blocking errors end up in `failed`. Bulk-locked days carry no cash count (lockedWithoutCount),
+ * so the drawer float keeps coming from the last counted day.
+ */
+export const lockDaysInBulk = async (
+    clinicId: string,
+    dates: string[],
+    user: { uid: string, name: string },
+    ruleConfig?: Record<string, RuleSeverity>,
+    onProgress?: (done: number, total: number) => void
+): Promise<{ locked: string[], failed: { date: string, error: string }[] }> => {
+    const locked: string[] = [];
+    const failed: { date: string, error: string }[] = [];
+    const sorted = [...dates].sort();
+
+    for (const date of sorted) {
+        try {
+            const [day] = await getClosingBacklog(clinicId, date, date, ruleConfig);
+            if (!day) throw new Error('已結帳或無資料');
+            if (day.errors.length > 0) throw new Error(`${day.errors.length} 項錯誤須先修正：${day.errors[0]}`);
+            await lockDailyReport(date, clinicId, user, undefined, '批次結帳 (結帳待辦)');
+            locked.push(date);
+        } catch (e: any) {
+            console.error(`Bulk lock failed for ${date}`, e);
+            failed.push({ date, error: e.message });
+        }
+        onProgress?.(locked.length + failed.length, sorted.length);
+    }
+    return { locked, failed };
+};
+
 // --- MONTHLY CLOSING ---
 
 export const getMonthlyClosingStatus = async (clinicId: string, yearMonth: string): Promise<MonthlyClosing | null> => {
@@ -1210,11 +2472,8 @@ export const findPatientIdByName = async (name: string, clinicId: string): Promi
 };
 
 export const findPatientProfile = async (clinicId: string, name: string, chartId?: string | null): Promise<Patient | null> => {
-    if (chartId) {
-        const docId = `${clinicId}_${chartId}_${name.replace(/[\/\s]/g, '_')}`;
-        const doc = await db.collection('patients').doc(docId).get();
-        if (doc.exists) return { docId: doc.id, ...doc.data() } as Patient;
-    }
+    const { data } = await resolvePatientRef(clinicId, chartId || null, name);
+    if (data) return data;
     const q = await db.collection('patients').where('clinicId', '==', clinicId).where('name', '==', name).limit(1).get();
     return !q.empty ? { docId: q.docs[0].id, ...q.docs[0].data() } as Patient : null;
 }
@@ -1,3 +1,4 @@
+import { CalendarEvent, CalendarEventDraft, CalendarEventPatch, CalendarInfo, CalendarProvider } from '../types';
 
 // Types for Google API
 declare global {
@@ -136,21 +137,8 @@ export const handleSignOutClick = () => {
   return false;
 };
 
-export interface GoogleCalendar {
-  id: string;
-  summary: string;
-  primary?: boolean;
-}
-
-export interface GoogleEvent {
-  id: string;
-  summary: string;
-  start: { dateTime?: string; date?: string };
-  end: { dateTime?: string; date?: string };
-  description?: string;
-  // We add this helper property for the frontend
-  allDay?: boolean; 
-}
+export type GoogleCalendar = CalendarInfo;
+export type GoogleEvent = CalendarEvent;
 
 // Helper to ensure client is loaded before calling API
 const ensureCalendarClient = async () => {
@@ -301,10 +289,60 @@ export const searchEvents = async (
   }
 };
 
+/**
+ * Events of one calendar including deleted ones, either for a time window or, with `updatedMin`,
+ * every event changed since then wherever it now sits (so moves to another day show up too).
+ * Unlike listEvents this throws, letting the caller fall back to a full listing.
+ */
+export const listEventChanges = async (
+  calendarId: string,
+  options: { timeMin?: Date; timeMax?: Date; updatedMin?: Date }
+): Promise<GoogleEvent[]> => {
+  await ensureCalendarClient();
+  const events: GoogleEvent[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await window.gapi.client.calendar.events.list({
+      calendarId,
+      timeMin: options.timeMin?.toISOString(),
+      timeMax: options.timeMax?.toISOString(),
+      updatedMin: options.updatedMin?.toISOString(),
+      showDeleted: true,
+      singleEvents: true,
+      maxResults: 250,
+      pageToken
+    });
+    (response.result.items || []).forEach((item: any) => {
+      const start = item.start || {};
+      events.push({
+        id: item.id,
+        summary: item.summary || '',
+        start,
+        end: item.end || {},
+        description: item.description,
+        status: item.status,
+        updated: item.updated,
+        allDay: !!start.date && !start.dateTime
+      });
+    });
+    pageToken = response.result.nextPageToken;
+  } while (pageToken);
+
+  return events;
+};
+
+// Google wants start/end as { dateTime }; the browser's zone is the clinic's zone
+const toEventResource = ({ start, end, ...rest }: CalendarEventPatch) => ({
+  ...rest,
+  ...(start ? { start: { dateTime: start.toISOString() } } : {}),
+  ...(end ? { end: { dateTime: end.toISOString() } } : {})
+});
+
 export const patchEvent = async (
   calendarId: string,
   eventId: string,
-  patchData: { summary?: string; description?: string }
+  patchData: CalendarEventPatch
 ): Promise<boolean> => {
   try {
     // Safety check
@@ -317,7 +355,7 @@ export const patchEvent = async (
     await window.gapi.client.calendar.events.patch({
       calendarId: calendarId,
       eventId: eventId,
-      resource: patchData,
+      resource: toEventResource(patchData),
     });
     return true;
   } catch (err) {
@@ -325,3 +363,48 @@ export const patchEvent = async (
     return false;
   }
 };
+
+export const createEvent = async (calendarId: string, draft: CalendarEventDraft): Promise<GoogleEvent> => {
+  await ensureCalendarClient();
+  const response = await window.gapi.client.calendar.events.insert({
+    calendarId,
+    resource: toEventResource(draft)
+  });
+  const item = response.result;
+  return {
+    id: item.id,
+    summary: item.summary || '',
+    start: item.start,
+    end: item.end,
+    description: item.description,
+    allDay: false
+  };
+};
+
+export const deleteEvent = async (calendarId: string, eventId: string): Promise<void> => {
+  await ensureCalendarClient();
+  await window.gapi.client.calendar.events.delete({ calendarId, eventId });
+};
+
+export const moveEvent = async (calendarId: string, eventId: string, destinationCalendarId: string): Promise<void> => {
+  await ensureCalendarClient();
+  await window.gapi.client.calendar.events.move({ calendarId, eventId, destination: destinationCalendarId });
+};
+
+export const googleCalendarProvider: CalendarProvider = {
+  type: 'google',
+  label: 'Google Calendar',
+  connect: initGoogleClient,
+  authorize: authorizeCalendar,
+  disconnect: () => { handleSignOutClick(); },
+  getAccountLabel: getCalendarProfile,
+  listCalendars,
+  listEvents,
+  searchEvents,
+  listEventChanges,
+  incremental: true,
+  patchEvent,
+  createEvent,
+  deleteEvent,
+  moveEvent
+};
@@ -0,0 +1,311 @@
+import { CalendarEvent, CalendarInfo, CalendarProvider } from '../types';
+import { parseIcsEvents, parseIcsCalendarName, patchIcsEvent, formatIcsUtc, buildIcsCalendar, appendIcsEvent, removeIcsEvent } from '../utils/ics';
+
+// Calendar providers that speak iCalendar: a CalDAV server, or .ics files imported on this device.
+
+// Where earlier versions kept CalDAV logins in plaintext; cleared on load
+const LEGACY_CREDENTIALS_KEY = 'dental_caldav_credentials_v1';
+// Imported .ics files, keyed by calendar id
+const ICS_STORE_KEY = 'dental_ics_calendars_v1';
+
+const DAV_NS = 'DAV:';
+const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+
+const overlaps = (event: CalendarEvent, timeMin: Date, timeMax: Date) => {
+  const start = new Date(event.start.dateTime || event.start.date || 0);
+  const end = new Date(event.end.dateTime || event.end.date || start);
+  return start <= timeMax && end >= timeMin;
+};
+
+const matchesQuery = (event: CalendarEvent, query: string) => {
+  const q = query.toLowerCase();
+  return event.summary.toLowerCase().includes(q) || (event.description || '').toLowerCase().includes(q);
+};
+
+const byStart = (a: CalendarEvent, b: CalendarEvent) =>
+  (a.start.dateTime || a.start.date || '').localeCompare(b.start.dateTime || b.start.date || '');
+
+const newUid = () => `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}@dental-manager`;
+
+// --- CALDAV ---
+
+interface CalDavCredentials {
+  username: string;
+  password: string;
+}
+
+// Logins by server URL, in memory only: front-desk machines are shared, so a password must not
+// outlive the tab or the signed-in user (see clearCalDavCredentials)
+const calDavCredentials: Record<string, CalDavCredentials> = {};
+localStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+
+const getCalDavCredentials = (serverUrl: string): CalDavCredentials | null => calDavCredentials[serverUrl] || null;
+
+export const saveCalDavCredentials = (serverUrl: string, credentials: CalDavCredentials | null) => {
+  if (credentials) calDavCredentials[serverUrl] = credentials;
+  else delete calDavCredentials[serverUrl];
+};
+
+// On sign-out, so the next user of the machine has to log in again
+export const clearCalDavCredentials = () => {
+  Object.keys(calDavCredentials).forEach(serverUrl => delete calDavCredentials[serverUrl]);
+};
+
+// btoa only takes Latin-1, so non-ASCII logins are UTF-8 encoded first
+const basicAuth = ({ username, password }: CalDavCredentials) =>
+  'Basic ' + btoa(unescape(encodeURIComponent(`${username}:${password}`)));
+
+const davRequest = async (serverUrl: string, url: string, method: string, body?: string, headers: Record<string, string> = {}) => {
+  const credentials = getCalDavCredentials(serverUrl);
+  if (!credentials) throw new Error('尚未設定 CalDAV 帳號');
+  const response = await fetch(url, {
+    method,
+    body,
+    headers: {
+      Authorization: basicAuth(credentials),
+      ...(body ? { 'Content-Type': method === 'PUT' ? 'text/calendar; charset=utf-8' : 'application/xml; charset=utf-8' } : {}),
+      ...headers
+    }
+  });
+  if (!response.ok) throw new Error(`CalDAV ${method} ${response.status} ${response.statusText}`);
+  return response;
+};
+
+const parseMultistatus = async (response: Response) => {
+  const xml = new DOMParser().parseFromString(await response.text(), 'application/xml');
+  return Array.from(xml.getElementsByTagNameNS(DAV_NS, 'response')).map(node => ({
+    href: node.getElementsByTagNameNS(DAV_NS, 'href')[0]?.textContent || '',
+    node
+  }));
+};
+
+const calendarQuery = (filter: string) => `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">${filter}</c:comp-filter></c:comp-filter></c:filter>
+</c:calendar-query>`;
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const createCalDavProvider = (serverUrl: string): CalendarProvider => {
+  const queryResources = async (calendarId: string, filter: string) => {
+    const response = await davRequest(serverUrl, calendarId, 'REPORT', calendarQuery(filter), { Depth: '1' });
+    return (await parseMultistatus(response)).map(({ href, node }) => ({
+      url: new URL(href, calendarId).href,
+      etag: node.getElementsByTagNameNS(DAV_NS, 'getetag')[0]?.textContent || '',
+      data: node.getElementsByTagNameNS(CALDAV_NS, 'calendar-data')[0]?.textContent || ''
+    }));
+  };
+
+  const listWindow = async (calendarId: string, timeMin: Date, timeMax: Date) => {
+    const resources = await queryResources(calendarId, `<c:time-range start="${formatIcsUtc(timeMin)}" end="${formatIcsUtc(timeMax)}"/>`);
+    return resources.flatMap(r => parseIcsEvents(r.data)).filter(e => overlaps(e, timeMin, timeMax)).sort(byStart);
+  };
+
+  const listEventChanges = async (calendarId: string, options: { timeMin?: Date; timeMax?: Date; updatedMin?: Date }) => {
+    if (!options.timeMin || !options.timeMax) throw new Error('CalDAV 僅支援指定時間範圍的查詢');
+    return listWindow(calendarId, options.timeMin, options.timeMax);
+  };
+
+  const listEvents = async (calendarId: string, timeMin: Date, timeMax: Date) => {
+    try {
+      return (await listWindow(calendarId, timeMin, timeMax)).filter(e => e.status !== 'cancelled');
+    } catch (err) {
+      console.error(`[CalDAV] Error fetching events for ${calendarId}`, err);
+      return [];
+    }
+  };
+
+  const findResource = async (calendarId: string, uid: string) => {
+    const filter = `<c:prop-filter name="UID"><c:text-match collation="i;octet">${escapeXml(uid)}</c:text-match></c:prop-filter>`;
+    const [resource] = await queryResources(calendarId, filter);
+    return resource || null;
+  };
+
+  return {
+    type: 'caldav',
+    label: 'CalDAV',
+    connect: (onInit, onUserChanged) => {
+      onInit();
+      onUserChanged(!!getCalDavCredentials(serverUrl));
+    },
+    disconnect: () => saveCalDavCredentials(serverUrl, null),
+    getAccountLabel: async () => getCalDavCredentials(serverUrl)?.username || null,
+    listCalendars: async (): Promise<CalendarInfo[]> => {
+      try {
+        const body = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav"><d:prop><d:displayname/><d:resourcetype/></d:prop></d:propfind>`;
+        const response = await davRequest(serverUrl, serverUrl, 'PROPFIND', body, { Depth: '1' });
+        return (await parseMultistatus(response))
+          .filter(({ node }) => node.getElementsByTagNameNS(CALDAV_NS, 'calendar').length > 0)
+          .map(({ href, node }) => {
+            const id = new URL(href, serverUrl).href;
+            return { id, summary: node.getElementsByTagNameNS(DAV_NS, 'displayname')[0]?.textContent || id };
+          });
+      } catch (err) {
+        console.error('[CalDAV] Error fetching calendars', err);
+        return [];
+      }
+    },
+    listEvents,
+    searchEvents: async (calendarId, query, timeMin, timeMax) =>
+      (await listEvents(calendarId, timeMin, timeMax)).filter(e => matchesQuery(e, query)),
+    listEventChanges,
+    incremental: false,
+    patchEvent: async (calendarId, eventId, patch) => {
+      try {
+        const resource = await findResource(calendarId, eventId);
+        const updated = resource && patchIcsEvent(resource.data, eventId, patch);
+        if (!updated) return false;
+        // If-Match keeps us from overwriting an edit made on another client in between
+        await davRequest(serverUrl, resource.url, 'PUT', updated, resource.etag ? { 'If-Match': resource.etag } : {});
+        return true;
+      } catch (err) {
+        console.error('[CalDAV] Error patching event', err);
+        return false;
+      }
+    },
+    createEvent: async (calendarId, draft) => {
+      const uid = newUid();
+      const ics = buildIcsCalendar(uid, draft);
+      const collection = calendarId.endsWith('/') ? calendarId : `${calendarId}/`;
+      // If-None-Match keeps a (very unlikely) clashing resource name from being overwritten
+      await davRequest(serverUrl, new URL(`${encodeURIComponent(uid)}.ics`, collection).href, 'PUT', ics, { 'If-None-Match': '*' });
+      return parseIcsEvents(ics)[0];
+    },
+    deleteEvent: async (calendarId, eventId) => {
+      const resource = await findResource(calendarId, eventId);
+      if (!resource) throw new Error('日曆中找不到此預約');
+      await davRequest(serverUrl, resource.url, 'DELETE', undefined, resource.etag ? { 'If-Match': resource.etag } : {});
+    },
+    // WebDAV MOVE keeps the resource, and with it the event's UID
+    moveEvent: async (calendarId, eventId, destinationCalendarId) => {
+      const resource = await findResource(calendarId, eventId);
+      if (!resource) throw new Error('日曆中找不到此預約');
+      const collection = destinationCalendarId.endsWith('/') ? destinationCalendarId : `${destinationCalendarId}/`;
+      const destination = new URL(resource.url.split('/').pop() || `${encodeURIComponent(eventId)}.ics`, collection).href;
+      await davRequest(serverUrl, resource.url, 'MOVE', undefined, {
+        Destination: destination,
+        Overwrite: 'F',
+        ...(resource.etag ? { 'If-Match': resource.etag } : {})
+      });
+    }
+  };
+};
+
+const calDavProviders: Record<string, CalendarProvider> = {};
+
+export const getCalDavProvider = (serverUrl: string) => {
+  if (!calDavProviders[serverUrl]) calDavProviders[serverUrl] = createCalDavProvider(serverUrl);
+  return calDavProviders[serverUrl];
+};
+
+// --- ICS FILES ---
+
+interface StoredIcsCalendar {
+  summary: string;
+  ics: string;
+  importedAt: string;
+}
+
+const readIcsStore = (): Record<string, StoredIcsCalendar> => {
+  try {
+    return JSON.parse(localStorage.getItem(ICS_STORE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const writeIcsStore = (store: Record<string, StoredIcsCalendar>) => {
+  localStorage.setItem(ICS_STORE_KEY, JSON.stringify(store));
+};
+
+/**
+ * Stores an exported .ics file as a calendar on this device. Importing a file with the same name
+ * again replaces it, so a fresh export keeps the calendar id (and the doctor mapping) stable.
+ */
+export const importIcsCalendar = (fileName: string, text: string): CalendarInfo => {
+  if (!text.includes('BEGIN:VCALENDAR')) throw new Error('不是有效的 .ics 檔案');
+  const id = `ics:${fileName}`;
+  const summary = parseIcsCalendarName(text) || fileName.replace(/\.ics$/i, '');
+  const store = readIcsStore();
+  store[id] = { summary, ics: text, importedAt: new Date().toISOString() };
+  try {
+    writeIcsStore(store);
+  } catch (e) {
+    throw new Error('瀏覽器儲存空間不足，無法匯入此檔案');
+  }
+  return { id, summary };
+};
+
+export const removeIcsCalendar = (calendarId: string) => {
+  const store = readIcsStore();
+  delete store[calendarId];
+  writeIcsStore(store);
+};
+
+export const getIcsCalendarText = (calendarId: string): string | null => readIcsStore()[calendarId]?.ics || null;
+
+const saveIcsText = (calendarId: string, ics: string) => {
+  const store = readIcsStore();
+  store[calendarId] = { ...store[calendarId], ics };
+  writeIcsStore(store);
+};
+
+const readIcsEvents = (calendarId: string, timeMin?: Date, timeMax?: Date) => {
+  const calendar = readIcsStore()[calendarId];
+  if (!calendar) throw new Error(`找不到已匯入的日曆 ${calendarId}`);
+  const events = parseIcsEvents(calendar.ics);
+  return (timeMin && timeMax ? events.filter(e => overlaps(e, timeMin, timeMax)) : events).sort(byStart);
+};
+
+// Write-back only edits the copy on this device; export it again from here to share the changes
+export const icsFileProvider: CalendarProvider = {
+  type: 'ics',
+  label: 'ICS 檔案',
+  connect: (onInit, onUserChanged) => {
+    onInit();
+    onUserChanged(true);
+  },
+  disconnect: () => {},
+  getAccountLabel: async () => '本機匯入檔案',
+  listCalendars: async () => Object.entries(readIcsStore()).map(([id, c]) => ({ id, summary: c.summary })),
+  listEvents: async (calendarId, timeMin, timeMax) => {
+    try {
+      return readIcsEvents(calendarId, timeMin, timeMax).filter(e => e.status !== 'cancelled');
+    } catch (err) {
+      console.error(`[ICS] Error reading events for ${calendarId}`, err);
+      return [];
+    }
+  },
+  searchEvents: async (calendarId, query, timeMin, timeMax) => {
+    try {
+      return readIcsEvents(calendarId, timeMin, timeMax).filter(e => e.status !== 'cancelled' && matchesQuery(e, query));
+    } catch (err) {
+      console.error(`[ICS] Error searching events for ${calendarId}`, err);
+      return [];
+    }
+  },
+  listEventChanges: async (calendarId, options) => readIcsEvents(calendarId, options.timeMin, options.timeMax),
+  incremental: false,
+  patchEvent: async (calendarId, eventId, patch) => {
+    const text = getIcsCalendarText(calendarId);
+    const updated = text && patchIcsEvent(text, eventId, patch);
+    if (!updated) return false;
+    saveIcsText(calendarId, updated);
+    return true;
+  },
+  createEvent: async (calendarId, draft) => {
+    const text = getIcsCalendarText(calendarId);
+    if (!text) throw new Error(`找不到已匯入的日曆 ${calendarId}`);
+    const uid = newUid();
+    saveIcsText(calendarId, appendIcsEvent(text, uid, draft));
+    return readIcsEvents(calendarId).find(e => e.id === uid)!;
+  },
+  deleteEvent: async (calendarId, eventId) => {
+    const text = getIcsCalendarText(calendarId);
+    const updated = text && removeIcsEvent(text, eventId);
+    if (!updated) throw new Error('日曆中找不到此預約');
+    saveIcsText(calendarId, updated);
+  }
+};
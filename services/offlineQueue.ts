@@ -0,0 +1,148 @@
+import { AccountingRow, DailyAccountingRecord, DailyRowChanges, QueuedDaySave, RowConflict } from '../types';
+import { saveDailyAccounting } from './firebase';
+
+// Unsaved daily accounting edits survive reloads and Wi-Fi drops here until they reach Firestore.
+// One entry per clinic/day: later saves replace the snapshot and widen the set of touched rows.
+const STORAGE_KEY = 'dental_accounting_queue_v1';
+
+type QueueListener = (entries: QueuedDaySave[]) => void;
+const listeners = new Set<QueueListener>();
+
+const entryKey = (clinicId: string, date: string) => `${clinicId}_${date}`;
+
+const readQueue = (): Record<string, QueuedDaySave> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.error('Offline queue is unreadable, starting empty', e);
+    return {};
+  }
+};
+
+const writeQueue = (queue: Record<string, QueuedDaySave>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  const entries = Object.values(queue);
+  listeners.forEach(l => l(entries));
+};
+
+export const getQueuedSaves = (): QueuedDaySave[] =>
+  Object.values(readQueue()).sort((a, b) => a.queuedAt - b.queuedAt);
+
+export const getQueuedSave = (clinicId: string, date: string): QueuedDaySave | null =>
+  readQueue()[entryKey(clinicId, date)] || null;
+
+export const subscribeQueue = (listener: QueueListener) => {
+  listeners.add(listener);
+  // Another tab on the same browser may queue or flush
+  const onStorage = (e: StorageEvent) => { if (e.key === STORAGE_KEY) listener(getQueuedSaves()); };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
+
+export const queueDaySave = (save: {
+  record: DailyAccountingRecord;
+  dirtyRowIds: string[];
+  deletedRowIds: string[];
+  baseRows: Record<string, AccountingRow>;
+  user: { uid: string; name: string };
+}) => {
+  const queue = readQueue();
+  const key = entryKey(save.record.clinicId, save.record.date);
+  const existing = queue[key];
+
+  queue[key] = {
+    clinicId: save.record.clinicId,
+    date: save.record.date,
+    record: save.record,
+    dirtyRowIds: Array.from(new Set([...(existing?.dirtyRowIds || []), ...save.dirtyRowIds])),
+    deletedRowIds: Array.from(new Set([...(existing?.deletedRowIds || []), ...save.deletedRowIds])),
+    // The first base wins: the edits have to be checked against what the user originally saw
+    baseRows: { ...save.baseRows, ...(existing?.baseRows || {}) },
+    user: save.user,
+    queuedAt: existing?.queuedAt || Date.now(),
+    attempts: existing?.attempts || 0,
+    status: 'pending'
+  };
+  writeQueue(queue);
+};
+
+export const removeQueuedSave = (clinicId: string, date: string) => {
+  const queue = readQueue();
+  const key = entryKey(clinicId, date);
+  if (!queue[key]) return;
+  delete queue[key];
+  writeQueue(queue);
+};
+
+const updateQueuedSave = (clinicId: string, date: string, updates: Partial<QueuedDaySave>) => {
+  const queue = readQueue();
+  const key = entryKey(clinicId, date);
+  if (!queue[key]) return;
+  queue[key] = { ...queue[key], ...updates };
+  writeQueue(queue);
+};
+
+// Firestore reports a dropped connection as 'unavailable'; a browser that knows it is offline never gets that far
+export const isOfflineError = (error: any) =>
+  !navigator.onLine || ['unavailable', 'deadline-exceeded'].includes(error?.code);
+
+export const buildQueuedChanges = (entry: QueuedDaySave): DailyRowChanges => {
+  const baseVersions: Record<string, number> = {};
+  Object.values(entry.baseRows).forEach(r => { baseVersions[r.id] = r.version || 0; });
+  return {
+    dirtyRowIds: entry.dirtyRowIds,
+    deletedRowIds: entry.deletedRowIds,
+    baseVersions,
+    expectUnlocked: true
+  };
+};
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: { clinicId: string; date: string; conflicts: RowConflict[] }[];
+  failed: number;
+}
+
+/**
+ * Sends queued days to the server, oldest first. Rows that conflict stay queued (status 'conflict')
+ * with only the conflicting rows left, to be resolved when that day is opened. Stops at the first
+ * network failure since everything after it would fail the same way.
+ */
+export const replayQueuedSaves = async (skip?: { clinicId: string; date: string }): Promise<ReplayResult> => {
+  const result: ReplayResult = { synced: 0, conflicts: [], failed: 0 };
+
+  for (const entry of getQueuedSaves()) {
+    if (entry.status !== 'pending') continue;
+    if (skip && entry.clinicId === skip.clinicId && entry.date === skip.date) continue;
+
+    try {
+      const { conflicts } = await saveDailyAccounting(entry.record, buildQueuedChanges(entry), entry.user);
+      if (conflicts.length === 0) {
+        removeQueuedSave(entry.clinicId, entry.date);
+        result.synced++;
+        continue;
+      }
+      const conflictIds = new Set(conflicts.map(c => c.rowId));
+      updateQueuedSave(entry.clinicId, entry.date, {
+        dirtyRowIds: entry.dirtyRowIds.filter(id => conflictIds.has(id)),
+        deletedRowIds: entry.deletedRowIds.filter(id => conflictIds.has(id)),
+        status: 'conflict',
+        attempts: entry.attempts + 1
+      });
+      result.conflicts.push({ clinicId: entry.clinicId, date: entry.date, conflicts });
+    } catch (e: any) {
+      if (isOfflineError(e)) {
+        updateQueuedSave(entry.clinicId, entry.date, { attempts: entry.attempts + 1, lastError: e.message });
+        break;
+      }
+      console.error('Queued save failed', e);
+      updateQueuedSave(entry.clinicId, entry.date, { status: 'error', attempts: entry.attempts + 1, lastError: e.message });
+      result.failed++;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,34 @@
+import { ReminderChannel, ReminderDelivery } from '../types';
+
+export const REMINDER_CHANNEL_OPTIONS: { channel: ReminderChannel; label: string; description: string }[] = [
+  { channel: 'manual', label: '手動傳送', description: '複製訊息貼到 LINE，傳送後勾選「已傳送」' },
+  { channel: 'mock', label: '模擬發送 (測試)', description: '不會真的傳出訊息，只寫入傳送紀錄，用來測試提醒流程' }
+];
+
+// Staff send the text themselves; "sending" only records that they did
+const manualDelivery: ReminderDelivery = {
+  channel: 'manual',
+  label: '手動傳送',
+  sendsMessages: false,
+  send: async () => {}
+};
+
+const mockDelivery: ReminderDelivery = {
+  channel: 'mock',
+  label: '模擬發送',
+  sendsMessages: true,
+  send: async (recipient, message) => {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    console.info(`[reminder:mock] ${recipient.patientName}${recipient.chartId ? ` (${recipient.chartId})` : ''}\n${message}`);
+  }
+};
+
+// The delivery configured for a clinic; clinics without one send by hand
+export const getReminderDelivery = (channel?: ReminderChannel | null): ReminderDelivery => {
+  switch (channel) {
+    case 'mock':
+      return mockDelivery;
+    default:
+      return manualDelivery;
+  }
+};
@@ -62,8 +62,17 @@ export interface Clinic {
       evening: string;
   };
   styleConfig?: ClinicStyleConfig;
-  googleCalendarMapping?: Record<string, string>;
+  googleCalendarMapping?: Record<string, string>; // Doctor id / clinic_shared -> calendar id of the clinic's provider
+  calendarProvider?: CalendarProviderConfig; // Missing means Google
+  titleGrammar?: TitleGrammar; // Missing means the built-in parser (utils/eventParser)
+  calendarWriteBack?: boolean; // Allow writing accounting edits back to the appointment titles
   allowedUsers?: string[];
+  validationRules?: Record<string, RuleSeverity>; // Rule id -> severity override (see utils/validationRules)
+  operatories?: Operatory[]; // Chairs appointments can be assigned to, in display order
+  reminderTemplate?: string; // Appointment reminder text with {placeholders}; missing means the default (utils/reminders)
+  reminderChannel?: ReminderChannel; // How reminders go out; missing means staff send them by hand
+  overShortThreshold?: number; // Cash drawer over/short beyond this needs an explanation at closing; missing means 100
+  recallRules?: RecallRule[]; // Recall intervals per treatment category; missing means the defaults (utils/recalls)
 
   // Embedded Data Fields
   doctors?: Doctor[];
@@ -72,6 +81,112 @@ export interface Clinic {
   schedules?: DailySchedule[];
 }
 
+// A treatment chair / operatory of a clinic
+export interface Operatory {
+  id: string;
+  name: string;
+  color?: string;
+  disabled?: boolean; // Out of service: kept for past assignments, not offered for new ones
+}
+
+// Which chair a calendar appointment uses (operatory_assignments/{clinicId}_{eventId})
+export interface OperatoryAssignment {
+  clinicId: string;
+  eventId: string;
+  date: string; // YYYY-MM-DD of the appointment
+  operatoryId: string;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+// A patient who would take an earlier or short-notice slot (waitlist/{id})
+export type WaitlistStatus = 'waiting' | 'booked' | 'removed';
+
+export interface WaitlistEntry {
+  id: string;
+  clinicId: string;
+  patientName: string;
+  chartId: string | null;
+  phone?: string;
+  doctorId?: string; // Preferred doctor; missing means any doctor
+  treatment: string;
+  durationMinutes: number;
+  weekdays: number[]; // Date.getDay() values the patient can come; empty means any day
+  shifts: ShiftType[]; // Sessions the patient can come; empty means any session
+  note?: string;
+  status: WaitlistStatus;
+  bookedEventId?: string;
+  createdAt: string;
+  createdBy?: string;
+  updatedAt?: string;
+}
+
+// --- Appointment reminders ---
+export type ReminderChannel = 'manual' | 'mock';
+
+export interface ReminderRecipient {
+  patientName: string;
+  chartId: string | null;
+}
+
+// Sends one reminder. New gateways (LINE, SMS) implement this and register in services/reminderDelivery.
+export interface ReminderDelivery {
+  channel: ReminderChannel;
+  label: string;
+  sendsMessages: boolean; // false: staff paste the text themselves and only mark it as sent
+  send: (recipient: ReminderRecipient, message: string) => Promise<void>; // Throws when it was not delivered
+}
+
+// One send (or mark-as-sent) of a reminder (reminder_logs/{id})
+export interface ReminderLogEntry {
+  id: string;
+  clinicId: string;
+  eventId: string;
+  appointmentDate: string; // YYYY-MM-DD
+  appointmentAt: string;   // ISO start of the appointment
+  patientName: string;
+  chartId: string | null;
+  doctorName: string;
+  message: string;
+  channel: ReminderChannel;
+  status: 'sent' | 'failed';
+  error?: string;
+  sentAt: string;
+  sentBy?: string;
+}
+
+// --- Recall ---
+// 'checkup' is any visit; the other categories are the accounting columns a visit was charged under
+export type RecallCategory = 'checkup' | 'perio' | 'whitening' | 'ortho' | 'inv' | 'implant' | 'prostho';
+
+export interface RecallRule {
+  category: RecallCategory;
+  intervalMonths: number;
+  enabled: boolean;
+}
+
+export type RecallStatus = 'pending' | 'contacted' | 'booked' | 'declined';
+
+// One patient due back for one category (recalls/{clinicId}_{patientDocId}_{category}_{dueDate})
+export interface RecallEntry {
+  id: string;
+  clinicId: string;
+  patientDocId: string;
+  patientName: string;
+  chartId: string | null;
+  category: RecallCategory;
+  lastDate: string;      // Last visit of the category, YYYY-MM-DD
+  dueDate: string;       // lastDate + the rule's interval
+  generatedDate: string; // Day the entry first appeared on the recall list
+  status: RecallStatus;
+  note?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+// Daily accounting row validation: 'block' prevents locking the day, 'warn' only flags the row
+export type RuleSeverity = 'block' | 'warn' | 'off';
+
 export interface Doctor {
   id: string;
   name: string;
@@ -182,6 +297,8 @@ export interface DailySchedule {
   staffConfiguration?: StaffScheduleConfig; // New 3-tier system configuration
 }
 
+export type AccountingRowType = 'visit' | 'refund';
+
 export interface AccountingRow {
     id: string;
     patientName: string;
@@ -238,6 +355,305 @@ export interface AccountingRow {
     sortOrder?: number;
     isNP?: boolean;
     note?: string;
+
+    // Installment plan this visit's payment is applied to (see TreatmentPlan)
+    planId?: string;
+
+    // Refunds are their own rows with negative amounts, booked on the day the money goes back
+    rowType?: AccountingRowType; // Missing means 'visit'
+    refundOf?: { rowId: string; date: string }; // Row being reversed (absent for stand-alone adjustments)
+    refundReason?: string;
+
+    // Set by the calendar sync when the appointment was deleted or moved to another day.
+    // The row is kept (it may already carry payments) and cleared again if the event comes back.
+    calendarCancelled?: CalendarCancellation;
+
+    // Concurrency Control (bumped on every server write of this row)
+    version?: number;
+    updatedAt?: number;
+    updatedBy?: string;
+}
+
+export interface CalendarCancellation {
+    reason: 'deleted' | 'moved';
+    movedTo?: string; // New date (YYYY-MM-DD) of a rescheduled appointment
+    at: string;       // When the sync noticed it
+}
+
+// What became of one booked visit, as kept on the patient profile (patients/{id}.attendanceLog)
+export type AttendanceOutcome = 'attended' | 'no_show' | 'late_cancel';
+
+export interface PatientAttendanceEvent {
+    date: string;      // YYYY-MM-DD of the appointment
+    outcome: AttendanceOutcome;
+    doctorId?: string;
+    doctorName?: string;
+    source: 'accounting' | 'calendar'; // Daily closing or calendar sync
+    recordedAt: string;
+}
+
+// Contact, consent and demographic fields of a patient profile (see utils/patients for validation
+// and the per-role view). Phones are stored as digits only. Phone and LINE ID are kept apart in
+// patient_contacts/{patient docId}, which only clinic staff may read; the profile carries masked copies.
+export type PatientGender = 'male' | 'female' | 'other';
+
+export interface PatientContact {
+    phone?: string;
+    birthday?: string; // YYYY-MM-DD
+    gender?: PatientGender;
+    lineId?: string;
+    maskedPhone?: string;  // maskPhone(phone), for roles that cannot read patient_contacts
+    maskedLineId?: string; // maskLineId(lineId), likewise
+    marketingConsent?: boolean; // Agreed to marketing messages; missing means no
+    consentUpdatedAt?: string;
+    consentUpdatedBy?: string;
+}
+
+// One line of a patient's timeline, whichever record it comes from (see utils/timeline)
+export type TimelineCategory = 'visit' | 'np' | 'lab' | 'sov' | 'appointment';
+
+export interface PatientTimelineEntry {
+    id: string;        // Category-prefixed id of the source record
+    category: TimelineCategory;
+    date: string;      // YYYY-MM-DD; empty when the source has no date (SOV referrals)
+    time?: string;     // HH:mm for calendar appointments
+    title: string;
+    detail?: string;
+    doctorName?: string;
+    amount?: number;
+    items?: Record<string, number>; // Accounting columns of a visit
+    status?: string;   // Short state label (NP closed, cancelled, upcoming...)
+}
+
+// Marketing segments: a saved list of conditions patients must all meet (see utils/segments)
+export type SegmentField =
+    | 'daysSinceVisit' | 'totalSpending' | 'purchasedItem' | 'age' | 'gender' | 'hasChartId' // Profile
+    | 'categorySpend' | 'visitCount' | 'doctor' | 'consultant'                                // Accounting rows in the lookback window
+    | 'npTag' | 'npDays' | 'npClosed';                                                       // NP records in the lookback window
+export type SegmentOperator = 'gte' | 'lte' | 'eq' | 'contains';
+
+export interface SegmentCondition {
+    field: SegmentField;
+    op: SegmentOperator;
+    value: string | number;
+    category?: PlanCategory; // categorySpend only
+}
+
+// patient_segments/{id}
+export interface PatientSegment {
+    id: string;
+    clinicId: string;
+    name: string;
+    conditions: SegmentCondition[];
+    lookbackMonths: number; // How far back accounting rows and NP records are read
+    createdAt: string;
+    createdBy?: string;
+    updatedAt?: string;
+}
+
+// Self-pay treatment contract paid over several visits (implant, ortho...)
+export type PlanCategory = 'prostho' | 'implant' | 'ortho' | 'sov' | 'inv' | 'perio' | 'whitening' | 'otherSelfPay';
+export type PlanStatus = 'active' | 'completed' | 'cancelled';
+
+export interface TreatmentPlan {
+    id: string;
+    clinicId: string;
+    chartId: string | null;
+    patientName: string;
+    category: PlanCategory; // Linked rows pay the amount entered in this treatment column
+    title: string;
+    contractPrice: number;
+    deposit?: number; // Agreed down payment (collected through a daily row like any other payment)
+    startDate: string; // YYYY-MM-DD
+    status: PlanStatus;
+    doctorId?: string;
+    doctorName?: string;
+    note?: string;
+    createdAt?: string;
+    updatedAt?: string;
+    updatedBy?: string;
+}
+
+export interface PlanPayment {
+    rowId: string;
+    date: string;
+    amount: number;
+}
+
+// Plan with its payments summed from the linked accounting rows
+export interface PlanBalance {
+    plan: TreatmentPlan;
+    payments: PlanPayment[];
+    paid: number;
+    outstanding: number;
+    lastPaymentDate?: string;
+}
+
+// Patient receipt issued from one accounting row. Numbered per clinic per year; reprints reuse the number.
+export interface ReceiptItem {
+    label: string;
+    amount: number;
+}
+
+export interface Receipt {
+    id: string; // {clinicId}_{rowId}
+    clinicId: string;
+    rowId: string;
+    date: string; // Day of the row (YYYY-MM-DD)
+    receiptNo: string; // e.g. 2025-00042
+    year: number;
+    seq: number;
+    patientName: string;
+    chartId?: string;
+    doctorName?: string;
+    items: ReceiptItem[];
+    total: number;
+    paymentMethod: string;
+    paymentBreakdown: { cash: number; card: number; transfer: number };
+    issuedAt: string;
+    issuedBy: string;
+    printCount: number;
+    lastPrintedAt?: string;
+}
+
+export type ReceiptPaperSize = 'a5' | 'thermal';
+
+// --- CALENDAR PROVIDERS ---
+
+export type CalendarProviderType = 'google' | 'caldav' | 'ics';
+
+export interface CalendarProviderConfig {
+    type: CalendarProviderType;
+    serverUrl?: string; // CalDAV calendar home, e.g. https://dav.example.com/calendars/clinic/
+}
+
+export interface CalendarInfo {
+    id: string;
+    summary: string;
+    primary?: boolean;
+}
+
+export interface CalendarEvent {
+    id: string;
+    summary: string;
+    start: { dateTime?: string; date?: string };
+    end: { dateTime?: string; date?: string };
+    description?: string;
+    status?: string; // 'cancelled' for deleted events (only listed with showDeleted)
+    updated?: string;
+    allDay?: boolean;
+}
+
+// What the appointment, accounting and NP pages need from a calendar backend (see services/calendarProvider)
+export interface CalendarProvider {
+    type: CalendarProviderType;
+    label: string;
+    // Reports readiness and whether the provider can be used right now (signed in / credentials present)
+    connect: (onInit: () => void, onUserChanged: (isConnected: boolean) => void) => void;
+    authorize?: () => void; // Interactive sign-in, only for providers that have one
+    disconnect: () => void;
+    getAccountLabel: () => Promise<string | null>;
+    listCalendars: () => Promise<CalendarInfo[]>;
+    listEvents: (calendarId: string, timeMin: Date, timeMax: Date) => Promise<CalendarEvent[]>;
+    searchEvents: (calendarId: string, query: string, timeMin: Date, timeMax: Date) => Promise<CalendarEvent[]>;
+    // Like listEvents but throws and includes deleted events. `updatedMin` (changes since, wherever they now sit) only when `incremental`.
+    listEventChanges: (calendarId: string, options: { timeMin?: Date; timeMax?: Date; updatedMin?: Date }) => Promise<CalendarEvent[]>;
+    incremental: boolean;
+    patchEvent: (calendarId: string, eventId: string, patch: CalendarEventPatch) => Promise<boolean>;
+    // Appointment booking from the in-app calendar; both throw so the front desk sees what failed
+    createEvent: (calendarId: string, event: CalendarEventDraft) => Promise<CalendarEvent>;
+    deleteEvent: (calendarId: string, eventId: string) => Promise<void>;
+    // Moves an event to another calendar keeping its id (rows and chairs are keyed by it); throws.
+    // Providers without one can only re-create the event under a new id.
+    moveEvent?: (calendarId: string, eventId: string, destinationCalendarId: string) => Promise<void>;
+}
+
+export interface CalendarEventPatch {
+    summary?: string;
+    description?: string;
+    start?: Date; // Timed events only; the new start and end are always sent together
+    end?: Date;
+}
+
+export interface CalendarEventDraft {
+    summary: string;
+    description?: string;
+    start: Date;
+    end: Date;
+}
+
+// Changes found by a calendar sync, reviewed by the user before they are applied to the day
+export interface CalendarSyncReport {
+    added: AccountingRow[];
+    updated: { before: AccountingRow; after: AccountingRow; fields: string[] }[];
+    removed: { before: AccountingRow; after: AccountingRow }[]; // `after` carries calendarCancelled
+    isFull: boolean; // Whole day listed (first sync) rather than changes since the last sync
+    unparsed: { eventId: string; title: string; startTime?: string }[]; // Day events whose title no pattern could read
+}
+
+// One way the front desk writes appointment titles. `regex` uses named groups:
+// chartId, name (required), treatment, status and np (non-empty marks a new patient).
+export interface TitlePattern {
+    id: string;
+    label: string;
+    regex: string;
+    isNP?: boolean; // Every title matching this pattern is a new patient
+    disabled?: boolean;
+}
+
+// Per-clinic title grammar: patterns are tried in order and the first one that finds a name wins
+export interface TitleGrammar {
+    patterns: TitlePattern[];
+    updatedAt?: string;
+    updatedBy?: string;
+}
+
+// Title change proposed by the accounting -> calendar write-back (always previewed before it is sent)
+export interface CalendarWriteBackChange {
+    rowId: string;
+    calendarId: string;
+    eventId: string;
+    patientName: string;
+    fromTitle: string;
+    toTitle: string;
+}
+
+// Unlocked day waiting for its daily close, as listed in the closing backlog
+export interface ClosingBacklogDay {
+    date: string;
+    rowCount: number;
+    totals: { cash: number; card: number; transfer: number; total: number };
+    errors: string[];   // 'block' validation issues; such days cannot be bulk-locked
+    warnings: string[];
+}
+
+// Row-level change set sent with a save so the server can merge instead of overwrite
+export interface DailyRowChanges {
+    dirtyRowIds: string[];
+    deletedRowIds: string[];
+    baseVersions: Record<string, number>; // Row versions the local edits were based on
+    expectUnlocked?: boolean; // Edits were made on an open day; refuse them if it has been locked since
+}
+
+// A day's unsaved edits kept in the browser until they reach the server (offline queue)
+export interface QueuedDaySave {
+    clinicId: string;
+    date: string;
+    record: DailyAccountingRecord; // Latest local snapshot of the whole day
+    dirtyRowIds: string[];
+    deletedRowIds: string[];
+    baseRows: Record<string, AccountingRow>; // Server copies the queued edits started from
+    user: { uid: string; name: string };
+    queuedAt: number;
+    attempts: number;
+    status: 'pending' | 'conflict' | 'error';
+    lastError?: string;
+}
+
+export interface RowConflict {
+    rowId: string;
+    local: AccountingRow | null;  // null = deleted locally
+    remote: AccountingRow | null; // null = deleted by another user
 }
 
 export interface Expenditure {
@@ -262,29 +678,59 @@ export interface MealFund {
   added: number;   // 補入
 }
 
+// NEW: Cash drawer count entered at daily close
+export interface CashCount {
+    denominations: Record<string, number>; // Face value -> number of bills/coins
+    countedTotal: number;
+    initialCash: number;    // Opening float the day started with
+    cashCollected: number;
+    cashExpenditure: number;
+    mealSpending: number;
+    expectedCash: number;   // initialCash + cashCollected - cashExpenditure - mealSpending
+    overShort: number;      // countedTotal - expectedCash (negative = short)
+    explanation?: string;   // Required when |overShort| exceeds the clinic threshold
+    closingFloat: number;   // Left in the drawer; becomes the next day's initialCash
+    countedBy: string;
+    countedAt: string;
+}
+
+export type AuditAction = 'LOCK' | 'UNLOCK' | 'UPDATE' | 'CREATE' | 'DELETE' | 'REVERT' | 'PRINT';
+
 export interface AuditLogEntry {
+    id?: string;
     timestamp: string;
     userId: string;
     userName: string;
-    action: 'LOCK' | 'UNLOCK' | 'UPDATE';
-    details?: string;
+    action: AuditAction;
+    details?: string; // Free text (legacy entries, lock/unlock notes)
+
+    // Structured change (one entry per field; stored in daily_accounting/{id}/audit_entries)
+    rowId?: string;       // Absent for day-level fields (expenditures, mealFund...)
+    rowLabel?: string;    // Patient name when the change was made
+    fieldPath?: string;   // e.g. 'treatments.implant'; absent for CREATE/DELETE of a whole row
+    oldValue?: any;       // null when the field/row did not exist
+    newValue?: any;       // null when the field/row was removed
+    revertOf?: string;    // Id of the entry this change reverted
 }
 
 export interface DailyAccountingRecord {
     clinicId: string;
     date: string;
-    rows: AccountingRow[];
+    rows: AccountingRow[]; // Assembled from the accounting_rows subcollection once rowsMigrated is set
+    rowsMigrated?: boolean;
     expenditures?: Expenditure[];
     // NEW: Meal Management
     mealExpenses?: MealExpense[];
     mealFund?: MealFund;
     
     initialCash?: number;
+    cashCount?: CashCount;
     reportImageUrl?: string | null;
     lastUpdated?: number;
     
     // Locking & Audit
     isLocked?: boolean;
+    lockedWithoutCount?: boolean; // Locked from the closing backlog, which takes no cash count; no float carries over from it
     auditLog?: AuditLogEntry[];
 }
 
@@ -413,10 +859,22 @@ export interface NPRecord {
     note?: string;
     calendarTreatment?: string; // New: Parsed treatment content
     calendarNote?: string; // New: Full Calendar Description
+    sourceManual?: boolean; // Source was picked by hand; rule reclassification leaves it alone
     updatedAt: any;
     isHidden?: boolean; // Soft delete flag
 }
 
+// Maps words in an NP's calendar note to a marketing source (settings/np_source_rules)
+export interface NPSourceRule {
+    id: string;
+    pattern: string; // Keyword (case-insensitive substring) or regular expression
+    isRegex?: boolean;
+    source: string;
+    priority: number; // Lower runs first
+    clinicId?: string; // Only applies to this clinic; empty = every clinic
+    disabled?: boolean;
+}
+
 export interface AppData {
   clinics: Clinic[];
   doctors: Doctor[];
@@ -0,0 +1,235 @@
+import { Clinic, DailySchedule, Operatory, ShiftType, WaitlistEntry } from '../types';
+
+// Booking checks for the in-app calendar. They only warn: the front desk may still book outside
+// hours (e.g. an emergency) after confirming.
+
+export const SLOT_MINUTES = 15;
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+const SHIFT_ORDER: ShiftType[] = ['Morning', 'Afternoon', 'Evening'];
+const SHIFT_NAMES: Record<ShiftType, string> = { Morning: '早診', Afternoon: '午診', Evening: '晚診' };
+const DEFAULT_SHIFT_TIMES: Record<ShiftType, string> = { Morning: '10:00-13:00', Afternoon: '14:00-17:00', Evening: '18:00-21:00' };
+
+export interface ShiftWindow {
+  shift: ShiftType;
+  label: string;
+  startMinutes: number; // Minutes after midnight
+  endMinutes: number;
+}
+
+export interface SlotIssue {
+  type: 'closed' | 'outside_hours' | 'doctor_off' | 'double_booked' | 'chair_overlap';
+  message: string;
+}
+
+export interface BookedEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const formatTimeRange = (start: Date, end: Date) =>
+  `${formatMinutes(start.getHours() * 60 + start.getMinutes())}-${formatMinutes(end.getHours() * 60 + end.getMinutes())}`;
+
+/**
+ * Session times come from the clinic's shift labels ("早診 10:00-13:00"), which is where the
+ * clinic already publishes them; a label without a time range falls back to the default hours.
+ */
+export const getShiftWindows = (clinic: Clinic): ShiftWindow[] => {
+  const labels = clinic.shiftLabels || { morning: '', afternoon: '', evening: '' };
+  return SHIFT_ORDER.map(shift => {
+    const label = labels[shift.toLowerCase() as keyof typeof labels] || '';
+    const match = label.match(/(\d{1,2}:\d{2})\s*[-~～–]\s*(\d{1,2}:\d{2})/);
+    const [start, end] = match ? [match[1], match[2]] : DEFAULT_SHIFT_TIMES[shift].split('-');
+    return { shift, label: SHIFT_NAMES[shift], startMinutes: toMinutes(start), endMinutes: toMinutes(end) };
+  });
+};
+
+const toDateKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Sessions the clinic runs on the day of `date`; empty when it is closed
+export const getOpenWindows = (clinic: Clinic, date: Date, schedules: DailySchedule[]): ShiftWindow[] => {
+  const schedule = schedules.find(s => s.date === toDateKey(date) && s.clinicId === clinic.id);
+  if (schedule?.isClosed) return [];
+  const hours = clinic.weeklyHours?.[date.getDay()];
+  return getShiftWindows(clinic).filter(w => hours ? hours[w.shift] : true);
+};
+
+const minutesOfDay = (d: Date) => d.getHours() * 60 + d.getMinutes();
+
+export const snapToSlot = (date: Date) => {
+  const snapped = new Date(date);
+  const minutes = Math.round((snapped.getHours() * 60 + snapped.getMinutes()) / SLOT_MINUTES) * SLOT_MINUTES;
+  snapped.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return snapped;
+};
+
+/**
+ * Everything worth a warning before booking `doctorId` from `start` to `end`: the clinic closed
+ * that day, a time outside the sessions it runs, the doctor not on the day's roster, or another
+ * appointment already in the doctor's calendar or in the chosen chair.
+ * `events` are the doctor's own events; `ignoreEventId` is the appointment being moved.
+ */
+export const checkAppointmentSlot = (params: {
+  clinic: Clinic;
+  schedules: DailySchedule[];
+  doctorId: string;
+  start: Date;
+  end: Date;
+  events: BookedEvent[];
+  ignoreEventId?: string;
+  chair?: { name: string; events: BookedEvent[] }; // Other appointments already in the chosen chair
+}): SlotIssue[] => {
+  const { clinic, schedules, doctorId, start, end, events, ignoreEventId, chair } = params;
+  const issues: SlotIssue[] = [];
+  const schedule = schedules.find(s => s.date === toDateKey(start) && s.clinicId === clinic.id);
+  const windows = getOpenWindows(clinic, start, schedules);
+
+  if (windows.length === 0) {
+    issues.push({ type: 'closed', message: '診所當日休診' });
+  } else {
+    const startMinutes = minutesOfDay(start);
+    const endMinutes = minutesOfDay(end);
+    const covering = windows.filter(w => startMinutes < w.endMinutes && endMinutes > w.startMinutes);
+    const inside = windows.some(w => startMinutes >= w.startMinutes && endMinutes <= w.endMinutes);
+    if (!inside) {
+      const open = windows.map(w => `${w.label} ${formatMinutes(w.startMinutes)}-${formatMinutes(w.endMinutes)}`).join('、');
+      issues.push({ type: 'outside_hours', message: `不在看診時段內 (${open})` });
+    }
+    // Without a roster for the day there is nothing to check the doctor against
+    if (schedule && covering.length > 0) {
+      const offShifts = covering.filter(w => !(schedule.shifts[w.shift] || []).includes(doctorId));
+      if (offShifts.length > 0) {
+        issues.push({ type: 'doctor_off', message: `醫師${offShifts.map(w => w.label).join('、')}未排班` });
+      }
+    }
+  }
+
+  events
+    .filter(e => e.id !== ignoreEventId && e.start < end && e.end > start)
+    .forEach(e => issues.push({ type: 'double_booked', message: `與「${e.title}」(${formatTimeRange(e.start, e.end)}) 時間重疊` }));
+
+  chair?.events
+    .filter(e => e.id !== ignoreEventId && e.start < end && e.end > start)
+    .forEach(e => issues.push({ type: 'chair_overlap', message: `${chair.name} 已有「${e.title}」(${formatTimeRange(e.start, e.end)})` }));
+
+  return issues;
+};
+
+export interface ChairDayStats {
+  operatory: Operatory;
+  bookedMinutes: number; // Chair time taken within opening hours; overlapping bookings count once
+  openMinutes: number;
+  utilisation: number; // 0..1
+  overlappingIds: Set<string>; // Appointments that share the chair at the same time
+}
+
+/**
+ * Per-chair load for one day. `bookings` are the day's timed appointments with the chair each is in.
+ */
+export const buildChairDayStats = (
+  operatories: Operatory[],
+  bookings: { operatoryId: string; event: BookedEvent }[],
+  openWindows: ShiftWindow[]
+): ChairDayStats[] => {
+  const openMinutes = openWindows.reduce((sum, w) => sum + (w.endMinutes - w.startMinutes), 0);
+
+  return operatories.map(operatory => {
+    const events = bookings.filter(b => b.operatoryId === operatory.id).map(b => b.event)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    const overlappingIds = new Set<string>();
+    events.forEach((a, i) => events.slice(i + 1).forEach(b => {
+      if (b.start < a.end && b.end > a.start) { overlappingIds.add(a.id); overlappingIds.add(b.id); }
+    }));
+
+    // Clip every booking to each session, then merge so double-booked time is not counted twice
+    const bookedMinutes = openWindows.reduce((sum, w) => {
+      const ranges = events
+        .map(e => [Math.max(minutesOfDay(e.start), w.startMinutes), Math.min(minutesOfDay(e.end), w.endMinutes)])
+        .filter(([s, e]) => e > s);
+      let covered = 0;
+      let reach = -1;
+      ranges.forEach(([s, e]) => {
+        if (e <= reach) return;
+        covered += e - Math.max(s, reach);
+        reach = e;
+      });
+      return sum + covered;
+    }, 0);
+
+    return { operatory, bookedMinutes, openMinutes, utilisation: openMinutes > 0 ? bookedMinutes / openMinutes : 0, overlappingIds };
+  });
+};
+
+export interface ScheduleGap {
+  doctorId: string;
+  shift: ShiftType;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Free time of a doctor on `date` inside the sessions the day's roster puts them on, at least
+ * `minMinutes` long. Days without a roster have no gaps: there is no shift to find them in.
+ * Time already past is not offered.
+ */
+export const findDoctorGaps = (params: {
+  clinic: Clinic;
+  schedules: DailySchedule[];
+  date: Date;
+  doctorId: string;
+  events: BookedEvent[];
+  minMinutes?: number;
+  now?: Date;
+}): ScheduleGap[] => {
+  const { clinic, schedules, date, doctorId, events, minMinutes = DEFAULT_APPOINTMENT_MINUTES, now = new Date() } = params;
+  const schedule = schedules.find(s => s.date === toDateKey(date) && s.clinicId === clinic.id);
+  if (!schedule || toDateKey(date) < toDateKey(now)) return [];
+
+  const at = (minutes: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(minutes / 60), minutes % 60);
+  const busy = events
+    .filter(e => toDateKey(e.start) === toDateKey(date))
+    .map(e => [minutesOfDay(e.start), minutesOfDay(e.end)])
+    .sort((a, b) => a[0] - b[0]);
+  const nowMinutes = toDateKey(now) === toDateKey(date) ? Math.ceil(minutesOfDay(now) / SLOT_MINUTES) * SLOT_MINUTES : 0;
+
+  const gaps: ScheduleGap[] = [];
+  getOpenWindows(clinic, date, schedules)
+    .filter(w => (schedule.shifts[w.shift] || []).includes(doctorId))
+    .forEach(w => {
+      let cursor = Math.max(w.startMinutes, nowMinutes);
+      const push = (until: number) => {
+        if (until - cursor >= minMinutes) gaps.push({ doctorId, shift: w.shift, start: at(cursor), end: at(until) });
+      };
+      busy.forEach(([s, e]) => {
+        if (e <= cursor || s >= w.endMinutes) return;
+        push(Math.min(s, w.endMinutes));
+        cursor = Math.max(cursor, e);
+      });
+      push(w.endMinutes);
+    });
+  return gaps;
+};
+
+// Waiting patients who could take the gap, preferred-doctor matches first, then longest waiting
+export const matchWaitlist = (entries: WaitlistEntry[], gap: ScheduleGap): WaitlistEntry[] => {
+  const gapMinutes = (gap.end.getTime() - gap.start.getTime()) / 60000;
+  return entries
+    .filter(e =>
+      e.status === 'waiting' &&
+      (!e.doctorId || e.doctorId === gap.doctorId) &&
+      (e.weekdays.length === 0 || e.weekdays.includes(gap.start.getDay())) &&
+      (e.shifts.length === 0 || e.shifts.includes(gap.shift)) &&
+      (e.durationMinutes || DEFAULT_APPOINTMENT_MINUTES) <= gapMinutes
+    )
+    .sort((a, b) => Number(!!b.doctorId) - Number(!!a.doctorId) || a.createdAt.localeCompare(b.createdAt));
+};
@@ -0,0 +1,99 @@
+import { AccountingRow, AttendanceOutcome, PatientAttendanceEvent } from '../types';
+
+// No-show / late-cancellation bookkeeping. A row counts as a no-show when the front desk unticked
+// its attendance; a calendar appointment deleted less than LATE_CANCEL_HOURS before it was due is a
+// late cancellation. Moved appointments and early cancellations are not counted at all.
+
+export const LATE_CANCEL_HOURS = 24;
+
+export const ATTENDANCE_OUTCOME_LABELS: Record<AttendanceOutcome, string> = {
+  attended: '到診',
+  no_show: '爽約',
+  late_cancel: '臨時取消'
+};
+
+// Key of a row's entry in the patient's attendance log; row ids repeat across days for moved events
+export const attendanceLogKey = (date: string, rowId: string) => `${date}_${rowId}`;
+
+export const getAttendanceOutcome = (row: AccountingRow): AttendanceOutcome | null => {
+  if (row.rowType === 'refund' || row.isPublicCalendar || !row.patientName?.trim()) return null;
+
+  if (row.calendarCancelled) {
+    if (row.calendarCancelled.reason !== 'deleted' || !row.startTime) return null;
+    const noticeHours = (new Date(row.startTime).getTime() - new Date(row.calendarCancelled.at).getTime()) / 3600000;
+    return noticeHours < LATE_CANCEL_HOURS ? 'late_cancel' : null;
+  }
+
+  return row.attendance === false ? 'no_show' : 'attended';
+};
+
+// Attendance is ticked by default, so only something entered for the visit (a charge or the treatment done)
+// shows the patient actually came
+export const hasRecordedArrival = (row: AccountingRow) =>
+  !!row.treatmentContent?.trim() ||
+  Number(row.actualCollected) > 0 ||
+  [...Object.values(row.treatments || {}), ...Object.values(row.retail || {})].some(v => typeof v === 'number' && v > 0);
+
+export interface AttendanceSummary {
+  appointments: number;
+  attended: number;
+  noShows: number;
+  lateCancels: number;
+  noShowRate: number; // (no-shows + late cancellations) / appointments, 0..1
+}
+
+export const summarizeAttendance = (events: PatientAttendanceEvent[]): AttendanceSummary => {
+  const count = (outcome: AttendanceOutcome) => events.filter(e => e.outcome === outcome).length;
+  const noShows = count('no_show');
+  const lateCancels = count('late_cancel');
+  return {
+    appointments: events.length,
+    attended: count('attended'),
+    noShows,
+    lateCancels,
+    noShowRate: events.length > 0 ? (noShows + lateCancels) / events.length : 0
+  };
+};
+
+export const mergeAttendanceSummaries = (summaries: AttendanceSummary[]): AttendanceSummary => {
+  const sum = (field: 'appointments' | 'attended' | 'noShows' | 'lateCancels') => summaries.reduce((n, s) => n + s[field], 0);
+  const appointments = sum('appointments');
+  const noShows = sum('noShows');
+  const lateCancels = sum('lateCancels');
+  return { appointments, attended: sum('attended'), noShows, lateCancels, noShowRate: appointments > 0 ? (noShows + lateCancels) / appointments : 0 };
+};
+
+export const formatRate = (rate: number) => `${(rate * 100).toFixed(rate > 0 && rate < 0.1 ? 1 : 0)}%`;
+
+export interface NoShowReportRow {
+  clinicId: string;
+  doctorId: string;
+  doctorName: string;
+  summary: AttendanceSummary;
+}
+
+const toDateKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/**
+ * Per-doctor no-show figures of a month, straight from the accounting rows so the report does not
+ * depend on the days having been closed. `rowsByClinic` rows carry `originalDate`. Only days before
+ * `today` count: until a day is over its rows are ticked as attended whether the patient came or not.
+ */
+export const buildNoShowReport = (rowsByClinic: Record<string, AccountingRow[]>, today: string = toDateKey(new Date())): NoShowReportRow[] => {
+  const groups = new Map<string, { clinicId: string; doctorId: string; doctorName: string; events: PatientAttendanceEvent[] }>();
+
+  Object.entries(rowsByClinic).forEach(([clinicId, rows]) => {
+    rows.forEach(row => {
+      if (!row.originalDate || row.originalDate >= today) return;
+      const outcome = getAttendanceOutcome(row);
+      if (!outcome) return;
+      const key = `${clinicId}_${row.doctorId || row.doctorName}`;
+      if (!groups.has(key)) groups.set(key, { clinicId, doctorId: row.doctorId, doctorName: row.doctorName || '未指定', events: [] });
+      groups.get(key)!.events.push({ date: row.originalDate || '', outcome, source: 'accounting', recordedAt: '' });
+    });
+  });
+
+  return Array.from(groups.values())
+    .map(g => ({ clinicId: g.clinicId, doctorId: g.doctorId, doctorName: g.doctorName, summary: summarizeAttendance(g.events) }))
+    .sort((a, b) => b.summary.noShowRate - a.summary.noShowRate);
+};
@@ -1,3 +1,5 @@
+import { NPRecord, NPSourceRule, TitleGrammar, TitlePattern } from '../types';
+
 export interface ParsedEvent {
   chartId: string | null;
   name: string;
@@ -6,7 +8,8 @@ export interface ParsedEvent {
   isNP: boolean;
 }
 
-export const parseCalendarEvent = (title: string): ParsedEvent | null => {
+// The parser used when a clinic has no title grammar of its own
+const parseWithBuiltInRules = (title: string): ParsedEvent | null => {
   if (!title) return null;
   
   // Basic Filter: Must contain at least one hyphen
@@ -80,40 +83,178 @@ export const parseCalendarEvent = (title: string): ParsedEvent | null => {
   return null;
 };
 
+// Starting point for a clinic grammar; close to the built-in rules, which stay in use until one is saved
+export const DEFAULT_TITLE_PATTERNS: TitlePattern[] = [
+  { id: 'name_chart', label: '姓名-病歷號-治療', regex: '^(?<name>[^-\\d]+)-(?<chartId>\\d{4,7})-?(?<treatment>.*)$' },
+  { id: 'status_chart', label: '狀態+病歷號-姓名-治療', regex: '^(?<status>\\D*?)(?<chartId>\\d{4,7})-(?<name>[^-]+?)(?:-(?<treatment>.*))?$' },
+  { id: 'np', label: 'NP 姓名-治療', regex: '^(?<name>[^-+]+?)\\s*-\\s*(?<treatment>.*)$', isNP: true }
+];
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+// Invalid patterns compile to null once and are skipped; the editor shows the error itself
+const compilePattern = (regex: string): RegExp | null => {
+  if (!compiledPatterns.has(regex)) {
+    try {
+      compiledPatterns.set(regex, new RegExp(regex));
+    } catch (e) {
+      console.warn(`[EventParser] Invalid title pattern ${regex}`, e);
+      compiledPatterns.set(regex, null);
+    }
+  }
+  return compiledPatterns.get(regex)!;
+};
+
+export const getTitlePatternError = (regex: string): string | null => {
+  try {
+    const re = new RegExp(regex);
+    return re.source.includes('(?<name>') ? null : '缺少 (?<name>...) 群組';
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+
+/**
+ * Parses a title with a clinic grammar and tells which pattern matched (null when none did).
+ * Without a grammar the built-in rules are used and `patternId` is 'builtin'.
+ */
+export const parseTitleWithGrammar = (title: string, grammar?: TitleGrammar | null): { parsed: ParsedEvent | null; patternId: string | null } => {
+  if (!grammar?.patterns?.length) {
+    const parsed = parseWithBuiltInRules(title);
+    return { parsed, patternId: parsed ? 'builtin' : null };
+  }
+  if (!title) return { parsed: null, patternId: null };
+
+  for (const pattern of grammar.patterns) {
+    if (pattern.disabled) continue;
+    const groups = compilePattern(pattern.regex)?.exec(title.trim())?.groups;
+    const name = groups?.name?.trim();
+    if (!groups || !name) continue;
+    const chartId = groups.chartId?.trim() || null;
+    return {
+      parsed: {
+        chartId,
+        name,
+        treatment: groups.treatment?.trim() || '',
+        status: groups.status?.trim() || '',
+        isNP: !!pattern.isNP || !!groups.np?.trim() || !chartId
+      },
+      patternId: pattern.id
+    };
+  }
+  return { parsed: null, patternId: null };
+};
+
+export const parseCalendarEvent = (title: string, grammar?: TitleGrammar | null): ParsedEvent | null =>
+  parseTitleWithGrammar(title, grammar).parsed;
+
+// Attendance marks written in front of the chart ID by the accounting write-back
+export const ATTENDANCE_MARKS = { arrived: 'V', noShow: 'X' };
+
+/**
+ * Builds a title in the `status chartId-name-treatment` shape that parseCalendarEvent reads back.
+ * Without a chart ID the status cannot be told apart from the name, so it is left out.
+ */
+export const formatCalendarTitle = (event: Pick<ParsedEvent, 'chartId' | 'name' | 'treatment' | 'status'>): string => {
+  // A title without chart ID needs its hyphen even when the treatment is empty, or it is not read as a patient
+  if (!event.chartId) return `${event.name}-${event.treatment}`;
+  const head = `${event.status}${event.chartId}-${event.name}`;
+  return event.treatment ? `${head}-${event.treatment}` : head;
+};
+
+// Replaces our own attendance mark in a status, keeping whatever else the front desk typed there
+export const applyAttendanceMark = (status: string, attended: boolean): string => {
+  const marks = Object.values(ATTENDANCE_MARKS);
+  const rest = status.split('').filter(ch => !marks.includes(ch)).join('').trim();
+  return `${attended ? ATTENDANCE_MARKS.arrived : ATTENDANCE_MARKS.noShow}${rest}`;
+};
+
+export const NP_SOURCES = ['FB', 'Line', '電話', '小幫手', '介紹', '過路客', '官網', 'SOV轉介', '其他'];
+export const NP_SOURCE_FALLBACK = '其他';
+
 /**
- * Smart Source Parser (Refined)
- * Analyzes Calendar Description and returns the Source based on priority keywords.
+ * Built-in source rules, in the order the front desk has always written notes.
  * Priority: Line -> FB -> 官網 -> SOV轉介 -> 介紹 -> 小幫手 -> 電話 -> 過路客 -> 其他
+ * "幫約" is a referral, so 介紹 has to run before the bare "幫" of 小幫手.
  */
-export const parseSourceFromNote = (note: string): string => {
-  if (!note) return '其他';
-  const n = note.toLowerCase();
-  
-  // 1. Line
-  if (n.includes('line')) return 'Line';
-  
-  // 2. FB / Social
-  if (n.includes('fb') || n.includes('臉書') || n.includes('ig')) return 'FB';
-  
-  // 3. Official Site
-  if (n.includes('官網') || n.includes('後台')) return '官網';
+export const DEFAULT_NP_SOURCE_RULES: NPSourceRule[] = [
+  ['line', 'Line'],
+  ['fb', 'FB'], ['臉書', 'FB'], ['ig', 'FB'],
+  ['官網', '官網'], ['後台', '官網'],
+  ['轉', 'SOV轉介'],
+  ['介紹', '介紹'], ['朋友', '介紹'], ['老婆', '介紹'], ['媽媽', '介紹'], ['男友', '介紹'], ['幫約', '介紹'],
+  ['小幫手', '小幫手'], ['幫', '小幫手'],
+  ['電', '電話'], ['tel', '電話'],
+  ['現', '過路客']
+].map(([pattern, source], i) => ({ id: `default_${i}`, pattern, source, priority: (i + 1) * 10 }));
 
-  // 4. SOV Referral (New Rule)
-  if (n.includes('轉')) return 'SOV轉介';
-  
-  // 5. Referral (CRITICAL: Check "幫約" before "幫")
-  if (n.includes('介紹') || n.includes('朋友') || n.includes('老婆') || n.includes('媽媽') || n.includes('男友') || n.includes('幫約')) {
-      return '介紹';
+const ruleMatches = (rule: NPSourceRule, note: string): boolean => {
+  if (!rule.pattern) return false;
+  if (!rule.isRegex) return note.toLowerCase().includes(rule.pattern.toLowerCase());
+  try {
+    return new RegExp(rule.pattern, 'i').test(note);
+  } catch (e) {
+    return false;
   }
-  
-  // 6. Assistant
-  if (n.includes('小幫手') || n.includes('幫')) return '小幫手';
-  
-  // 7. Phone
-  if (n.includes('電') || n.includes('電話') || n.includes('tel')) return '電話';
-  
-  // 8. Walk-in
-  if (n.includes('現') || n.includes('現場')) return '過路客';
-  
-  return '其他';
-};
\ No newline at end of file
+};
+
+/**
+ * Returns the first enabled rule (by priority) that applies to the clinic and matches the note,
+ * or null when nothing matches.
+ */
+export const matchSourceRule = (note: string, rules: NPSourceRule[], clinicId?: string): NPSourceRule | null => {
+  if (!note) return null;
+  return [...rules]
+    .filter(r => !r.disabled && (!r.clinicId || r.clinicId === clinicId))
+    .sort((a, b) => a.priority - b.priority)
+    .find(r => ruleMatches(r, note)) || null;
+};
+
+/**
+ * Smart Source Parser
+ * Analyzes Calendar Description and returns the Source of the first matching rule, or 其他.
+ */
+export const parseSourceFromNote = (note: string, rules: NPSourceRule[] = DEFAULT_NP_SOURCE_RULES, clinicId?: string): string => {
+  return matchSourceRule(note, rules, clinicId)?.source || NP_SOURCE_FALLBACK;
+};
+
+export interface SourceReclassification {
+  changes: { id: string; patientName: string; clinicId: string; date: string; note: string; from: string; to: string }[];
+  // Notes no rule matched, most frequent first, so rules can be written for them
+  unmatched: { note: string; count: number; clinicIds: string[] }[];
+  skippedManual: number;
+}
+
+/**
+ * Dry run of re-applying the rules to stored NP records. Only records with a calendar note are
+ * considered, and sources picked by hand are left alone.
+ */
+export const buildSourceReclassification = (records: NPRecord[], rules: NPSourceRule[]): SourceReclassification => {
+  const changes: SourceReclassification['changes'] = [];
+  const unmatched = new Map<string, { count: number; clinicIds: Set<string> }>();
+  let skippedManual = 0;
+
+  records.forEach(r => {
+    const note = (r.calendarNote || '').trim();
+    if (!note || !r.id) return;
+    const rule = matchSourceRule(note, rules, r.clinicId);
+    if (!rule) {
+      const entry = unmatched.get(note) || { count: 0, clinicIds: new Set<string>() };
+      entry.count++;
+      entry.clinicIds.add(r.clinicId);
+      unmatched.set(note, entry);
+    }
+    const to = rule?.source || NP_SOURCE_FALLBACK;
+    if ((r.source || '') === to) return;
+    if (r.sourceManual) { skippedManual++; return; }
+    changes.push({ id: r.id, patientName: r.patientName, clinicId: r.clinicId, date: r.date, note, from: r.source || '', to });
+  });
+
+  return {
+    changes: changes.sort((a, b) => a.date.localeCompare(b.date)),
+    unmatched: Array.from(unmatched.entries())
+      .map(([note, { count, clinicIds }]) => ({ note, count, clinicIds: Array.from(clinicIds) }))
+      .sort((a, b) => b.count - a.count),
+    skippedManual
+  };
+};
@@ -0,0 +1,216 @@
+import { CalendarEvent } from '../types';
+
+// Minimal iCalendar (RFC 5545) reading and editing for the CalDAV and ICS-file calendar providers.
+// Recurring rules are not expanded: appointments are single events, and overridden instances
+// (RECURRENCE-ID) are listed as events of their own.
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unfold = (text: string) => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+const parseLine = (line: string): IcsProperty | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon === -1) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local wall time with its UTC offset, the same shape Google returns (2024-05-01T09:30:00+08:00)
+const toLocalIso = (d: Date) => {
+  const offset = -d.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const abs = Math.abs(offset);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+// TZID times are read as local wall time: the clinic and its browsers share one time zone
+const parseDate = (prop: IcsProperty): { dateTime?: string; date?: string } => {
+  const v = prop.value.trim();
+  const m = v.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return {};
+  if (!m[4] || prop.params.VALUE === 'DATE') return { date: `${m[1]}-${m[2]}-${m[3]}` };
+  const [y, mo, d, h, mi, s] = m.slice(1, 7).map(Number);
+  const date = m[7] ? new Date(Date.UTC(y, mo - 1, d, h, mi, s)) : new Date(y, mo - 1, d, h, mi, s);
+  return { dateTime: toLocalIso(date) };
+};
+
+export const formatIcsUtc = (d: Date) =>
+  `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+
+export const parseIcsCalendarName = (text: string): string | null => {
+  const prop = unfold(text).map(parseLine).find(p => p?.name === 'X-WR-CALNAME');
+  return prop ? unescapeText(prop.value) : null;
+};
+
+export const parseIcsEvents = (text: string): CalendarEvent[] => {
+  const events: CalendarEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let nested = 0; // Depth inside components of the event (VALARM), whose properties are skipped
+
+  unfold(text).forEach(line => {
+    if (line === 'BEGIN:VEVENT') { current = []; nested = 0; return; }
+    if (current && line.startsWith('BEGIN:')) { nested++; return; }
+    if (current && nested > 0) { if (line.startsWith('END:')) nested--; return; }
+    if (line === 'END:VEVENT') {
+      if (current) {
+        const get = (name: string) => current!.find(p => p.name === name);
+        const uid = get('UID')?.value;
+        const dtStart = get('DTSTART');
+        if (uid && dtStart) {
+          const start = parseDate(dtStart);
+          const dtEnd = get('DTEND');
+          const recurrenceId = get('RECURRENCE-ID')?.value;
+          const modified = get('LAST-MODIFIED') || get('DTSTAMP');
+          const updated = modified ? parseDate(modified).dateTime : undefined;
+          events.push({
+            id: recurrenceId ? `${uid}_${recurrenceId}` : uid,
+            summary: unescapeText(get('SUMMARY')?.value || ''),
+            start,
+            end: dtEnd ? parseDate(dtEnd) : start,
+            description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : undefined,
+            status: get('STATUS')?.value.toUpperCase() === 'CANCELLED' ? 'cancelled' : 'confirmed',
+            updated,
+            allDay: !!start.date && !start.dateTime
+          });
+        }
+      }
+      current = null;
+      return;
+    }
+    if (current) {
+      const prop = parseLine(line);
+      if (prop) current.push(prop);
+    }
+  });
+
+  return events;
+};
+
+// Lines longer than 75 octets are folded; counting characters keeps CJK titles safely short enough
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 60) parts.push((i === 0 ? '' : ' ') + line.slice(i, i + 60));
+  return parts.join('\r\n');
+};
+
+export interface IcsEventFields {
+  summary?: string;
+  description?: string;
+  start?: Date;
+  end?: Date;
+}
+
+const propertyLines = (fields: IcsEventFields) => {
+  const values: [string, string | undefined][] = [
+    ['SUMMARY', fields.summary === undefined ? undefined : escapeText(fields.summary)],
+    ['DESCRIPTION', fields.description === undefined ? undefined : escapeText(fields.description)],
+    ['DTSTART', fields.start && formatIcsUtc(fields.start)],
+    ['DTEND', fields.end && formatIcsUtc(fields.end)],
+    ['LAST-MODIFIED', formatIcsUtc(new Date())]
+  ];
+  return values.filter(([, value]) => value !== undefined) as [string, string][];
+};
+
+const buildIcsEvent = (uid: string, fields: IcsEventFields) => [
+  'BEGIN:VEVENT',
+  `UID:${uid}`,
+  `DTSTAMP:${formatIcsUtc(new Date())}`,
+  ...propertyLines(fields).map(([name, value]) => `${name}:${value}`),
+  'END:VEVENT'
+];
+
+// A VCALENDAR holding one new event, as CalDAV stores each event in its own resource
+export const buildIcsCalendar = (uid: string, fields: IcsEventFields): string =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Dental Manager//Appointments//ZH', ...buildIcsEvent(uid, fields), 'END:VCALENDAR']
+    .map(foldLine).join('\r\n');
+
+// Adds a new event to an exported calendar file
+export const appendIcsEvent = (text: string, uid: string, fields: IcsEventFields): string => {
+  const lines = unfold(text).filter(line => line !== '');
+  const end = lines.lastIndexOf('END:VCALENDAR');
+  if (end === -1) throw new Error('不是有效的 .ics 檔案');
+  lines.splice(end, 0, ...buildIcsEvent(uid, fields));
+  return lines.map(foldLine).join('\r\n');
+};
+
+// Drops the event with `uid` (and its overridden instances). Returns null when it is not in the text.
+export const removeIcsEvent = (text: string, uid: string): string | null => {
+  const out: string[] = [];
+  let block: string[] | null = null;
+  let found = false;
+
+  unfold(text).forEach(line => {
+    if (line === 'BEGIN:VEVENT') { block = [line]; return; }
+    if (block === null) { out.push(line); return; }
+    block.push(line);
+    if (line !== 'END:VEVENT') return;
+    if (block.some(l => parseLine(l)?.name === 'UID' && parseLine(l)?.value === uid)) found = true;
+    else out.push(...block);
+    block = null;
+  });
+
+  return found ? out.map(foldLine).join('\r\n') : null;
+};
+
+/**
+ * Rewrites SUMMARY / DESCRIPTION / times of the event with `uid` and stamps LAST-MODIFIED.
+ * Returns null when the event is not in the text.
+ */
+export const patchIcsEvent = (text: string, uid: string, patch: IcsEventFields): string | null => {
+  const lines = unfold(text);
+  const out: string[] = [];
+  let block: string[] | null = null;
+  let found = false;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') { block = [line]; return; }
+    if (block === null) { out.push(line); return; }
+    if (line !== 'END:VEVENT') { block.push(line); return; }
+
+    // Only the event's own properties, not those of nested components such as VALARM
+    let depth = 0;
+    const props = block.map((l, i) => {
+      if (i > 0 && l.startsWith('BEGIN:')) depth++;
+      const own = depth === 0;
+      if (l.startsWith('END:')) depth--;
+      return own && i > 0 ? parseLine(l) : null;
+    });
+    const isTarget = props.some(p => p?.name === 'UID' && p.value === uid) && !props.some(p => p?.name === 'RECURRENCE-ID');
+    if (isTarget) {
+      found = true;
+      const replace = propertyLines(patch);
+      const replaced = new Set(replace.map(([name]) => name));
+      // A new DTSTART/DTEND also replaces DURATION, which would otherwise contradict it
+      if (patch.end) replaced.add('DURATION');
+      const kept = block.filter((_, i) => !(props[i] && replaced.has(props[i]!.name)));
+      block = [kept[0], ...replace.map(([name, value]) => `${name}:${value}`), ...kept.slice(1)];
+    }
+    out.push(...block, line);
+    block = null;
+  });
+
+  return found ? out.map(foldLine).join('\r\n') : null;
+};
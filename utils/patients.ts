@@ -0,0 +1,173 @@
+import { PatientContact, PatientGender, UserRole } from '../types';
+
+// Patient profile helpers for the CRM: contact validation, the per-role view of contact details,
+// and duplicate detection (which works on whatever profiles are loaded, a whole clinic or a search).
+
+export type DuplicateReason = 'chart' | 'phone' | 'name' | 'similar_name';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  chart: '同病歷號',
+  phone: '同電話',
+  name: '同姓名',
+  similar_name: '姓名相近'
+};
+
+interface PatientIdentity {
+  docId: string;
+  chartId: string | null;
+  name: string;
+  phone?: string;
+}
+
+export interface DuplicateGroup<T extends PatientIdentity> {
+  patients: T[];
+  reasons: DuplicateReason[];
+}
+
+export const normalizeName = (name: string) => name.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+
+export const normalizePhone = (phone?: string) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  // +886 9xx... and 09xx... are the same mobile number
+  return digits.startsWith('886') ? `0${digits.slice(3)}` : digits;
+};
+
+export const isPhoneLike = (value: string) => /^0\d{8,9}$/.test(normalizePhone(value)) && !/[^\d\s()+-]/.test(value);
+
+export const formatPhone = (phone?: string) => {
+  const digits = normalizePhone(phone);
+  return /^09\d{8}$/.test(digits) ? `${digits.slice(0, 4)}-${digits.slice(4, 7)}-${digits.slice(7)}` : digits;
+};
+
+// Keeps the first four and last three digits, which is enough to confirm a number over the phone
+export const maskPhone = (phone?: string) => {
+  const digits = normalizePhone(phone);
+  return digits.length < 8 ? (digits ? '***' : '') : `${digits.slice(0, 4)}***${digits.slice(-3)}`;
+};
+
+export const maskLineId = (lineId?: string) => (lineId ? `${lineId.slice(0, 2)}***` : '');
+
+export const GENDER_LABELS: Record<PatientGender, string> = { male: '男', female: '女', other: '其他' };
+
+export type ContactFieldError = Partial<Record<keyof PatientContact, string>>;
+
+// Empty fields are valid: every contact detail is optional
+export const validatePatientContact = (contact: PatientContact, today: Date = new Date()): ContactFieldError => {
+  const errors: ContactFieldError = {};
+  if (contact.phone && !/^0\d{8,9}$/.test(normalizePhone(contact.phone))) {
+    errors.phone = '電話格式錯誤 (手機 09 開頭 10 碼，市話含區碼)';
+  }
+  if (contact.birthday) {
+    const [y, m, d] = contact.birthday.split('-').map(Number);
+    const date = new Date(y, m - 1, d);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(contact.birthday) || date.getMonth() !== m - 1 || date.getDate() !== d) {
+      errors.birthday = '生日日期無效';
+    } else if (y < 1900 || date > today) {
+      errors.birthday = '生日不可晚於今天或早於 1900 年';
+    }
+  }
+  if (contact.lineId && !/^@?[a-z0-9._-]{4,20}$/i.test(contact.lineId.trim())) {
+    errors.lineId = 'LINE ID 為 4-20 個英數字或 . _ -';
+  }
+  if (contact.gender && !(contact.gender in GENDER_LABELS)) {
+    errors.gender = '性別無效';
+  }
+  return errors;
+};
+
+export const ageOn = (birthday: string, today: Date = new Date()) => {
+  const [y, m, d] = birthday.split('-').map(Number);
+  const hadBirthday = today.getMonth() + 1 > m || (today.getMonth() + 1 === m && today.getDate() >= d);
+  return today.getFullYear() - y - (hadBirthday ? 0 : 1);
+};
+
+// --- Field-level access ---
+// The CRM pages are open to marketing for campaigns, but only the front desk works with full contact details.
+// This is the display side: phone and LINE ID are only sent to the 'full' roles, whom the Firestore rules
+// let read patient_contacts (services/firebase withPatientContacts); everyone else gets the stored masks.
+
+type FieldAccess = 'full' | 'masked' | 'hidden';
+
+// canExport: may download patient lists (segments), which leave the system with whatever the role can see
+export const CONTACT_FIELD_ACCESS: Record<UserRole, { phone: FieldAccess; lineId: FieldAccess; birthday: FieldAccess; canEdit: boolean; canExport: boolean }> = {
+  admin: { phone: 'full', lineId: 'full', birthday: 'full', canEdit: true, canExport: true },
+  manager: { phone: 'full', lineId: 'full', birthday: 'full', canEdit: true, canExport: true },
+  team_leader: { phone: 'full', lineId: 'full', birthday: 'full', canEdit: true, canExport: false },
+  staff: { phone: 'full', lineId: 'full', birthday: 'full', canEdit: true, canExport: false },
+  marketing: { phone: 'masked', lineId: 'masked', birthday: 'full', canEdit: false, canExport: true },
+  guest: { phone: 'hidden', lineId: 'hidden', birthday: 'hidden', canEdit: false, canExport: false }
+};
+
+// Without the value (its contact document was not loaded) the mask stored on the profile stands in
+const applyAccess = (value: string | undefined, access: FieldAccess, mask: (v: string) => string, show = (v: string) => v, stored?: string) =>
+  access === 'hidden' ? undefined : !value ? stored || undefined : access === 'masked' ? mask(value) : show(value);
+
+// The contact details `role` may see, phones formatted for display; use this for anything shown or exported
+export const viewPatientContact = <T extends PatientContact>(patient: T, role: UserRole): T => {
+  const access = CONTACT_FIELD_ACCESS[role] || CONTACT_FIELD_ACCESS.guest;
+  return {
+    ...patient,
+    phone: applyAccess(patient.phone, access.phone, maskPhone, formatPhone, patient.maskedPhone),
+    lineId: applyAccess(patient.lineId, access.lineId, maskLineId, v => v, patient.maskedLineId),
+    birthday: applyAccess(patient.birthday, access.birthday, v => v)
+  };
+};
+
+// Only patients who agreed may be put on a marketing list or export
+export const hasMarketingConsent = (patient: PatientContact) => patient.marketingConsent === true;
+
+/**
+ * Groups profiles that are probably the same person:
+ * - the same chart id (the name was typed differently),
+ * - the same phone number,
+ * - the same name where at least one side has no chart id (an NP record never linked up),
+ * - names of equal length that differ in a single character (a typo), again with one side NP.
+ * Two charted profiles sharing only a name are left alone: namesakes are common.
+ */
+export const findDuplicatePatients = <T extends PatientIdentity>(patients: T[]): DuplicateGroup<T>[] => {
+  const parent = patients.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const links: [number, number, DuplicateReason][] = [];
+  const linkWithin = (buckets: Map<string, number[]>, reason: DuplicateReason, accept?: (a: T, b: T) => boolean) => {
+    buckets.forEach(indexes => {
+      for (let i = 0; i < indexes.length; i++) {
+        for (let j = i + 1; j < indexes.length; j++) {
+          const [a, b] = [indexes[i], indexes[j]];
+          if (!accept || accept(patients[a], patients[b])) links.push([a, b, reason]);
+        }
+      }
+    });
+  };
+  const bucket = (keysOf: (p: T) => string[]) => {
+    const map = new Map<string, number[]>();
+    patients.forEach((p, i) => keysOf(p).forEach(key => {
+      if (!map.has(key)) map.set(key, []);
+      map.get(key)!.push(i);
+    }));
+    return map;
+  };
+
+  const eitherIsNP = (a: T, b: T) => !a.chartId || !b.chartId;
+  linkWithin(bucket(p => p.chartId ? [p.chartId.trim()] : []), 'chart');
+  linkWithin(bucket(p => normalizePhone(p.phone).length >= 8 ? [normalizePhone(p.phone)] : []), 'phone');
+  linkWithin(bucket(p => [normalizeName(p.name)]), 'name', eitherIsNP);
+  // One wildcard key per character position finds single-character differences without comparing every pair
+  linkWithin(bucket(p => {
+    const chars = Array.from(normalizeName(p.name));
+    return chars.length < 2 ? [] : chars.map((_, i) => [...chars.slice(0, i), '*', ...chars.slice(i + 1)].join(''));
+  }), 'similar_name', (a, b) => eitherIsNP(a, b) && normalizeName(a.name) !== normalizeName(b.name));
+
+  links.forEach(([a, b]) => { parent[find(a)] = find(b); });
+  const groupReasons = new Map<number, Set<DuplicateReason>>(); // Keyed by group root
+  links.forEach(([a, , reason]) => {
+    const root = find(a);
+    if (!groupReasons.has(root)) groupReasons.set(root, new Set());
+    groupReasons.get(root)!.add(reason);
+  });
+
+  return Array.from(groupReasons.entries()).map(([root, reasons]) => ({
+    patients: patients.filter((_, i) => find(i) === root),
+    reasons: (Object.keys(DUPLICATE_REASON_LABELS) as DuplicateReason[]).filter(r => reasons.has(r))
+  }));
+};
@@ -0,0 +1,139 @@
+import { AccountingRow, Clinic, PatientContact, RecallCategory, RecallEntry, RecallRule, RecallStatus } from '../types';
+import { hasMarketingConsent } from './patients';
+
+// Recall: patients due back for a category of care, from the last visit of that category on their
+// profile. Generating and storing the daily list lives in services/firebase (generateRecallList).
+
+export const RECALL_CATEGORY_LABELS: Record<RecallCategory, string> = {
+  checkup: '定期檢查',
+  perio: '牙周',
+  whitening: '美白',
+  ortho: '矯正',
+  inv: '隱適美',
+  implant: '植牙',
+  prostho: '假牙'
+};
+
+export const RECALL_STATUS_LABELS: Record<RecallStatus, string> = {
+  pending: '待聯絡',
+  contacted: '已聯絡',
+  booked: '已預約',
+  declined: '婉拒'
+};
+
+export const DEFAULT_RECALL_RULES: RecallRule[] = [
+  { category: 'checkup', intervalMonths: 6, enabled: true },
+  { category: 'perio', intervalMonths: 6, enabled: true },
+  { category: 'whitening', intervalMonths: 3, enabled: true },
+  { category: 'ortho', intervalMonths: 1, enabled: true },
+  { category: 'inv', intervalMonths: 2, enabled: true },
+  { category: 'implant', intervalMonths: 12, enabled: false },
+  { category: 'prostho', intervalMonths: 12, enabled: false }
+];
+
+// The clinic's rules laid over the defaults, in the default order
+export const getRecallRules = (clinic?: Pick<Clinic, 'recallRules'> | null): RecallRule[] =>
+  DEFAULT_RECALL_RULES.map(rule => ({ ...rule, ...(clinic?.recallRules || []).find(r => r.category === rule.category) }));
+
+// Due dates further back than this are a lapsed patient to win back, not a recall
+export const RECALL_LOOKBACK_MONTHS = 12;
+
+// Treatment categories a visit was charged under ('checkup' is every visit and comes from lastVisit)
+export const rowRecallCategories = (row: AccountingRow): RecallCategory[] =>
+  (['perio', 'whitening', 'ortho', 'inv', 'implant', 'prostho'] as const).filter(c => (row.treatments?.[c] || 0) > 0);
+
+// Labels lockDailyReport has always written to purchasedItems; profiles from before lastTreatmentDates
+// only have these, and their lastVisit stands in for the date
+const PURCHASED_ITEM_CATEGORIES: Record<string, RecallCategory> = {
+  牙周: 'perio', 美白: 'whitening', 矯正: 'ortho', 隱適美: 'inv', 植牙: 'implant', 假牙: 'prostho'
+};
+
+export interface RecallPatient extends PatientContact {
+  docId: string;
+  clinicId: string;
+  chartId: string | null;
+  name: string;
+  lastVisit?: string;
+  purchasedItems?: string[] | string;
+  lastTreatmentDates?: Partial<Record<RecallCategory, string>>;
+}
+
+export const patientRecallDates = (patient: RecallPatient): Partial<Record<RecallCategory, string>> => {
+  const dates: Partial<Record<RecallCategory, string>> = {};
+  if (patient.lastVisit) dates.checkup = patient.lastVisit;
+  const items = Array.isArray(patient.purchasedItems) ? patient.purchasedItems : patient.purchasedItems ? [patient.purchasedItems] : [];
+  items.forEach(item => {
+    const category = PURCHASED_ITEM_CATEGORIES[item];
+    if (category && patient.lastVisit) dates[category] = patient.lastVisit;
+  });
+  return { ...dates, ...patient.lastTreatmentDates };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Calendar months, clamped to the end of shorter months (01-31 + 1 month = 02-28)
+export const addMonths = (date: string, months: number) => {
+  const [y, m, d] = date.split('-').map(Number);
+  const target = new Date(y, m - 1 + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return `${target.getFullYear()}-${pad(target.getMonth() + 1)}-${pad(Math.min(d, lastDay))}`;
+};
+
+export const recallEntryId = (clinicId: string, patientDocId: string, category: RecallCategory, dueDate: string) =>
+  `${clinicId}_${patientDocId}_${category}_${dueDate}`;
+
+/**
+ * Recall entries due on or before `today` for the given profiles. Patients without marketing consent
+ * are left out, and so is the general checkup when a specific category is due too (one call covers both).
+ */
+export const findDueRecalls = (patients: RecallPatient[], rules: RecallRule[], today: string): RecallEntry[] => {
+  const earliest = addMonths(today, -RECALL_LOOKBACK_MONTHS);
+  return patients.filter(hasMarketingConsent).flatMap(patient => {
+    const dates = patientRecallDates(patient);
+    const due = rules
+      .filter(rule => rule.enabled && rule.intervalMonths > 0 && dates[rule.category])
+      .map(rule => ({ rule, lastDate: dates[rule.category]!, dueDate: addMonths(dates[rule.category]!, rule.intervalMonths) }))
+      .filter(d => d.dueDate <= today && d.dueDate >= earliest);
+    const specific = due.filter(d => d.rule.category !== 'checkup');
+    return (specific.length > 0 ? specific : due).map(({ rule, lastDate, dueDate }): RecallEntry => ({
+      id: recallEntryId(patient.clinicId, patient.docId, rule.category, dueDate),
+      clinicId: patient.clinicId,
+      patientDocId: patient.docId,
+      patientName: patient.name,
+      chartId: patient.chartId,
+      category: rule.category,
+      lastDate,
+      dueDate,
+      generatedDate: today,
+      status: 'pending'
+    }));
+  });
+};
+
+// The patient came back for the category after the entry was created
+export const hasReturned = (entry: RecallEntry, patient?: RecallPatient) => {
+  const date = patient && patientRecallDates(patient)[entry.category];
+  return !!date && date > entry.lastDate;
+};
+
+export interface RecallConversionRow {
+  category: RecallCategory | 'all';
+  total: number;
+  contacted: number; // Reached, whatever the answer (contacted, booked or declined)
+  booked: number;
+  declined: number;
+  returned: number;
+}
+
+export const summarizeRecalls = (entries: RecallEntry[], returned: (entry: RecallEntry) => boolean): RecallConversionRow[] => {
+  const row = (category: RecallConversionRow['category'], list: RecallEntry[]): RecallConversionRow => ({
+    category,
+    total: list.length,
+    contacted: list.filter(e => e.status !== 'pending').length,
+    booked: list.filter(e => e.status === 'booked').length,
+    declined: list.filter(e => e.status === 'declined').length,
+    returned: list.filter(returned).length
+  });
+  const categories = (Object.keys(RECALL_CATEGORY_LABELS) as RecallCategory[]).filter(c => entries.some(e => e.category === c));
+  return [...categories.map(c => row(c, entries.filter(e => e.category === c))), row('all', entries)];
+};
@@ -0,0 +1,85 @@
+import { AccountingRow, Clinic, Receipt, ReceiptItem, ReceiptPaperSize } from '../types';
+import { PLAN_CATEGORY_LABELS } from './receivables';
+
+const n = (val: any) => (isNaN(Number(val)) ? 0 : Number(val));
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: '現金',
+  card: '刷卡',
+  transfer: '匯款'
+};
+
+export const RECEIPT_PAPER: Record<ReceiptPaperSize, { label: string; width: string; pdfFormat: [number, number] | string }> = {
+  a5: { label: 'A5', width: '148mm', pdfFormat: 'a5' },
+  thermal: { label: '熱感紙 (80mm)', width: '80mm', pdfFormat: [80, 200] }
+};
+
+// Order and wording follow the daily sheet columns; zero amounts are left off the receipt
+export const buildReceiptItems = (row: AccountingRow): ReceiptItem[] => {
+  const t = row.treatments;
+  const r = row.retail;
+  const items: ReceiptItem[] = [
+    { label: '掛號費', amount: n(t.regFee) },
+    { label: '部分負擔', amount: n(t.copayment) },
+    ...(Object.keys(PLAN_CATEGORY_LABELS) as (keyof typeof PLAN_CATEGORY_LABELS)[]).map(key => ({
+      label: key === 'otherSelfPay' && row.selfPayItem ? row.selfPayItem : PLAN_CATEGORY_LABELS[key],
+      amount: n(t[key])
+    })),
+    { label: '小金庫', amount: n(r.diyWhitening) },
+    { label: row.retailItem || r.productNote || '物販', amount: n(r.products) }
+  ];
+  return items.filter(i => i.amount !== 0);
+};
+
+export const formatReceiptNo = (year: number, seq: number) => `${year}-${String(seq).padStart(5, '0')}`;
+
+/**
+ * Self-contained receipt markup (inline styles only) so the same HTML works in the print window,
+ * the preview and html2pdf.
+ */
+export const buildReceiptHtml = (receipt: Receipt, clinic: Clinic | null | undefined, paper: ReceiptPaperSize): string => {
+  const isThermal = paper === 'thermal';
+  const fontSize = isThermal ? 11 : 13;
+  const money = (v: number) => `$${v.toLocaleString()}`;
+  const line = (label: string, value: string, bold = false) =>
+    `<div style="display: flex; justify-content: space-between; gap: 8px; ${bold ? 'font-weight: bold;' : ''}"><span>${escapeHtml(label)}</span><span style="font-family: monospace; white-space: nowrap;">${value}</span></div>`;
+
+  const payments = (Object.keys(PAYMENT_METHOD_LABELS) as ('cash' | 'card' | 'transfer')[])
+    .filter(key => receipt.paymentBreakdown[key] !== 0)
+    .map(key => line(PAYMENT_METHOD_LABELS[key], money(receipt.paymentBreakdown[key])))
+    .join('');
+
+  return `
+    <div style="width: ${RECEIPT_PAPER[paper].width}; box-sizing: border-box; padding: ${isThermal ? '4mm 3mm' : '10mm'}; font-family: 'Microsoft JhengHei', sans-serif; font-size: ${fontSize}px; color: #0f172a; background: #fff; line-height: 1.6;">
+      <div style="text-align: center; border-bottom: 1px solid #1e293b; padding-bottom: 6px; margin-bottom: 8px;">
+        ${clinic?.logoUrl ? `<img src="${escapeHtml(clinic.logoUrl)}" crossorigin="anonymous" style="max-height: ${isThermal ? 32 : 48}px; margin-bottom: 4px;" />` : ''}
+        <div style="font-size: ${fontSize + 5}px; font-weight: 900;">${escapeHtml(clinic?.name || '')}</div>
+        ${clinic?.address ? `<div style="font-size: ${fontSize - 2}px; color: #475569;">${escapeHtml(clinic.address)}</div>` : ''}
+        ${clinic?.phone ? `<div style="font-size: ${fontSize - 2}px; color: #475569;">TEL ${escapeHtml(clinic.phone)}</div>` : ''}
+        <div style="font-size: ${fontSize + 2}px; font-weight: bold; margin-top: 4px; letter-spacing: 4px;">收 據</div>
+      </div>
+
+      ${line('收據編號', escapeHtml(receipt.receiptNo))}
+      ${line('就診日期', receipt.date)}
+      ${line('病患姓名', escapeHtml(receipt.patientName || '-'))}
+      ${receipt.chartId ? line('病歷號', escapeHtml(receipt.chartId)) : ''}
+      ${receipt.doctorName ? line('醫師', escapeHtml(receipt.doctorName)) : ''}
+
+      <div style="border-top: 1px dashed #94a3b8; margin: 8px 0; padding-top: 6px;">
+        ${receipt.items.map(i => line(i.label, money(i.amount))).join('')}
+      </div>
+
+      <div style="border-top: 1px solid #1e293b; padding-top: 6px; font-size: ${fontSize + 3}px;">
+        ${line('合計', money(receipt.total), true)}
+      </div>
+      <div style="margin-top: 4px; color: #475569;">${payments}</div>
+
+      <div style="margin-top: 12px; font-size: ${fontSize - 3}px; color: #64748b; text-align: center;">
+        開立 ${new Date(receipt.issuedAt).toLocaleString()}${receipt.printCount > 1 ? ` · 補印 (第 ${receipt.printCount} 次列印)` : ''}
+      </div>
+    </div>
+  `;
+};
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { AccountingRow, TreatmentPlan } from '../types';
+import { buildPlanBalances, summarizeReceivables } from './receivables';
+
+const TODAY = '2026-10-19';
+
+const plan = (id: string, fields: Partial<TreatmentPlan> = {}): TreatmentPlan => ({
+  id,
+  clinicId: 'c1',
+  chartId: '123456',
+  patientName: '王小明',
+  category: 'implant',
+  title: '植牙',
+  contractPrice: 100000,
+  startDate: '2026-09-01',
+  status: 'active',
+  ...fields
+});
+
+const payment = (planId: string, date: string, implant: number, fields: Partial<AccountingRow> = {}): AccountingRow => ({
+  id: `${planId}-${date}-${implant}`,
+  patientName: '王小明',
+  doctorName: '陳醫師',
+  doctorId: 'doc-chen',
+  planId,
+  originalDate: date,
+  treatments: { regFee: 0, copayment: 0, sov: 0, ortho: 0, prostho: 0, implant, whitening: 0, perio: 0, inv: 0, otherSelfPay: 0, consultant: '' },
+  retail: { diyWhitening: 0, products: 0, productNote: '', staff: '' },
+  ...fields
+} as AccountingRow);
+
+describe('buildPlanBalances', () => {
+  it('sums partial payments in date order and leaves the rest outstanding', () => {
+    const [balance] = buildPlanBalances([plan('p1')], [
+      payment('p1', '2026-10-01', 30000),
+      payment('p1', '2026-09-01', 20000),
+      payment('other', '2026-09-01', 50000)
+    ]);
+
+    expect(balance.payments.map(p => [p.date, p.amount])).toEqual([['2026-09-01', 20000], ['2026-10-01', 30000]]);
+    expect(balance.paid).toBe(50000);
+    expect(balance.outstanding).toBe(50000);
+    expect(balance.lastPaymentDate).toBe('2026-10-01');
+  });
+
+  it('takes refund rows off the amount paid', () => {
+    const [balance] = buildPlanBalances([plan('p1')], [
+      payment('p1', '2026-09-01', 60000),
+      payment('p1', '2026-09-20', -20000, { rowType: 'refund', refundReason: '療程縮減' })
+    ]);
+
+    expect(balance.paid).toBe(40000);
+    expect(balance.outstanding).toBe(60000);
+  });
+
+  it('never shows an overpaid plan as owing a negative balance', () => {
+    const [balance] = buildPlanBalances([plan('p1')], [payment('p1', '2026-09-01', 120000)]);
+    expect(balance.paid).toBe(120000);
+    expect(balance.outstanding).toBe(0);
+  });
+
+  it('owes nothing on a cancelled plan', () => {
+    const [balance] = buildPlanBalances([plan('p1', { status: 'cancelled' })], [payment('p1', '2026-09-01', 10000)]);
+    expect(balance.outstanding).toBe(0);
+  });
+
+  it('leaves out later plans and payments as of a past day', () => {
+    const balances = buildPlanBalances(
+      [plan('p1'), plan('later', { startDate: '2026-10-10' })],
+      [payment('p1', '2026-09-01', 20000), payment('p1', '2026-10-05', 30000)],
+      '2026-09-30'
+    );
+
+    expect(balances.map(b => [b.plan.id, b.paid])).toEqual([['p1', 20000]]);
+  });
+});
+
+describe('summarizeReceivables', () => {
+  // Outstanding 10,000, aged from its last payment
+  const agedBalance = (id: string, lastPayment: string) =>
+    buildPlanBalances([plan(id, { contractPrice: 20000, startDate: '2026-01-01' })], [payment(id, lastPayment, 10000)])[0];
+
+  const bucketCounts = (lastPayment: string) =>
+    summarizeReceivables([agedBalance('p1', lastPayment)], TODAY).aging.map(a => a.count);
+
+  it('puts a plan exactly on a boundary into the bucket ending there', () => {
+    expect(bucketCounts('2026-10-19')).toEqual([1, 0, 0, 0]); // 0 days
+    expect(bucketCounts('2026-09-19')).toEqual([1, 0, 0, 0]); // 30 days
+    expect(bucketCounts('2026-09-18')).toEqual([0, 1, 0, 0]); // 31 days
+    expect(bucketCounts('2026-08-20')).toEqual([0, 1, 0, 0]); // 60 days
+    expect(bucketCounts('2026-08-19')).toEqual([0, 0, 1, 0]); // 61 days
+    expect(bucketCounts('2026-07-21')).toEqual([0, 0, 1, 0]); // 90 days
+    expect(bucketCounts('2026-07-20')).toEqual([0, 0, 0, 1]); // 91 days
+  });
+
+  it('ages a plan without payments from its start', () => {
+    const [balance] = buildPlanBalances([plan('p1', { startDate: '2026-08-01' })], []);
+    const summary = summarizeReceivables([balance], TODAY);
+    expect(summary.aging.map(a => a.amount)).toEqual([0, 0, 100000, 0]);
+  });
+
+  it('counts receivables and deferred revenue, capping an overpaid active plan at its price', () => {
+    const balances = buildPlanBalances(
+      [plan('partial'), plan('overpaid', { contractPrice: 50000 }), plan('done', { status: 'completed' })],
+      [
+        payment('partial', '2026-10-01', 40000),
+        payment('overpaid', '2026-10-01', 60000),
+        payment('done', '2026-10-01', 70000)
+      ]
+    );
+    const summary = summarizeReceivables(balances, TODAY);
+
+    expect(summary.deferredRevenue).toBe(40000 + 50000);
+    expect(summary.receivable).toBe(60000 + 30000);
+    expect(summary.aging[0]).toMatchObject({ amount: 90000, count: 2 });
+  });
+});
@@ -0,0 +1,102 @@
+import { AccountingRow, PlanBalance, PlanCategory, TreatmentPlan } from '../types';
+
+export const PLAN_CATEGORY_LABELS: Record<PlanCategory, string> = {
+  prostho: '假牙',
+  implant: '植牙',
+  ortho: '矯正',
+  sov: 'SOV',
+  inv: '隱適美',
+  perio: '牙周',
+  whitening: '美白',
+  otherSelfPay: '其他自費'
+};
+
+export const PLAN_STATUS_LABELS: Record<TreatmentPlan['status'], string> = {
+  active: '進行中',
+  completed: '已完成',
+  cancelled: '已取消'
+};
+
+export interface AgingBucket {
+  label: string;
+  minDays: number;
+  maxDays: number | null;
+  amount: number;
+  count: number;
+}
+
+export interface ReceivablesSummary {
+  deferredRevenue: number; // Collected on plans whose treatment is still in progress
+  receivable: number;      // Contract balance not yet collected
+  aging: AgingBucket[];
+}
+
+const n = (val: any) => (isNaN(Number(val)) ? 0 : Number(val));
+
+const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 86400000));
+
+// A linked row pays the amount entered in the plan's own treatment column
+export const planPaymentAmount = (row: AccountingRow, plan: TreatmentPlan) => n(row.treatments[plan.category]);
+
+/**
+ * Sums the payments of each plan from its linked rows.
+ * With `asOfDate`, plans started and payments made after that day are left out.
+ */
+export const buildPlanBalances = (plans: TreatmentPlan[], rows: AccountingRow[], asOfDate?: string): PlanBalance[] => {
+  const rowsByPlan = new Map<string, AccountingRow[]>();
+  rows.forEach(row => {
+    if (!row.planId) return;
+    if (asOfDate && (row.originalDate || '') > asOfDate) return;
+    const list = rowsByPlan.get(row.planId) || [];
+    list.push(row);
+    rowsByPlan.set(row.planId, list);
+  });
+
+  return plans
+    .filter(plan => !asOfDate || plan.startDate <= asOfDate)
+    .map(plan => {
+      const payments = (rowsByPlan.get(plan.id) || [])
+        .map(row => ({ rowId: row.id, date: row.originalDate || '', amount: planPaymentAmount(row, plan) }))
+        .filter(p => p.amount !== 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const paid = payments.reduce((sum, p) => sum + p.amount, 0);
+      const outstanding = plan.status === 'cancelled' ? 0 : Math.max(0, n(plan.contractPrice) - paid);
+      return {
+        plan,
+        payments,
+        paid,
+        outstanding,
+        lastPaymentDate: payments.length > 0 ? payments[payments.length - 1].date : undefined
+      };
+    });
+};
+
+/**
+ * Aging is measured from the last payment (or the plan start when nothing has been paid yet),
+ * so a patient who keeps paying on schedule never drifts into the older buckets.
+ */
+export const summarizeReceivables = (balances: PlanBalance[], asOfDate: string): ReceivablesSummary => {
+  const aging: AgingBucket[] = [
+    { label: '0-30 天', minDays: 0, maxDays: 30, amount: 0, count: 0 },
+    { label: '31-60 天', minDays: 31, maxDays: 60, amount: 0, count: 0 },
+    { label: '61-90 天', minDays: 61, maxDays: 90, amount: 0, count: 0 },
+    { label: '90 天以上', minDays: 91, maxDays: null, amount: 0, count: 0 }
+  ];
+
+  let deferredRevenue = 0;
+  let receivable = 0;
+
+  balances.forEach(b => {
+    if (b.plan.status === 'active') deferredRevenue += Math.min(b.paid, n(b.plan.contractPrice));
+    if (b.outstanding <= 0) return;
+
+    receivable += b.outstanding;
+    const days = daysBetween(b.lastPaymentDate || b.plan.startDate, asOfDate);
+    const bucket = aging.find(a => days >= a.minDays && (a.maxDays === null || days <= a.maxDays)) || aging[aging.length - 1];
+    bucket.amount += b.outstanding;
+    bucket.count += 1;
+  });
+
+  return { deferredRevenue, receivable, aging };
+};
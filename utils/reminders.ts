@@ -0,0 +1,39 @@
+import { Clinic } from '../types';
+
+// Appointment reminder text. Templates use {placeholders}; unknown ones are left as typed so a typo
+// shows up in the preview instead of silently disappearing.
+
+export const DEFAULT_REMINDER_TEMPLATE =
+  '{patient} 您好，提醒您 {date}({weekday}) {time} 於{clinic}有{doctor}醫師的約診。\n地址：{address}\n如需改約請透過 LINE 與我們聯繫：{lineUrl}';
+
+export const REMINDER_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: 'patient', label: '病患姓名' },
+  { key: 'date', label: '日期 (M/D)' },
+  { key: 'weekday', label: '星期' },
+  { key: 'time', label: '時間' },
+  { key: 'doctor', label: '醫師' },
+  { key: 'clinic', label: '診所名稱' },
+  { key: 'address', label: '地址' },
+  { key: 'phone', label: '電話' },
+  { key: 'lineUrl', label: 'LINE 連結' }
+];
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+export const renderReminder = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key) => (key in values ? values[key] : placeholder));
+
+export const buildReminderValues = (clinic: Clinic, doctorName: string, patientName: string, start: Date): Record<string, string> => ({
+  patient: patientName,
+  date: `${start.getMonth() + 1}/${start.getDate()}`,
+  weekday: WEEKDAYS[start.getDay()],
+  time: `${start.getHours()}:${String(start.getMinutes()).padStart(2, '0')}`,
+  doctor: doctorName,
+  clinic: clinic.name,
+  address: clinic.address || '',
+  phone: clinic.phone || '',
+  lineUrl: clinic.lineUrl || ''
+});
+
+export const renderClinicReminder = (clinic: Clinic, doctorName: string, patientName: string, start: Date) =>
+  renderReminder(clinic.reminderTemplate || DEFAULT_REMINDER_TEMPLATE, buildReminderValues(clinic, doctorName, patientName, start));
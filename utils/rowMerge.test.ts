@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { AccountingRow, DailyRowChanges } from '../types';
+import { mergeDailyRows } from './rowMerge';
+
+const row = (id: string, fields: Partial<AccountingRow> = {}): AccountingRow =>
+  ({ id, patientName: id, doctorName: '', doctorId: '', ...fields } as AccountingRow);
+
+const changes = (fields: Partial<DailyRowChanges>): DailyRowChanges =>
+  ({ dirtyRowIds: [], deletedRowIds: [], baseVersions: {}, ...fields });
+
+describe('mergeDailyRows', () => {
+  it('writes only the touched rows, one version past the server copy', () => {
+    const server = [row('a', { version: 2 }), row('b', { version: 1 })];
+    const local = [row('a', { version: 2, patientName: '王小明' }), row('b', { version: 1, patientName: '改過但沒標記' })];
+    const result = mergeDailyRows(server, local, changes({ dirtyRowIds: ['a'], baseVersions: { a: 2, b: 1 } }), '櫃台');
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.writes).toHaveLength(1);
+    expect(result.writes[0]).toMatchObject({ id: 'a', patientName: '王小明', version: 3, updatedBy: '櫃台' });
+  });
+
+  it('reports a conflict when the server row moved on since it was loaded', () => {
+    const server = [row('a', { version: 3, patientName: '別人改的' })];
+    const local = [row('a', { version: 2, patientName: '我改的' })];
+    const result = mergeDailyRows(server, local, changes({ dirtyRowIds: ['a'], baseVersions: { a: 2 } }), '櫃台');
+
+    expect(result.writes).toEqual([]);
+    expect(result.conflicts).toEqual([{ rowId: 'a', local: local[0], remote: server[0] }]);
+  });
+
+  it('reports a conflict when an edited row was deleted by someone else', () => {
+    const local = [row('a', { version: 1 })];
+    const result = mergeDailyRows([], local, changes({ dirtyRowIds: ['a'], baseVersions: { a: 1 } }), '櫃台');
+
+    expect(result.writes).toEqual([]);
+    expect(result.conflicts).toEqual([{ rowId: 'a', local: local[0], remote: null }]);
+  });
+
+  it('creates rows added locally at version 1', () => {
+    const result = mergeDailyRows([], [row('new')], changes({ dirtyRowIds: ['new'] }), '櫃台');
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.writes).toHaveLength(1);
+    expect(result.writes[0].version).toBe(1);
+  });
+
+  it('deletes unchanged server rows and keeps changed ones as conflicts', () => {
+    const server = [row('a', { version: 1 }), row('b', { version: 4 })];
+    const result = mergeDailyRows(server, [], changes({ deletedRowIds: ['a', 'b', 'gone'], baseVersions: { a: 1, b: 3 } }), '櫃台');
+
+    expect(result.deletes).toEqual(['a']);
+    expect(result.conflicts).toEqual([{ rowId: 'b', local: null, remote: server[1] }]);
+  });
+});
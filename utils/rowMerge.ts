@@ -0,0 +1,54 @@
+import { AccountingRow, DailyRowChanges, RowConflict } from '../types';
+
+/**
+ * Row-level merge of local edits against the server copies of the touched rows.
+ * Only rows the local user actually touched are written; a touched row whose server
+ * version moved on since it was loaded is reported as a conflict and left untouched.
+ */
+export const mergeDailyRows = (
+  serverRows: AccountingRow[],
+  localRows: AccountingRow[],
+  changes: DailyRowChanges,
+  userName: string
+): { writes: AccountingRow[], deletes: string[], conflicts: RowConflict[] } => {
+  const now = Date.now();
+  const localMap = new Map(localRows.map(r => [r.id, r]));
+  const serverMap = new Map(serverRows.map(r => [r.id, r]));
+
+  const isStale = (row: AccountingRow) => (row.version || 0) !== (changes.baseVersions[row.id] || 0);
+  const stamp = (row: AccountingRow, prevVersion: number): AccountingRow => ({
+    ...row, version: prevVersion + 1, updatedAt: now, updatedBy: userName
+  });
+
+  const writes: AccountingRow[] = [];
+  const deletes: string[] = [];
+  const conflicts: RowConflict[] = [];
+
+  changes.deletedRowIds.forEach(id => {
+    const serverRow = serverMap.get(id);
+    if (!serverRow) return; // Already gone
+    if (isStale(serverRow)) conflicts.push({ rowId: id, local: null, remote: serverRow });
+    else deletes.push(id);
+  });
+
+  changes.dirtyRowIds.forEach(id => {
+    const localRow = localMap.get(id);
+    if (!localRow) return;
+    const serverRow = serverMap.get(id);
+
+    if (serverRow) {
+      if (isStale(serverRow)) conflicts.push({ rowId: id, local: localRow, remote: serverRow });
+      else writes.push(stamp(localRow, serverRow.version || 0));
+      return;
+    }
+
+    // Row existed when we loaded but is gone now: someone else deleted it
+    if (id in changes.baseVersions) {
+      conflicts.push({ rowId: id, local: localRow, remote: null });
+      return;
+    }
+    writes.push(stamp(localRow, 0));
+  });
+
+  return { writes, deletes, conflicts };
+};
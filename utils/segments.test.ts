@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { AccountingRow, NPRecord, SegmentCondition } from '../types';
+import { buildSegmentFacts, evaluateSegment, buildSegmentExport, SegmentPatient } from './segments';
+
+const TODAY = '2026-10-19';
+
+const patient = (docId: string, fields: Partial<SegmentPatient> = {}): SegmentPatient => ({
+  docId,
+  chartId: null,
+  name: docId,
+  ...fields
+});
+
+const row = (patientName: string, fields: Partial<AccountingRow> = {}, treatments: Partial<AccountingRow['treatments']> = {}): AccountingRow => ({
+  id: `${patientName}-${fields.originalDate || TODAY}`,
+  patientName,
+  doctorName: '陳醫師',
+  doctorId: 'doc-chen',
+  treatments: { regFee: 0, copayment: 0, sov: 0, ortho: 0, prostho: 0, implant: 0, whitening: 0, perio: 0, inv: 0, otherSelfPay: 0, consultant: '', ...treatments },
+  retail: { diyWhitening: 0, products: 0, productNote: '', staff: '' },
+  attendance: true,
+  ...fields
+} as AccountingRow);
+
+const np = (patientName: string, fields: Partial<NPRecord> = {}): NPRecord => ({
+  date: '2026-09-01',
+  clinicId: 'c1',
+  patientName,
+  treatment: '',
+  isVisited: true,
+  isClosed: false,
+  updatedAt: '',
+  ...fields
+});
+
+const matching = (patients: SegmentPatient[], conditions: SegmentCondition[], rows: AccountingRow[] = [], npRecords: NPRecord[] = []) =>
+  evaluateSegment(patients, conditions, buildSegmentFacts(patients, rows, npRecords), TODAY).map(p => p.docId);
+
+describe('evaluateSegment', () => {
+  it('returns every profile without conditions', () => {
+    expect(matching([patient('a'), patient('b')], [])).toEqual(['a', 'b']);
+  });
+
+  it('compares profile numbers, leaving out profiles without the value', () => {
+    const patients = [
+      patient('lapsed', { lastVisit: '2026-01-10' }),
+      patient('recent', { lastVisit: '2026-10-01' }),
+      patient('never')
+    ];
+    expect(matching(patients, [{ field: 'daysSinceVisit', op: 'gte', value: 180 }])).toEqual(['lapsed']);
+    expect(matching(patients, [{ field: 'daysSinceVisit', op: 'lte', value: 30 }])).toEqual(['recent']);
+  });
+
+  it('requires every condition to hold', () => {
+    const patients = [
+      patient('young', { birthday: '2000-05-01', gender: 'female' }),
+      patient('older', { birthday: '1970-05-01', gender: 'female' }),
+      patient('male', { birthday: '1970-05-01', gender: 'male' })
+    ];
+    expect(matching(patients, [
+      { field: 'age', op: 'gte', value: 50 },
+      { field: 'gender', op: 'eq', value: 'female' }
+    ])).toEqual(['older']);
+  });
+
+  it('attributes window spending by chart id, then by name for rows without one', () => {
+    const patients = [
+      patient('charted', { chartId: '123456', name: '王小明' }),
+      patient('namesake', { chartId: '654321', name: '王小明' }),
+      patient('np', { name: '李大同' })
+    ];
+    const rows = [
+      row('王小明', { chartId: '123456' }, { implant: 40000 }),
+      row('李大同', {}, { implant: 20000 })
+    ];
+    const condition: SegmentCondition = { field: 'categorySpend', op: 'gte', value: 10000, category: 'implant' };
+    expect(matching(patients, [condition], rows)).toEqual(['charted', 'np']);
+  });
+
+  it('counts visits the patient attended and skips refunds', () => {
+    const patients = [patient('王小明')];
+    const rows = [
+      row('王小明', { originalDate: '2026-09-01' }),
+      row('王小明', { originalDate: '2026-09-15', attendance: false }),
+      row('王小明', { originalDate: '2026-10-01', rowType: 'refund' })
+    ];
+    expect(matching(patients, [{ field: 'visitCount', op: 'gte', value: 1 }], rows)).toEqual(['王小明']);
+    expect(matching(patients, [{ field: 'visitCount', op: 'gte', value: 2 }], rows)).toEqual([]);
+  });
+
+  it('matches text conditions case-insensitively, contains or whole value', () => {
+    const patients = [patient('a', { purchasedItems: ['植牙', '美白'] }), patient('b', { purchasedItems: '矯正' })];
+    expect(matching(patients, [{ field: 'purchasedItem', op: 'contains', value: '植' }])).toEqual(['a']);
+    expect(matching(patients, [{ field: 'purchasedItem', op: 'eq', value: '矯正' }])).toEqual(['b']);
+    expect(matching([patient('c', { lastConsultant: 'Amy' })], [{ field: 'consultant', op: 'eq', value: 'amy' }])).toEqual(['c']);
+  });
+
+  it('needs one NP record to meet all NP conditions together', () => {
+    const patients = [patient('split'), patient('same')];
+    const npRecords = [
+      // Each condition is met by a different record: no match
+      np('split', { marketingTag: '植牙', isClosed: true, date: '2026-09-01' }),
+      np('split', { marketingTag: '矯正', isClosed: false, date: '2026-09-01' }),
+      np('same', { marketingTag: '植牙', isClosed: false, date: '2026-09-01' }),
+      np('same', { marketingTag: '植牙', isClosed: false, date: '2025-01-01', isHidden: true })
+    ];
+    expect(matching(patients, [
+      { field: 'npTag', op: 'contains', value: '植牙' },
+      { field: 'npClosed', op: 'eq', value: 'no' },
+      { field: 'npDays', op: 'lte', value: 90 }
+    ], [], npRecords)).toEqual(['same']);
+  });
+
+  it('leaves out profiles the facts do not cover', () => {
+    const patients = [patient('a')];
+    expect(evaluateSegment(patients, [], new Map(), TODAY)).toEqual([]);
+  });
+});
+
+describe('buildSegmentExport', () => {
+  it('exports only consenting patients with the contact details the role may see', () => {
+    const patients = [
+      patient('yes', { marketingConsent: true, phone: '0912345678', lineId: 'wang.line', maskedPhone: '0912***678', maskedLineId: 'wa***' }),
+      patient('no', { marketingConsent: false, phone: '0987654321' })
+    ];
+    expect(buildSegmentExport(patients, 'manager').map(r => [r.name, r.phone, r.lineId])).toEqual([['yes', '0912-345-678', 'wang.line']]);
+
+    // Marketing never loads patient_contacts: only the masks stored on the profile reach it
+    const profileOnly = { ...patients[0], phone: undefined, lineId: undefined };
+    expect(buildSegmentExport([profileOnly], 'marketing').map(r => [r.phone, r.lineId])).toEqual([['0912***678', 'wa***']]);
+  });
+});
@@ -0,0 +1,189 @@
+import { AccountingRow, NPRecord, PatientContact, PlanCategory, SegmentCondition, SegmentField, SegmentOperator, UserRole } from '../types';
+import { PLAN_CATEGORY_LABELS } from './receivables';
+import { ageOn, normalizeName, hasMarketingConsent, viewPatientContact, GENDER_LABELS } from './patients';
+
+// Marketing segments over patient profiles, the accounting rows and the NP records of a lookback
+// window. Loading the data lives in services/firebase (getSegmentData); the file export in
+// services/excelExport (exportPatientSegment).
+
+type FieldKind = 'number' | 'text' | 'choice';
+
+export const SEGMENT_FIELDS: Record<SegmentField, { label: string; kind: FieldKind; unit?: string; options?: Record<string, string> }> = {
+  daysSinceVisit: { label: '距上次看診', kind: 'number', unit: '天' },
+  totalSpending: { label: '累計消費', kind: 'number', unit: '元' },
+  purchasedItem: { label: '曾做過項目', kind: 'text' },
+  age: { label: '年齡', kind: 'number', unit: '歲' },
+  gender: { label: '性別', kind: 'choice', options: GENDER_LABELS },
+  hasChartId: { label: '已建病歷號', kind: 'choice', options: { yes: '是', no: '否' } },
+  categorySpend: { label: '期間類別消費', kind: 'number', unit: '元' },
+  visitCount: { label: '期間看診次數', kind: 'number', unit: '次' },
+  doctor: { label: '期間看診醫師', kind: 'text' },
+  consultant: { label: '諮詢師', kind: 'text' },
+  npTag: { label: 'NP 項目', kind: 'text' },
+  npDays: { label: 'NP 距今', kind: 'number', unit: '天' },
+  npClosed: { label: 'NP 已成交', kind: 'choice', options: { yes: '是', no: '否' } }
+};
+
+export const SEGMENT_OPERATORS: Record<FieldKind, SegmentOperator[]> = {
+  number: ['gte', 'lte'],
+  text: ['contains', 'eq'],
+  choice: ['eq']
+};
+
+export const OPERATOR_LABELS: Record<SegmentOperator, string> = { gte: '≥', lte: '≤', eq: '=', contains: '包含' };
+
+export const SEGMENT_CATEGORIES = Object.keys(PLAN_CATEGORY_LABELS) as PlanCategory[];
+
+export const newCondition = (field: SegmentField): SegmentCondition => {
+  const def = SEGMENT_FIELDS[field];
+  return {
+    field,
+    op: SEGMENT_OPERATORS[def.kind][0],
+    value: def.kind === 'number' ? 0 : def.options ? Object.keys(def.options)[0] : '',
+    ...(field === 'categorySpend' ? { category: 'implant' as PlanCategory } : {})
+  };
+};
+
+export const describeCondition = (c: SegmentCondition) => {
+  const def = SEGMENT_FIELDS[c.field];
+  const label = c.field === 'categorySpend' && c.category ? `${def.label} (${PLAN_CATEGORY_LABELS[c.category]})` : def.label;
+  const value = def.options ? def.options[String(c.value)] ?? c.value : `${c.value}${def.unit ? ` ${def.unit}` : ''}`;
+  return `${label} ${OPERATOR_LABELS[c.op]} ${value}`;
+};
+
+export interface SegmentPatient extends PatientContact {
+  docId: string;
+  chartId: string | null;
+  name: string;
+  lastVisit?: string;
+  totalSpending?: number;
+  purchasedItems?: string[] | string;
+  lastConsultant?: string;
+  pastConsultants?: string[];
+}
+
+// What the lookback window adds to a profile
+export interface SegmentFacts {
+  categorySpend: Partial<Record<PlanCategory, number>>;
+  visitCount: number;
+  doctors: string[];
+  consultants: string[];
+  npRecords: NPRecord[];
+}
+
+/**
+ * Attributes rows and NP records to profiles. Rows go by chart id, and by name when the row has no
+ * chart id (or one no profile has). NP records only carry a name, so they go to every profile of it.
+ */
+export const buildSegmentFacts = (patients: SegmentPatient[], rows: AccountingRow[], npRecords: NPRecord[]) => {
+  const facts = new Map<string, SegmentFacts>(patients.map(p => [p.docId, { categorySpend: {}, visitCount: 0, doctors: [], consultants: [], npRecords: [] }]));
+  const byChart = new Map(patients.filter(p => p.chartId).map(p => [p.chartId!.trim(), p]));
+  const byName = new Map<string, SegmentPatient[]>();
+  patients.forEach(p => {
+    const key = normalizeName(p.name);
+    byName.set(key, [...(byName.get(key) || []), p]);
+  });
+
+  rows.forEach(row => {
+    if (!row.patientName || row.rowType === 'refund') return;
+    const named = byName.get(normalizeName(row.patientName)) || [];
+    const patient = (row.chartId && byChart.get(row.chartId.trim())) || named.find(p => !p.chartId) || named[0];
+    const f = patient && facts.get(patient.docId);
+    if (!f) return;
+    if (row.attendance !== false) f.visitCount++;
+    SEGMENT_CATEGORIES.forEach(c => {
+      const amount = Number(row.treatments?.[c]) || 0;
+      if (amount) f.categorySpend[c] = (f.categorySpend[c] || 0) + amount;
+    });
+    if (row.doctorName && !f.doctors.includes(row.doctorName)) f.doctors.push(row.doctorName);
+    if (row.treatments?.consultant && !f.consultants.includes(row.treatments.consultant)) f.consultants.push(row.treatments.consultant);
+  });
+
+  npRecords.forEach(np => {
+    if (np.isHidden) return;
+    (byName.get(normalizeName(np.patientName)) || []).forEach(p => facts.get(p.docId)!.npRecords.push(np));
+  });
+  return facts;
+};
+
+const daysBetween = (from: string, to: string) => Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+const compareNumber = (actual: number | undefined, c: SegmentCondition) =>
+  actual !== undefined && (c.op === 'gte' ? actual >= Number(c.value) : c.op === 'lte' ? actual <= Number(c.value) : actual === Number(c.value));
+
+const compareText = (values: (string | undefined)[], c: SegmentCondition) => {
+  const wanted = String(c.value).trim().toLowerCase();
+  return values.some(v => {
+    const text = (v || '').toLowerCase();
+    return c.op === 'contains' ? !!text && text.includes(wanted) : text === wanted;
+  });
+};
+
+const matchesNP = (np: NPRecord, c: SegmentCondition, today: string) => {
+  switch (c.field) {
+    case 'npTag': return compareText([np.marketingTag, np.treatment, np.calendarTreatment], c);
+    case 'npDays': return compareNumber(daysBetween(np.date, today), c);
+    case 'npClosed': return np.isClosed === (c.value === 'yes');
+    default: return true;
+  }
+};
+
+const matchesProfile = (p: SegmentPatient, f: SegmentFacts, c: SegmentCondition, today: string) => {
+  switch (c.field) {
+    case 'daysSinceVisit': return compareNumber(p.lastVisit ? daysBetween(p.lastVisit, today) : undefined, c);
+    case 'totalSpending': return compareNumber(p.totalSpending || 0, c);
+    case 'purchasedItem': return compareText(Array.isArray(p.purchasedItems) ? p.purchasedItems : [p.purchasedItems], c);
+    case 'age': return compareNumber(p.birthday ? ageOn(p.birthday, new Date(today)) : undefined, c);
+    case 'gender': return p.gender === c.value;
+    case 'hasChartId': return !!p.chartId === (c.value === 'yes');
+    case 'categorySpend': return compareNumber(c.category ? f.categorySpend[c.category] || 0 : 0, c);
+    case 'visitCount': return compareNumber(f.visitCount, c);
+    case 'doctor': return compareText(f.doctors, c);
+    case 'consultant': return compareText([...f.consultants, p.lastConsultant, ...(p.pastConsultants || [])], c);
+    default: return true;
+  }
+};
+
+const NP_FIELDS: SegmentField[] = ['npTag', 'npDays', 'npClosed'];
+
+/**
+ * Profiles meeting every condition. The NP conditions have to hold for the same NP record, so
+ * "NP 項目 包含 植牙" + "NP 已成交 = 否" + "NP 距今 ≤ 90" is an implant consult still open from the last 90 days.
+ */
+export const evaluateSegment = <T extends SegmentPatient>(patients: T[], conditions: SegmentCondition[], facts: Map<string, SegmentFacts>, today: string): T[] => {
+  const npConditions = conditions.filter(c => NP_FIELDS.includes(c.field));
+  const otherConditions = conditions.filter(c => !NP_FIELDS.includes(c.field));
+  return patients.filter(p => {
+    const f = facts.get(p.docId);
+    if (!f) return false;
+    return otherConditions.every(c => matchesProfile(p, f, c, today)) &&
+      (npConditions.length === 0 || f.npRecords.some(np => npConditions.every(c => matchesNP(np, c, today))));
+  });
+};
+
+export interface SegmentExportRow {
+  chartId: string;
+  name: string;
+  phone: string;
+  lineId: string;
+  gender: string;
+  birthday: string;
+  lastVisit: string;
+  totalSpending: number;
+}
+
+// Only consenting patients, with contact details as `role` may see them
+export const buildSegmentExport = (patients: SegmentPatient[], role: UserRole): SegmentExportRow[] =>
+  patients.filter(hasMarketingConsent).map(p => {
+    const contact = viewPatientContact(p, role);
+    return {
+      chartId: p.chartId || '',
+      name: p.name,
+      phone: contact.phone || '',
+      lineId: contact.lineId || '',
+      gender: contact.gender ? GENDER_LABELS[contact.gender] : '',
+      birthday: contact.birthday || '',
+      lastVisit: p.lastVisit || '',
+      totalSpending: p.totalSpending || 0
+    };
+  });
@@ -0,0 +1,85 @@
+import { AccountingRow, NPRecord, PatientTimelineEntry, TechnicianRecord, TimelineCategory } from '../types';
+import { getAttendanceOutcome, ATTENDANCE_OUTCOME_LABELS } from './attendance';
+
+// Builds the entries of a patient's timeline from each kind of record. Fetching lives in
+// services/firebase (getPatientTimeline); calendar appointments are added by the caller because
+// they come from the clinic's calendar provider, not from Firestore.
+
+export const TIMELINE_CATEGORY_LABELS: Record<TimelineCategory, string> = {
+  visit: '看診',
+  np: 'NP',
+  lab: '技工',
+  sov: 'SOV 轉介',
+  appointment: '預約'
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const rowTimelineEntry = (row: AccountingRow): PatientTimelineEntry => {
+  const outcome = getAttendanceOutcome(row);
+  const items: Record<string, number> = {};
+  Object.entries(row.treatments || {}).forEach(([key, val]) => {
+    if (typeof val === 'number' && val !== 0) items[key] = val;
+  });
+  const isRefund = row.rowType === 'refund';
+  return {
+    id: `visit_${row.originalDate}_${row.id}`,
+    category: 'visit',
+    date: row.originalDate || '',
+    title: isRefund ? `退款${row.refundReason ? ` (${row.refundReason})` : ''}` : (row.treatmentContent || row.calendarTreatment || ''),
+    doctorName: row.doctorName || undefined,
+    amount: row.actualCollected || 0,
+    items,
+    status: row.calendarCancelled ? '日曆已取消' : outcome && outcome !== 'attended' ? ATTENDANCE_OUTCOME_LABELS[outcome] : undefined
+  };
+};
+
+export const npTimelineEntry = (record: NPRecord): PatientTimelineEntry => ({
+  id: `np_${record.id}`,
+  category: 'np',
+  date: record.date,
+  title: [record.marketingTag, record.treatment || record.calendarTreatment].filter(Boolean).join(' · ') || '新患初診',
+  detail: [record.source && `來源 ${record.source}`, record.consultant && `諮詢 ${record.consultant}`, record.note].filter(Boolean).join(' · ') || undefined,
+  doctorName: record.doctorName || undefined,
+  amount: record.isClosed ? record.dealAmount : undefined,
+  status: record.isClosed ? '已成交' : record.isVisited ? '已到診' : '未到診'
+});
+
+export const labTimelineEntry = (record: TechnicianRecord): PatientTimelineEntry => ({
+  id: `lab_${record.id}`,
+  category: 'lab',
+  date: record.date,
+  title: `${record.labName}${record.treatmentContent ? ` · ${record.treatmentContent}` : ''}`,
+  detail: (record.details || []).map(d => `${d.name}${d.toothPos ? ` (${d.toothPos})` : ''} x${d.qty}`).join('、') || record.note || undefined,
+  doctorName: record.doctorName || undefined,
+  amount: record.amount
+});
+
+// SOV referrals carry no date; the caller passes the first visit with an SOV amount when there is one
+export const sovTimelineEntry = (referral: { id: string; last3Id?: string }, date: string): PatientTimelineEntry => ({
+  id: `sov_${referral.id}`,
+  category: 'sov',
+  date,
+  title: 'SOV 轉介名單',
+  detail: referral.last3Id ? `身分證末三碼 ${referral.last3Id}` : undefined
+});
+
+export const appointmentTimelineEntry = (
+  event: { id: string; start: Date; treatment: string },
+  doctorName: string,
+  now: Date = new Date()
+): PatientTimelineEntry => ({
+  id: `appointment_${event.id}`,
+  category: 'appointment',
+  date: `${event.start.getFullYear()}-${pad(event.start.getMonth() + 1)}-${pad(event.start.getDate())}`,
+  time: `${pad(event.start.getHours())}:${pad(event.start.getMinutes())}`,
+  title: event.treatment,
+  doctorName,
+  status: event.start > now ? '即將到來' : undefined
+});
+
+// Newest first; undated entries go last
+export const sortTimeline = (entries: PatientTimelineEntry[]) =>
+  [...entries].sort((a, b) =>
+    Number(!a.date) - Number(!b.date) || b.date.localeCompare(a.date) || (b.time || '').localeCompare(a.time || '')
+  );
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { AccountingRow, NPRecord } from '../types';
+import { evaluateRow } from './validationRules';
+
+const row = (fields: Partial<AccountingRow> = {}, treatments: Partial<AccountingRow['treatments']> = {}): AccountingRow => ({
+  id: 'r1',
+  patientName: '王小明',
+  doctorName: '陳醫師',
+  doctorId: 'doc1',
+  paymentMethod: 'cash',
+  treatments: { regFee: 0, copayment: 0, sov: 0, ortho: 0, prostho: 0, implant: 0, whitening: 0, perio: 0, inv: 0, otherSelfPay: 0, consultant: '', ...treatments },
+  retail: { diyWhitening: 0, products: 0, productNote: '', staff: '' },
+  ...fields
+} as AccountingRow);
+
+const ruleIds = (r: AccountingRow, npRecord?: NPRecord, config?: Record<string, 'block' | 'warn' | 'off'>) =>
+  evaluateRow(r, { npRecord }, config).map(issue => `${issue.ruleId}:${issue.severity}`);
+
+describe('evaluateRow', () => {
+  it('passes a complete row', () => {
+    expect(evaluateRow(row({}, { regFee: 150 }), {})).toEqual([]);
+  });
+
+  it('blocks a charged row without patient, doctor or payment method and names what is missing', () => {
+    const issues = evaluateRow(row({ patientName: ' ', doctorId: '', paymentMethod: '' as any }, { regFee: 150 }), {});
+    expect(issues).toEqual([{ ruleId: 'required_fields', severity: 'block', message: '缺少 姓名、醫師、付款方式' }]);
+  });
+
+  it('leaves a row with nothing charged alone', () => {
+    expect(ruleIds(row({ patientName: '', doctorId: '' }))).toEqual([]);
+  });
+
+  it('warns about self-pay without a consultant by default', () => {
+    expect(ruleIds(row({}, { implant: 30000 }))).toEqual(['selfpay_consultant:warn']);
+    expect(ruleIds(row({}, { implant: 30000, consultant: '林諮詢' }))).toEqual([]);
+  });
+
+  it('applies the clinic severity over the default, including turning a rule off', () => {
+    const r = row({}, { implant: 30000 });
+    expect(ruleIds(r, undefined, { selfpay_consultant: 'block' })).toEqual(['selfpay_consultant:block']);
+    expect(ruleIds(r, undefined, { selfpay_consultant: 'off' })).toEqual([]);
+  });
+
+  it('only checks the lab fee once the rule is switched on, and never for SOV', () => {
+    const r = row({ labName: '精密技工所', labFee: 0 });
+    expect(ruleIds(r)).toEqual([]);
+    expect(ruleIds(r, undefined, { lab_fee: 'warn' })).toEqual(['lab_fee:warn']);
+    expect(ruleIds(row({ labName: 'SOV 轉介', labFee: 0 }), undefined, { lab_fee: 'warn' })).toEqual([]);
+  });
+
+  it('warns when the payment breakdown does not add up to the amount collected', () => {
+    const r = row({ actualCollected: 1000, paymentBreakdown: { cash: 500, card: 300, transfer: 0 } }, { regFee: 1000 });
+    expect(evaluateRow(r, {})).toEqual([{ ruleId: 'payment_breakdown', severity: 'warn', message: '付款明細 800 ≠ 實收 1,000' }]);
+  });
+
+  it('blocks a refund without a reason but allows its negative amounts', () => {
+    expect(ruleIds(row({ rowType: 'refund' }, { implant: -30000, consultant: '林諮詢' }))).toEqual(['refund_reason:block']);
+    expect(ruleIds(row({ rowType: 'refund', refundReason: '療程取消' }, { implant: -30000, consultant: '林諮詢' }))).toEqual([]);
+  });
+
+  it('warns about negative amounts on an ordinary row', () => {
+    expect(ruleIds(row({}, { regFee: -50 }))).toEqual(['negative_amount:warn']);
+  });
+
+  it('wants a source on the NP record of a new patient', () => {
+    const np = row({ npStatus: 'NP' });
+    expect(ruleIds(np)).toEqual(['np_source:warn']);
+    expect(ruleIds(np, { source: 'FB' } as NPRecord)).toEqual([]);
+  });
+});
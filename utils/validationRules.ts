@@ -0,0 +1,120 @@
+import { AccountingRow, NPRecord, RuleSeverity } from '../types';
+
+export interface RuleContext {
+  npRecord?: NPRecord;
+}
+
+export interface ValidationRule {
+  id: string;
+  label: string;
+  description: string;
+  defaultSeverity: RuleSeverity;
+  // Returns the problem in user-facing text, or null when the row passes
+  check: (row: AccountingRow, ctx: RuleContext) => string | null;
+}
+
+export interface RowIssue {
+  ruleId: string;
+  severity: 'block' | 'warn';
+  message: string;
+}
+
+const n = (val: any) => (isNaN(Number(val)) ? 0 : Number(val));
+
+const selfPayTotal = (row: AccountingRow) => {
+  const t = row.treatments;
+  return n(t.prostho) + n(t.implant) + n(t.ortho) + n(t.sov) + n(t.inv) + n(t.perio) + n(t.whitening) + n(t.otherSelfPay);
+};
+
+const rowTotal = (row: AccountingRow) =>
+  n(row.treatments.regFee) + n(row.treatments.copayment) + selfPayTotal(row) + n(row.retail.products) + n(row.retail.diyWhitening);
+
+const hasNegativeAmount = (row: AccountingRow) => {
+  const t = row.treatments;
+  return [t.regFee, t.copayment, t.prostho, t.implant, t.ortho, t.sov, t.inv, t.perio, t.whitening, t.otherSelfPay, row.retail.products, row.retail.diyWhitening]
+    .some(v => n(v) < 0);
+};
+
+export const isNPRow = (row: AccountingRow) =>
+  row.isNP === true ||
+  (typeof row.npStatus === 'string' && row.npStatus.toUpperCase().includes('NP')) ||
+  (typeof row.note === 'string' && row.note.toUpperCase().includes('NP'));
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'required_fields',
+    label: '有金額需填姓名/醫師/付款方式',
+    description: '有收費的列必須填寫病患姓名、醫師與付款方式。',
+    defaultSeverity: 'block',
+    check: (row) => {
+      if (rowTotal(row) === 0) return null;
+      const missing: string[] = [];
+      if (!row.patientName?.trim()) missing.push('姓名');
+      if (!row.doctorId) missing.push('醫師');
+      if (!row.paymentMethod) missing.push('付款方式');
+      return missing.length > 0 ? `缺少 ${missing.join('、')}` : null;
+    }
+  },
+  {
+    id: 'selfpay_consultant',
+    label: '自費需填諮詢師',
+    description: '自費項目金額大於 0 時必須選擇諮詢師。',
+    defaultSeverity: 'warn',
+    check: (row) => (selfPayTotal(row) > 0 && !row.treatments.consultant ? '自費未填諮詢師' : null)
+  },
+  {
+    id: 'lab_fee',
+    label: '技工所需填技工費',
+    description: '已選擇技工所 (SOV 除外) 的列必須有技工費。',
+    defaultSeverity: 'off',
+    check: (row) => (row.labName && !row.labName.startsWith('SOV') && n(row.labFee) <= 0 ? '已選技工所但無技工費' : null)
+  },
+  {
+    id: 'payment_breakdown',
+    label: '付款明細需等於實收',
+    description: '現金/刷卡/匯款明細加總必須等於實收金額。',
+    defaultSeverity: 'warn',
+    check: (row) => {
+      const pb = row.paymentBreakdown;
+      if (!pb) return null;
+      const sum = n(pb.cash) + n(pb.card) + n(pb.transfer);
+      if (sum === 0 && n(row.actualCollected) === 0) return null;
+      return sum !== n(row.actualCollected) ? `付款明細 ${sum.toLocaleString()} ≠ 實收 ${n(row.actualCollected).toLocaleString()}` : null;
+    }
+  },
+  {
+    id: 'refund_reason',
+    label: '退款需填原因',
+    description: '退款列必須填寫退款原因。',
+    defaultSeverity: 'block',
+    check: (row) => (row.rowType === 'refund' && !row.refundReason?.trim() ? '退款未填原因' : null)
+  },
+  {
+    id: 'negative_amount',
+    label: '負數金額需使用退款列',
+    description: '一般列不可輸入負數金額，退款或折讓請使用「退款」列，以便獎金、抽成與技工費正確沖銷。',
+    defaultSeverity: 'warn',
+    check: (row) => (row.rowType !== 'refund' && hasNegativeAmount(row) ? '一般列含負數金額，請改用退款列' : null)
+  },
+  {
+    id: 'np_source',
+    label: 'NP 需填來源',
+    description: '新患 (NP) 必須在 NP 紀錄中填寫來源管道。',
+    defaultSeverity: 'warn',
+    check: (row, ctx) => (isNPRow(row) && row.patientName?.trim() && !ctx.npRecord?.source ? 'NP 未填來源' : null)
+  }
+];
+
+export const getRuleSeverity = (rule: ValidationRule, config?: Record<string, RuleSeverity>): RuleSeverity =>
+  config?.[rule.id] || rule.defaultSeverity;
+
+export const evaluateRow = (row: AccountingRow, ctx: RuleContext, config?: Record<string, RuleSeverity>): RowIssue[] => {
+  const issues: RowIssue[] = [];
+  VALIDATION_RULES.forEach(rule => {
+    const severity = getRuleSeverity(rule, config);
+    if (severity === 'off') return;
+    const message = rule.check(row, ctx);
+    if (message) issues.push({ ruleId: rule.id, severity, message });
+  });
+  return issues;
+};